@@ -0,0 +1,60 @@
+// Imported into the Workbox service worker (see workbox.importScripts in vite.config.ts).
+// Serves videos downloaded for offline viewing from Cache Storage, answering Range
+// requests with 206 slices so the <video> element can seek.
+// Keep OFFLINE_VIDEO_CACHE in sync with src/lib/offlineVideos.ts.
+
+const OFFLINE_VIDEO_CACHE = 'offline-videos';
+
+function parseRange(header, size) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  // "bytes=-500" asks for the last 500 bytes
+  if (match[1] === '') {
+    const suffix = Math.min(Number(match[2]), size);
+    return { start: size - suffix, end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  return start <= end && start < size ? { start, end } : null;
+}
+
+async function serveOfflineVideo(request) {
+  const cache = await caches.open(OFFLINE_VIDEO_CACHE);
+  const cached = await cache.match(request.url, { ignoreVary: true });
+  if (!cached) return fetch(request);
+
+  const rangeHeader = request.headers.get('range');
+  if (!rangeHeader) return cached;
+
+  const blob = await cached.blob();
+  const range = parseRange(rangeHeader, blob.size);
+  const contentType = cached.headers.get('content-type') || 'video/mp4';
+
+  if (!range) {
+    return new Response(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${blob.size}` },
+    });
+  }
+
+  return new Response(blob.slice(range.start, range.end + 1, contentType), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': contentType,
+      'Content-Length': String(range.end - range.start + 1),
+      'Content-Range': `bytes ${range.start}-${range.end}/${blob.size}`,
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (request.destination !== 'video' && request.destination !== 'audio') return;
+
+  event.respondWith(serveOfflineVideo(request));
+});
@@ -6,6 +6,8 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { CampaignManager } from '@/components/CampaignManager';
+import { PromoBurnDashboard } from '@/components/PromoBurnDashboard';
 
 interface BusinessStats {
   followers: number;
@@ -211,6 +213,8 @@ export const BusinessProfile: React.FC<BusinessProfileProps> = ({ isOpen, onClos
           <TabsTrigger value="about">About</TabsTrigger>
           <TabsTrigger value="posts">Posts</TabsTrigger>
           <TabsTrigger value="promos">Promos</TabsTrigger>
+          {isOwnProfile && <TabsTrigger value="campaigns">Campaigns</TabsTrigger>}
+          {isOwnProfile && <TabsTrigger value="burn">Promo Burn</TabsTrigger>}
           {isOwnProfile && <TabsTrigger value="analytics">Analytics</TabsTrigger>}
         </TabsList>
 
@@ -247,6 +251,18 @@ export const BusinessProfile: React.FC<BusinessProfileProps> = ({ isOpen, onClos
           </div>
         </TabsContent>
 
+        {isOwnProfile && (
+          <TabsContent value="campaigns" className="p-4">
+            <CampaignManager />
+          </TabsContent>
+        )}
+
+        {isOwnProfile && (
+          <TabsContent value="burn" className="p-4">
+            <PromoBurnDashboard />
+          </TabsContent>
+        )}
+
         {isOwnProfile && (
           <TabsContent value="analytics" className="p-4 space-y-6">
             {/* Revenue Card */}
@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { Plus, Pause, Play, Pencil, Trash2, Loader2, Target, Eye } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { format } from 'date-fns';
+import { useCampaigns } from '@/hooks/useCampaigns';
+import type { Campaign } from '@/types/app.types';
+
+const REWARD_TYPES: Campaign['reward_type'][] = ['vicoin', 'icoin', 'discount', 'product'];
+const REQUIRED_ACTIONS: Campaign['required_action'][] = ['view', 'like', 'share', 'visit', 'purchase'];
+
+const STATUS_VARIANTS: Record<Campaign['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  active: 'default',
+  paused: 'secondary',
+  completed: 'outline',
+  expired: 'outline',
+};
+
+// Numeric fields are edited as strings
+interface CampaignForm {
+  title: string;
+  description: string;
+  rewardType: Campaign['reward_type'];
+  rewardAmount: string;
+  requiredAction: Campaign['required_action'];
+  targetViews: string;
+  budget: string;
+  pacing: Campaign['pacing'];
+  endDate: string;
+}
+
+const EMPTY_FORM: CampaignForm = {
+  title: '',
+  description: '',
+  rewardType: 'icoin',
+  rewardAmount: '5',
+  requiredAction: 'view',
+  targetViews: '0',
+  budget: '1000',
+  pacing: 'even',
+  endDate: '',
+};
+
+export const CampaignManager: React.FC = () => {
+  const { campaigns, isLoading, createCampaign, updateCampaign, pauseCampaign, resumeCampaign, deleteCampaign } = useCampaigns();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editing, setEditing] = useState<Campaign | null>(null);
+  const [form, setForm] = useState<CampaignForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const updateField = <K extends keyof CampaignForm>(key: K, value: CampaignForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setShowDialog(true);
+  };
+
+  const openEdit = (campaign: Campaign) => {
+    setEditing(campaign);
+    setForm({
+      title: campaign.title,
+      description: campaign.description,
+      rewardType: campaign.reward_type,
+      rewardAmount: String(campaign.reward_amount),
+      requiredAction: campaign.required_action,
+      targetViews: String(campaign.target_views),
+      budget: String(campaign.budget),
+      pacing: campaign.pacing,
+      endDate: format(new Date(campaign.end_date), "yyyy-MM-dd'T'HH:mm"),
+    });
+    setShowDialog(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const shared = {
+      title: form.title,
+      description: form.description,
+      rewardAmount: Number(form.rewardAmount),
+      targetViews: Number(form.targetViews),
+      budget: Number(form.budget),
+      pacing: form.pacing,
+      endDate: new Date(form.endDate).toISOString(),
+    };
+    const saved = editing
+      ? await updateCampaign(editing.id, shared)
+      : await createCampaign({ ...shared, rewardType: form.rewardType, requiredAction: form.requiredAction });
+    setIsSaving(false);
+    if (saved) setShowDialog(false);
+  };
+
+  const runAction = async (campaignId: string, action: (id: string) => Promise<unknown>) => {
+    setBusyId(campaignId);
+    await action(campaignId);
+    setBusyId(null);
+  };
+
+  const canSave = form.title.trim() !== '' && form.endDate !== '' &&
+    Number(form.rewardAmount) > 0 && Number(form.budget) > 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold">Campaigns</h3>
+        <Button size="sm" className="gap-1" onClick={openCreate}>
+          <Plus className="w-4 h-4" />
+          New Campaign
+        </Button>
+      </div>
+
+      {campaigns.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          No campaigns yet. Launch one to start rewarding customers.
+        </p>
+      )}
+
+      {campaigns.map((campaign) => {
+        const remaining = campaign.budget - campaign.spent;
+        const spentPercent = Math.min(100, (campaign.spent / campaign.budget) * 100);
+        const isBusy = busyId === campaign.id;
+
+        return (
+          <div key={campaign.id} className="p-4 bg-muted/50 rounded-xl space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <h4 className="font-medium truncate">{campaign.title}</h4>
+                  <Badge variant={STATUS_VARIANTS[campaign.status]}>{campaign.status}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {campaign.reward_amount} {campaign.reward_type} per {campaign.required_action} •{' '}
+                  ends {format(new Date(campaign.end_date), 'MMM d, yyyy')}
+                </p>
+                {campaign.pause_reason === 'budget_exhausted' && (
+                  <p className="text-xs text-destructive">Budget spent — raise it to resume</p>
+                )}
+                {campaign.pause_reason === 'unfunded' && (
+                  <p className="text-xs text-destructive">Resume to fund the budget from your wallet</p>
+                )}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {campaign.status === 'active' && (
+                  <Button variant="ghost" size="icon" disabled={isBusy} onClick={() => runAction(campaign.id, pauseCampaign)}>
+                    <Pause className="w-4 h-4" />
+                  </Button>
+                )}
+                {campaign.status === 'paused' && (
+                  <Button variant="ghost" size="icon" disabled={isBusy || remaining <= 0} onClick={() => runAction(campaign.id, resumeCampaign)}>
+                    <Play className="w-4 h-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="icon" disabled={isBusy} onClick={() => openEdit(campaign)}>
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                {campaign.spent === 0 && (
+                  <Button variant="ghost" size="icon" disabled={isBusy} onClick={() => runAction(campaign.id, deleteCampaign)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <div className="flex justify-between text-sm mb-2">
+                <span>{campaign.spent.toLocaleString()} spent</span>
+                <span className="text-muted-foreground">{remaining.toLocaleString()} of {campaign.budget.toLocaleString()} left</span>
+              </div>
+              <Progress value={spentPercent} className="h-2" />
+            </div>
+
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Eye className="w-3 h-3" />
+                {campaign.current_views.toLocaleString()} rewarded
+              </span>
+              {campaign.target_views > 0 && (
+                <span className="flex items-center gap-1">
+                  <Target className="w-3 h-3" />
+                  target {campaign.target_views.toLocaleString()}
+                </span>
+              )}
+              <span>{campaign.pacing === 'even' ? 'Even pacing' : 'As fast as possible'}</span>
+            </div>
+          </div>
+        );
+      })}
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit Campaign' : 'New Campaign'}</DialogTitle>
+            <DialogDescription>
+              Rewards are paid from the budget; the campaign pauses itself when it runs out.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="campaign-title" className="text-xs">Title</Label>
+              <Input id="campaign-title" value={form.title} onChange={(e) => updateField('title', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="campaign-description" className="text-xs">Description</Label>
+              <Textarea id="campaign-description" value={form.description} onChange={(e) => updateField('description', e.target.value)} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Reward</Label>
+                <Select
+                  value={form.rewardType}
+                  onValueChange={(value) => updateField('rewardType', value as Campaign['reward_type'])}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REWARD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Required action</Label>
+                <Select
+                  value={form.requiredAction}
+                  onValueChange={(value) => updateField('requiredAction', value as Campaign['required_action'])}
+                  disabled={!!editing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REQUIRED_ACTIONS.map(action => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="campaign-amount" className="text-xs">Reward amount</Label>
+                <Input id="campaign-amount" type="number" min={1} value={form.rewardAmount} onChange={(e) => updateField('rewardAmount', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="campaign-budget" className="text-xs">Budget</Label>
+                <Input id="campaign-budget" type="number" min={editing?.spent || 1} value={form.budget} onChange={(e) => updateField('budget', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="campaign-target" className="text-xs">Target actions (0 = none)</Label>
+                <Input id="campaign-target" type="number" min={0} value={form.targetViews} onChange={(e) => updateField('targetViews', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Pacing</Label>
+                <Select value={form.pacing} onValueChange={(value) => updateField('pacing', value as Campaign['pacing'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="even">Even</SelectItem>
+                    <SelectItem value="asap">As fast as possible</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="campaign-end" className="text-xs">Ends</Label>
+              <Input id="campaign-end" type="datetime-local" value={form.endDate} onChange={(e) => updateField('endDate', e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={!canSave || isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? 'Save' : 'Launch'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
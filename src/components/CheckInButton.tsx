@@ -7,6 +7,7 @@ import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { ConfettiCelebration } from './ConfettiCelebration';
 import { notificationSoundService } from '@/services/notificationSound.service';
+import { securityService } from '@/services/security.service';
 
 interface CheckInButtonProps {
   promotion: {
@@ -16,6 +17,7 @@ interface CheckInButtonProps {
     longitude: number;
     reward_amount: number;
     reward_type: 'vicoin' | 'icoin' | 'both';
+    geofence_radius_meters?: number;
   };
   className?: string;
   onSuccess?: () => void;
@@ -32,6 +34,7 @@ export const CheckInButton: React.FC<CheckInButtonProps> = ({
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [showConfetti, setShowConfetti] = useState(false);
   const [distance, setDistance] = useState<number | null>(null);
+  const maxDistance = promotion.geofence_radius_meters ?? 100;
   const [streakInfo, setStreakInfo] = useState<{ current: number; bonus: number; bonusAmount: number } | null>(null);
 
   const handleCheckIn = async () => {
@@ -69,14 +72,12 @@ export const CheckInButton: React.FC<CheckInButtonProps> = ({
       const { data, error } = await supabase.functions.invoke('verify-checkin', {
         body: {
           promotionId: promotion.id,
-          businessName: promotion.business_name,
-          promotionLat: promotion.latitude,
-          promotionLng: promotion.longitude,
           userLat,
           userLng,
-          rewardAmount: promotion.reward_amount,
-          rewardType: promotion.reward_type === 'both' ? 'vicoin' : promotion.reward_type,
-          maxDistanceMeters: 100,
+          maxDistanceMeters: maxDistance,
+          accuracy: position.coords.accuracy,
+          recordedAt: new Date(position.timestamp).toISOString(),
+          deviceFingerprint: await securityService.generateFingerprint(),
         },
       });
 
@@ -201,7 +202,7 @@ export const CheckInButton: React.FC<CheckInButtonProps> = ({
       {/* Distance indicator */}
       {distance !== null && checkInStatus !== 'success' && (
         <p className="text-xs text-muted-foreground mt-1">
-          You are {distance}m away (need to be within 100m)
+          You are {distance}m away (need to be within {maxDistance}m)
         </p>
       )}
 
@@ -87,6 +87,9 @@ export function CheckInHistory({ trigger, open: controlledOpen, onOpenChange: co
     if (status === 'failed') {
       return <Badge variant="destructive">Failed</Badge>;
     }
+    if (status === 'flagged') {
+      return <Badge variant="outline" className="border-yellow-500 text-yellow-600">Under review</Badge>;
+    }
     return <Badge variant="outline">Pending</Badge>;
   };
 
@@ -124,64 +124,23 @@ export const CoinGifting: React.FC<CoinGiftingProps> = ({ vicoins, icoins, onGif
 
     setSending(true);
     try {
-      // Deduct from sender's balance
-      const balanceField = giftCoinType === 'vicoin' ? 'vicoin_balance' : 'icoin_balance';
-      
-      const { error: deductError } = await supabase
-        .from('profiles')
-        .update({ [balanceField]: balance - amount })
-        .eq('user_id', user?.id);
-
-      if (deductError) throw deductError;
-
-      // Add to recipient's balance
-      const { data: recipientProfile, error: recipientFetchError } = await supabase
-        .from('profiles')
-        .select(balanceField)
-        .eq('user_id', selectedUser.user_id)
-        .single();
-
-      if (recipientFetchError) throw recipientFetchError;
-
-      const currentRecipientBalance = (recipientProfile as any)[balanceField] || 0;
-      
-      const { error: addError } = await supabase
-        .from('profiles')
-        .update({ [balanceField]: currentRecipientBalance + amount })
-        .eq('user_id', selectedUser.user_id);
-
-      if (addError) throw addError;
-
-      // Record the gift
-      const { error: giftError } = await supabase
-        .from('coin_gifts')
-        .insert({
-          sender_id: user?.id,
-          recipient_id: selectedUser.user_id,
-          amount,
-          coin_type: giftCoinType,
-          message: giftMessage || null,
-        });
-
-      if (giftError) throw giftError;
-
-      // Create transaction records
-      await supabase.from('transactions').insert([
-        {
-          user_id: user?.id,
-          type: 'gift_sent',
-          coin_type: giftCoinType,
-          amount: -amount,
-          description: `Gift to @${selectedUser.username}`,
-        },
-        {
-          user_id: selectedUser.user_id,
-          type: 'gift_received',
-          coin_type: giftCoinType,
-          amount,
-          description: `Gift from @${user?.email?.split('@')[0] || 'user'}`,
-        },
-      ]);
+      // Balance check, ledger entry, gift record and transactions happen atomically server-side
+      const { data, error } = await supabase.rpc('atomic_send_gift', {
+        p_recipient_id: selectedUser.user_id,
+        p_amount: amount,
+        p_coin_type: giftCoinType,
+        p_message: giftMessage || null,
+      });
+
+      if (error) {
+        if (error.message?.includes('INSUFFICIENT_BALANCE')) {
+          toast({ title: 'Insufficient balance', variant: 'destructive' });
+          return;
+        }
+        throw error;
+      }
+
+      console.log('[CoinGifting] Gift sent:', data);
 
       toast({ title: `Gift sent to @${selectedUser.username}!` });
       setIsGifting(false);
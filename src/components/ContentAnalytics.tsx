@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { Eye, Heart, Share2, MessageCircle, TrendingUp, Calendar } from 'lucide-react';
+import { Eye, Heart, Share2, MessageCircle, TrendingUp, Calendar, Compass } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from 'recharts';
 import { supabase } from '@/integrations/supabase/client';
+import { fetchFeedExplanation, type FeedExplanation, type ScoreComponent } from '@/hooks/usePersonalizedFeed';
 import { format, subDays, eachDayOfInterval, startOfDay, endOfDay } from 'date-fns';
 
 interface ContentAnalyticsProps {
@@ -17,16 +18,44 @@ interface InteractionData {
   watch_duration: number | null;
 }
 
+const SCORE_LABELS: Record<ScoreComponent, string> = {
+  base: 'Base',
+  reward: 'Reward',
+  popularity: 'Popularity',
+  freshness: 'Freshness',
+  likedTags: 'Matching tags',
+  dislikedTags: 'Disliked tags',
+  category: 'Preferred category',
+  engagement: 'Category engagement',
+  collaborative: 'Similar viewers',
+  alreadySeen: 'Already seen',
+  nearby: 'Nearby',
+  exploration: 'Exploration pick',
+};
+
+const DEMOTION_LABELS: Record<NonNullable<FeedExplanation['demotedBy']>, string> = {
+  author_cap: 'Moved down so one creator doesn\'t fill a page',
+  category_cap: 'Moved down so one category doesn\'t fill a page',
+};
+
 export const ContentAnalytics: React.FC<ContentAnalyticsProps> = ({ contentId }) => {
   const [period, setPeriod] = useState<'7d' | '30d'>('7d');
   const [content, setContent] = useState<any>(null);
   const [interactions, setInteractions] = useState<InteractionData[]>([]);
   const [loading, setLoading] = useState(true);
+  const [explanation, setExplanation] = useState<FeedExplanation | null>(null);
 
   useEffect(() => {
     loadAnalytics();
   }, [contentId, period]);
 
+  useEffect(() => {
+    setExplanation(null);
+    fetchFeedExplanation(contentId)
+      .then(setExplanation)
+      .catch((error) => console.error('Error loading feed visibility:', error));
+  }, [contentId]);
+
   const loadAnalytics = async () => {
     setLoading(true);
     try {
@@ -151,6 +180,50 @@ export const ContentAnalytics: React.FC<ContentAnalyticsProps> = ({ contentId })
         </Card>
       </div>
 
+      {/* Feed Visibility */}
+      {explanation && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium flex items-center gap-2">
+              <Compass className="w-4 h-4" />
+              Feed Visibility
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            {explanation.shown ? (
+              <p>
+                Ranked <span className="font-semibold">#{explanation.rank}</span> of {explanation.total} in today's default feed
+                {explanation.reason && <span className="text-muted-foreground"> · {explanation.reason}</span>}
+              </p>
+            ) : (
+              <p className="text-muted-foreground">Not in today's default feed</p>
+            )}
+            {explanation.notShown.map((reason) => (
+              <p key={reason} className="text-xs text-muted-foreground">• {reason}</p>
+            ))}
+            {explanation.demotedBy && (
+              <p className="text-xs text-muted-foreground">• {DEMOTION_LABELS[explanation.demotedBy]}</p>
+            )}
+            {explanation.breakdown && (
+              <div className="space-y-1 pt-1">
+                {(Object.entries(explanation.breakdown) as [ScoreComponent, number][]).map(([component, points]) => (
+                  <div key={component} className="flex justify-between text-xs">
+                    <span className="text-muted-foreground">{SCORE_LABELS[component]}</span>
+                    <span className={points < 0 ? 'text-destructive' : ''}>
+                      {points > 0 ? '+' : ''}{points.toFixed(1)}
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between text-xs font-semibold border-t pt-1">
+                  <span>Score</span>
+                  <span>{explanation.score?.toFixed(1)}</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Views Chart */}
       <Card>
         <CardHeader className="pb-2">
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useCallback } from 'react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { Upload, X, Image, Video, Loader2, CheckCircle2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -12,6 +12,8 @@ interface ContentUploadProps {
   mediaType: 'image' | 'video' | 'carousel';
   existingUrl?: string;
   onRemove?: () => void;
+  // A file produced elsewhere (e.g. a Studio export) to upload straight away
+  initialFile?: File | null;
 }
 
 export const ContentUpload: React.FC<ContentUploadProps> = ({
@@ -19,6 +21,7 @@ export const ContentUpload: React.FC<ContentUploadProps> = ({
   mediaType,
   existingUrl,
   onRemove,
+  initialFile,
 }) => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -36,9 +39,8 @@ export const ContentUpload: React.FC<ContentUploadProps> = ({
 
   const maxSize = mediaType === 'video' ? 100 * 1024 * 1024 : 20 * 1024 * 1024; // 100MB for video, 20MB for images
 
-  const handleFileSelect = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !user) return;
+  const uploadFile = useCallback(async (file: File) => {
+    if (!user) return;
 
     // Validate file size
     if (file.size > maxSize) {
@@ -118,6 +120,18 @@ export const ContentUpload: React.FC<ContentUploadProps> = ({
     }
   }, [user, maxSize, toast, onUploadComplete]);
 
+  const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) uploadFile(file);
+  }, [uploadFile]);
+
+  const uploadedInitialRef = useRef<File | null>(null);
+  useEffect(() => {
+    if (!initialFile || !user || uploadedInitialRef.current === initialFile) return;
+    uploadedInitialRef.current = initialFile;
+    uploadFile(initialFile);
+  }, [initialFile, user, uploadFile]);
+
   const handleRemove = () => {
     setPreviewUrl(null);
     setUploadedType(null);
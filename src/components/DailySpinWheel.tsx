@@ -12,6 +12,7 @@ interface WheelSegment {
   coinType: 'vicoin' | 'icoin';
   color: string;
   icon: React.ReactNode;
+  // Relative weight; the draw itself happens in claim_daily_spin, which mirrors these
   probability: number;
 }
 
@@ -51,19 +52,18 @@ export const DailySpinWheel: React.FC<DailySpinWheelProps> = ({ className, onSpi
     if (!user) return;
 
     const today = new Date().toISOString().split('T')[0];
-    
-    // Check last spin from daily_reward_caps or a dedicated field
+
     const { data } = await supabase
-      .from('daily_reward_caps')
-      .select('date')
+      .from('daily_spins')
+      .select('spin_date')
       .eq('user_id', user.id)
-      .order('date', { ascending: false })
+      .order('spin_date', { ascending: false })
       .limit(1)
-      .single();
+      .maybeSingle();
 
     if (data) {
-      setLastSpinDate(data.date);
-      setCanSpin(data.date !== today);
+      setLastSpinDate(data.spin_date);
+      setCanSpin(data.spin_date !== today);
     } else {
       setCanSpin(true);
     }
@@ -83,17 +83,6 @@ export const DailySpinWheel: React.FC<DailySpinWheelProps> = ({ className, onSpi
     setTimeUntilNextSpin(`${hours}h ${minutes}m ${seconds}s`);
   };
 
-  const selectWinningSegment = (): number => {
-    const totalProbability = WHEEL_SEGMENTS.reduce((sum, s) => sum + s.probability, 0);
-    let random = Math.random() * totalProbability;
-    
-    for (let i = 0; i < WHEEL_SEGMENTS.length; i++) {
-      random -= WHEEL_SEGMENTS[i].probability;
-      if (random <= 0) return i;
-    }
-    return 0;
-  };
-
   const handleSpin = async () => {
     if (!canSpin || spinning || !user) return;
 
@@ -101,8 +90,16 @@ export const DailySpinWheel: React.FC<DailySpinWheelProps> = ({ className, onSpi
     setReward(null);
     haptics.medium();
 
-    // Select winning segment
-    const winningIndex = selectWinningSegment();
+    // The server draws the outcome and pays it through the ledger; the wheel just shows it
+    const { data, error } = await supabase.rpc('claim_daily_spin');
+    if (error || !data) {
+      console.error('Failed to spin:', error);
+      setSpinning(false);
+      if (error?.message?.includes('ALREADY_SPUN')) setCanSpin(false);
+      return;
+    }
+
+    const winningIndex = (data as { segment: number }).segment;
     const segmentAngle = 360 / WHEEL_SEGMENTS.length;
     const targetAngle = 360 - (winningIndex * segmentAngle) - segmentAngle / 2;
     const spins = 5 + Math.random() * 3; // 5-8 full spins
@@ -111,48 +108,12 @@ export const DailySpinWheel: React.FC<DailySpinWheelProps> = ({ className, onSpi
     setRotation(finalRotation);
 
     // Wait for animation
-    setTimeout(async () => {
+    setTimeout(() => {
       const wonReward = WHEEL_SEGMENTS[winningIndex];
       setReward(wonReward);
       setSpinning(false);
       setCanSpin(false);
       haptics.heavy();
-
-      // Record the reward
-      try {
-        const balanceField = wonReward.coinType === 'vicoin' ? 'vicoin_balance' : 'icoin_balance';
-        
-        // Get current balance
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select(balanceField)
-          .eq('user_id', user.id)
-          .single();
-
-        if (profile) {
-          const currentBalance = (profile as any)[balanceField] || 0;
-          
-          // Update balance
-          await supabase
-            .from('profiles')
-            .update({ [balanceField]: currentBalance + wonReward.value })
-            .eq('user_id', user.id);
-
-          // Record transaction
-          await supabase
-            .from('transactions')
-            .insert({
-              user_id: user.id,
-              amount: wonReward.value,
-              coin_type: wonReward.coinType,
-              type: 'spin_reward',
-              description: `Daily spin wheel reward: ${wonReward.label}`
-            });
-        }
-      } catch (error) {
-        console.error('Failed to record spin reward:', error);
-      }
-
       onSpinComplete?.(wonReward);
     }, 5000);
   };
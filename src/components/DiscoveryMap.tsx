@@ -16,6 +16,7 @@ import { RouteBuilder } from './RouteBuilder';
 import { useNearbyPromotions } from '@/hooks/useNearbyPromotions';
 import { usePromoRoute, defaultRouteFilters } from '@/hooks/usePromoRoute';
 import type { PromoRoute, RouteStop, TransportMode, RouteFilters } from '@/hooks/usePromoRoute';
+import type { OpeningHours } from '@/lib/routeSolver';
 
 interface Promotion {
   id: string;
@@ -29,8 +30,58 @@ interface Promotion {
   address: string;
   category: string;
   distance?: number;
+  geofence_radius_meters?: number;
+  opening_hours?: OpeningHours | null;
+  expires_at?: string | null;
 }
 
+// A grid cell of promotions from get-nearby-promotions; cells holding a single
+// promotion carry it so it can be drawn as a normal pin
+interface PromotionCluster {
+  latitude: number;
+  longitude: number;
+  count: number;
+  rewardTotal: number;
+  maxReward: number;
+  promotion: Promotion | null;
+}
+
+interface MapViewport {
+  bounds: { west: number; south: number; east: number; north: number };
+  zoom: number;
+}
+
+const LIST_PAGE_SIZE = 10;
+// Clicking a cluster zooms in this far, up to the zoom where the server stops clustering
+const CLUSTER_ZOOM_STEP = 2;
+const UNCLUSTERED_ZOOM = 15;
+
+// Mapbox reports longitudes beyond ±180 once the world wraps; the server wants them
+// normalised, with west > east meaning the view crosses the antimeridian
+const getViewport = (mapInstance: mapboxgl.Map): MapViewport | null => {
+  const bounds = mapInstance.getBounds();
+  if (!bounds) return null;
+
+  const wrap = (lng: number) => (lng < -180 || lng > 180 ? ((lng + 540) % 360) - 180 : lng);
+  const fullWidth = bounds.getEast() - bounds.getWest() >= 360;
+  return {
+    bounds: {
+      west: fullWidth ? -180 : wrap(bounds.getWest()),
+      south: Math.max(-90, bounds.getSouth()),
+      east: fullWidth ? 180 : wrap(bounds.getEast()),
+      north: Math.min(90, bounds.getNorth()),
+    },
+    zoom: mapInstance.getZoom(),
+  };
+};
+
+const isInViewport = (promo: Promotion, { bounds }: MapViewport) => {
+  if (promo.latitude < bounds.south || promo.latitude > bounds.north) return false;
+  return bounds.west <= bounds.east
+    ? promo.longitude >= bounds.west && promo.longitude <= bounds.east
+    : promo.longitude >= bounds.west || promo.longitude <= bounds.east;
+};
+
 interface DiscoveryMapProps {
   isOpen: boolean;
   onClose: () => void;
@@ -170,6 +221,12 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
   const popupsRef = useRef<mapboxgl.Popup[]>([]);
   
   const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [clusters, setClusters] = useState<PromotionCluster[]>([]);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const [listCenter, setListCenter] = useState<{ lat: number; lng: number } | null>(null);
+  const [listPromos, setListPromos] = useState<Promotion[]>([]);
+  const [listCursor, setListCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [selectedPromo, setSelectedPromo] = useState<Promotion | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -290,6 +347,8 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
       rewardType: promo.reward_type,
       rewardAmount: promo.reward_amount,
       requiredAction: promo.required_action,
+      openingHours: promo.opening_hours,
+      expiresAt: promo.expires_at,
     });
     toast.success(`Added ${promo.business_name} to route`);
   }, [promoRoute]);
@@ -311,6 +370,8 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
         rewardType: promo.reward_type,
         rewardAmount: promo.reward_amount,
         requiredAction: promo.required_action,
+        openingHours: promo.opening_hours,
+        expiresAt: promo.expires_at,
       });
       toast.success('Added to Watch Later');
     }
@@ -337,6 +398,8 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
         reward_type: p.reward_type,
         reward_amount: p.reward_amount,
         required_action: p.required_action,
+        opening_hours: p.opening_hours,
+        expires_at: p.expires_at,
       })),
       userLocation.lat,
       userLocation.lng,
@@ -533,12 +596,17 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
       .setLngLat([userLocation.lng, userLocation.lat])
       .addTo(map.current);
 
+    map.current.on('load', () => {
+      if (map.current) setViewport(getViewport(map.current));
+    });
+
     map.current.on('moveend', () => {
       if (!map.current) return;
       const center = map.current.getCenter();
       const zoom = map.current.getZoom();
       
       setMapCenter({ lat: center.lat, lng: center.lng });
+      setViewport(getViewport(map.current));
       
       if (userLocation) {
         const distance = Math.sqrt(
@@ -573,6 +641,45 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
 
     const hasActiveRoute = promoRoute.isBuilding && promoRoute.totalStops > 0;
 
+    clusters.forEach(cluster => {
+      const size = Math.min(72, 40 + Math.log10(cluster.count) * 16);
+      const el = document.createElement('div');
+      el.innerHTML = `
+        <div style="
+          width: ${size}px;
+          height: ${size}px;
+          border-radius: 50%;
+          background: ${getRewardGradient(cluster.maxReward, 'both')};
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          justify-content: center;
+          color: white;
+          cursor: pointer;
+          border: 3px solid rgba(255, 255, 255, 0.8);
+          box-shadow: 0 4px 15px rgba(0, 0, 0, 0.3);
+          line-height: 1.1;
+        ">
+          <span style="font-weight: bold; font-size: 15px;">${cluster.count}</span>
+          <span style="font-size: 10px; opacity: 0.9;">+${cluster.rewardTotal.toLocaleString()}</span>
+        </div>
+      `;
+
+      el.addEventListener('click', () => {
+        if (!map.current) return;
+        map.current.flyTo({
+          center: [cluster.longitude, cluster.latitude],
+          zoom: Math.min(map.current.getZoom() + CLUSTER_ZOOM_STEP, UNCLUSTERED_ZOOM),
+        });
+      });
+
+      const marker = new mapboxgl.Marker(el)
+        .setLngLat([cluster.longitude, cluster.latitude])
+        .addTo(map.current!);
+
+      markersRef.current.push(marker);
+    });
+
     filteredPromos.forEach(promo => {
       const coinIcon = promo.reward_type === 'vicoin' ? 'V' : promo.reward_type === 'icoin' ? 'I' : '★';
       const inRoute = promoRoute.isInRoute(promo.id);
@@ -650,85 +757,119 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
       markersRef.current.push(marker);
       popupsRef.current.push(popup);
     });
-  }, [promotions, filter, createPopupHTML, promoRoute.activeRoute?.stops, completedStops, userLocation, haversineMeters, getMarkerStyle]);
+  }, [promotions, clusters, filter, createPopupHTML, promoRoute.activeRoute?.stops, completedStops, userLocation, haversineMeters, getMarkerStyle]);
 
-  const fetchPromotions = async (searchCenter?: { lat: number; lng: number }) => {
-    const center = searchCenter || userLocation;
-    if (!center) return;
-    
-    setIsLoading(true);
-    setShowSearchHere(false);
-    
-    try {
-      const { data, error } = await supabase.functions.invoke('get-nearby-promotions', {
-        body: {
-          latitude: center.lat,
-          longitude: center.lng,
-          radiusKm: 10,
-          rewardType: filter === 'all' ? undefined : filter,
-        },
-      });
+  // Pins and clusters follow the viewport; the server groups promotions by zoom level
+  useEffect(() => {
+    if (!viewport) return;
+    let cancelled = false;
 
-      if (error) throw error;
-      
-      const dbPromos = data?.promotions || [];
-      const zoom = map.current?.getZoom() || 14;
-      const allMockPromos = [...localPromos, ...globalPromos];
-      
-      if (zoom < 6) {
-        const visiblePromos = allMockPromos.filter(p => {
-          if (filter === 'all') return true;
-          return p.reward_type === filter || p.reward_type === 'both';
-        });
-        setPromotions([...dbPromos, ...visiblePromos]);
-      } else if (zoom < 10) {
-        const visiblePromos = allMockPromos.filter(p => {
-          const distance = Math.sqrt(
-            Math.pow(p.latitude - center.lat, 2) + 
-            Math.pow(p.longitude - center.lng, 2)
-          );
-          const inRange = distance < 3;
-          if (filter === 'all') return inRange;
-          return inRange && (p.reward_type === filter || p.reward_type === 'both');
-        });
-        setPromotions([...dbPromos, ...visiblePromos]);
-      } else {
-        const nearbyPromos = allMockPromos.filter(p => {
-          const distance = Math.sqrt(
-            Math.pow(p.latitude - center.lat, 2) + 
-            Math.pow(p.longitude - center.lng, 2)
-          );
-          const inRange = distance < 0.5;
-          if (filter === 'all') return inRange;
-          return inRange && (p.reward_type === filter || p.reward_type === 'both');
+    const matchesFilter = (p: Promotion) => filter === 'all' || p.reward_type === filter || p.reward_type === 'both';
+
+    const timer = setTimeout(async () => {
+      const mockPromos = [...localPromos, ...globalPromos].filter(p => matchesFilter(p) && isInViewport(p, viewport));
+
+      try {
+        const { data, error } = await supabase.functions.invoke('get-nearby-promotions', {
+          body: {
+            bounds: viewport.bounds,
+            zoom: viewport.zoom,
+            rewardType: filter === 'all' ? undefined : filter,
+          },
         });
-        setPromotions([...dbPromos, ...nearbyPromos]);
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        const cells: PromotionCluster[] = data?.clusters || [];
+        const pins = cells.filter(cell => cell.promotion).map(cell => cell.promotion as Promotion);
+        setClusters(cells.filter(cell => !cell.promotion));
+        setPromotions([...pins, ...mockPromos]);
+      } catch (error) {
+        console.error('[DiscoveryMap] Viewport fetch error:', error);
+        if (cancelled) return;
+        setClusters([]);
+        setPromotions(mockPromos);
       }
-      
-      toast.success(`Found ${dbPromos.length + allMockPromos.length} promotions nearby`);
-    } catch (error) {
-      console.error('[DiscoveryMap] Fetch error:', error);
-      const zoom = map.current?.getZoom() || 14;
-      const allMockPromos = [...localPromos, ...globalPromos];
-      const visiblePromos = allMockPromos.filter(p => {
-        if (filter !== 'all' && p.reward_type !== filter && p.reward_type !== 'both') return false;
-        if (zoom >= 6) {
-          const center2 = searchCenter || userLocation;
-          if (!center2) return true;
-          const distance = Math.sqrt(
-            Math.pow(p.latitude - center2.lat, 2) + 
-            Math.pow(p.longitude - center2.lng, 2)
-          );
-          return distance < (zoom < 10 ? 3 : 0.5);
-        }
-        return true;
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [viewport, filter, localPromos, globalPromos]);
+
+  // The list is ordered by distance from where the user searched, one page at a time
+  const fetchPromotionPage = useCallback(async (center: { lat: number; lng: number }, cursor?: string) => {
+    const { data, error } = await supabase.functions.invoke('get-nearby-promotions', {
+      body: {
+        latitude: center.lat,
+        longitude: center.lng,
+        radiusKm: 10,
+        limit: LIST_PAGE_SIZE,
+        cursor,
+        rewardType: filter === 'all' ? undefined : filter,
+      },
+    });
+
+    if (error) throw error;
+    return {
+      promotions: (data?.promotions || []) as Promotion[],
+      nextCursor: (data?.nextCursor ?? null) as string | null,
+    };
+  }, [filter]);
+
+  useEffect(() => {
+    if (!listCenter) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchPromotionPage(listCenter)
+      .then(page => {
+        if (cancelled) return;
+        setListPromos(page.promotions);
+        setListCursor(page.nextCursor);
+        toast.success(`Found ${page.promotions.length}${page.nextCursor ? '+' : ''} promotions nearby`);
+      })
+      .catch(error => {
+        console.error('[DiscoveryMap] Fetch error:', error);
+        if (cancelled) return;
+        setListPromos([]);
+        setListCursor(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
       });
-      setPromotions(visiblePromos);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listCenter, fetchPromotionPage]);
+
+  const loadMorePromotions = async () => {
+    if (!listCenter || !listCursor || isLoadingMore) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchPromotionPage(listCenter, listCursor);
+      setListPromos(prev => [...prev, ...page.promotions]);
+      setListCursor(page.nextCursor);
+    } catch (error) {
+      console.error('[DiscoveryMap] Load more error:', error);
+      toast.error('Could not load more promotions');
     } finally {
-      setIsLoading(false);
+      setIsLoadingMore(false);
     }
   };
 
+  const fetchPromotions = (searchCenter?: { lat: number; lng: number }) => {
+    const center = searchCenter || userLocation;
+    if (!center) return;
+
+    setShowSearchHere(false);
+    setListCenter({ ...center });
+    if (map.current) setViewport(getViewport(map.current));
+  };
+
   const handleSearchHere = () => {
     if (mapCenter) {
       fetchPromotions(mapCenter);
@@ -776,6 +917,9 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
     setMapFilters(defaultMapFilters);
   };
 
+  // Database results from the paged list; the demo pins stand in until it loads
+  const listItems = listPromos.length > 0 ? listPromos : promotions.slice(0, 5);
+
   const activeFilterCount = 
     (mapFilters.rewardTypes.length < 3 ? 1 : 0) +
     (mapFilters.categories.length > 0 ? 1 : 0) +
@@ -991,7 +1135,9 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
 
       {/* Promotion Count Badge */}
       <div className="absolute left-4 bottom-24 bg-background/90 backdrop-blur-sm rounded-2xl px-4 py-3 neu-card">
-        <span className="text-sm font-medium block mb-2">{promotions.length} promos nearby</span>
+        <span className="text-sm font-medium block mb-2">
+          {promotions.length + clusters.reduce((sum, cluster) => sum + cluster.count, 0)} promos in view
+        </span>
         <div className="flex items-center gap-1 text-xs text-muted-foreground">
           <div className="w-3 h-3 rounded-full bg-gradient-to-br from-green-400 to-green-600" />
           <span>Low</span>
@@ -1112,10 +1258,10 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
       )}
 
       {/* Bottom Promo List */}
-      {!selectedPromo && promotions.length > 0 && (
+      {!selectedPromo && listItems.length > 0 && (
         <div className="absolute bottom-20 left-0 right-0 z-20 px-4">
           <div className="flex gap-3 overflow-x-auto pb-2 scrollbar-hide">
-            {promotions.slice(0, 5).map((promo) => (
+            {listItems.map((promo) => (
               <button
                 key={promo.id}
                 onClick={() => {
@@ -1150,6 +1296,16 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
                 </div>
               </button>
             ))}
+            {listPromos.length > 0 && listCursor && (
+              <button
+                onClick={loadMorePromotions}
+                disabled={isLoadingMore}
+                className="flex-shrink-0 neu-card rounded-2xl p-3 min-w-[120px] flex flex-col items-center justify-center gap-1 text-sm text-muted-foreground border border-border/30"
+              >
+                <RefreshCw className={cn('w-4 h-4', isLoadingMore && 'animate-spin')} />
+                {isLoadingMore ? 'Loading...' : 'Load more'}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -1213,6 +1369,7 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
         onSetSchedule={promoRoute.setSchedule}
         onSetSegmentTransport={promoRoute.setSegmentTransport}
         getSegmentTransport={promoRoute.getSegmentTransport}
+        onOptimizeOrder={() => promoRoute.optimizeStopOrder(userLocation?.lat, userLocation?.lng)}
         onSuggestFromSaved={() => {
           if (userLocation) {
             promoRoute.suggestFromWatchLater(userLocation.lat, userLocation.lng);
@@ -1222,7 +1379,7 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
         onSuggestByInterests={() => {
           if (userLocation) {
             promoRoute.suggestByInterests(
-              promotions.map(p => ({ id: p.id, business_name: p.business_name, latitude: p.latitude, longitude: p.longitude, address: p.address, category: p.category, reward_type: p.reward_type, reward_amount: p.reward_amount, required_action: p.required_action })),
+              promotions.map(p => ({ id: p.id, business_name: p.business_name, latitude: p.latitude, longitude: p.longitude, address: p.address, category: p.category, reward_type: p.reward_type, reward_amount: p.reward_amount, required_action: p.required_action, opening_hours: p.opening_hours, expires_at: p.expires_at })),
               userLocation.lat, userLocation.lng, ['Food & Drink', 'Shopping', 'Entertainment'],
             );
             toast.success('Route based on your interests!');
@@ -1231,7 +1388,7 @@ export const DiscoveryMap: React.FC<DiscoveryMapProps> = ({ isOpen, onClose, pro
         onSuggestSmartRoute={() => {
           if (userLocation) {
             promoRoute.suggestSmartRoute(
-              promotions.map(p => ({ id: p.id, business_name: p.business_name, latitude: p.latitude, longitude: p.longitude, address: p.address, category: p.category, reward_type: p.reward_type, reward_amount: p.reward_amount, required_action: p.required_action })),
+              promotions.map(p => ({ id: p.id, business_name: p.business_name, latitude: p.latitude, longitude: p.longitude, address: p.address, category: p.category, reward_type: p.reward_type, reward_amount: p.reward_amount, required_action: p.required_action, opening_hours: p.opening_hours, expires_at: p.expires_at })),
               userLocation.lat, userLocation.lng,
             );
             toast.success('Smart route generated!');
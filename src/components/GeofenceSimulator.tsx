@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { MapPin, LogIn, LogOut, FastForward, Crosshair, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import {
+  isLocationSimulationAvailable,
+  startLocationSimulation,
+  stopLocationSimulation,
+  SimulatedLocationSource,
+} from '@/lib/locationSource';
+import type { useGeofenceCheckIns } from '@/hooks/useGeofenceCheckIns';
+
+interface GeofenceSimulatorProps {
+  geofences: ReturnType<typeof useGeofenceCheckIns>;
+}
+
+// Used when simulation starts before the device has reported a position
+const DEFAULT_POSITION = { latitude: 40.7128, longitude: -74.006 };
+const MAX_LISTED_FENCES = 8;
+// Roughly one meter of latitude, for stepping just outside a fence
+const DEGREES_PER_METER = 1 / 111320;
+
+const phaseStyles = {
+  outside: 'bg-muted text-muted-foreground',
+  inside: 'bg-yellow-500/20 text-yellow-600',
+  dwelling: 'bg-green-500/20 text-green-600',
+};
+
+// Development-only harness for geofence arrivals: teleports a simulated position in and
+// out of nearby promotion fences and fast-forwards the clock through dwell times
+export const GeofenceSimulator: React.FC<GeofenceSimulatorProps> = ({ geofences }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { source, statuses, promotions, lastPosition, autoCheckIn, setAutoCheckIn } = geofences;
+
+  if (!isLocationSimulationAvailable()) return null;
+
+  const simulator = source instanceof SimulatedLocationSource ? source : null;
+  const fences = statuses
+    .filter(status => status.distance !== null)
+    .sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0))
+    .slice(0, MAX_LISTED_FENCES);
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className={cn(
+          'fixed bottom-24 right-4 z-50 w-10 h-10 rounded-full flex items-center justify-center shadow-lg',
+          simulator ? 'bg-yellow-500 text-black' : 'bg-background/90 border border-border'
+        )}
+        title="Geofence simulator"
+      >
+        <Crosshair className="w-5 h-5" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-24 right-4 z-50 w-80 max-h-[60vh] overflow-y-auto rounded-2xl bg-background/95 backdrop-blur-sm border border-border p-4 shadow-xl text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-semibold">Geofence simulator</span>
+        <button onClick={() => setIsOpen(false)} className="p-1 rounded hover:bg-muted">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-muted-foreground">Auto check-in</span>
+        <Switch checked={autoCheckIn} onCheckedChange={setAutoCheckIn} />
+      </div>
+
+      {!simulator ? (
+        <Button
+          size="sm"
+          className="w-full"
+          onClick={() => startLocationSimulation(lastPosition ?? DEFAULT_POSITION)}
+        >
+          <MapPin className="w-4 h-4 mr-1" />
+          Simulate from {lastPosition ? 'current position' : 'default location'}
+        </Button>
+      ) : (
+        <>
+          <div className="flex gap-2 mb-3">
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => simulator.advance(15_000)}>
+              <FastForward className="w-4 h-4 mr-1" />
+              15s
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => simulator.advance(60_000)}>
+              <FastForward className="w-4 h-4 mr-1" />
+              1 min
+            </Button>
+            <Button size="sm" variant="destructive" onClick={stopLocationSimulation}>
+              Stop
+            </Button>
+          </div>
+
+          {fences.length === 0 && (
+            <p className="text-muted-foreground">No promotions within range of the simulated position</p>
+          )}
+
+          <div className="space-y-2">
+            {fences.map(status => {
+              const promo = promotions.find(p => p.id === status.fenceId);
+              if (!promo) return null;
+              const radius = promo.geofence_radius_meters ?? 100;
+
+              return (
+                <div key={status.fenceId} className="rounded-xl border border-border/50 p-2">
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <span className="font-medium truncate">{promo.business_name}</span>
+                    <Badge variant="outline" className={cn('text-xs', phaseStyles[status.phase])}>
+                      {status.phase}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>{Math.round(status.distance ?? 0)}m away · r={radius}m · dwell {promo.min_dwell_seconds ?? 60}s</span>
+                    <div className="flex gap-1">
+                      <button
+                        className="p-1 rounded hover:bg-muted"
+                        title="Step inside"
+                        onClick={() => simulator.moveTo(promo.latitude, promo.longitude)}
+                      >
+                        <LogIn className="w-4 h-4" />
+                      </button>
+                      <button
+                        className="p-1 rounded hover:bg-muted"
+                        title="Step outside"
+                        onClick={() => simulator.moveTo(promo.latitude + radius * 3 * DEGREES_PER_METER, promo.longitude)}
+                      >
+                        <LogOut className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
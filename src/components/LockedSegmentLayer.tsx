@@ -0,0 +1,91 @@
+import React, { useEffect, useRef } from 'react';
+import { Lock, Coins, UserPlus, MessageSquare, Heart, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLockedSegments } from '@/hooks/useLockedSegments';
+import { activeLockWindow } from '@/lib/lockedSegments';
+
+interface LockedSegmentLayerProps {
+  contentId: string;
+  currentTime: number;
+  isPlaying: boolean;
+  isMuted: boolean;
+}
+
+// Any further apart and the clean cut is re-seeked to line up with the video under it
+const MAX_DRIFT_SECONDS = 0.35;
+
+const actionIcons: Record<string, React.ReactNode> = {
+  payment: <Coins className="w-6 h-6" />,
+  follow: <UserPlus className="w-6 h-6" />,
+  comment: <MessageSquare className="w-6 h-6" />,
+  like: <Heart className="w-6 h-6" />,
+};
+
+// Sits over a feed video with Studio-locked segments: a prompt while a locked range
+// plays, or the unlocked clean cut played in step with the (blurred) video underneath
+export const LockedSegmentLayer: React.FC<LockedSegmentLayerProps> = ({
+  contentId,
+  currentTime,
+  isPlaying,
+  isMuted,
+}) => {
+  const { segments, unlocks, unlockingId, unlock, refreshIfExpiring } = useLockedSegments(contentId);
+  const cleanRef = useRef<HTMLVideoElement>(null);
+
+  const active = activeLockWindow(segments, currentTime);
+  const unlocked = active ? unlocks[active.segment.id] : undefined;
+
+  useEffect(() => {
+    const clean = cleanRef.current;
+    if (!active || !unlocked || !clean) return;
+
+    refreshIfExpiring(active.segment.id);
+    const target = active.window.offset + (currentTime - active.window.start);
+    if (Math.abs(clean.currentTime - target) > MAX_DRIFT_SECONDS) clean.currentTime = target;
+    if (isPlaying && clean.paused) {
+      clean.play().catch(error => console.warn('[LockedSegments] Playback blocked:', error));
+    } else if (!isPlaying && !clean.paused) {
+      clean.pause();
+    }
+  }, [active, unlocked, currentTime, isPlaying, refreshIfExpiring]);
+
+  if (!active) return null;
+
+  if (unlocked) {
+    return (
+      <video
+        ref={cleanRef}
+        key={unlocked.url}
+        src={unlocked.url}
+        // The published video carries the sound unless the creator muted this range
+        muted={!active.segment.mutesAudio || isMuted}
+        playsInline
+        preload="auto"
+        className="absolute inset-0 w-full h-full object-cover z-[5] pointer-events-none"
+      />
+    );
+  }
+
+  const { segment } = active;
+  const isUnlocking = unlockingId === segment.id;
+
+  return (
+    <div className="absolute inset-0 z-20 flex items-center justify-center p-6 pointer-events-none">
+      <div
+        className="w-full max-w-xs rounded-2xl bg-background/80 backdrop-blur-md border border-border p-5 text-center space-y-3 pointer-events-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="w-12 h-12 mx-auto rounded-full bg-primary/20 text-primary flex items-center justify-center">
+          {actionIcons[segment.action] ?? <Lock className="w-6 h-6" />}
+        </div>
+        {segment.description && (
+          <p className="text-sm text-muted-foreground">{segment.description}</p>
+        )}
+        <Button className="w-full" disabled={isUnlocking} onClick={() => unlock(segment)}>
+          {isUnlocking ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Lock className="w-4 h-4 mr-2" />}
+          {segment.buttonText}
+        </Button>
+      </div>
+    </div>
+  );
+};
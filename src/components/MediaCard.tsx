@@ -7,6 +7,7 @@ import { AttentionProgressBar } from './AttentionProgressBar';
 import { FocusChallengeMiniGame } from './FocusChallengeMiniGame';
 import { PerfectAttentionCelebration } from './PerfectAttentionCelebration';
 import { AttentionHeatmap, useAttentionHeatmap } from './AttentionHeatmap';
+import { LockedSegmentLayer } from './LockedSegmentLayer';
 
 import { useAttentionAchievements } from './AttentionAchievements';
 import { useEyeTracking } from '@/hooks/useEyeTracking';
@@ -14,6 +15,7 @@ import { useMediaSettings } from './MediaSettings';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
 import { notificationSoundService } from '@/services/notificationSound.service';
 import { supabase } from '@/integrations/supabase/client';
+import { encodeAttentionTrace } from '@/lib/attentionTrace';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 
@@ -304,16 +306,20 @@ export const MediaCard: React.FC<MediaCardProps> = ({
         return;
       }
 
-      // Validate with backend
+      // Validate with backend, sending the raw frames so the server can replay the session
+      const trace = await encodeAttentionTrace(attentionResult.trace);
       const { data, error } = await supabase.functions.invoke('validate-attention', {
         body: {
           userId: user.id,
           contentId: resolvedContentId,
+          // Promo content ids are promotion ids
+          ...(type === 'promo' ? { promoId: resolvedContentId } : {}),
           attentionScore: attentionResult.score,
           watchDuration,
           totalDuration: duration,
           framesDetected: attentionResult.framesDetected,
           totalFrames: attentionResult.totalFrames,
+          ...(trace ? { trace } : {}),
         },
       });
 
@@ -334,7 +340,7 @@ export const MediaCard: React.FC<MediaCardProps> = ({
       console.error('[MediaCard] Validation failed:', err);
       onComplete?.(false);
     }
-  }, [contentId, src, duration, getAttentionResult, onComplete, eyeTrackingEnabled, recordVideoCompletion, user]);
+  }, [contentId, src, type, duration, getAttentionResult, onComplete, eyeTrackingEnabled, recordVideoCompletion, user]);
 
   // Progress tracking for images/promos without video
   useEffect(() => {
@@ -503,6 +509,16 @@ export const MediaCard: React.FC<MediaCardProps> = ({
         />
       )}
       
+      {/* Studio-locked segments: unlock prompt, or the clean cut once unlocked */}
+      {videoSrc && contentId && (
+        <LockedSegmentLayer
+          contentId={contentId}
+          currentTime={currentTime}
+          isPlaying={isPlaying}
+          isMuted={isMuted}
+        />
+      )}
+
       {/* Subtle vignette overlay for depth */}
       <div className="absolute inset-0 bg-gradient-radial from-transparent via-transparent to-background/60" />
       
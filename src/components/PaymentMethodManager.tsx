@@ -9,6 +9,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useStepUp } from '@/hooks/useStepUp';
+import { StepUpDialog } from '@/components/StepUpDialog';
 
 interface PaymentMethod {
   id: string;
@@ -31,6 +33,8 @@ export const PaymentMethodManager: React.FC = () => {
   const [methods, setMethods] = useState<PaymentMethod[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAdding, setIsAdding] = useState(false);
+  // With 2FA on, the payment_methods policies only allow writes after a recent step-up
+  const { guard, dialogProps } = useStepUp('payment_methods');
   const [newMethod, setNewMethod] = useState({
     type: 'bank',
     nickname: '',
@@ -259,7 +263,7 @@ export const PaymentMethodManager: React.FC = () => {
                 </div>
               )}
 
-              <Button className="w-full" onClick={handleAddMethod}>
+              <Button className="w-full" onClick={() => guard(handleAddMethod)}>
                 Add Payment Method
               </Button>
             </div>
@@ -306,7 +310,7 @@ export const PaymentMethodManager: React.FC = () => {
                     <Button
                       size="icon"
                       variant="ghost"
-                      onClick={() => handleSetDefault(method.id)}
+                      onClick={() => guard(() => handleSetDefault(method.id))}
                       title="Set as default"
                     >
                       <Star className="w-4 h-4" />
@@ -316,7 +320,7 @@ export const PaymentMethodManager: React.FC = () => {
                     size="icon"
                     variant="ghost"
                     className="text-destructive"
-                    onClick={() => handleDelete(method.id)}
+                    onClick={() => guard(() => handleDelete(method.id))}
                   >
                     <Trash2 className="w-4 h-4" />
                   </Button>
@@ -326,6 +330,11 @@ export const PaymentMethodManager: React.FC = () => {
           ))}
         </div>
       )}
+
+      <StepUpDialog
+        {...dialogProps}
+        description="Enter the code from your authenticator app to change payment methods."
+      />
     </div>
   );
 };
@@ -1,67 +1,23 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { Play, Heart, Share2, ThumbsUp, ThumbsDown, Sparkles, TrendingUp, MapPin, RefreshCw } from 'lucide-react';
+import { usePersonalizedFeed, type PersonalizedFeedItem } from '@/hooks/usePersonalizedFeed';
+import { Play, Heart, Share2, ThumbsUp, ThumbsDown, Sparkles, TrendingUp, MapPin, RefreshCw, Loader2, Users } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 
-interface FeedItem {
-  id: string;
-  title: string;
-  category: string;
-  tags: string[];
-  reward: number;
-  coinType: 'icoin' | 'vicoin';
-  thumbnail: string;
-  duration: number;
-  score: number;
-  reason: string;
-  position: number;
-  personalized: boolean;
-}
-
-interface FeedMeta {
-  userId: string | null;
-  personalized: boolean;
-  interactionCount: number;
-  coldStart: boolean;
-}
-
 interface PersonalizedFeedProps {
-  onSelectContent?: (content: FeedItem) => void;
+  onSelectContent?: (content: PersonalizedFeedItem) => void;
 }
 
 export const PersonalizedFeed: React.FC<PersonalizedFeedProps> = ({ onSelectContent }) => {
   const { user } = useAuth();
-  const [feed, setFeed] = useState<FeedItem[]>([]);
-  const [meta, setMeta] = useState<FeedMeta | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { feed, meta, isLoading: loading, isLoadingMore, hasMore, error, loadMore, refresh } = usePersonalizedFeed();
   const [likedItems, setLikedItems] = useState<Set<string>>(new Set());
 
-  const loadFeed = useCallback(async () => {
-    setLoading(true);
-    try {
-      const { data, error } = await supabase.functions.invoke('get-personalized-feed', {
-        body: {},
-      });
-
-      if (error) throw error;
-
-      if (data?.feed) {
-        setFeed(data.feed);
-        setMeta(data.meta);
-      }
-    } catch (error) {
-      console.error('Error loading feed:', error);
-      toast.error('Failed to load personalized feed');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
   useEffect(() => {
-    loadFeed();
-  }, [loadFeed]);
+    if (error) toast.error(error);
+  }, [error]);
 
   const handleInteraction = async (contentId: string, action: 'like' | 'unlike' | 'share' | 'feedback', feedback?: 'more' | 'less') => {
     if (!user) {
@@ -97,8 +53,8 @@ export const PersonalizedFeed: React.FC<PersonalizedFeedProps> = ({ onSelectCont
         toast.success('Shared! +2 bonus coins');
       } else if (action === 'feedback') {
         toast.success(feedback === 'more' ? 'Showing more like this' : 'Showing less like this');
-        // Refresh feed after feedback
-        setTimeout(loadFeed, 500);
+        // Re-rank after feedback
+        setTimeout(refresh, 500);
       }
     } catch (error) {
       console.error('Interaction error:', error);
@@ -115,6 +71,7 @@ export const PersonalizedFeed: React.FC<PersonalizedFeedProps> = ({ onSelectCont
     if (reason.includes('Near')) return <MapPin className="w-3 h-3" />;
     if (reason.includes('Trending')) return <TrendingUp className="w-3 h-3" />;
     if (reason.includes('Discover')) return <Sparkles className="w-3 h-3" />;
+    if (reason.startsWith('Because') || reason.includes('viewers like you')) return <Users className="w-3 h-3" />;
     return <Sparkles className="w-3 h-3" />;
   };
 
@@ -149,7 +106,7 @@ export const PersonalizedFeed: React.FC<PersonalizedFeedProps> = ({ onSelectCont
                 : 'Curated just for you'}
           </p>
         </div>
-        <Button variant="ghost" size="icon" onClick={loadFeed} disabled={loading}>
+        <Button variant="ghost" size="icon" onClick={refresh} disabled={loading}>
           <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
         </Button>
       </div>
@@ -167,11 +124,13 @@ export const PersonalizedFeed: React.FC<PersonalizedFeedProps> = ({ onSelectCont
                 className="relative aspect-video bg-muted cursor-pointer group"
                 onClick={() => onSelectContent?.(item)}
               >
-                <img
-                  src={item.thumbnail}
-                  alt={item.title}
-                  className="w-full h-full object-cover"
-                />
+                {item.thumbnail && (
+                  <img
+                    src={item.thumbnail}
+                    alt={item.title}
+                    className="w-full h-full object-cover"
+                  />
+                )}
                 <div className="absolute inset-0 bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                   <div className="w-16 h-16 rounded-full bg-white/90 flex items-center justify-center">
                     <Play className="w-8 h-8 text-primary fill-primary" />
@@ -179,17 +138,21 @@ export const PersonalizedFeed: React.FC<PersonalizedFeedProps> = ({ onSelectCont
                 </div>
                 
                 {/* Duration badge */}
-                <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
-                  {formatDuration(item.duration)}
-                </div>
+                {!!item.duration && (
+                  <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+                    {formatDuration(item.duration)}
+                  </div>
+                )}
 
                 {/* Reward badge */}
-                <div className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs font-semibold flex items-center gap-1 ${
-                  item.coinType === 'vicoin' ? 'bg-blue-500 text-white' : 'bg-white text-gray-900'
-                }`}>
-                  <span className="text-sm">{item.coinType === 'vicoin' ? 'V' : 'i'}</span>
-                  +{item.reward}
-                </div>
+                {item.reward > 0 && (
+                  <div className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs font-semibold flex items-center gap-1 ${
+                    item.coinType === 'vicoin' ? 'bg-blue-500 text-white' : 'bg-white text-gray-900'
+                  }`}>
+                    <span className="text-sm">{item.coinType === 'vicoin' ? 'V' : 'i'}</span>
+                    +{item.reward}
+                  </div>
+                )}
               </div>
 
               {/* Content Info */}
@@ -257,6 +220,13 @@ export const PersonalizedFeed: React.FC<PersonalizedFeedProps> = ({ onSelectCont
               </div>
             </div>
           ))}
+
+          {hasMore && (
+            <Button variant="outline" onClick={loadMore} disabled={isLoadingMore}>
+              {isLoadingMore && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { MapPin, Eye, Coins, Users, Timer, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { usePromoBurnStats, type BurnPeriod, type BurnMetrics, type PromotionBurn } from '@/hooks/usePromoBurnStats';
+
+const formatCost = (cost: number | null) => (cost === null ? '—' : cost.toFixed(2));
+
+const CSV_HEADER = ['bucket', 'promotion_id', 'promotion', 'checkins', 'promo_views', 'coins_disbursed', 'unique_users', 'attention_minutes', 'cost_per_attention_minute'];
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function buildCsv(promotions: PromotionBurn[]): string {
+  const lines = [CSV_HEADER.join(',')];
+  for (const promotion of promotions) {
+    for (const point of promotion.series) {
+      lines.push([
+        point.bucket,
+        promotion.promotionId,
+        promotion.businessName,
+        point.checkins,
+        point.promoViews,
+        point.coinsDisbursed,
+        point.uniqueUsers,
+        point.attentionMinutes.toFixed(2),
+        point.costPerAttentionMinute === null ? null : point.costPerAttentionMinute.toFixed(4),
+      ].map(csvCell).join(','));
+    }
+  }
+  return lines.join('\n');
+}
+
+export const PromoBurnDashboard: React.FC = () => {
+  const [period, setPeriod] = useState<BurnPeriod>('7d');
+  const { totals, series, promotions, isLoading, lastUpdated } = usePromoBurnStats(period);
+
+  const bucketFormat = period === '24h' ? 'HH:mm' : 'MMM d';
+  const chartData = series.map(point => ({
+    label: format(new Date(point.bucket), bucketFormat),
+    checkins: point.checkins,
+    views: point.promoViews,
+    coins: point.coinsDisbursed,
+  }));
+
+  const handleExport = () => {
+    const blob = new Blob([buildCsv(promotions)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `promo-burn-${period}-${new Date().toISOString().split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+    toast.success('Burn report downloaded');
+  };
+
+  const empty: BurnMetrics = {
+    checkins: 0, promoViews: 0, coinsDisbursed: 0, uniqueUsers: 0, attentionMinutes: 0, costPerAttentionMinute: null,
+  };
+  const summary = totals ?? empty;
+
+  const stats = [
+    { label: 'Check-ins', value: summary.checkins.toLocaleString(), icon: MapPin },
+    { label: 'Promo views', value: summary.promoViews.toLocaleString(), icon: Eye },
+    { label: 'Coins paid', value: summary.coinsDisbursed.toLocaleString(), icon: Coins },
+    { label: 'Unique users', value: summary.uniqueUsers.toLocaleString(), icon: Users },
+    { label: 'Coins / attn-min', value: formatCost(summary.costPerAttentionMinute), icon: Timer },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            Promo Budget Burn
+            <span className="w-2 h-2 rounded-full bg-green-500 animate-pulse" aria-label="Live" />
+          </h3>
+          {lastUpdated && (
+            <p className="text-xs text-muted-foreground">Updated {format(lastUpdated, 'HH:mm:ss')}</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Tabs value={period} onValueChange={(value) => setPeriod(value as BurnPeriod)}>
+            <TabsList>
+              <TabsTrigger value="24h">24h</TabsTrigger>
+              <TabsTrigger value="7d">7d</TabsTrigger>
+              <TabsTrigger value="30d">30d</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <Button variant="outline" size="icon" onClick={handleExport} disabled={promotions.length === 0}>
+            <Download className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-3 bg-muted/50 rounded-xl">
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <stat.icon className="w-3 h-3" />
+                  {stat.label}
+                </div>
+                <p className="text-lg font-bold">{stat.value}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-4 bg-muted/50 rounded-xl">
+            <h4 className="text-sm font-medium mb-3">Over time</h4>
+            {chartData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No activity in this period</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={220}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis dataKey="label" className="text-xs" />
+                  <YAxis className="text-xs" />
+                  <Tooltip />
+                  <Legend />
+                  <Line type="monotone" dataKey="checkins" name="Check-ins" stroke="hsl(var(--primary))" dot={false} />
+                  <Line type="monotone" dataKey="views" name="Promo views" stroke="hsl(var(--accent))" dot={false} />
+                  <Line type="monotone" dataKey="coins" name="Coins paid" stroke="#f59e0b" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+
+          {promotions.length > 0 && (
+            <div className="p-4 bg-muted/50 rounded-xl space-y-4">
+              <h4 className="text-sm font-medium">Per promotion</h4>
+              <ResponsiveContainer width="100%" height={Math.max(120, promotions.length * 36)}>
+                <BarChart data={promotions} layout="vertical">
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis type="number" className="text-xs" />
+                  <YAxis type="category" dataKey="businessName" width={100} className="text-xs" />
+                  <Tooltip />
+                  <Bar dataKey="coinsDisbursed" name="Coins paid" fill="hsl(var(--primary))" />
+                </BarChart>
+              </ResponsiveContainer>
+
+              <div className="space-y-2">
+                {promotions.map(promotion => (
+                  <div key={promotion.promotionId} className="grid grid-cols-6 gap-2 text-xs items-center">
+                    <span className="col-span-2 font-medium truncate">{promotion.businessName}</span>
+                    <span>{promotion.checkins} check-ins</span>
+                    <span>{promotion.promoViews} views</span>
+                    <span>{promotion.uniqueUsers} users</span>
+                    <span className="text-right">{formatCost(promotion.costPerAttentionMinute)} / attn-min</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
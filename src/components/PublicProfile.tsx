@@ -40,7 +40,7 @@ interface ProfileData {
 }
 
 interface UserRole {
-  role: 'user' | 'creator' | 'moderator' | 'admin';
+  role: 'user' | 'creator' | 'moderator' | 'admin' | 'business';
 }
 
 export const PublicProfile: React.FC<PublicProfileProps> = ({
@@ -205,6 +205,7 @@ export const PublicProfile: React.FC<PublicProfileProps> = ({
                   <h1 className="font-display text-2xl font-bold">{displayName}</h1>
                   {isVerified && <VerificationBadge type="verified" size="lg" />}
                   {role === 'creator' && <VerificationBadge type="creator" size="lg" />}
+                  {role === 'business' && <VerificationBadge type="business" size="lg" />}
                   {role === 'admin' && <VerificationBadge type="admin" size="lg" />}
                   {role === 'moderator' && <VerificationBadge type="moderator" size="lg" />}
                 </div>
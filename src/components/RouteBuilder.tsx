@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetDescription } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -11,12 +11,12 @@ import {
   Navigation, Sparkles, Save, MapPin, Coins, ExternalLink,
   Filter, Clock, CalendarCheck, ChevronDown, ChevronUp, Edit2,
   Bookmark, Zap, TrendingUp, Timer, Brain, Heart, MapPinned,
-  Copy, Play,
+  Copy, Play, ArrowDownUp, AlertTriangle,
 } from 'lucide-react';
 import { CategoryIcon } from './PromotionCategories';
 import { RouteFilterSheet } from './RouteFilterSheet';
 import type { PromoRoute, RouteStop, TransportMode, RouteFilters, RouteDestination, RouteSchedule, RouteOrigin } from '@/hooks/usePromoRoute';
-import { defaultRouteFilters } from '@/hooks/usePromoRoute';
+import { defaultRouteFilters, planPromoRoute } from '@/hooks/usePromoRoute';
 import { useDragReorder } from '@/hooks/useDragReorder';
 import { toast } from 'sonner';
 
@@ -49,6 +49,7 @@ interface RouteBuilderProps {
   onSuggestSmartRoute?: () => void;
   onDuplicateRoute?: (routeId: string) => void;
   onOpenSavedRouteInMaps?: (routeId: string) => void;
+  onOptimizeOrder?: () => void;
   getSegmentTransport?: (fromIdx: number, toIdx: number) => TransportMode;
   userLocation?: { lat: number; lng: number } | null;
   mapboxToken?: string | null;
@@ -86,6 +87,14 @@ const getTransportIcon = (mode: TransportMode) => {
 
 const SEGMENT_MODES: TransportMode[] = ['walking', 'driving', 'transit', 'cycling', 'running'];
 
+const formatClock = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatMinutes = (minutes: number) => {
+  const rounded = Math.max(1, Math.round(minutes));
+  return rounded >= 60 ? `${Math.floor(rounded / 60)}h ${rounded % 60}m` : `${rounded}m`;
+};
+
 export const RouteBuilder: React.FC<RouteBuilderProps> = ({
   open,
   onOpenChange,
@@ -115,6 +124,7 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
   onSuggestSmartRoute,
   onDuplicateRoute,
   onOpenSavedRouteInMaps,
+  onOptimizeOrder,
   getSegmentTransport,
   userLocation,
   mapboxToken,
@@ -129,6 +139,12 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
   const [scheduleDay, setScheduleDay] = useState('');
   const [scheduleTime, setScheduleTime] = useState('');
 
+  // Recomputed on every edit so ETAs follow reordering and transport changes
+  const plan = useMemo(
+    () => (route ? planPromoRoute(route, userLocation?.lat, userLocation?.lng) : null),
+    [route, userLocation],
+  );
+
   const { getDragHandlers, getItemStyle, isDragging } = useDragReorder(
     route?.stops.length ?? 0,
     onReorderStops,
@@ -262,6 +278,15 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
                   <Button variant="outline" size="sm" onClick={() => onSuggestRoute()} className="gap-2">
                     <Sparkles className="w-4 h-4" /> Re-suggest
                   </Button>
+                  {onOptimizeOrder && route.stops.length > 2 && (
+                    <Button
+                      variant="outline" size="sm"
+                      onClick={() => { onOptimizeOrder(); toast.success('Stops reordered for the quickest route'); }}
+                      className="gap-2"
+                    >
+                      <ArrowDownUp className="w-4 h-4" /> Optimize Order
+                    </Button>
+                  )}
                 </div>
               )}
 
@@ -392,7 +417,11 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
               {/* Stops List with Drag & Drop */}
               {route && route.stops.length > 0 ? (
                 <div className="space-y-0 relative">
-                  {route.stops.map((stop, index) => (
+                  {route.stops.map((stop, index) => {
+                    const leg = plan?.legs[index];
+                    const nextLeg = plan?.legs[index + 1];
+                    const issue = plan?.issues[stop.id];
+                    return (
                     <React.Fragment key={stop.id}>
                       <div
                         className={cn(
@@ -420,9 +449,22 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
                           <div className="text-xs text-muted-foreground truncate">
                             {stop.address || 'Location available'}
                           </div>
+                          {leg && (
+                            <div className="text-[10px] text-muted-foreground flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {leg.waitMinutes >= 1
+                                ? `Opens ${formatClock(leg.departAt)} · wait ${formatMinutes(leg.waitMinutes)}`
+                                : `Arrive ${formatClock(leg.arriveAt)}`}
+                            </div>
+                          )}
                         </div>
 
                         <div className="flex items-center gap-1.5 shrink-0">
+                          {issue && (
+                            <Badge variant="destructive" className="text-[10px]">
+                              {issue === 'expired' ? 'Expired' : 'Closed'}
+                            </Badge>
+                          )}
                           <Badge variant="secondary" className="text-xs gap-1">
                             <Coins className="w-3 h-3" />
                             +{stop.rewardAmount}
@@ -451,6 +493,11 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
                                 <>
                                   <Icon className="w-3 h-3 text-muted-foreground" />
                                   <div className="w-0.5 h-3 bg-border" />
+                                  {nextLeg && (
+                                    <span className="text-[10px] text-muted-foreground">
+                                      {formatMinutes(nextLeg.travelMinutes)}
+                                    </span>
+                                  )}
                                 </>
                               );
                             })()}
@@ -458,13 +505,19 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
                         </div>
                       )}
                     </React.Fragment>
-                  ))}
+                    );
+                  })}
 
                   {/* Destination marker at end */}
                   {route.destination && (
                     <>
-                      <div className="flex justify-center py-0.5">
+                      <div className="flex justify-center items-center gap-1 py-0.5">
                         <div className="w-0.5 h-3 bg-border" />
+                        {plan && plan.legs.length > route.stops.length && (
+                          <span className="text-[10px] text-muted-foreground">
+                            {formatMinutes(plan.legs[plan.legs.length - 1].travelMinutes)}
+                          </span>
+                        )}
                       </div>
                       <div className="flex items-center gap-3 p-3 rounded-xl bg-accent/10 border border-accent/20">
                         <div className="w-8 h-8 rounded-full bg-accent flex items-center justify-center">
@@ -480,7 +533,7 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
 
                   {/* Route Summary */}
                   <div className="mt-4 p-4 rounded-xl bg-gradient-to-r from-primary/10 to-blue-500/10 border border-primary/20">
-                    <div className="grid grid-cols-3 gap-3 text-center">
+                    <div className="grid grid-cols-4 gap-3 text-center">
                       <div>
                         <div className="text-lg font-bold text-primary">{route.stops.length}</div>
                         <div className="text-xs text-muted-foreground">Stops</div>
@@ -491,11 +544,25 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
                       </div>
                       <div>
                         <div className="text-lg font-bold text-primary">
-                          {route.estimatedTime ? `${route.estimatedTime}m` : '~'}
+                          {plan ? formatMinutes(plan.totalMinutes) : '~'}
                         </div>
                         <div className="text-xs text-muted-foreground">Est. Time</div>
                       </div>
+                      <div>
+                        <div className="text-lg font-bold text-primary">
+                          {plan ? plan.rewardPerMinute.toFixed(1) : '~'}
+                        </div>
+                        <div className="text-xs text-muted-foreground">Coins/min</div>
+                      </div>
                     </div>
+                    {plan && !plan.feasible && (
+                      <div className="mt-2 pt-2 border-t border-primary/10 flex items-center justify-center gap-1.5 text-xs text-destructive">
+                        <AlertTriangle className="w-3.5 h-3.5" />
+                        {plan.withinDistance
+                          ? 'Some stops are closed or expired by the time you arrive'
+                          : `Route is ${plan.totalDistanceKm.toFixed(1)} km, over your ${route.filters.maxDistance} km limit`}
+                      </div>
+                    )}
                     {route.smartLabel && (
                       <div className="mt-2 pt-2 border-t border-primary/10 text-center">
                         <span className="text-xs text-muted-foreground">✨ {route.smartLabel}</span>
@@ -638,6 +705,7 @@ export const RouteBuilder: React.FC<RouteBuilderProps> = ({
                             <div className="text-sm font-medium truncate">{r.name}</div>
                             <div className="text-xs text-muted-foreground">
                               {r.stops.length} stops · {r.totalReward} coins
+                              {r.estimatedTime ? ` · ~${r.estimatedTime}m` : ''}
                               {r.isCommuteRoute && r.schedule ? ` · ${r.schedule.day === 'everyday' ? 'Daily' : r.schedule.day} at ${r.schedule.time}` : r.isCommuteRoute ? ' · Daily' : ''}
                             </div>
                             {r.destination && (
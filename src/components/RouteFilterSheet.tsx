@@ -19,8 +19,8 @@ interface RouteFilterSheetProps {
 
 const OPTIMIZATION_OPTIONS: { id: RouteOptimization; label: string; description: string; icon: React.ElementType }[] = [
   { id: 'more_earnings', label: 'More Earnings', description: 'Maximize total rewards', icon: TrendingUp },
-  { id: 'faster', label: 'Fastest', description: 'Shortest total distance', icon: Zap },
-  { id: 'effective', label: 'Most Effective', description: 'Best reward-per-km ratio', icon: Target },
+  { id: 'faster', label: 'Fastest', description: 'Least total travel time', icon: Zap },
+  { id: 'effective', label: 'Most Effective', description: 'Best reward per minute', icon: Target },
   { id: 'balanced', label: 'Balanced', description: 'Mix of speed & earnings', icon: Scale },
 ];
 
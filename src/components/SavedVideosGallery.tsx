@@ -1,8 +1,9 @@
 import React, { useState, useCallback, useMemo } from 'react';
-import { Bookmark, X } from 'lucide-react';
+import { Bookmark, X, HardDrive } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import type { SavedVideo } from '@/hooks/useSavedVideos';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
+import { useOfflineVideos } from '@/hooks/useOfflineVideos';
 import { CommentsPanel } from '@/components/CommentsPanel';
 import { ShareSheet } from '@/components/ShareSheet';
 import SavedVideoPlayer from '@/components/saved-gallery/SavedVideoPlayer';
@@ -16,6 +17,8 @@ interface SavedVideosGalleryProps {
   onAddToRoute?: (video: SavedVideo) => void;
 }
 
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(bytes < 10 * 1024 * 1024 ? 1 : 0)} MB`;
+
 export const SavedVideosGallery: React.FC<SavedVideosGalleryProps> = ({
   isOpen,
   onClose,
@@ -24,6 +27,8 @@ export const SavedVideosGallery: React.FC<SavedVideosGalleryProps> = ({
   onAddToRoute,
 }) => {
   const { light } = useHapticFeedback();
+  const offlineVideos = useOfflineVideos();
+  const { remove: removeDownload } = offlineVideos;
   const [filter, setFilter] = useState<'all' | 'promos' | 'posts'>('all');
   const [activeVideoIndex, setActiveVideoIndex] = useState<number | null>(null);
   const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
@@ -59,16 +64,25 @@ export const SavedVideosGallery: React.FC<SavedVideosGalleryProps> = ({
     });
   }, []);
 
-  const handleUnsaveFromPlayer = useCallback(
+  // Unsaving also frees the offline copy
+  const handleUnsave = useCallback(
     (contentId: string) => {
       onUnsave(contentId);
+      removeDownload(contentId);
+    },
+    [onUnsave, removeDownload],
+  );
+
+  const handleUnsaveFromPlayer = useCallback(
+    (contentId: string) => {
+      handleUnsave(contentId);
       if (filtered.length <= 1) {
         setActiveVideoIndex(null);
       } else if (activeVideoIndex !== null && activeVideoIndex >= filtered.length - 1) {
         setActiveVideoIndex(Math.max(0, filtered.length - 2));
       }
     },
-    [onUnsave, filtered.length, activeVideoIndex],
+    [handleUnsave, filtered.length, activeVideoIndex],
   );
 
   const handlePlayerNavigate = useCallback((index: number) => {
@@ -113,6 +127,14 @@ export const SavedVideosGallery: React.FC<SavedVideosGalleryProps> = ({
           ))}
         </div>
 
+        {/* Offline storage */}
+        {offlineVideos.usedBytes > 0 && (
+          <div className="flex items-center gap-1.5 px-4 pb-2 text-xs text-muted-foreground">
+            <HardDrive className="w-3.5 h-3.5" />
+            {Object.keys(offlineVideos.downloads).length} downloaded · {formatMegabytes(offlineVideos.usedBytes)}
+          </div>
+        )}
+
         {/* Grid */}
         <div className="flex-1 overflow-y-auto px-2 pb-20">
           {filtered.length === 0 ? (
@@ -128,8 +150,9 @@ export const SavedVideosGallery: React.FC<SavedVideosGalleryProps> = ({
                   key={video.id}
                   video={video}
                   onPlay={handlePlay}
-                  onUnsave={onUnsave}
+                  onUnsave={handleUnsave}
                   onAddToRoute={onAddToRoute}
+                  isDownloaded={offlineVideos.isDownloaded(video.contentId)}
                 />
               ))}
             </div>
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { 
   Calendar, Clock, Zap, TrendingUp, CalendarClock, 
-  Loader2, Check, X, Play, Pause, Trash2, Edit3
+  Loader2, Check, X, Play, Pause, Trash2, Edit3, RotateCcw
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -25,6 +25,8 @@ interface ScheduledPost {
   media_title?: string;
   media_thumbnail?: string;
   platform?: string;
+  error?: string;
+  retry_at?: string;
 }
 
 interface OptimalTimeSlot {
@@ -117,7 +119,7 @@ export const ScheduledPostingManager: React.FC<ScheduledPostingManagerProps> = (
     try {
       const { data, error } = await supabase
         .from('imported_media')
-        .select('id, title, thumbnail_url, platform, scheduled_at, status')
+        .select('id, title, thumbnail_url, platform, scheduled_at, status, publish_error, next_attempt_at')
         .eq('user_id', user.id)
         .not('scheduled_at', 'is', null)
         .order('scheduled_at', { ascending: true });
@@ -128,12 +130,14 @@ export const ScheduledPostingManager: React.FC<ScheduledPostingManagerProps> = (
         id: item.id,
         imported_media_id: item.id,
         scheduled_at: item.scheduled_at,
-        status: item.status === 'scheduled' ? 'scheduled' : 
-                item.status === 'published' ? 'published' : 'scheduled',
+        status: item.status === 'published' ? 'published' :
+                item.status === 'failed' ? 'failed' : 'scheduled',
         is_optimized: true,
         media_title: item.title,
         media_thumbnail: item.thumbnail_url,
-        platform: item.platform
+        platform: item.platform,
+        error: item.publish_error ?? undefined,
+        retry_at: item.next_attempt_at ?? undefined
       }));
 
       setScheduledPosts(posts);
@@ -174,7 +178,10 @@ export const ScheduledPostingManager: React.FC<ScheduledPostingManagerProps> = (
         .from('imported_media')
         .update({
           scheduled_at: scheduledAt.toISOString(),
-          status: 'scheduled'
+          status: 'scheduled',
+          publish_attempts: 0,
+          publish_error: null,
+          next_attempt_at: null
         })
         .eq('id', importedMediaId);
 
@@ -222,6 +229,33 @@ export const ScheduledPostingManager: React.FC<ScheduledPostingManagerProps> = (
     }
   };
 
+  // Hands a failed post back to the publisher with a fresh set of attempts
+  const handleRetryPost = async (postId: string) => {
+    try {
+      const { error } = await supabase
+        .from('imported_media')
+        .update({
+          scheduled_at: new Date().toISOString(),
+          status: 'scheduled',
+          publish_attempts: 0,
+          publish_error: null,
+          next_attempt_at: null
+        })
+        .eq('id', postId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Retrying post',
+        description: 'It will be published within a minute',
+      });
+
+      loadScheduledPosts();
+    } catch (error) {
+      console.error('Error retrying post:', error);
+    }
+  };
+
   const getNextOptimalTime = () => {
     if (optimalSlots.length > 0) {
       return optimalSlots[0];
@@ -358,7 +392,7 @@ export const ScheduledPostingManager: React.FC<ScheduledPostingManagerProps> = (
                       {post.media_title || 'Untitled'}
                     </p>
                     <div className="flex items-center gap-2 mt-1">
-                      <Badge variant={post.status === 'scheduled' ? 'secondary' : 'default'}>
+                      <Badge variant={post.status === 'scheduled' ? 'secondary' : post.status === 'failed' ? 'destructive' : 'default'}>
                         {post.status}
                       </Badge>
                       {post.is_optimized && (
@@ -371,6 +405,13 @@ export const ScheduledPostingManager: React.FC<ScheduledPostingManagerProps> = (
                     <p className="text-xs text-muted-foreground mt-1">
                       {format(new Date(post.scheduled_at), "EEE, MMM d 'at' h:mm a")}
                     </p>
+                    {post.error && (
+                      <p className="text-xs text-destructive mt-1 truncate">
+                        {post.status === 'scheduled' && post.retry_at
+                          ? `Retrying ${format(new Date(post.retry_at), 'h:mm a')}: ${post.error}`
+                          : post.error}
+                      </p>
+                    )}
                   </div>
 
                   {/* Actions */}
@@ -383,6 +424,15 @@ export const ScheduledPostingManager: React.FC<ScheduledPostingManagerProps> = (
                       <X className="w-4 h-4" />
                     </Button>
                   )}
+                  {post.status === 'failed' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRetryPost(post.id)}
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </Button>
+                  )}
                 </div>
               ))}
             </div>
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+
+interface StepUpDialogProps {
+  open: boolean;
+  onVerify: (code: string) => Promise<boolean>;
+  onCancel: () => void;
+  description?: string;
+}
+
+export const StepUpDialog: React.FC<StepUpDialogProps> = ({
+  open,
+  onVerify,
+  onCancel,
+  description = 'Enter the code from your authenticator app to continue.',
+}) => {
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const reset = () => {
+    setCode('');
+    setUseBackupCode(false);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+    const verified = await onVerify(code.trim());
+    setIsVerifying(false);
+    if (verified) reset();
+    else setCode('');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      reset();
+      onCancel();
+    }
+  };
+
+  const canVerify = useBackupCode ? code.trim().length >= 8 : code.length === 6;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+            Confirm it's you
+          </DialogTitle>
+          <DialogDescription>
+            {useBackupCode ? 'Enter one of your unused backup codes.' : description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center py-2">
+          {useBackupCode ? (
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder="xxxx-xxxx"
+              className="font-mono text-center"
+              autoFocus
+            />
+          ) : (
+            <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+              <InputOTPGroup>
+                {Array.from({ length: 6 }, (_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          )}
+        </div>
+
+        <Button
+          variant="link"
+          size="sm"
+          className="mx-auto"
+          onClick={() => {
+            setCode('');
+            setUseBackupCode(!useBackupCode);
+          }}
+        >
+          {useBackupCode ? 'Use authenticator app' : 'Use a backup code'}
+        </Button>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleVerify} disabled={!canVerify || isVerifying}>
+            {isVerifying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Verify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
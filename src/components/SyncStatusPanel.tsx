@@ -1,5 +1,5 @@
 import React from 'react';
-import { useOfflineMode } from '@/hooks/useOfflineMode';
+import { useOfflineMode, type QueuedAction } from '@/hooks/useOfflineMode';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -12,7 +12,9 @@ import {
   Clock,
   Check,
   AlertTriangle,
-  Trash2
+  Trash2,
+  Ban,
+  RotateCcw
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -24,7 +26,8 @@ const SyncStatusPanel: React.FC = () => {
     isSyncing, 
     lastSyncTime,
     syncPendingActions,
-    removeFromQueue
+    removeFromQueue,
+    retryAction
   } = useOfflineMode();
 
   const getActionIcon = (type: string) => {
@@ -34,10 +37,44 @@ const SyncStatusPanel: React.FC = () => {
       case 'task_complete': return '✅';
       case 'message': return '💬';
       case 'transaction': return '💰';
+      case 'checkin': return '📍';
       default: return '📝';
     }
   };
 
+  const getStatusBadge = (action: QueuedAction) => {
+    switch (action.status) {
+      case 'syncing':
+        return (
+          <Badge variant="outline" className="text-xs">
+            <RefreshCw className="w-3 h-3 mr-1 animate-spin" />
+            Syncing
+          </Badge>
+        );
+      case 'failed':
+        return (
+          <Badge variant="destructive" className="text-xs">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            Failed
+          </Badge>
+        );
+      case 'conflict':
+        return (
+          <Badge variant="secondary" className="text-xs">
+            <Ban className="w-3 h-3 mr-1" />
+            Not applied
+          </Badge>
+        );
+      default:
+        return action.retries > 0 ? (
+          <Badge variant="outline" className="text-xs">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            Retry {action.retries}
+          </Badge>
+        ) : null;
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -76,14 +113,14 @@ const SyncStatusPanel: React.FC = () => {
         </div>
 
         {/* Pending Actions */}
-        {queuedCount > 0 && (
+        {queuedActions.length > 0 && (
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <h4 className="text-sm font-medium flex items-center gap-2">
                 <Clock className="w-4 h-4 text-warning" />
-                Pending Actions ({queuedCount})
+                Pending Actions ({queuedActions.length})
               </h4>
-              {isOnline && (
+              {isOnline && queuedCount > 0 && (
                 <Button
                   size="sm"
                   onClick={syncPendingActions}
@@ -108,31 +145,44 @@ const SyncStatusPanel: React.FC = () => {
               {queuedActions.slice(0, 10).map((action) => (
                 <div 
                   key={action.id}
-                  className="flex items-center justify-between p-2 rounded bg-muted/30 text-sm"
+                  className="p-2 rounded bg-muted/30 text-sm"
                 >
-                  <div className="flex items-center gap-2">
-                    <span>{getActionIcon(action.type)}</span>
-                    <span className="capitalize">{action.type.replace('_', ' ')}</span>
-                    {action.retries > 0 && (
-                      <Badge variant="outline" className="text-xs">
-                        <AlertTriangle className="w-3 h-3 mr-1" />
-                        Retry {action.retries}
-                      </Badge>
-                    )}
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <span>{getActionIcon(action.type)}</span>
+                      <span className="capitalize">{action.type.replace('_', ' ')}</span>
+                      {getStatusBadge(action)}
+                    </div>
+                    <div className="flex items-center">
+                      {action.status === 'failed' && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-6 w-6"
+                          onClick={() => retryAction(action.id)}
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                        </Button>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6"
+                        onClick={() => removeFromQueue(action.id)}
+                        disabled={action.status === 'syncing'}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
                   </div>
-                  <Button
-                    size="icon"
-                    variant="ghost"
-                    className="h-6 w-6"
-                    onClick={() => removeFromQueue(action.id)}
-                  >
-                    <Trash2 className="w-3 h-3" />
-                  </Button>
+                  {action.lastError && action.status !== 'pending' && (
+                    <p className="text-xs text-muted-foreground mt-1">{action.lastError}</p>
+                  )}
                 </div>
               ))}
-              {queuedCount > 10 && (
+              {queuedActions.length > 10 && (
                 <p className="text-xs text-muted-foreground text-center py-1">
-                  +{queuedCount - 10} more actions
+                  +{queuedActions.length - 10} more actions
                 </p>
               )}
             </div>
@@ -140,7 +190,7 @@ const SyncStatusPanel: React.FC = () => {
         )}
 
         {/* All Synced */}
-        {queuedCount === 0 && isOnline && (
+        {queuedActions.length === 0 && isOnline && (
           <div className="flex items-center justify-center gap-2 py-4 text-primary">
             <Check className="w-5 h-5" />
             <span className="text-sm font-medium">All changes synced</span>
@@ -2,12 +2,12 @@ import React, { useState } from 'react';
 import { SwipeDismissOverlay } from './SwipeDismissOverlay';
 import { 
   X, Shield, Smartphone, Key, Copy, Check, 
-  Loader2, QrCode, AlertTriangle, CheckCircle2
+  Loader2, AlertTriangle, CheckCircle2, RefreshCw
 } from 'lucide-react';
 import { NeuButton } from './NeuButton';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
-import { useAuth } from '@/contexts/AuthContext';
+import { useTwoFactor, type TwoFactorEnrollment } from '@/hooks/useTwoFactor';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { Card3D } from './ui/Card3D';
@@ -17,68 +17,94 @@ interface TwoFactorAuthProps {
   onClose: () => void;
 }
 
-type SetupStep = 'intro' | 'qr' | 'verify' | 'backup' | 'complete';
+type SetupStep = 'intro' | 'qr' | 'verify' | 'backup' | 'complete' | 'confirm';
+
+// Changes to an enabled factor that need a current code first
+type ConfirmAction = 'disable' | 'regenerate';
 
 export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
   isOpen,
   onClose,
 }) => {
-  const { user } = useAuth();
+  const { status, enroll, activate, disable, regenerateBackupCodes } = useTwoFactor();
   const [step, setStep] = useState<SetupStep>('intro');
-  const [isEnabled, setIsEnabled] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [verificationCode, setVerificationCode] = useState('');
   const [copied, setCopied] = useState(false);
-  
-  // Mock secret and backup codes for demo
-  const mockSecret = 'JBSWY3DPEHPK3PXP';
-  const backupCodes = [
-    'a1b2c3d4',
-    'e5f6g7h8',
-    'i9j0k1l2',
-    'm3n4o5p6',
-    'q7r8s9t0',
-    'u1v2w3x4',
-  ];
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [confirmAction, setConfirmAction] = useState<ConfirmAction>('disable');
+
+  const isEnabled = !!status?.enabled;
 
   const handleCopySecret = () => {
-    navigator.clipboard.writeText(mockSecret);
+    if (!enrollment) return;
+    navigator.clipboard.writeText(enrollment.secret);
     setCopied(true);
     toast.success('Secret copied to clipboard');
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleCopyBackupCodes = () => {
+    navigator.clipboard.writeText(backupCodes.join('\n'));
+    toast.success('Backup codes copied to clipboard');
+  };
+
+  const handleStartSetup = async () => {
+    setIsLoading(true);
+    const result = await enroll();
+    setIsLoading(false);
+    if (result) {
+      setEnrollment(result);
+      setStep('qr');
+    }
+  };
+
   const handleVerify = async () => {
     if (verificationCode.length !== 6) {
       toast.error('Please enter a 6-digit code');
       return;
     }
-    
+
     setIsLoading(true);
-    // Simulate verification
-    await new Promise(resolve => setTimeout(resolve, 1500));
-    
-    // In real implementation, verify with backend
-    if (verificationCode === '123456' || verificationCode.length === 6) {
+    const codes = await activate(verificationCode);
+    setIsLoading(false);
+    setVerificationCode('');
+
+    if (codes) {
+      setBackupCodes(codes);
+      setEnrollment(null);
       setStep('backup');
       toast.success('Code verified successfully');
-    } else {
-      toast.error('Invalid verification code');
     }
-    setIsLoading(false);
   };
 
   const handleComplete = () => {
-    setIsEnabled(true);
+    setBackupCodes([]);
     setStep('complete');
   };
 
-  const handleDisable = async () => {
+  const openConfirm = (action: ConfirmAction) => {
+    setConfirmAction(action);
+    setVerificationCode('');
+    setStep('confirm');
+  };
+
+  const handleConfirm = async () => {
     setIsLoading(true);
-    await new Promise(resolve => setTimeout(resolve, 1000));
-    setIsEnabled(false);
-    setStep('intro');
-    toast.success('Two-factor authentication disabled');
+    if (confirmAction === 'disable') {
+      if (await disable(verificationCode.trim())) {
+        setStep('intro');
+        toast.success('Two-factor authentication disabled');
+      }
+    } else {
+      const codes = await regenerateBackupCodes(verificationCode);
+      if (codes) {
+        setBackupCodes(codes);
+        setStep('backup');
+      }
+    }
+    setVerificationCode('');
     setIsLoading(false);
   };
 
@@ -108,22 +134,28 @@ export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
               </div>
               <div>
                 <p className="font-medium text-foreground">Authenticator App</p>
-                <p className="text-sm text-muted-foreground">Connected and active</p>
+                <p className="text-sm text-muted-foreground">
+                  Connected and active • {status?.backupCodesRemaining ?? 0} backup codes left
+                </p>
               </div>
             </div>
           </Card3D>
-          
+
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => openConfirm('regenerate')}
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            New Backup Codes
+          </Button>
+
           <Button
             variant="destructive"
             className="w-full"
-            onClick={handleDisable}
-            disabled={isLoading}
+            onClick={() => openConfirm('disable')}
           >
-            {isLoading ? (
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            ) : (
-              <Shield className="w-4 h-4 mr-2" />
-            )}
+            <Shield className="w-4 h-4 mr-2" />
             Disable 2FA
           </Button>
         </div>
@@ -153,9 +185,14 @@ export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
           
           <Button
             className="w-full"
-            onClick={() => setStep('qr')}
+            onClick={handleStartSetup}
+            disabled={isLoading}
           >
-            <Shield className="w-4 h-4 mr-2" />
+            {isLoading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Shield className="w-4 h-4 mr-2" />
+            )}
             Enable 2FA
           </Button>
         </div>
@@ -174,12 +211,16 @@ export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
         </p>
       </div>
 
-      {/* Mock QR Code */}
+      {/* otpauth:// QR code rendered by the server */}
       <div className="flex justify-center">
-        <div className="w-48 h-48 bg-white rounded-xl p-4 flex items-center justify-center">
-          <div className="w-full h-full border-4 border-dashed border-gray-300 rounded-lg flex items-center justify-center">
-            <QrCode className="w-20 h-20 text-gray-400" />
-          </div>
+        <div className="w-48 h-48 bg-white rounded-xl p-2">
+          {enrollment && (
+            <img
+              src={`data:image/svg+xml;utf8,${encodeURIComponent(enrollment.qrSvg)}`}
+              alt="Authenticator setup QR code"
+              className="w-full h-full"
+            />
+          )}
         </div>
       </div>
 
@@ -190,7 +231,7 @@ export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
         </p>
         <div className="flex items-center gap-2">
           <Input 
-            value={mockSecret} 
+            value={enrollment?.secret ?? ''} 
             readOnly 
             className="font-mono text-center"
           />
@@ -283,6 +324,15 @@ export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
         </p>
       </div>
 
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={handleCopyBackupCodes}
+      >
+        <Copy className="w-4 h-4 mr-2" />
+        Copy Codes
+      </Button>
+
       <Button
         className="w-full"
         onClick={handleComplete}
@@ -292,6 +342,49 @@ export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
     </div>
   );
 
+  const renderConfirmStep = () => (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h3 className="font-display text-lg font-bold text-foreground mb-2">
+          {confirmAction === 'disable' ? 'Disable 2FA' : 'New Backup Codes'}
+        </h3>
+        <p className="text-sm text-muted-foreground">
+          {confirmAction === 'disable'
+            ? 'Enter a code from your authenticator app or one of your backup codes'
+            : 'Enter a code from your authenticator app. Your old backup codes will stop working.'}
+        </p>
+      </div>
+
+      <Input
+        type="text"
+        value={verificationCode}
+        onChange={(e) => setVerificationCode(e.target.value)}
+        placeholder={confirmAction === 'disable' ? '000000 or xxxx-xxxx' : '000000'}
+        className="text-center text-xl font-mono tracking-widest h-14"
+      />
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={() => setStep('intro')}
+          disabled={isLoading}
+        >
+          Cancel
+        </Button>
+        <Button
+          variant={confirmAction === 'disable' ? 'destructive' : 'default'}
+          className="flex-1"
+          onClick={handleConfirm}
+          disabled={verificationCode.trim().length < 6 || isLoading}
+        >
+          {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Confirm
+        </Button>
+      </div>
+    </div>
+  );
+
   const renderComplete = () => (
     <div className="space-y-6">
       <div className="flex flex-col items-center text-center">
@@ -336,10 +429,11 @@ export const TwoFactorAuth: React.FC<TwoFactorAuthProps> = ({
           {step === 'verify' && renderVerifyStep()}
           {step === 'backup' && renderBackupStep()}
           {step === 'complete' && renderComplete()}
+          {step === 'confirm' && renderConfirmStep()}
         </div>
 
         {/* Step Indicator */}
-        {step !== 'intro' && step !== 'complete' && (
+        {step !== 'intro' && step !== 'complete' && step !== 'confirm' && (
           <div className="p-4 border-t border-border/50">
             <div className="flex justify-center gap-2">
               {['qr', 'verify', 'backup'].map((s, i) => (
@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useImportedMediaRealtime } from '@/hooks/useImportedMediaRealtime';
+import { fetchPersonalizedFeedPage, type PersonalizedFeedItem } from '@/hooks/usePersonalizedFeed';
 import { 
   Play, Heart, Share2, ThumbsUp, ThumbsDown, Sparkles, TrendingUp, 
   MapPin, RefreshCw, Instagram, Youtube, Facebook, Music2, Camera, 
@@ -14,19 +15,7 @@ import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { useNavigate } from 'react-router-dom';
 
-interface NativeFeedItem {
-  id: string;
-  title: string;
-  category: string;
-  tags: string[];
-  reward: number;
-  coinType: 'icoin' | 'vicoin';
-  thumbnail: string;
-  duration: number;
-  score: number;
-  reason: string;
-  position: number;
-  personalized: boolean;
+interface NativeFeedItem extends PersonalizedFeedItem {
   source: 'native';
 }
 
@@ -136,17 +125,11 @@ export const UnifiedContentFeed: React.FC<UnifiedContentFeedProps> = ({
       // Load native content from personalized feed
       if (!showOnlyImported && activeFilter !== 'imported') {
         try {
-          const { data: nativeData, error: nativeError } = await supabase.functions.invoke('get-personalized-feed', {
-            body: {},
-          });
-
-          if (!nativeError && nativeData?.feed) {
-            const nativeItems = nativeData.feed.map((item: any) => ({
-              ...item,
-              source: 'native' as const
-            }));
-            results.push(...nativeItems);
-          }
+          const page = await fetchPersonalizedFeedPage({ limit: 20 });
+          results.push(...page.feed.map(item => ({
+            ...item,
+            source: 'native' as const
+          })));
         } catch (err) {
           console.error('Error loading native feed:', err);
         }
@@ -173,8 +156,8 @@ export const UnifiedContentFeed: React.FC<UnifiedContentFeedProps> = ({
       // Sort by date (newest first) for mixed feed
       if (activeFilter === 'all') {
         results.sort((a, b) => {
-          const dateA = 'imported_at' in a ? new Date(a.imported_at).getTime() : Date.now();
-          const dateB = 'imported_at' in b ? new Date(b.imported_at).getTime() : Date.now();
+          const dateA = new Date(a.source === 'imported' ? a.imported_at : a.publishedAt).getTime();
+          const dateB = new Date(b.source === 'imported' ? b.imported_at : b.publishedAt).getTime();
           return dateB - dateA;
         });
       }
@@ -272,11 +255,13 @@ export const UnifiedContentFeed: React.FC<UnifiedContentFeedProps> = ({
         className="relative aspect-video bg-muted cursor-pointer group"
         onClick={() => onSelectContent?.(item)}
       >
-        <img
-          src={item.thumbnail}
-          alt={item.title}
-          className="w-full h-full object-cover"
-        />
+        {item.thumbnail && (
+          <img
+            src={item.thumbnail}
+            alt={item.title}
+            className="w-full h-full object-cover"
+          />
+        )}
         <div className="absolute inset-0 bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
           <div className="w-16 h-16 rounded-full bg-white/90 flex items-center justify-center">
             <Play className="w-8 h-8 text-primary fill-primary" />
@@ -289,16 +274,20 @@ export const UnifiedContentFeed: React.FC<UnifiedContentFeedProps> = ({
           Native
         </Badge>
         
-        <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
-          {formatDuration(item.duration)}
-        </div>
+        {!!item.duration && (
+          <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-2 py-1 rounded">
+            {formatDuration(item.duration)}
+          </div>
+        )}
 
-        <div className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs font-semibold flex items-center gap-1 ${
-          item.coinType === 'vicoin' ? 'bg-blue-500 text-white' : 'bg-white text-gray-900'
-        }`}>
-          <span className="text-sm">{item.coinType === 'vicoin' ? 'V' : 'i'}</span>
-          +{item.reward}
-        </div>
+        {item.reward > 0 && (
+          <div className={`absolute top-2 right-2 px-2 py-1 rounded-full text-xs font-semibold flex items-center gap-1 ${
+            item.coinType === 'vicoin' ? 'bg-blue-500 text-white' : 'bg-white text-gray-900'
+          }`}>
+            <span className="text-sm">{item.coinType === 'vicoin' ? 'V' : 'i'}</span>
+            +{item.reward}
+          </div>
+        )}
       </div>
 
       <div className="p-3">
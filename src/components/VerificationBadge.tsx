@@ -92,7 +92,7 @@ export const VerificationBadge: React.FC<VerificationBadgeProps> = ({
 
 // Role Badge - displays the user's role as a pill
 interface RoleBadgeProps {
-  role: 'user' | 'creator' | 'moderator' | 'admin';
+  role: 'user' | 'creator' | 'moderator' | 'admin' | 'business';
   className?: string;
 }
 
@@ -101,6 +101,7 @@ export const RoleBadge: React.FC<RoleBadgeProps> = ({ role, className }) => {
     user: { label: 'User', className: 'bg-muted text-muted-foreground' },
     creator: { label: 'Creator', className: 'bg-icoin/20 text-icoin' },
     moderator: { label: 'Moderator', className: 'bg-green-500/20 text-green-500' },
+    business: { label: 'Business', className: 'bg-amber-500/20 text-amber-500' },
     admin: { label: 'Admin', className: 'bg-red-500/20 text-red-500' },
   };
 
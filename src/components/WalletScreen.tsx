@@ -1,14 +1,18 @@
 import React, { useEffect, useState } from 'react';
-import { X, ArrowUpRight, ArrowDownLeft, CreditCard, Building2, TrendingUp, RefreshCw, Wallet, Crown, Zap } from 'lucide-react';
+import { X, ArrowUpRight, ArrowDownLeft, CreditCard, Building2, TrendingUp, RefreshCw, Wallet, Crown, Zap, Gift, Clock } from 'lucide-react';
 import { SwipeDismissOverlay } from './SwipeDismissOverlay';
 import { NeuButton } from './NeuButton';
 import { CoinDisplay } from './CoinDisplay';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
-import { rewardsService, WalletTransaction } from '@/services/rewards.service';
+import { rewardsService, LedgerEntry, LedgerEntryType } from '@/services/rewards.service';
 import { subscriptionService, SUBSCRIPTION_TIERS, SubscriptionStatus } from '@/services/subscription.service';
 import { Progress } from './ui/progress';
+import { StepUpDialog } from './StepUpDialog';
+import { useStepUp } from '@/hooks/useStepUp';
 import { toast } from 'sonner';
+import { formatDistanceToNow } from 'date-fns';
+import type { Reward } from '@/types/app.types';
 
 interface DailyLimits {
   icoin_earned: number;
@@ -28,6 +32,18 @@ interface WalletScreenProps {
 
 type WalletTab = 'overview' | 'transactions' | 'subscription' | 'payout';
 
+const ENTRY_TYPE_LABELS: Record<LedgerEntryType, string> = {
+  opening_balance: 'Opening balance',
+  reward: 'Reward',
+  checkin: 'Check-in',
+  tip: 'Tip',
+  gift: 'Gift',
+  conversion: 'Conversion',
+  payout: 'Payout',
+  adjustment: 'Adjustment',
+  campaign_funding: 'Campaign budget',
+};
+
 export const WalletScreen: React.FC<WalletScreenProps> = ({
   isOpen,
   onClose,
@@ -35,13 +51,16 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
   icoins,
 }) => {
   const { user, refreshProfile } = useAuth();
-  const [transactions, setTransactions] = useState<WalletTransaction[]>([]);
+  const [ledgerEntries, setLedgerEntries] = useState<LedgerEntry[]>([]);
+  const [pendingRewards, setPendingRewards] = useState<Reward[]>([]);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
   const [dailyLimits, setDailyLimits] = useState<DailyLimits | null>(null);
   const [subscription, setSubscription] = useState<SubscriptionStatus | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [activeTab, setActiveTab] = useState<WalletTab>('overview');
   const [transferAmount, setTransferAmount] = useState<string>('');
   const [isTransferring, setIsTransferring] = useState(false);
+  const transferStepUp = useStepUp('transfer');
 
   useEffect(() => {
     if (isOpen && user?.id) {
@@ -54,13 +73,15 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
     setIsLoading(true);
     
     try {
-      const [txHistory, limits, subStatus] = await Promise.all([
-        rewardsService.getTransactionHistory(user.id, 20),
+      const [entries, limits, subStatus, pending] = await Promise.all([
+        rewardsService.getLedgerEntries(user.id, 20),
         rewardsService.getDailyLimits(user.id),
         subscriptionService.checkSubscription(),
+        rewardsService.getPendingRewards(user.id),
       ]);
       
-      setTransactions(txHistory);
+      setLedgerEntries(entries);
+      setPendingRewards(pending);
       setDailyLimits(limits);
       setSubscription(subStatus);
     } catch (error) {
@@ -70,6 +91,20 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
     }
   };
 
+  const handleClaim = async (reward: Reward) => {
+    setClaimingId(reward.id);
+    const result = await rewardsService.claimReward(reward.id);
+    setClaimingId(null);
+
+    if (result.success) {
+      toast.success(`Claimed ${reward.amount} ${reward.type === 'icoin' ? 'Icoins' : reward.type === 'vicoin' ? 'Vicoins' : reward.type}`);
+      await refreshProfile();
+      await loadWalletData();
+    } else {
+      toast.error(result.error || 'Failed to claim reward');
+    }
+  };
+
   const handleSubscribe = async (tier: 'pro' | 'creator') => {
     const result = await subscriptionService.createCheckout(tier);
     if (result.url) {
@@ -103,6 +138,10 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
       return;
     }
 
+    transferStepUp.guard(() => submitTransfer(amount));
+  };
+
+  const submitTransfer = async (amount: number) => {
     setIsTransferring(true);
     try {
       const { data, error } = await (await import('@/integrations/supabase/client')).supabase
@@ -110,7 +149,18 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
           body: { icoinAmount: amount },
         });
 
-      if (error) throw error;
+      if (error) {
+        // 2FA accounts need a fresh challenge for every conversion
+        const ctx = (error as { context?: Response }).context;
+        const parsed = ctx && typeof ctx.json === 'function'
+          ? await ctx.clone().json().catch(() => null)
+          : null;
+        if (parsed?.code === 'step_up_required') {
+          transferStepUp.prompt(() => submitTransfer(amount));
+          return;
+        }
+        throw error;
+      }
 
       if (data.success) {
         toast.success(`Converted ${data.icoin_spent} Icoins to ${data.vicoin_received} Vicoins!`);
@@ -126,16 +176,11 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
     }
   };
 
-  const getTransactionIcon = (type: WalletTransaction['type']) => {
-    switch (type) {
-      case 'earned':
-      case 'received':
-        return <ArrowDownLeft className="w-4 h-4 text-primary" />;
-      case 'spent':
-      case 'sent':
-      case 'withdrawn':
-        return <ArrowUpRight className="w-4 h-4 text-destructive" />;
-    }
+  // Wallets are credit-normal: credits add coins, debits take them away
+  const getEntryIcon = (direction: LedgerEntry['direction']) => {
+    return direction === 'credit'
+      ? <ArrowDownLeft className="w-4 h-4 text-primary" />
+      : <ArrowUpRight className="w-4 h-4 text-destructive" />;
   };
 
   const tabs = [
@@ -194,6 +239,43 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
                   </div>
                 </div>
 
+                {/* Pending Rewards */}
+                {pendingRewards.length > 0 && (
+                  <div className="neu-inset rounded-2xl p-4 space-y-3">
+                    <div className="flex items-center gap-2">
+                      <Gift className="w-4 h-4 text-primary" />
+                      <span className="text-sm font-medium">Pending Rewards</span>
+                    </div>
+                    {pendingRewards.map((reward) => {
+                      const claimable = !!reward.claimable_at && new Date(reward.claimable_at) <= new Date();
+                      return (
+                        <div key={reward.id} className="flex items-center justify-between gap-3">
+                          <div>
+                            <p className="font-semibold">
+                              +{reward.amount} {reward.type === 'icoin' ? 'Icoins' : reward.type === 'vicoin' ? 'Vicoins' : reward.type}
+                            </p>
+                            <p className="text-xs text-muted-foreground flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {claimable
+                                ? `Expires ${formatDistanceToNow(new Date(reward.expires_at), { addSuffix: true })}`
+                                : reward.claimable_at
+                                  ? `Available ${formatDistanceToNow(new Date(reward.claimable_at), { addSuffix: true })}`
+                                  : 'Under review'}
+                            </p>
+                          </div>
+                          <NeuButton
+                            onClick={() => handleClaim(reward)}
+                            disabled={!claimable || claimingId === reward.id}
+                            size="sm"
+                          >
+                            {claimingId === reward.id ? 'Claiming...' : 'Claim'}
+                          </NeuButton>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 {/* Current Plan Badge */}
                 {subscription && (
                   <div className={cn(
@@ -296,31 +378,36 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
             {/* Transactions Tab */}
             {activeTab === 'transactions' && (
               <div className="flex-1">
-                {transactions.length === 0 ? (
+                {ledgerEntries.length === 0 ? (
                   <div className="text-center py-12 text-muted-foreground">
                     <p>No transactions yet</p>
                     <p className="text-sm">Start watching content to earn rewards!</p>
                   </div>
                 ) : (
                   <div className="space-y-3">
-                    {transactions.map((tx) => (
-                      <div key={tx.id} className="flex items-center gap-4 p-4 neu-inset rounded-2xl">
+                    {ledgerEntries.map((entry) => (
+                      <div key={entry.id} className="flex items-center gap-4 p-4 neu-inset rounded-2xl">
                         <div className="w-10 h-10 rounded-full neu-button flex items-center justify-center">
-                          {getTransactionIcon(tx.type)}
+                          {getEntryIcon(entry.direction)}
                         </div>
                         <div className="flex-1 min-w-0">
-                          <p className="font-medium text-sm truncate">{tx.description}</p>
+                          <p className="font-medium text-sm truncate">{entry.description}</p>
                           <p className="text-xs text-muted-foreground">
-                            {tx.timestamp.toLocaleDateString()}
+                            {ENTRY_TYPE_LABELS[entry.entryType]} · {entry.timestamp.toLocaleDateString()}
                           </p>
                         </div>
-                        <div className={cn(
-                          'font-display font-semibold whitespace-nowrap',
-                          tx.type === 'earned' || tx.type === 'received' ? 'text-primary' : 'text-destructive'
-                        )}>
-                          {tx.type === 'earned' || tx.type === 'received' ? '+' : '-'}
-                          {tx.amount}
-                          <span className="text-xs ml-1">{tx.coinType === 'icoin' ? 'i' : 'v'}</span>
+                        <div className="text-right">
+                          <div className={cn(
+                            'font-display font-semibold whitespace-nowrap',
+                            entry.direction === 'credit' ? 'text-primary' : 'text-destructive'
+                          )}>
+                            {entry.direction === 'credit' ? '+' : '-'}
+                            {entry.amount}
+                            <span className="text-xs ml-1">{entry.coinType === 'icoin' ? 'i' : 'v'}</span>
+                          </div>
+                          <p className="text-[10px] text-muted-foreground whitespace-nowrap">
+                            Bal. {entry.balanceAfter}
+                          </p>
                         </div>
                       </div>
                     ))}
@@ -448,6 +535,11 @@ export const WalletScreen: React.FC<WalletScreenProps> = ({
           </>
         )}
       </div>
+
+      <StepUpDialog
+        {...transferStepUp.dialogProps}
+        description="Enter the code from your authenticator app to convert coins."
+      />
     </SwipeDismissOverlay>
   );
 };
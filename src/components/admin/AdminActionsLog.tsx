@@ -9,7 +9,9 @@ import {
   UserCheck, 
   Flag,
   AlertTriangle,
-  Settings
+  Settings,
+  Scale,
+  Coins
 } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -57,6 +59,15 @@ const AdminActionsLog: React.FC = () => {
         return <AlertTriangle className="w-4 h-4 text-accent" />;
       case 'update_role':
         return <Shield className="w-4 h-4 text-primary" />;
+      case 'freeze_user':
+        return <Ban className="w-4 h-4 text-destructive" />;
+      case 'correct_balance':
+        return <Scale className="w-4 h-4 text-primary" />;
+      case 'create_reward_rule':
+      case 'update_reward_rule':
+      case 'delete_reward_rule':
+      case 'release_reward':
+        return <Coins className="w-4 h-4 text-primary" />;
       default:
         return <Settings className="w-4 h-4" />;
     }
@@ -74,6 +85,18 @@ const AdminActionsLog: React.FC = () => {
         return <Badge variant="secondary">Report Resolved</Badge>;
       case 'update_role':
         return <Badge variant="outline">Role Change</Badge>;
+      case 'freeze_user':
+        return <Badge variant="destructive">Freeze</Badge>;
+      case 'correct_balance':
+        return <Badge variant="secondary">Balance Corrected</Badge>;
+      case 'create_reward_rule':
+        return <Badge variant="secondary">Rule Created</Badge>;
+      case 'update_reward_rule':
+        return <Badge variant="secondary">Rule Updated</Badge>;
+      case 'delete_reward_rule':
+        return <Badge variant="destructive">Rule Deleted</Badge>;
+      case 'release_reward':
+        return <Badge className="bg-primary">Reward Released</Badge>;
       default:
         return <Badge variant="outline">{actionType}</Badge>;
     }
@@ -86,6 +109,19 @@ const AdminActionsLog: React.FC = () => {
         return `Reason: ${details.reason || 'Not specified'}`;
       case 'update_role':
         return `New role: ${details.newRole}`;
+      case 'freeze_user':
+        return `Reason: ${details.reason || 'Not specified'}`;
+      case 'correct_balance':
+        return `${details.coin_type}: ${details.previous_balance} → ${details.new_balance} (drift ${details.drift})`;
+      case 'create_reward_rule':
+      case 'delete_reward_rule':
+        return `Rule: ${details.name}`;
+      case 'release_reward':
+        return `${details.amount} ${details.type} (${details.hold_reason || 'held'})${details.note ? ` • ${details.note}` : ''}`;
+      case 'update_reward_rule':
+        return details.is_active === undefined
+          ? `Rule: ${details.name}`
+          : `Rule: ${details.name} (${details.is_active ? 'activated' : 'deactivated'})`;
       case 'resolve_flag':
       case 'resolve_report':
         return `Action: ${details.action || 'Not specified'}`;
@@ -12,12 +12,16 @@ import {
   Activity,
   TrendingUp,
   RefreshCw,
-  ArrowLeft
+  ArrowLeft,
+  Scale,
+  Coins
 } from 'lucide-react';
 import ContentModeration from './ContentModeration';
 import UserManagement from './UserManagement';
 import AnalyticsPanel from './AnalyticsPanel';
 import AdminActionsLog from './AdminActionsLog';
+import BalanceReconciliation from './BalanceReconciliation';
+import RewardRulesEditor from './RewardRulesEditor';
 
 interface AdminDashboardProps {
   onBack: () => void;
@@ -171,7 +175,7 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onBack }) => {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="moderation" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-flex">
+          <TabsList className="grid w-full grid-cols-6 lg:w-auto lg:inline-flex">
             <TabsTrigger value="moderation" className="flex items-center gap-2">
               <Flag className="w-4 h-4" />
               <span className="hidden sm:inline">Moderation</span>
@@ -184,6 +188,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onBack }) => {
               <Activity className="w-4 h-4" />
               <span className="hidden sm:inline">Analytics</span>
             </TabsTrigger>
+            <TabsTrigger value="reconciliation" className="flex items-center gap-2">
+              <Scale className="w-4 h-4" />
+              <span className="hidden sm:inline">Balances</span>
+            </TabsTrigger>
+            <TabsTrigger value="rules" className="flex items-center gap-2">
+              <Coins className="w-4 h-4" />
+              <span className="hidden sm:inline">Rewards</span>
+            </TabsTrigger>
             {isAdmin && (
               <TabsTrigger value="logs" className="flex items-center gap-2">
                 <Shield className="w-4 h-4" />
@@ -204,6 +216,14 @@ const AdminDashboard: React.FC<AdminDashboardProps> = ({ onBack }) => {
             <AnalyticsPanel />
           </TabsContent>
 
+          <TabsContent value="reconciliation">
+            <BalanceReconciliation />
+          </TabsContent>
+
+          <TabsContent value="rules">
+            <RewardRulesEditor />
+          </TabsContent>
+
           {isAdmin && (
             <TabsContent value="logs">
               <AdminActionsLog />
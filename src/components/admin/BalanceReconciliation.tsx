@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { useAdmin, BalanceReconciliation as DriftFinding, DriftSeverity } from '@/hooks/useAdmin';
+import { useUserRole } from '@/hooks/useUserRole';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Scale,
+  Snowflake,
+  Wrench,
+  Play,
+  Loader2,
+  Users
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+
+interface DriftProfile {
+  user_id: string;
+  username: string | null;
+  display_name: string | null;
+}
+
+const SEVERITY_RANK: Record<DriftSeverity, number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+const BalanceReconciliation: React.FC = () => {
+  const { balanceDrift, lastReconciliationRun, freezeUserForDrift, correctBalanceDrift, runReconciliation } = useAdmin();
+  const { isAdmin } = useUserRole();
+  const [profiles, setProfiles] = useState<Record<string, DriftProfile>>({});
+  const [severityFilter, setSeverityFilter] = useState<'all' | DriftSeverity>('all');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Names for the users with findings
+  useEffect(() => {
+    const userIds = [...new Set(balanceDrift.map(f => f.user_id))];
+    if (userIds.length === 0) return;
+    let cancelled = false;
+
+    supabase
+      .from('profiles')
+      .select('user_id, username, display_name')
+      .in('user_id', userIds)
+      .then(({ data }) => {
+        if (cancelled || !data) return;
+        const profileMap: Record<string, DriftProfile> = {};
+        data.forEach(p => {
+          profileMap[p.user_id] = p;
+        });
+        setProfiles(profileMap);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [balanceDrift]);
+
+  const findings = balanceDrift
+    .filter(f => severityFilter === 'all' || f.severity === severityFilter)
+    .sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || Math.abs(b.drift) - Math.abs(a.drift));
+
+  const handleAction = async (finding: DriftFinding, action: 'freeze' | 'correct') => {
+    setPendingId(finding.id);
+    if (action === 'freeze') {
+      await freezeUserForDrift(finding);
+    } else {
+      await correctBalanceDrift(finding);
+    }
+    setPendingId(null);
+  };
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    await runReconciliation();
+    setIsRunning(false);
+  };
+
+  const getSeverityBadge = (severity: DriftSeverity) => {
+    switch (severity) {
+      case 'critical':
+        return <Badge variant="destructive">Critical</Badge>;
+      case 'high':
+        return <Badge className="bg-destructive/70">High</Badge>;
+      case 'medium':
+        return <Badge className="bg-accent">Medium</Badge>;
+      default:
+        return <Badge variant="outline">Low</Badge>;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="w-5 h-5" />
+              Balance Reconciliation
+            </CardTitle>
+            <div className="flex items-center gap-2">
+              <Select value={severityFilter} onValueChange={(value) => setSeverityFilter(value as 'all' | DriftSeverity)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue placeholder="Severity" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All severities</SelectItem>
+                  <SelectItem value="critical">Critical</SelectItem>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+              {isAdmin && (
+                <Button variant="outline" size="sm" onClick={handleRun} disabled={isRunning}>
+                  {isRunning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                  Run now
+                </Button>
+              )}
+            </div>
+          </div>
+          {lastReconciliationRun && (
+            <p className="text-sm text-muted-foreground">
+              Last run {formatDistanceToNow(new Date(lastReconciliationRun.started_at), { addSuffix: true })}
+              {' • '}{lastReconciliationRun.status}
+              {' • '}{lastReconciliationRun.balances_checked} balances checked
+              {' • '}{lastReconciliationRun.mismatches_found} mismatches
+              {lastReconciliationRun.auto_corrected > 0 && ` • ${lastReconciliationRun.auto_corrected} auto-corrected`}
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {findings.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No open balance drift</p>
+          ) : (
+            <div className="space-y-3">
+              {findings.map((finding) => {
+                const profile = profiles[finding.user_id];
+                const isPending = pendingId === finding.id;
+                return (
+                  <div
+                    key={finding.id}
+                    className={`flex items-center justify-between gap-4 p-4 border rounded-lg ${
+                      finding.status === 'frozen' ? 'bg-destructive/5 border-destructive/30' : ''
+                    }`}
+                  >
+                    <div className="flex items-start gap-3 min-w-0">
+                      <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center shrink-0">
+                        <Users className="w-5 h-5 text-muted-foreground" />
+                      </div>
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium">
+                            {profile?.display_name || profile?.username || `${finding.user_id.slice(0, 8)}...`}
+                          </span>
+                          {getSeverityBadge(finding.severity)}
+                          {finding.status === 'frozen' && (
+                            <Badge variant="destructive" className="text-xs">
+                              <Snowflake className="w-3 h-3 mr-1" /> Frozen
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-sm">
+                          <span className={finding.drift > 0 ? 'text-destructive font-semibold' : 'text-accent font-semibold'}>
+                            {finding.drift > 0 ? '+' : ''}{finding.drift} {finding.coin_type}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {' '}• profile {finding.profile_balance} vs expected {finding.expected_balance}
+                            {finding.ledger_balance !== null && ` • ledger ${finding.ledger_balance}`}
+                          </span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Detected {formatDistanceToNow(new Date(finding.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    {isAdmin && (
+                      <div className="flex gap-1 shrink-0">
+                        {finding.status !== 'frozen' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isPending}
+                            onClick={() => handleAction(finding, 'freeze')}
+                          >
+                            <Snowflake className="w-4 h-4 mr-1" /> Freeze
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          disabled={isPending}
+                          onClick={() => handleAction(finding, 'correct')}
+                        >
+                          {isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <><Wrench className="w-4 h-4 mr-1" /> Correct</>}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default BalanceReconciliation;
@@ -0,0 +1,379 @@
+import React, { useState } from 'react';
+import { useAdmin, RewardRule, RewardRuleInput } from '@/hooks/useAdmin';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Coins, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+const REWARD_TYPES = ['promo_view', 'task_complete', 'referral', 'milestone', 'daily_bonus'];
+const SUBSCRIPTION_TIERS = ['free', 'pro', 'creator'];
+
+// Numeric and date fields are edited as strings; empty means "not set"
+interface RuleForm {
+  name: string;
+  description: string;
+  is_active: boolean;
+  priority: string;
+  reward_type: string;
+  subscription_tiers: string[];
+  min_level: string;
+  max_level: string;
+  min_trust_score: string;
+  max_trust_score: string;
+  starts_at: string;
+  ends_at: string;
+  coin_type: string;
+  amount_min: string;
+  amount_max: string;
+  multiplier: string;
+  daily_limit_icoin: string;
+  daily_limit_vicoin: string;
+  daily_limit_promo_views: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  description: '',
+  is_active: true,
+  priority: '10',
+  reward_type: 'any',
+  subscription_tiers: [],
+  min_level: '',
+  max_level: '',
+  min_trust_score: '',
+  max_trust_score: '',
+  starts_at: '',
+  ends_at: '',
+  coin_type: 'any',
+  amount_min: '',
+  amount_max: '',
+  multiplier: '1',
+  daily_limit_icoin: '',
+  daily_limit_vicoin: '',
+  daily_limit_promo_views: '',
+};
+
+const toText = (value: number | null) => (value === null ? '' : String(value));
+const toNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+const toLocalInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+const toIso = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const ruleToForm = (rule: RewardRule): RuleForm => ({
+  name: rule.name,
+  description: rule.description ?? '',
+  is_active: rule.is_active,
+  priority: String(rule.priority),
+  reward_type: rule.reward_type ?? 'any',
+  subscription_tiers: rule.subscription_tiers ?? [],
+  min_level: toText(rule.min_level),
+  max_level: toText(rule.max_level),
+  min_trust_score: toText(rule.min_trust_score),
+  max_trust_score: toText(rule.max_trust_score),
+  starts_at: toLocalInput(rule.starts_at),
+  ends_at: toLocalInput(rule.ends_at),
+  coin_type: rule.coin_type ?? 'any',
+  amount_min: toText(rule.amount_min),
+  amount_max: toText(rule.amount_max),
+  multiplier: String(rule.multiplier),
+  daily_limit_icoin: toText(rule.daily_limit_icoin),
+  daily_limit_vicoin: toText(rule.daily_limit_vicoin),
+  daily_limit_promo_views: toText(rule.daily_limit_promo_views),
+});
+
+const formToRule = (form: RuleForm): RewardRuleInput => ({
+  name: form.name.trim(),
+  description: form.description.trim() || null,
+  is_active: form.is_active,
+  priority: Number(form.priority) || 0,
+  reward_type: form.reward_type === 'any' ? null : form.reward_type,
+  subscription_tiers: form.subscription_tiers.length > 0 ? form.subscription_tiers : null,
+  min_level: toNumber(form.min_level),
+  max_level: toNumber(form.max_level),
+  min_trust_score: toNumber(form.min_trust_score),
+  max_trust_score: toNumber(form.max_trust_score),
+  starts_at: toIso(form.starts_at),
+  ends_at: toIso(form.ends_at),
+  coin_type: form.coin_type === 'any' ? null : form.coin_type,
+  amount_min: toNumber(form.amount_min),
+  amount_max: toNumber(form.amount_max),
+  multiplier: form.multiplier.trim() === '' ? 1 : Number(form.multiplier),
+  daily_limit_icoin: toNumber(form.daily_limit_icoin),
+  daily_limit_vicoin: toNumber(form.daily_limit_vicoin),
+  daily_limit_promo_views: toNumber(form.daily_limit_promo_views),
+});
+
+const describeConditions = (rule: RewardRule): string[] => {
+  const parts: string[] = [];
+  parts.push(rule.reward_type ? rule.reward_type.replace('_', ' ') : 'all rewards');
+  if (rule.subscription_tiers?.length) parts.push(`tiers: ${rule.subscription_tiers.join(', ')}`);
+  if (rule.min_level !== null || rule.max_level !== null) {
+    parts.push(`level ${rule.min_level ?? 1}–${rule.max_level ?? '∞'}`);
+  }
+  if (rule.min_trust_score !== null || rule.max_trust_score !== null) {
+    parts.push(`trust ${rule.min_trust_score ?? 0}–${rule.max_trust_score ?? 100}`);
+  }
+  if (rule.starts_at || rule.ends_at) {
+    parts.push(`${rule.starts_at ? format(new Date(rule.starts_at), 'MMM d') : '…'} → ${rule.ends_at ? format(new Date(rule.ends_at), 'MMM d') : '…'}`);
+  }
+  return parts;
+};
+
+const describeEffects = (rule: RewardRule): string[] => {
+  const parts: string[] = [];
+  if (rule.amount_min !== null || rule.amount_max !== null) {
+    const range = rule.amount_min === rule.amount_max
+      ? `${rule.amount_min}`
+      : `${rule.amount_min ?? '?'}–${rule.amount_max ?? '?'}`;
+    parts.push(`${range} ${rule.coin_type ?? 'coins'}`);
+  } else if (rule.coin_type) {
+    parts.push(`pays ${rule.coin_type}`);
+  }
+  if (Number(rule.multiplier) !== 1) parts.push(`×${rule.multiplier}`);
+  if (rule.daily_limit_icoin !== null) parts.push(`icoin cap ${rule.daily_limit_icoin}/day`);
+  if (rule.daily_limit_vicoin !== null) parts.push(`vicoin cap ${rule.daily_limit_vicoin}/day`);
+  if (rule.daily_limit_promo_views !== null) parts.push(`${rule.daily_limit_promo_views} promo views/day`);
+  return parts;
+};
+
+const RewardRulesEditor: React.FC = () => {
+  const { rewardRules, saveRewardRule, toggleRewardRule, deleteRewardRule } = useAdmin();
+  const { isAdmin } = useUserRole();
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingRule, setEditingRule] = useState<RewardRule | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openEditor = (rule?: RewardRule) => {
+    setEditingRule(rule ?? null);
+    setForm(rule ? ruleToForm(rule) : EMPTY_FORM);
+    setShowDialog(true);
+  };
+
+  const updateField = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm(prev => ({ ...prev, [key]: value }));
+  };
+
+  const toggleTier = (tier: string) => {
+    setForm(prev => ({
+      ...prev,
+      subscription_tiers: prev.subscription_tiers.includes(tier)
+        ? prev.subscription_tiers.filter(t => t !== tier)
+        : [...prev.subscription_tiers, tier],
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const saved = await saveRewardRule(formToRule(form), editingRule?.id);
+    setIsSaving(false);
+    if (saved) setShowDialog(false);
+  };
+
+  const numberField = (key: keyof RuleForm, label: string, placeholder = 'Any') => (
+    <div className="space-y-1">
+      <Label htmlFor={key} className="text-xs">{label}</Label>
+      <Input
+        id={key}
+        type="number"
+        placeholder={placeholder}
+        value={form[key] as string}
+        onChange={(e) => updateField(key, e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="w-5 h-5" />
+              Reward Rules
+            </CardTitle>
+            {isAdmin && (
+              <Button size="sm" onClick={() => openEditor()}>
+                <Plus className="w-4 h-4 mr-2" /> New rule
+              </Button>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Matching rules apply from lowest to highest priority. Later rules override amounts and limits; multipliers compound.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {rewardRules.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">No reward rules configured</p>
+          ) : (
+            <div className="space-y-3">
+              {rewardRules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`flex items-center justify-between gap-4 p-4 border rounded-lg ${rule.is_active ? '' : 'opacity-60'}`}
+                >
+                  <div className="space-y-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium">{rule.name}</span>
+                      <Badge variant="outline" className="text-xs">P{rule.priority}</Badge>
+                      {!rule.is_active && <Badge variant="secondary" className="text-xs">Inactive</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      When {describeConditions(rule).join(' • ')}
+                    </p>
+                    <p className="text-sm">
+                      {describeEffects(rule).join(' • ') || 'No effects'}
+                    </p>
+                  </div>
+                  {isAdmin && (
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Switch checked={rule.is_active} onCheckedChange={() => toggleRewardRule(rule)} />
+                      <Button variant="ghost" size="icon" onClick={() => openEditor(rule)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => deleteRewardRule(rule)}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showDialog} onOpenChange={setShowDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Reward Rule' : 'New Reward Rule'}</DialogTitle>
+            <DialogDescription>
+              Leave a condition empty to match everyone; leave an effect empty to keep the value from lower-priority rules.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2 space-y-1">
+                <Label htmlFor="name" className="text-xs">Name</Label>
+                <Input id="name" value={form.name} onChange={(e) => updateField('name', e.target.value)} />
+              </div>
+              {numberField('priority', 'Priority', '0')}
+            </div>
+            <Textarea
+              placeholder="Description..."
+              value={form.description}
+              onChange={(e) => updateField('description', e.target.value)}
+            />
+
+            <h4 className="text-sm font-semibold">Conditions</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Reward type</Label>
+                <Select value={form.reward_type} onValueChange={(value) => updateField('reward_type', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Any</SelectItem>
+                    {REWARD_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{type.replace('_', ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Subscription tiers</Label>
+                <div className="flex gap-1 flex-wrap">
+                  {SUBSCRIPTION_TIERS.map(tier => (
+                    <Button
+                      key={tier}
+                      type="button"
+                      size="sm"
+                      variant={form.subscription_tiers.includes(tier) ? 'default' : 'outline'}
+                      onClick={() => toggleTier(tier)}
+                    >
+                      {tier}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              {numberField('min_level', 'Min level')}
+              {numberField('max_level', 'Max level')}
+              {numberField('min_trust_score', 'Min trust score')}
+              {numberField('max_trust_score', 'Max trust score')}
+              <div className="space-y-1">
+                <Label htmlFor="starts_at" className="text-xs">Starts</Label>
+                <Input id="starts_at" type="datetime-local" value={form.starts_at} onChange={(e) => updateField('starts_at', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="ends_at" className="text-xs">Ends</Label>
+                <Input id="ends_at" type="datetime-local" value={form.ends_at} onChange={(e) => updateField('ends_at', e.target.value)} />
+              </div>
+            </div>
+
+            <h4 className="text-sm font-semibold">Effects</h4>
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs">Coin type</Label>
+                <Select value={form.coin_type} onValueChange={(value) => updateField('coin_type', value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Unchanged</SelectItem>
+                    <SelectItem value="icoin">icoin</SelectItem>
+                    <SelectItem value="vicoin">vicoin</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {numberField('amount_min', 'Amount min', 'Unchanged')}
+              {numberField('amount_max', 'Amount max', 'Unchanged')}
+              {numberField('multiplier', 'Multiplier', '1')}
+              {numberField('daily_limit_icoin', 'icoin / day', 'Unchanged')}
+              {numberField('daily_limit_vicoin', 'vicoin / day', 'Unchanged')}
+              {numberField('daily_limit_promo_views', 'Promo views / day', 'Unchanged')}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch id="is_active" checked={form.is_active} onCheckedChange={(checked) => updateField('is_active', checked)} />
+              <Label htmlFor="is_active">Active</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!form.name.trim() || isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Rule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RewardRulesEditor;
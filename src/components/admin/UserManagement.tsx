@@ -28,6 +28,7 @@ import {
   Shield, 
   Ban,
   UserCheck,
+  Building2,
   Crown,
   Loader2
 } from 'lucide-react';
@@ -128,7 +129,7 @@ const UserManagement: React.FC = () => {
 
   const handleUpdateRole = async () => {
     if (!selectedUser || !newRole) return;
-    await updateUserRole(selectedUser.user_id, newRole as 'user' | 'creator' | 'moderator' | 'admin');
+    await updateUserRole(selectedUser.user_id, newRole as 'user' | 'creator' | 'moderator' | 'admin' | 'business');
     setShowRoleDialog(false);
     setNewRole('');
     setSelectedUser(null);
@@ -143,6 +144,8 @@ const UserManagement: React.FC = () => {
         return <Badge className="bg-accent"><Shield className="w-3 h-3 mr-1" /> Mod</Badge>;
       case 'creator':
         return <Badge variant="secondary"><UserCheck className="w-3 h-3 mr-1" /> Creator</Badge>;
+      case 'business':
+        return <Badge variant="secondary"><Building2 className="w-3 h-3 mr-1" /> Business</Badge>;
       default:
         return <Badge variant="outline">User</Badge>;
     }
@@ -353,6 +356,7 @@ const UserManagement: React.FC = () => {
               <SelectContent>
                 <SelectItem value="user">User</SelectItem>
                 <SelectItem value="creator">Creator</SelectItem>
+                <SelectItem value="business">Business</SelectItem>
                 <SelectItem value="moderator">Moderator</SelectItem>
                 <SelectItem value="admin">Admin</SelectItem>
               </SelectContent>
@@ -3,3 +3,5 @@ export { default as ContentModeration } from './ContentModeration';
 export { default as UserManagement } from './UserManagement';
 export { default as AnalyticsPanel } from './AnalyticsPanel';
 export { default as AdminActionsLog } from './AdminActionsLog';
+export { default as BalanceReconciliation } from './BalanceReconciliation';
+export { default as RewardRulesEditor } from './RewardRulesEditor';
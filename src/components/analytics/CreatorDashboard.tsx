@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { 
   TrendingUp, Eye, Heart, Share2, Users, Play, 
-  BarChart3, Clock, ArrowUp, ArrowDown, Minus, DollarSign, Bell
+  BarChart3, Clock, ArrowUp, ArrowDown, Minus, DollarSign, Bell, Lock
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -13,6 +13,7 @@ import { ContentComparison } from './ContentComparison';
 import { SmartPostScheduler } from './SmartPostScheduler';
 import { RevenueAnalytics } from './RevenueAnalytics';
 import { FollowerGrowth } from './FollowerGrowth';
+import { LockedSegmentAnalytics } from './LockedSegmentAnalytics';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
 import { format, subDays, eachDayOfInterval, startOfDay, endOfDay } from 'date-fns';
 
@@ -291,7 +292,7 @@ export const CreatorDashboard: React.FC = () => {
 
       {/* Sub-sections */}
       <Tabs defaultValue="audience" className="w-full">
-        <TabsList className="w-full grid grid-cols-6 h-auto p-1">
+        <TabsList className="w-full grid grid-cols-7 h-auto p-1">
           <TabsTrigger value="audience" className="text-[10px] px-1 py-2 flex-col gap-0.5">
             <Users className="w-3 h-3" />
             Audience
@@ -316,6 +317,10 @@ export const CreatorDashboard: React.FC = () => {
             <BarChart3 className="w-3 h-3" />
             Compare
           </TabsTrigger>
+          <TabsTrigger value="unlocks" className="text-[10px] px-1 py-2 flex-col gap-0.5">
+            <Lock className="w-3 h-3" />
+            Unlocks
+          </TabsTrigger>
         </TabsList>
         <TabsContent value="audience" className="mt-4">
           <AudienceInsights />
@@ -335,6 +340,9 @@ export const CreatorDashboard: React.FC = () => {
         <TabsContent value="compare" className="mt-4">
           <ContentComparison />
         </TabsContent>
+        <TabsContent value="unlocks" className="mt-4">
+          <LockedSegmentAnalytics />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,140 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Lock, Coins, Unlock, UserPlus, Heart, MessageCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { formatDistanceToNow } from 'date-fns';
+
+interface SegmentStats {
+  segment_id: string;
+  content_id: string;
+  content_title: string;
+  action_type: string;
+  amount: number;
+  unlocks: number;
+  coins_earned: number;
+  last_unlocked_at: string | null;
+}
+
+const actionLabels: Record<string, { label: string; icon: React.ReactNode }> = {
+  payment: { label: 'Pay', icon: <Coins className="w-3 h-3" /> },
+  follow: { label: 'Follow', icon: <UserPlus className="w-3 h-3" /> },
+  like: { label: 'Like', icon: <Heart className="w-3 h-3" /> },
+  comment: { label: 'Comment', icon: <MessageCircle className="w-3 h-3" /> },
+};
+
+export const LockedSegmentAnalytics: React.FC = () => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [stats, setStats] = useState<SegmentStats[]>([]);
+
+  const loadStats = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.rpc('locked_segment_stats');
+      if (error) throw error;
+      setStats(data || []);
+    } catch (error) {
+      console.error('Error loading unlock stats:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        <div className="h-24 bg-muted rounded-xl animate-pulse" />
+        <div className="h-48 bg-muted rounded-xl animate-pulse" />
+      </div>
+    );
+  }
+
+  if (stats.length === 0) {
+    return (
+      <Card className="neu-card">
+        <CardContent className="p-6 text-center">
+          <Lock className="w-12 h-12 text-muted-foreground mx-auto mb-3" />
+          <h3 className="font-semibold text-foreground mb-2">No Locked Segments</h3>
+          <p className="text-sm text-muted-foreground">
+            Blur a segment in the Studio and add a call to action to see unlocks here
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const totalUnlocks = stats.reduce((sum, s) => sum + s.unlocks, 0);
+  const totalCoins = stats.reduce((sum, s) => sum + s.coins_earned, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <Card className="neu-card">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 text-muted-foreground text-xs mb-1">
+              <Unlock className="w-3.5 h-3.5" />
+              Unlocks
+            </div>
+            <p className="text-2xl font-bold text-foreground">{totalUnlocks.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+        <Card className="neu-card">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-2 text-muted-foreground text-xs mb-1">
+              <Coins className="w-3.5 h-3.5" />
+              Coins earned
+            </div>
+            <p className="text-2xl font-bold text-foreground">{totalCoins.toLocaleString()}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="neu-card">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Lock className="w-4 h-4 text-primary" />
+            Locked Segments
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {stats.map((s) => {
+            const action = actionLabels[s.action_type];
+            return (
+              <div key={s.segment_id} className="flex items-center gap-3 p-2 rounded-lg bg-muted/50">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-foreground truncate">{s.content_title}</p>
+                  <div className="flex items-center gap-2 mt-0.5">
+                    <Badge variant="outline" className="text-[10px] gap-1 px-1.5 py-0">
+                      {action?.icon}
+                      {action?.label ?? s.action_type}
+                      {s.action_type === 'payment' && ` ${s.amount}`}
+                    </Badge>
+                    {s.last_unlocked_at && (
+                      <span className="text-[10px] text-muted-foreground">
+                        {formatDistanceToNow(new Date(s.last_unlocked_at), { addSuffix: true })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-semibold text-foreground">{s.unlocks}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {s.coins_earned > 0 ? `${s.coins_earned} coins` : 'unlocks'}
+                  </p>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
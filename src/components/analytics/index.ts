@@ -5,3 +5,4 @@ export { ContentComparison } from './ContentComparison';
 export { SmartPostScheduler } from './SmartPostScheduler';
 export { RevenueAnalytics } from './RevenueAnalytics';
 export { FollowerGrowth } from './FollowerGrowth';
+export { LockedSegmentAnalytics } from './LockedSegmentAnalytics';
@@ -1,47 +1,191 @@
-import React, { useState } from 'react';
-import { X, Camera, Mic, MicOff, Video, VideoOff, Radio, Users, Settings, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Mic, MicOff, Video, VideoOff, Radio, Users, Settings, CalendarClock, Loader2, Gift } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLiveStream } from '@/hooks/useLiveStream';
+import { getSfuAdapter, SfuUnavailableError, type SfuPublication } from '@/lib/liveSfu';
+import {
+  cancelScheduledStream,
+  createLiveStream,
+  endLiveStream,
+  startLiveStream,
+  type LiveStream,
+} from '@/lib/liveStreams';
 
 interface GoLiveScreenProps {
   isOpen: boolean;
   onClose: () => void;
+  // A stream the host scheduled earlier, to take live instead of starting a new one
+  scheduledStream?: LiveStream | null;
 }
 
-export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose }) => {
+// Comments shown over the host's preview; the full feed is in the viewer
+const HOST_COMMENT_COUNT = 6;
+
+export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose, scheduledStream = null }) => {
+  const { user } = useAuth();
   const [title, setTitle] = useState('');
-  const [isLive, setIsLive] = useState(false);
+  const [liveStream, setLiveStream] = useState<LiveStream | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
   const [isMicOn, setIsMicOn] = useState(true);
   const [isCameraOn, setIsCameraOn] = useState(true);
-  const [viewerCount, setViewerCount] = useState(0);
+  const [media, setMedia] = useState<MediaStream | null>(null);
   const [allowComments, setAllowComments] = useState(true);
   const [allowGifts, setAllowGifts] = useState(true);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [scheduleAt, setScheduleAt] = useState('');
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const publicationRef = useRef<SfuPublication | null>(null);
+  const { stream: hostedStream, comments, viewerCount } = useLiveStream(liveStream, { asHost: true });
+  const isLive = hostedStream?.status === 'live';
+
+  useEffect(() => {
+    if (!isOpen || !scheduledStream) return;
+    setTitle(scheduledStream.title);
+    setAllowComments(scheduledStream.allowComments);
+    setAllowGifts(scheduledStream.allowGifts);
+  }, [isOpen, scheduledStream]);
+
+  // Camera and mic for the preview, and what gets published once live
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    let captured: MediaStream | null = null;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'user' }, audio: true })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        captured = stream;
+        setMedia(stream);
+      })
+      .catch((error) => {
+        console.error('[GoLive] Camera access error:', error);
+        toast.error('Could not access camera and microphone');
+      });
+
+    return () => {
+      cancelled = true;
+      captured?.getTracks().forEach(track => track.stop());
+      setMedia(null);
+    };
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = media;
+  }, [media, isCameraOn]);
+
+  // Muting disables the tracks rather than dropping them, so viewers stay connected
+  useEffect(() => {
+    media?.getAudioTracks().forEach(track => { track.enabled = isMicOn; });
+    media?.getVideoTracks().forEach(track => { track.enabled = isCameraOn; });
+  }, [media, isMicOn, isCameraOn]);
+
+  // The server ends streams it stops hearing from (e.g. after the connection dropped);
+  // a stream the host ended has already let go of its publication
+  useEffect(() => {
+    if (hostedStream?.status !== 'ended' || !publicationRef.current) return;
+    publicationRef.current.stop();
+    publicationRef.current = null;
+    setLiveStream(null);
+    toast.info('Stream ended');
+  }, [hostedStream?.status]);
+
+  // Leaving without ending (closing the tab, navigating away) just drops the media; the
+  // server ends the stream once the host's heartbeat stops
+  useEffect(() => () => publicationRef.current?.stop(), []);
 
-  const handleGoLive = () => {
+  const handleGoLive = async () => {
+    if (!user) {
+      toast.error('Sign in to go live');
+      return;
+    }
     if (!title.trim()) {
       toast.error('Please add a title for your stream');
       return;
     }
-    
-    setIsLive(true);
-    toast.success('You are now live!');
-    
-    // Simulate viewers joining
-    const interval = setInterval(() => {
-      setViewerCount(prev => prev + Math.floor(Math.random() * 3) + 1);
-    }, 2000);
-
-    setTimeout(() => clearInterval(interval), 30000);
+
+    setIsStarting(true);
+    try {
+      if (isScheduling) {
+        const scheduledAt = new Date(scheduleAt);
+        if (!scheduleAt || Number.isNaN(scheduledAt.getTime()) || scheduledAt.getTime() <= Date.now()) {
+          toast.error('Pick a time in the future');
+          return;
+        }
+        await createLiveStream(user.id, { title, allowComments, allowGifts, scheduledAt });
+        toast.success('Stream scheduled', { description: scheduledAt.toLocaleString() });
+        onClose();
+        return;
+      }
+
+      if (!media) {
+        toast.error('Camera and microphone are needed to go live');
+        return;
+      }
+
+      const options = { title, allowComments, allowGifts };
+      const stream = scheduledStream
+        ? await startLiveStream(scheduledStream.id, options)
+        : await createLiveStream(user.id, options);
+      try {
+        publicationRef.current = await getSfuAdapter(stream.sfuProvider).publish(stream.sfuRoom, media);
+      } catch (error) {
+        await endLiveStream(stream.id).catch(() => undefined);
+        throw error;
+      }
+      setLiveStream(stream);
+      toast.success('You are now live!');
+    } catch (error) {
+      console.error('[GoLive] Error starting stream:', error);
+      if (error instanceof SfuUnavailableError) {
+        toast.error('Live streaming is unavailable', { description: error.message });
+        return;
+      }
+      const code = (error as { code?: string }).code;
+      toast.error(code === '23505' ? 'You are already live somewhere else' : 'Could not start the stream');
+    } finally {
+      setIsStarting(false);
+    }
   };
 
-  const handleEndStream = () => {
-    setIsLive(false);
-    setViewerCount(0);
-    toast.info('Stream ended');
+  const handleEndStream = async () => {
+    if (!liveStream) return;
+    publicationRef.current?.stop();
+    publicationRef.current = null;
+    try {
+      const ended = await endLiveStream(liveStream.id);
+      toast.info('Stream ended', { description: `Peak audience: ${ended.peakViewers.toLocaleString()}` });
+    } catch (error) {
+      console.error('[GoLive] Error ending stream:', error);
+      toast.info('Stream ended');
+    }
+    setLiveStream(null);
+  };
+
+  const handleCancelScheduled = async () => {
+    if (!scheduledStream) return;
+    try {
+      await cancelScheduledStream(scheduledStream.id);
+      toast.info('Scheduled stream cancelled');
+      onClose();
+    } catch (error) {
+      console.error('[GoLive] Error cancelling stream:', error);
+      toast.error('Could not cancel the stream');
+    }
+  };
+
+  const handleClose = async () => {
+    if (isLive) await handleEndStream();
+    onClose();
   };
 
   if (!isOpen) return null;
@@ -50,25 +194,22 @@ export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose }) =
     <div className="fixed inset-0 z-[100] bg-black">
       {/* Camera Preview */}
       <div className="absolute inset-0 bg-gradient-to-b from-muted to-background flex items-center justify-center">
-        {isCameraOn ? (
-          <div className="text-center text-muted-foreground">
-            <Camera className="w-16 h-16 mx-auto mb-4 opacity-50" />
-            <p>Camera preview would appear here</p>
-          </div>
+        {media && isCameraOn ? (
+          <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover -scale-x-100" />
         ) : (
           <div className="text-center text-muted-foreground">
             <VideoOff className="w-16 h-16 mx-auto mb-4 opacity-50" />
-            <p>Camera is off</p>
+            <p>{media ? 'Camera is off' : 'Waiting for camera...'}</p>
           </div>
         )}
       </div>
 
       {/* Header */}
       <div className="absolute top-4 left-4 right-4 flex items-center justify-between z-10">
-        <Button variant="ghost" size="icon" onClick={onClose} className="text-white bg-black/50">
+        <Button variant="ghost" size="icon" onClick={handleClose} className="text-white bg-black/50">
           <X className="w-6 h-6" />
         </Button>
-        
+
         {isLive && (
           <div className="flex items-center gap-4">
             <Badge variant="destructive" className="flex items-center gap-1">
@@ -87,6 +228,27 @@ export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose }) =
         </Button>
       </div>
 
+      {/* Recent comments and gifts while live */}
+      {isLive && comments.length > 0 && (
+        <div className="absolute bottom-32 left-4 right-4 z-10 space-y-1.5">
+          {comments.slice(-HOST_COMMENT_COUNT).map((comment) => (
+            <div
+              key={comment.id}
+              className={`w-fit max-w-full px-2 py-1 rounded-lg text-sm text-white ${comment.isGift ? 'bg-amber-500/40' : 'bg-black/40'}`}
+            >
+              <span className="font-medium mr-1">{comment.username}</span>
+              {comment.isGift && (
+                <span className="inline-flex items-center gap-1 text-amber-300 text-xs mr-1">
+                  <Gift className="w-3 h-3" />
+                  {comment.giftAmount}
+                </span>
+              )}
+              <span className="text-white/80">{comment.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Controls */}
       <div className="absolute bottom-0 left-0 right-0 p-4 bg-gradient-to-t from-black/80 to-transparent z-10">
         {!isLive ? (
@@ -94,6 +256,7 @@ export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose }) =
             <Input
               placeholder="Add a title for your stream..."
               value={title}
+              maxLength={120}
               onChange={(e) => setTitle(e.target.value)}
               className="bg-white/10 border-white/20 text-white placeholder:text-white/50"
             />
@@ -115,8 +278,27 @@ export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose }) =
                   onCheckedChange={setAllowGifts}
                 />
               </div>
+              {!scheduledStream && (
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="schedule" className="text-white text-sm">Later</Label>
+                  <Switch
+                    id="schedule"
+                    checked={isScheduling}
+                    onCheckedChange={setIsScheduling}
+                  />
+                </div>
+              )}
             </div>
 
+            {isScheduling && (
+              <Input
+                type="datetime-local"
+                value={scheduleAt}
+                onChange={(e) => setScheduleAt(e.target.value)}
+                className="bg-white/10 border-white/20 text-white"
+              />
+            )}
+
             <div className="flex items-center justify-center gap-6">
               <Button
                 variant="ghost"
@@ -129,9 +311,16 @@ export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose }) =
 
               <Button
                 onClick={handleGoLive}
+                disabled={isStarting}
                 className="rounded-full w-20 h-20 bg-red-500 hover:bg-red-600"
               >
-                <Radio className="w-8 h-8" />
+                {isStarting ? (
+                  <Loader2 className="w-8 h-8 animate-spin" />
+                ) : isScheduling ? (
+                  <CalendarClock className="w-8 h-8" />
+                ) : (
+                  <Radio className="w-8 h-8" />
+                )}
               </Button>
 
               <Button
@@ -143,6 +332,12 @@ export const GoLiveScreen: React.FC<GoLiveScreenProps> = ({ isOpen, onClose }) =
                 {isCameraOn ? <Video className="w-6 h-6 text-white" /> : <VideoOff className="w-6 h-6 text-white" />}
               </Button>
             </div>
+
+            {scheduledStream && (
+              <Button variant="ghost" size="sm" onClick={handleCancelScheduled} className="w-full text-white/70">
+                Cancel scheduled stream
+              </Button>
+            )}
           </div>
         ) : (
           <div className="flex items-center justify-center gap-6">
@@ -1,58 +1,32 @@
 import React, { useState } from 'react';
-import { Radio, Users, Plus } from 'lucide-react';
+import { Radio, Users, Plus, CalendarClock, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLiveStreams } from '@/hooks/useLiveStreams';
+import type { LiveStream } from '@/lib/liveStreams';
 import { LiveStreamViewer } from './LiveStreamViewer';
 import { GoLiveScreen } from './GoLiveScreen';
 
-interface LiveStream {
-  id: string;
-  hostId: string;
-  hostUsername: string;
-  hostAvatarUrl?: string;
-  title: string;
-  viewerCount: number;
-  thumbnailUrl: string;
-  isLive: boolean;
-}
-
-const mockLiveStreams: LiveStream[] = [
-  {
-    id: '1',
-    hostId: 'h1',
-    hostUsername: 'gaming_pro',
-    hostAvatarUrl: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=150&h=150&fit=crop',
-    title: 'Late night gaming session 🎮',
-    viewerCount: 1234,
-    thumbnailUrl: 'https://images.unsplash.com/photo-1542751371-adc38448a05e?w=800&h=600&fit=crop',
-    isLive: true,
-  },
-  {
-    id: '2',
-    hostId: 'h2',
-    hostUsername: 'chef_maria',
-    hostAvatarUrl: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=150&h=150&fit=crop',
-    title: 'Cooking Italian pasta from scratch',
-    viewerCount: 856,
-    thumbnailUrl: 'https://images.unsplash.com/photo-1556909114-f6e7ad7d3136?w=800&h=600&fit=crop',
-    isLive: true,
-  },
-  {
-    id: '3',
-    hostId: 'h3',
-    hostUsername: 'fitness_coach',
-    hostAvatarUrl: 'https://images.unsplash.com/photo-1570295999919-56ceb5ecca61?w=150&h=150&fit=crop',
-    title: 'Morning workout - Join me! 💪',
-    viewerCount: 2341,
-    thumbnailUrl: 'https://images.unsplash.com/photo-1534438327276-14e5300c3a48?w=800&h=600&fit=crop',
-    isLive: true,
-  },
-];
-
 export const LiveFeed: React.FC = () => {
+  const { user } = useAuth();
+  const { live, scheduled, isLoading } = useLiveStreams();
   const [selectedStream, setSelectedStream] = useState<LiveStream | null>(null);
   const [showGoLive, setShowGoLive] = useState(false);
+  const [scheduledToStart, setScheduledToStart] = useState<LiveStream | null>(null);
+
+  // Hosts start their own scheduled streams from here; everyone else just sees them coming
+  const handleScheduledClick = (stream: LiveStream) => {
+    if (stream.hostId !== user?.id) return;
+    setScheduledToStart(stream);
+    setShowGoLive(true);
+  };
+
+  const handleCloseGoLive = () => {
+    setShowGoLive(false);
+    setScheduledToStart(null);
+  };
 
   return (
     <>
@@ -69,47 +43,91 @@ export const LiveFeed: React.FC = () => {
           </Button>
         </div>
 
-        {/* Live Streams Grid */}
-        <div className="grid grid-cols-2 gap-3">
-          {mockLiveStreams.map((stream) => (
-            <button
-              key={stream.id}
-              onClick={() => setSelectedStream(stream)}
-              className="relative rounded-xl overflow-hidden aspect-[4/5] group"
-            >
-              <img
-                src={stream.thumbnailUrl}
-                alt={stream.title}
-                className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
-              />
-              <div className="absolute inset-0 bg-gradient-to-b from-black/30 via-transparent to-black/60" />
-              
-              {/* Live Badge */}
-              <Badge variant="destructive" className="absolute top-2 left-2 flex items-center gap-1 text-xs">
-                <Radio className="w-3 h-3 animate-pulse" />
-                LIVE
-              </Badge>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : live.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-12">Nobody is live right now</p>
+        ) : (
+          /* Live Streams Grid */
+          <div className="grid grid-cols-2 gap-3">
+            {live.map((stream) => (
+              <button
+                key={stream.id}
+                onClick={() => setSelectedStream(stream)}
+                className="relative rounded-xl overflow-hidden aspect-[4/5] group bg-gradient-to-br from-rose-900 to-muted"
+              >
+                {(stream.thumbnailUrl || stream.host.avatarUrl) && (
+                  <img
+                    src={stream.thumbnailUrl || stream.host.avatarUrl || undefined}
+                    alt={stream.title}
+                    className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                  />
+                )}
+                <div className="absolute inset-0 bg-gradient-to-b from-black/30 via-transparent to-black/60" />
 
-              {/* Viewer Count */}
-              <div className="absolute top-2 right-2 flex items-center gap-1 text-white text-xs bg-black/50 px-2 py-1 rounded-full">
-                <Users className="w-3 h-3" />
-                {stream.viewerCount.toLocaleString()}
-              </div>
+                {/* Live Badge */}
+                <Badge variant="destructive" className="absolute top-2 left-2 flex items-center gap-1 text-xs">
+                  <Radio className="w-3 h-3 animate-pulse" />
+                  LIVE
+                </Badge>
 
-              {/* Host Info */}
-              <div className="absolute bottom-0 left-0 right-0 p-3">
-                <div className="flex items-center gap-2 mb-1">
-                  <Avatar className="w-6 h-6 border border-white">
-                    <AvatarImage src={stream.hostAvatarUrl} />
-                    <AvatarFallback>{stream.hostUsername.slice(0, 1)}</AvatarFallback>
-                  </Avatar>
-                  <span className="text-white text-sm font-medium">{stream.hostUsername}</span>
+                {/* Viewer Count */}
+                <div className="absolute top-2 right-2 flex items-center gap-1 text-white text-xs bg-black/50 px-2 py-1 rounded-full">
+                  <Users className="w-3 h-3" />
+                  {stream.viewerCount.toLocaleString()}
                 </div>
-                <p className="text-white/80 text-xs line-clamp-2">{stream.title}</p>
-              </div>
-            </button>
-          ))}
-        </div>
+
+                {/* Host Info */}
+                <div className="absolute bottom-0 left-0 right-0 p-3">
+                  <div className="flex items-center gap-2 mb-1">
+                    <Avatar className="w-6 h-6 border border-white">
+                      <AvatarImage src={stream.host.avatarUrl ?? undefined} />
+                      <AvatarFallback>{stream.host.username.slice(0, 1)}</AvatarFallback>
+                    </Avatar>
+                    <span className="text-white text-sm font-medium">{stream.host.username}</span>
+                  </div>
+                  <p className="text-white/80 text-xs line-clamp-2">{stream.title}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Upcoming */}
+        {scheduled.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold text-sm text-muted-foreground">Coming up</h3>
+            {scheduled.map((stream) => (
+              <button
+                key={stream.id}
+                onClick={() => handleScheduledClick(stream)}
+                className="w-full flex items-center gap-3 p-3 rounded-xl bg-muted/40 text-left"
+              >
+                <Avatar className="w-10 h-10">
+                  <AvatarImage src={stream.host.avatarUrl ?? undefined} />
+                  <AvatarFallback>{stream.host.username.slice(0, 1)}</AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{stream.title}</p>
+                  <p className="text-xs text-muted-foreground">{stream.host.username}</p>
+                </div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground shrink-0">
+                  <CalendarClock className="w-3 h-3" />
+                  {stream.scheduledAt && new Date(stream.scheduledAt).toLocaleString([], {
+                    weekday: 'short',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </div>
+                {stream.hostId === user?.id && (
+                  <Badge variant="secondary" className="text-xs">Start</Badge>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Stream Viewer */}
@@ -123,7 +141,8 @@ export const LiveFeed: React.FC = () => {
       {/* Go Live Screen */}
       <GoLiveScreen
         isOpen={showGoLive}
-        onClose={() => setShowGoLive(false)}
+        onClose={handleCloseGoLive}
+        scheduledStream={scheduledToStart}
       />
     </>
   );
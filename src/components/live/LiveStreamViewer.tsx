@@ -1,97 +1,123 @@
-import React, { useState, useEffect } from 'react';
-import { X, Heart, MessageCircle, Share2, Gift, Users, Radio, Sparkles } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Heart, MessageCircle, Share2, Gift, Users, Radio, Sparkles, Coins, Loader2 } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
-
-interface LiveComment {
-  id: string;
-  userId: string;
-  username: string;
-  avatarUrl?: string;
-  message: string;
-  isGift?: boolean;
-  giftAmount?: number;
-}
-
-interface LiveStream {
-  id: string;
-  hostId: string;
-  hostUsername: string;
-  hostAvatarUrl?: string;
-  title: string;
-  viewerCount: number;
-  thumbnailUrl: string;
-  isLive: boolean;
-}
+import { useAuth } from '@/contexts/AuthContext';
+import { useLiveStream } from '@/hooks/useLiveStream';
+import { getSfuAdapter } from '@/lib/liveSfu';
+import type { CoinType, LiveStream } from '@/lib/liveStreams';
 
 interface LiveStreamViewerProps {
   stream: LiveStream;
   onClose: () => void;
 }
 
-export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream, onClose }) => {
-  const [comments, setComments] = useState<LiveComment[]>([]);
+const GIFT_AMOUNTS = [10, 50, 100, 500];
+
+export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream: initialStream, onClose }) => {
+  const { user, profile } = useAuth();
+  const { stream, comments, viewerCount, isSending, isGifting, sendComment, sendGift } = useLiveStream(initialStream);
   const [message, setMessage] = useState('');
-  const [viewerCount, setViewerCount] = useState(stream.viewerCount);
   const [isFollowing, setIsFollowing] = useState(false);
+  const [media, setMedia] = useState<MediaStream | null>(null);
+  const [giftCoinType, setGiftCoinType] = useState<CoinType>('vicoin');
+  const [isGiftOpen, setIsGiftOpen] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const commentsEndRef = useRef<HTMLDivElement>(null);
+
+  const current = stream ?? initialStream;
+  const isLive = current.status === 'live';
+  const isOwnStream = user?.id === current.hostId;
+  const balance = giftCoinType === 'vicoin' ? (profile?.vicoin_balance ?? 0) : (profile?.icoin_balance ?? 0);
 
-  // Simulate incoming comments
+  // Pull the host's video in through the stream's SFU while it's on air
   useEffect(() => {
-    const mockComments: LiveComment[] = [
-      { id: '1', userId: 'u1', username: 'viewer1', message: '🔥 This is amazing!', avatarUrl: 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?w=50&h=50&fit=crop' },
-      { id: '2', userId: 'u2', username: 'viewer2', message: 'Love it!', avatarUrl: 'https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=50&h=50&fit=crop' },
-      { id: '3', userId: 'u3', username: 'big_tipper', message: 'Sent a gift!', isGift: true, giftAmount: 100, avatarUrl: 'https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?w=50&h=50&fit=crop' },
-    ];
-    setComments(mockComments);
-
-    const interval = setInterval(() => {
-      setViewerCount(prev => prev + Math.floor(Math.random() * 5) - 2);
-    }, 3000);
-
-    return () => clearInterval(interval);
-  }, []);
-
-  const handleSendMessage = () => {
-    if (!message.trim()) return;
-    
-    setComments(prev => [...prev, {
-      id: Date.now().toString(),
-      userId: 'current',
-      username: 'You',
-      message: message,
-    }]);
-    setMessage('');
+    if (!isLive) {
+      setMedia(null);
+      return;
+    }
+
+    let cancelled = false;
+    let subscription: { stop(): void } | null = null;
+    getSfuAdapter(current.sfuProvider)
+      .subscribe(current.sfuRoom, (incoming) => !cancelled && setMedia(incoming))
+      .then((sub) => {
+        if (cancelled) sub.stop();
+        else subscription = sub;
+      })
+      .catch((error) => console.error('[LiveStreamViewer] Error connecting to stream:', error));
+
+    return () => {
+      cancelled = true;
+      subscription?.stop();
+    };
+  }, [isLive, current.sfuProvider, current.sfuRoom]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = media;
+  }, [media]);
+
+  useEffect(() => {
+    commentsEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [comments.length]);
+
+  const handleSendMessage = async () => {
+    if (!message.trim() || isSending) return;
+    if (await sendComment(message)) setMessage('');
+  };
+
+  const handleGift = async (amount: number) => {
+    if (await sendGift(amount, giftCoinType)) setIsGiftOpen(false);
   };
 
   return (
     <div className="fixed inset-0 z-[100] bg-black">
       {/* Video Background */}
       <div className="absolute inset-0">
-        <img
-          src={stream.thumbnailUrl}
-          alt={stream.title}
-          className="w-full h-full object-cover"
-        />
+        {media ? (
+          <video ref={videoRef} autoPlay playsInline className="w-full h-full object-cover" />
+        ) : current.thumbnailUrl || current.host.avatarUrl ? (
+          <img
+            src={current.thumbnailUrl || current.host.avatarUrl || undefined}
+            alt={current.title}
+            className="w-full h-full object-cover blur-sm"
+          />
+        ) : (
+          <div className="w-full h-full bg-gradient-to-br from-rose-900 to-background" />
+        )}
         <div className="absolute inset-0 bg-gradient-to-b from-black/50 via-transparent to-black/80" />
+        {!media && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/70 text-sm">
+            {isLive ? (
+              <span className="flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Connecting to stream...
+              </span>
+            ) : current.status === 'ended' ? 'This stream has ended' : 'This stream hasn\'t started yet'}
+          </div>
+        )}
       </div>
 
       {/* Header */}
       <div className="absolute top-4 left-4 right-4 flex items-center justify-between z-10">
         <div className="flex items-center gap-3">
           <Avatar className="w-12 h-12 border-2 border-rose-500">
-            <AvatarImage src={stream.hostAvatarUrl} />
-            <AvatarFallback>{stream.hostUsername.slice(0, 2).toUpperCase()}</AvatarFallback>
+            <AvatarImage src={current.host.avatarUrl ?? undefined} />
+            <AvatarFallback>{current.host.username.slice(0, 2).toUpperCase()}</AvatarFallback>
           </Avatar>
           <div>
             <div className="flex items-center gap-2">
-              <span className="text-white font-semibold">{stream.hostUsername}</span>
-              <Badge variant="destructive" className="flex items-center gap-1 text-xs">
-                <Radio className="w-3 h-3 animate-pulse" />
-                LIVE
-              </Badge>
+              <span className="text-white font-semibold">{current.host.username}</span>
+              {isLive && (
+                <Badge variant="destructive" className="flex items-center gap-1 text-xs">
+                  <Radio className="w-3 h-3 animate-pulse" />
+                  LIVE
+                </Badge>
+              )}
             </div>
             <div className="flex items-center gap-2 text-white/70 text-sm">
               <Users className="w-4 h-4" />
@@ -101,13 +127,15 @@ export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream, onCl
         </div>
 
         <div className="flex items-center gap-2">
-          <Button
-            variant={isFollowing ? "secondary" : "default"}
-            size="sm"
-            onClick={() => setIsFollowing(!isFollowing)}
-          >
-            {isFollowing ? 'Following' : 'Follow'}
-          </Button>
+          {!isOwnStream && (
+            <Button
+              variant={isFollowing ? "secondary" : "default"}
+              size="sm"
+              onClick={() => setIsFollowing(!isFollowing)}
+            >
+              {isFollowing ? 'Following' : 'Follow'}
+            </Button>
+          )}
           <Button variant="ghost" size="icon" onClick={onClose} className="text-white">
             <X className="w-6 h-6" />
           </Button>
@@ -116,7 +144,7 @@ export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream, onCl
 
       {/* Stream Title */}
       <div className="absolute top-24 left-4 right-4 z-10">
-        <h2 className="text-white text-lg font-semibold">{stream.title}</h2>
+        <h2 className="text-white text-lg font-semibold">{current.title}</h2>
       </div>
 
       {/* Comments */}
@@ -130,7 +158,7 @@ export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream, onCl
             )}
           >
             <Avatar className="w-8 h-8">
-              <AvatarImage src={comment.avatarUrl} />
+              <AvatarImage src={comment.avatarUrl ?? undefined} />
               <AvatarFallback>{comment.username.slice(0, 1)}</AvatarFallback>
             </Avatar>
             <div>
@@ -139,7 +167,7 @@ export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream, onCl
                 {comment.isGift && (
                   <span className="flex items-center gap-1 text-amber-400 text-xs">
                     <Gift className="w-3 h-3" />
-                    {comment.giftAmount}
+                    {comment.giftAmount} {comment.coinType === 'icoin' ? 'Icoins' : 'Vicoins'}
                   </span>
                 )}
               </div>
@@ -147,6 +175,7 @@ export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream, onCl
             </div>
           </div>
         ))}
+        <div ref={commentsEndRef} />
       </div>
 
       {/* Side Actions */}
@@ -160,24 +189,64 @@ export const LiveStreamViewer: React.FC<LiveStreamViewerProps> = ({ stream, onCl
         <Button variant="ghost" size="icon" className="text-white bg-white/10 rounded-full">
           <Share2 className="w-6 h-6" />
         </Button>
-        <Button variant="ghost" size="icon" className="text-amber-400 bg-amber-500/20 rounded-full">
-          <Gift className="w-6 h-6" />
-        </Button>
+        {current.allowGifts && isLive && !isOwnStream && (
+          <Popover open={isGiftOpen} onOpenChange={setIsGiftOpen}>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="icon" className="text-amber-400 bg-amber-500/20 rounded-full">
+                <Gift className="w-6 h-6" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent side="left" className="w-56 z-[110] space-y-3">
+              <div className="flex gap-1">
+                {(['vicoin', 'icoin'] as const).map((coinType) => (
+                  <Button
+                    key={coinType}
+                    variant={giftCoinType === coinType ? 'secondary' : 'ghost'}
+                    size="sm"
+                    className="flex-1 h-7 text-xs"
+                    onClick={() => setGiftCoinType(coinType)}
+                  >
+                    {coinType === 'vicoin' ? 'Vicoins' : 'Icoins'}
+                  </Button>
+                ))}
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {GIFT_AMOUNTS.map((amount) => (
+                  <Button
+                    key={amount}
+                    variant="outline"
+                    size="sm"
+                    disabled={isGifting || amount > balance}
+                    onClick={() => handleGift(amount)}
+                    className="gap-1"
+                  >
+                    <Coins className="w-3 h-3 text-amber-400" />
+                    {amount}
+                  </Button>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">Balance: {balance.toLocaleString()}</p>
+            </PopoverContent>
+          </Popover>
+        )}
       </div>
 
       {/* Input Bar */}
-      <div className="absolute bottom-4 left-4 right-4 flex items-center gap-3 z-10">
-        <Input
-          placeholder="Say something..."
-          value={message}
-          onChange={(e) => setMessage(e.target.value)}
-          onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-          className="flex-1 bg-white/10 border-white/20 text-white placeholder:text-white/50"
-        />
-        <Button onClick={handleSendMessage} size="icon" className="bg-primary">
-          <Sparkles className="w-5 h-5" />
-        </Button>
-      </div>
+      {current.allowComments && isLive && (
+        <div className="absolute bottom-4 left-4 right-4 flex items-center gap-3 z-10">
+          <Input
+            placeholder="Say something..."
+            value={message}
+            maxLength={300}
+            onChange={(e) => setMessage(e.target.value)}
+            onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
+            className="flex-1 bg-white/10 border-white/20 text-white placeholder:text-white/50"
+          />
+          <Button onClick={handleSendMessage} size="icon" className="bg-primary" disabled={isSending}>
+            <Sparkles className="w-5 h-5" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 };
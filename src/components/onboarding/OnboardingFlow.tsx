@@ -154,13 +154,8 @@ export const OnboardingFlow: React.FC<OnboardingFlowProps> = ({
           documentType: docType,
           status: 'submitted',
         }));
-        
-        // Update profile kyc_status
-        await supabase
-          .from('profiles')
-          .update({ kyc_status: 'submitted' })
-          .eq('user_id', user?.id);
 
+        // The profile's kyc_status follows the submission on the server
         setCurrentStep('verification');
         toast.success('Documents submitted for verification');
       }
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { Coins, Route, Check, Trash2 } from 'lucide-react';
+import { Coins, Route, Check, Trash2, Download } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
 import { toast } from 'sonner';
@@ -10,6 +10,7 @@ interface SavedVideoCardProps {
   onPlay: (video: SavedVideo) => void;
   onUnsave: (contentId: string) => void;
   onAddToRoute?: (video: SavedVideo) => void;
+  isDownloaded?: boolean;
 }
 
 const SavedVideoCard: React.FC<SavedVideoCardProps> = ({
@@ -17,6 +18,7 @@ const SavedVideoCard: React.FC<SavedVideoCardProps> = ({
   onPlay,
   onUnsave,
   onAddToRoute,
+  isDownloaded = false,
 }) => {
   const [showActions, setShowActions] = useState(false);
   const { light, medium } = useHapticFeedback();
@@ -88,6 +90,13 @@ const SavedVideoCard: React.FC<SavedVideoCardProps> = ({
         </div>
       )}
 
+      {/* Downloaded for offline */}
+      {isDownloaded && (
+        <div className="absolute bottom-1.5 right-1.5 w-5 h-5 rounded-full bg-black/60 flex items-center justify-center pointer-events-none">
+          <Download className="w-3 h-3 text-green-400" />
+        </div>
+      )}
+
       {/* Bottom info */}
       <div className="absolute bottom-1.5 left-1.5 right-1.5 pointer-events-none">
         <p className="text-white text-xs font-medium line-clamp-1">{video.title}</p>
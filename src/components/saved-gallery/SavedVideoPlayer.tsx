@@ -11,12 +11,18 @@ import {
   Pause,
   ChevronLeft,
   ChevronRight,
+  Download,
+  CheckCircle2,
+  Loader2,
+  WifiOff,
 } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { cn } from '@/lib/utils';
 import { useHapticFeedback } from '@/hooks/useHapticFeedback';
 import { toast } from 'sonner';
 import type { SavedVideo } from '@/hooks/useSavedVideos';
+import { useOfflineMode } from '@/hooks/useOfflineMode';
+import { useOfflineVideos, getOfflinePlaybackUrl, OfflineStorageFullError } from '@/hooks/useOfflineVideos';
 
 interface SavedVideoPlayerProps {
   video: SavedVideo;
@@ -55,17 +61,64 @@ const SavedVideoPlayer: React.FC<SavedVideoPlayerProps> = ({
   const touchDelta = useRef(0);
   const [swipeOffset, setSwipeOffset] = useState(0);
 
+  const { isOnline } = useOfflineMode();
+  const offlineVideos = useOfflineVideos();
+  const isDownloaded = offlineVideos.isDownloaded(video.contentId);
+  const downloadProgress = offlineVideos.downloadProgress(video.contentId);
+  const [playbackSrc, setPlaybackSrc] = useState<string | null>(null);
+
   const isLiked = likedIds.has(video.contentId);
   const hasVideo = !!video.videoSrc;
+  const unavailableOffline = hasVideo && !isOnline && !isDownloaded;
+
+  // Downloaded videos play from Cache Storage; everything else streams
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    if (!video.videoSrc) {
+      setPlaybackSrc(null);
+    } else if (isDownloaded) {
+      getOfflinePlaybackUrl(video.contentId).then((url) => {
+        if (url?.startsWith('blob:')) objectUrl = url;
+        if (!cancelled) setPlaybackSrc(url ?? (isOnline ? video.videoSrc! : null));
+        else if (objectUrl) URL.revokeObjectURL(objectUrl);
+      });
+    } else {
+      setPlaybackSrc(isOnline ? video.videoSrc : null);
+    }
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [video.contentId, video.videoSrc, isDownloaded, isOnline]);
 
   // Auto-play on mount / video change
   useEffect(() => {
-    if (videoRef.current && hasVideo) {
+    if (videoRef.current && hasVideo && playbackSrc) {
       videoRef.current.currentTime = 0;
       videoRef.current.play().catch(() => {});
       setIsPlaying(true);
     }
-  }, [video.contentId, hasVideo]);
+  }, [video.contentId, hasVideo, playbackSrc]);
+
+  const handleToggleDownload = async () => {
+    if (isDownloaded) {
+      await offlineVideos.remove(video.contentId);
+      toast.info('Removed download');
+      return;
+    }
+    try {
+      await offlineVideos.download(video);
+      toast.success('Available offline');
+    } catch (error) {
+      console.error('Error downloading video:', error);
+      toast.error(error instanceof OfflineStorageFullError
+        ? 'Not enough storage — remove some downloads and try again'
+        : 'Download failed');
+    }
+  };
 
   const togglePlayPause = useCallback(() => {
     if (!videoRef.current) return;
@@ -142,12 +195,13 @@ const SavedVideoPlayer: React.FC<SavedVideoPlayerProps> = ({
         {hasVideo ? (
           <video
             ref={videoRef}
-            src={video.videoSrc}
+            src={playbackSrc ?? undefined}
             poster={video.thumbnail}
             className="absolute inset-0 w-full h-full object-cover"
             loop
             playsInline
             muted={false}
+            onPlay={() => isDownloaded && offlineVideos.markPlayed(video.contentId)}
           />
         ) : (
           <img
@@ -157,6 +211,14 @@ const SavedVideoPlayer: React.FC<SavedVideoPlayerProps> = ({
           />
         )}
 
+        {unavailableOffline && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/60 pointer-events-none">
+            <WifiOff className="w-8 h-8 text-white/80" />
+            <p className="text-white text-sm">Not downloaded</p>
+            <p className="text-white/60 text-xs">Reconnect to watch this video</p>
+          </div>
+        )}
+
         {/* Play / Pause icon */}
         {showPlayIcon && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -222,6 +284,28 @@ const SavedVideoPlayer: React.FC<SavedVideoPlayerProps> = ({
           <span className="text-white text-[10px]">Unsave</span>
         </button>
 
+        {/* Download for offline */}
+        {hasVideo && offlineVideos.isSupported && (
+          <button
+            onClick={(e) => { e.stopPropagation(); light(); handleToggleDownload(); }}
+            disabled={downloadProgress !== null}
+            className="flex flex-col items-center gap-1"
+          >
+            {downloadProgress !== null ? (
+              <Loader2 className="w-7 h-7 text-white animate-spin" />
+            ) : isDownloaded ? (
+              <CheckCircle2 className="w-7 h-7 text-green-400" />
+            ) : (
+              <Download className="w-7 h-7 text-white" />
+            )}
+            <span className="text-white text-[10px]">
+              {downloadProgress !== null
+                ? `${Math.round(downloadProgress * 100)}%`
+                : isDownloaded ? 'Offline' : 'Download'}
+            </span>
+          </button>
+        )}
+
         {/* Add to Route (promos with physical action) */}
         {video.type === 'promo' && video.requiresPhysicalAction && onAddToRoute && (
           <button
@@ -319,3 +319,5 @@ export const AISubtitleGenerator: React.FC<AISubtitleGeneratorProps> = ({
     </div>
   );
 };
+
+export type { Subtitle };
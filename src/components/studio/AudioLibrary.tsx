@@ -10,6 +10,7 @@ import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
+import { analyzeBeats, beatGrid } from '@/lib/audioAnalysis';
 
 interface AudioTrack {
   id: string;
@@ -126,10 +127,9 @@ const audioTracks: AudioTrack[] = [
 
 interface AudioLibraryProps {
   isPremium?: boolean;
-  videoDuration: number;
-  aiHighlights?: { startTime: number; endTime: number }[];
   onSelectTrack: (track: AudioTrack) => void;
-  onSyncBeat: (beatPoints: number[]) => void;
+  // Beat times in the track's own seconds
+  onSyncBeat: (track: AudioTrack, beatPoints: number[]) => void;
   selectedTrackId?: string;
 }
 
@@ -143,8 +143,6 @@ const categories = [
 ];
 
 export const AudioLibrary: React.FC<AudioLibraryProps> = ({
-  videoDuration,
-  aiHighlights = [],
   onSelectTrack,
   onSyncBeat,
   selectedTrackId,
@@ -155,6 +153,7 @@ export const AudioLibrary: React.FC<AudioLibraryProps> = ({
   const [playingTrackId, setPlayingTrackId] = useState<string | null>(null);
   const [volume, setVolume] = useState([80]);
   const [showBeatSync, setShowBeatSync] = useState(false);
+  const [syncingTrackId, setSyncingTrackId] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
 
   const filteredTracks = audioTracks.filter(track => {
@@ -190,39 +189,31 @@ export const AudioLibrary: React.FC<AudioLibraryProps> = ({
     });
   };
 
-  const handleBeatSync = (track: AudioTrack) => {
-    // Calculate beat points that align with video highlights
-    const syncedBeats = calculateSyncedBeats(track, videoDuration, aiHighlights);
-    onSyncBeat(syncedBeats);
-    
-    toast.success('Beats synced!', {
-      description: `${syncedBeats.length} beat points aligned with your video highlights.`
-    });
-  };
-
-  const calculateSyncedBeats = (
-    track: AudioTrack, 
-    videoDur: number, 
-    highlights: { startTime: number; endTime: number }[]
-  ): number[] => {
-    // Scale beat points to video duration
-    const scaleFactor = videoDur / track.duration;
-    const scaledBeats = track.beatPoints.map(bp => bp * scaleFactor);
-    
-    // Find beats that align with highlight moments
-    const highlightStarts = highlights.map(h => h.startTime);
-    
-    // Add extra emphasis beats at highlight starts
-    const syncedBeats = [...scaledBeats];
-    highlightStarts.forEach(hs => {
-      // Find nearest beat and ensure there's one at highlight start
-      const nearestBeatIndex = syncedBeats.findIndex(b => b > hs);
-      if (nearestBeatIndex > 0) {
-        syncedBeats.splice(nearestBeatIndex, 0, hs);
+  // Beats come from the track's audio, analysed here in the browser; tracks with
+  // nothing to play yet fall back to an even grid from their tempo
+  const handleBeatSync = async (track: AudioTrack) => {
+    setSyncingTrackId(track.id);
+    try {
+      let beats = beatGrid(track.bpm, track.beatPoints[0] ?? 0, track.duration);
+      let bpm = track.bpm;
+      if (track.previewUrl) {
+        const analysis = await analyzeBeats(track.previewUrl);
+        if (analysis.beats.length > 0) {
+          beats = analysis.beats;
+          bpm = analysis.bpm;
+        }
       }
-    });
-    
-    return syncedBeats.filter(b => b <= videoDur).sort((a, b) => a - b);
+      onSyncBeat(track, beats);
+
+      toast.success('Beats detected', {
+        description: `${beats.length} beats at ${Math.round(bpm)} BPM. Cuts can now snap to them.`
+      });
+    } catch (error) {
+      console.error('Beat detection failed:', error);
+      toast.error('Could not analyse this track');
+    } finally {
+      setSyncingTrackId(null);
+    }
   };
 
   const formatDuration = (seconds: number) => {
@@ -369,8 +360,9 @@ export const AudioLibrary: React.FC<AudioLibraryProps> = ({
                   variant="ghost"
                   className="h-7 text-xs"
                   onClick={() => handleBeatSync(track)}
+                  disabled={syncingTrackId !== null}
                 >
-                  <Sparkles className="w-3 h-3" />
+                  <Sparkles className={cn('w-3 h-3', syncingTrackId === track.id && 'animate-pulse')} />
                 </Button>
               </div>
             </div>
@@ -385,13 +377,14 @@ export const AudioLibrary: React.FC<AudioLibraryProps> = ({
           <span className="font-medium text-sm">AI Beat Sync</span>
         </div>
         <p className="text-xs text-muted-foreground mb-2">
-          Automatically align music beats with your video's highlight moments for professional-quality edits.
+          Find the beats in your track so cuts between clips can snap onto them.
         </p>
         <div className="flex gap-2">
           <Button
             size="sm"
             variant="secondary"
             className="text-xs"
+            disabled={syncingTrackId !== null}
             onClick={() => {
               if (selectedTrackId) {
                 const track = audioTracks.find(t => t.id === selectedTrackId);
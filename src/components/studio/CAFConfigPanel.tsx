@@ -11,6 +11,7 @@ import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { Textarea } from '@/components/ui/textarea';
 import { cn } from '@/lib/utils';
+import { VERIFIABLE_LOCK_ACTIONS } from '@/lib/studioEdl';
 import { BlurSegment, CAFConfig } from './MediaBlurEditor';
 
 export type CAFType = 'payment' | 'follow' | 'comment' | 'share' | 'like' | 'subscribe' | 'custom';
@@ -248,6 +249,13 @@ export const CAFConfigPanel: React.FC<CAFConfigPanelProps> = ({
               </div>
             )}
 
+            {!VERIFIABLE_LOCK_ACTIONS.includes(selectedCAFType) && (
+              <p className="text-xs text-muted-foreground rounded-lg bg-muted/50 p-3">
+                This can't be checked when a viewer taps unlock, so in posted videos the segment stays blurred for everyone.
+                Use Payment, Follow, Like or Comment to let viewers unlock it.
+              </p>
+            )}
+
             {/* Custom action */}
             {selectedCAFType === 'custom' && (
               <div>
@@ -381,3 +389,4 @@ export const CAFConfigPanel: React.FC<CAFConfigPanelProps> = ({
 };
 
 export default CAFConfigPanel;
+export type { AutoShowProfile };
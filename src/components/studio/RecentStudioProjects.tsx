@@ -0,0 +1,53 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clapperboard, Image as ImageIcon, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { useRecentStudioProjects } from '@/hooks/useRecentStudioProjects';
+
+// Studio projects to pick up where they were left; renders nothing until there are some
+export const RecentStudioProjects: React.FC = () => {
+  const navigate = useNavigate();
+  const { projects, remove } = useRecentStudioProjects();
+
+  if (projects.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <Clapperboard className="w-4 h-4 text-primary" />
+        Recent projects
+      </h3>
+      <div className="flex gap-3 overflow-x-auto pb-1 -mx-4 px-4">
+        {projects.map((project) => (
+          <div key={project.id} className="relative w-32 shrink-0 group">
+            <button
+              onClick={() => navigate(`/studio?projectId=${project.id}`)}
+              className="w-full text-left active:scale-[0.98] transition-transform"
+            >
+              <div className="aspect-[3/4] rounded-xl overflow-hidden bg-muted flex items-center justify-center">
+                {project.media?.type === 'video' ? (
+                  <video src={project.media.url} muted playsInline preload="metadata" className="w-full h-full object-cover" />
+                ) : project.media ? (
+                  <img src={project.media.url} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <ImageIcon className="w-6 h-6 text-muted-foreground" />
+                )}
+              </div>
+              <p className="text-sm font-medium mt-1.5 truncate">{project.name}</p>
+              <p className="text-xs text-muted-foreground">
+                {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}
+              </p>
+            </button>
+            <button
+              onClick={() => remove(project.id)}
+              className="absolute top-1.5 right-1.5 w-7 h-7 rounded-full bg-black/60 text-white flex items-center justify-center"
+              aria-label={`Delete ${project.name}`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
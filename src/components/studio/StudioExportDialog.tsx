@@ -0,0 +1,110 @@
+import React from 'react';
+import { Download, Send, Loader2, AlertCircle, RefreshCw, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { StudioExportStatus, StudioUnlockClip } from '@/hooks/useStudioExport';
+
+interface StudioExportDialogProps {
+  status: StudioExportStatus;
+  progress: number;
+  error: string | null;
+  result: { file: File; url: string; unlockClips: StudioUnlockClip[] } | null;
+  onCancel: () => void;
+  onClose: () => void;
+  onRetry: () => void;
+  onPost: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const StudioExportDialog: React.FC<StudioExportDialogProps> = ({
+  status,
+  progress,
+  error,
+  result,
+  onCancel,
+  onClose,
+  onRetry,
+  onPost,
+}) => {
+  const percent = Math.round(progress * 100);
+
+  return (
+    <Dialog
+      open={status !== 'idle'}
+      onOpenChange={(open) => {
+        if (open) return;
+        if (status === 'rendering') onCancel();
+        else onClose();
+      }}
+    >
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {status === 'rendering' && <Loader2 className="w-5 h-5 text-primary animate-spin" />}
+            {status === 'done' && <Download className="w-5 h-5 text-primary" />}
+            {status === 'error' && <AlertCircle className="w-5 h-5 text-destructive" />}
+            {status === 'rendering' ? 'Exporting video' : status === 'done' ? 'Export ready' : 'Export failed'}
+          </DialogTitle>
+          <DialogDescription>
+            {status === 'rendering'
+              ? 'Rendering your edits. Keep this screen open until it finishes.'
+              : status === 'done'
+                ? 'Post it straight away or save a copy to your device.'
+                : error || 'Something went wrong while rendering.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {status === 'rendering' && (
+          <div className="space-y-2 py-2">
+            <Progress value={percent} />
+            <p className="text-sm text-muted-foreground text-right">{percent}%</p>
+          </div>
+        )}
+
+        {status === 'done' && result && (
+          <div className="space-y-2 py-2">
+            <video src={result.url} controls playsInline className="w-full max-h-64 rounded-lg bg-black" />
+            <p className="text-xs text-muted-foreground">
+              {result.file.name} · {formatSize(result.file.size)}
+            </p>
+            {result.unlockClips.length > 0 && (
+              <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                <Lock className="w-3 h-3" />
+                {result.unlockClips.length} locked segment{result.unlockClips.length === 1 ? '' : 's'} stay blurred until viewers unlock them. Post to keep them locked; saved copies are always blurred.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {status === 'rendering' && (
+            <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          )}
+          {status === 'error' && (
+            <>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button onClick={onRetry}>
+                <RefreshCw className="w-4 h-4 mr-2" /> Try again
+              </Button>
+            </>
+          )}
+          {status === 'done' && result && (
+            <>
+              <Button variant="outline" asChild>
+                <a href={result.url} download={result.file.name}>
+                  <Download className="w-4 h-4 mr-2" /> Save
+                </a>
+              </Button>
+              <Button onClick={onPost}>
+                <Send className="w-4 h-4 mr-2" /> Post
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
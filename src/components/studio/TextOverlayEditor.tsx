@@ -10,6 +10,7 @@ import { AITextGenerator } from './AITextGenerator';
 interface TextOverlayEditorProps {
   mediaUrl?: string;
   mediaType?: 'video' | 'image';
+  initialElements?: TextElement[];
   onSave?: (elements: TextElement[], drawings: DrawingPath[]) => void;
   className?: string;
 }
@@ -17,13 +18,14 @@ interface TextOverlayEditorProps {
 export const TextOverlayEditor: React.FC<TextOverlayEditorProps> = ({
   mediaUrl,
   mediaType = 'image',
+  initialElements = [],
   onSave,
   className,
 }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [containerSize, setContainerSize] = useState({ width: 400, height: 600 });
-  const [textElements, setTextElements] = useState<TextElement[]>([]);
+  const [textElements, setTextElements] = useState<TextElement[]>(initialElements);
   const [drawingPaths, setDrawingPaths] = useState<DrawingPath[]>([]);
   const [selectedTextId, setSelectedTextId] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'text' | 'draw' | 'ai'>('text');
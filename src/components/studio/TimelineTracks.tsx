@@ -0,0 +1,287 @@
+import React, { useRef, useState } from 'react';
+import { cn } from '@/lib/utils';
+import { Film, Type, Mic, Music, Magnet, X, Volume1 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+import {
+  clipOutputRanges,
+  DEFAULT_TRANSITION_SECONDS,
+  moveTimelineItem,
+  removeTimelineItem,
+  setClipTransition,
+  setOverlayTiming,
+  snapCutsToBeats,
+  snapTime,
+  sourceToOutputTime,
+  timelineBeats,
+  timelineDuration,
+  TRANSITION_KINDS,
+  type ClipTransition,
+  type StudioTimeline,
+} from '@/lib/studioTimeline';
+
+interface TimelineTracksProps {
+  timeline: StudioTimeline;
+  sourceDuration: number;
+  speed: number;
+  // Preview position in source seconds
+  currentTime: number;
+  textElements: { id: string; text: string }[];
+  onChange: (timeline: StudioTimeline) => void;
+}
+
+type DraggableTrack = 'overlay' | 'voiceover' | 'music';
+
+interface DragState {
+  track: DraggableTrack;
+  id: string;
+  pointerStartX: number;
+  itemStart: number;
+  start: number;
+}
+
+// Overlays timed from the playhead start out this long
+const DEFAULT_OVERLAY_SECONDS = 3;
+
+const transitionLabels: Record<ClipTransition['kind'], string> = {
+  fade: 'Fade',
+  flash: 'Flash',
+  blur: 'Blur',
+};
+
+// Cut → fade → flash → blur → cut
+const nextTransition = (current: ClipTransition | null): ClipTransition | null => {
+  const index = current ? TRANSITION_KINDS.indexOf(current.kind) : -1;
+  const kind = TRANSITION_KINDS[index + 1];
+  return kind ? { kind, duration: current?.duration ?? DEFAULT_TRANSITION_SECONDS } : null;
+};
+
+// Output-time lanes under the trim editor: clips in play order with the transition at
+// each cut, text overlays, voiceovers and music with its beats
+export const TimelineTracks: React.FC<TimelineTracksProps> = ({
+  timeline,
+  sourceDuration,
+  speed,
+  currentTime,
+  textElements,
+  onChange,
+}) => {
+  const lanesRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [snapping, setSnapping] = useState(true);
+
+  const ranges = clipOutputRanges(timeline, sourceDuration, speed);
+  const total = Math.max(0.1, timelineDuration(timeline, sourceDuration, speed));
+  const beats = timelineBeats(timeline);
+  const playhead = sourceToOutputTime(timeline, sourceDuration, speed, currentTime);
+  const untimedTexts = textElements.filter(element => !timeline.overlay.some(item => item.textId === element.id));
+  const timedOverlays = timeline.overlay.filter(item => textElements.some(element => element.id === item.textId));
+  const percent = (time: number) => `${(time / total) * 100}%`;
+
+  const startOf = (track: DraggableTrack, id: string, start: number) =>
+    drag && drag.track === track && drag.id === id ? drag.start : start;
+
+  const handlePointerDown = (e: React.PointerEvent, track: DraggableTrack, id: string, start: number) => {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ track, id, pointerStartX: e.clientX, itemStart: start, start });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag || !lanesRef.current) return;
+    const width = lanesRef.current.getBoundingClientRect().width || 1;
+    const moved = Math.max(0, drag.itemStart + ((e.clientX - drag.pointerStartX) / width) * total);
+    // Music carries the beats, so it moves freely; everything else lands on them
+    const start = snapping && drag.track !== 'music' ? snapTime(moved, beats) : moved;
+    setDrag({ ...drag, start });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    if (drag.start !== drag.itemStart) onChange(moveTimelineItem(timeline, drag.track, drag.id, drag.start));
+    setDrag(null);
+  };
+
+  const handleSnapCuts = () => {
+    const result = snapCutsToBeats(timeline, sourceDuration, speed);
+    if (result.snapped === 0) {
+      toast.info(beats.length === 0 ? 'Detect beats on a music track first' : 'No cuts close enough to a beat');
+      return;
+    }
+    onChange(result.timeline);
+    toast.success(`${result.snapped} cut${result.snapped === 1 ? '' : 's'} snapped to the beat`);
+  };
+
+  const timeOverlayFromPlayhead = (textId: string) => {
+    const start = playhead ?? 0;
+    onChange(setOverlayTiming(timeline, textId, start, Math.min(total, start + DEFAULT_OVERLAY_SECONDS)));
+  };
+
+  const laneLabel = (icon: React.ReactNode, label: string) => (
+    <div className="w-14 h-6 shrink-0 flex items-center gap-1 text-[10px] text-muted-foreground">
+      {icon}
+      {label}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2 select-none">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1">
+          <Button
+            variant={snapping ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setSnapping(!snapping)}
+          >
+            <Magnet className="w-3 h-3 mr-1" />
+            Snap
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={handleSnapCuts} disabled={ranges.length < 2}>
+            Cuts to beats
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Volume1 className="w-3 h-3" />
+          Duck music
+          <Switch
+            checked={timeline.ducking.enabled}
+            onCheckedChange={(enabled) => onChange({ ...timeline, ducking: { ...timeline.ducking, enabled } })}
+          />
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <div className="space-y-1.5">
+          {laneLabel(<Film className="w-3 h-3" />, 'Video')}
+          {laneLabel(<Type className="w-3 h-3" />, 'Text')}
+          {laneLabel(<Mic className="w-3 h-3" />, 'Voice')}
+          {laneLabel(<Music className="w-3 h-3" />, 'Music')}
+        </div>
+
+        <div
+          ref={lanesRef}
+          className="relative flex-1 space-y-1.5"
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          {/* Video: clips in play order, transition toggles at each cut */}
+          <div className="relative h-6 rounded bg-muted/20 overflow-hidden">
+            {ranges.map(({ clip, start, end }, index) => (
+              <div
+                key={clip.id}
+                className="absolute inset-y-0.5 rounded-sm border border-primary/40"
+                style={{
+                  left: percent(start),
+                  width: percent(end - start),
+                  background: `hsl(${(index * 60) % 360}, 60%, 35%)`,
+                }}
+              />
+            ))}
+            {timeline.video.length > 1 && ranges.slice(1).map(({ clip, start }) => (
+              <button
+                key={`cut-${clip.id}`}
+                className={cn(
+                  'absolute top-0.5 bottom-0.5 -translate-x-1/2 px-1 rounded-sm text-[8px] font-medium z-10',
+                  clip.transition ? 'bg-primary text-primary-foreground' : 'bg-background/80 text-muted-foreground'
+                )}
+                style={{ left: percent(start) }}
+                onClick={() => onChange(setClipTransition(timeline, clip.id, nextTransition(clip.transition)))}
+                aria-label="Change transition"
+              >
+                {clip.transition ? transitionLabels[clip.transition.kind] : 'Cut'}
+              </button>
+            ))}
+          </div>
+
+          {/* Text overlays: untimed text stays up throughout until placed */}
+          <div className="relative h-6 rounded bg-muted/20 overflow-hidden">
+            <div className="absolute inset-0.5 flex gap-1 overflow-hidden">
+              {untimedTexts.map((element) => (
+                <button
+                  key={element.id}
+                  className="shrink-0 max-w-[6rem] rounded-sm border border-dashed border-muted-foreground/40 text-[9px] text-muted-foreground truncate px-1"
+                  onClick={() => timeOverlayFromPlayhead(element.id)}
+                  title="Show from the playhead"
+                >
+                  {element.text || 'Text'}
+                </button>
+              ))}
+            </div>
+            {timedOverlays.map((overlay) => (
+              <div
+                key={overlay.id}
+                className="absolute inset-y-0.5 rounded-sm bg-amber-500/40 border border-amber-500 text-[9px] px-1 flex items-center gap-1 cursor-grab touch-none"
+                style={{ left: percent(startOf('overlay', overlay.id, overlay.start)), width: percent(overlay.end - overlay.start) }}
+                onPointerDown={(e) => handlePointerDown(e, 'overlay', overlay.id, overlay.start)}
+              >
+                <span className="truncate flex-1">{textElements.find(element => element.id === overlay.textId)?.text}</span>
+                <button
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => onChange(removeTimelineItem(timeline, 'overlay', overlay.id))}
+                  aria-label="Show for the whole video"
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Voiceovers */}
+          <div className="relative h-6 rounded bg-muted/20 overflow-hidden">
+            {timeline.voiceover.map((item) => (
+              <div
+                key={item.id}
+                className="absolute inset-y-0.5 rounded-sm bg-sky-500/40 border border-sky-500 text-[9px] px-1 flex items-center gap-1 cursor-grab touch-none"
+                style={{ left: percent(startOf('voiceover', item.id, item.start)), width: percent(item.duration) }}
+                onPointerDown={(e) => handlePointerDown(e, 'voiceover', item.id, item.start)}
+              >
+                <span className="truncate flex-1">{item.name}</span>
+                <button
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onClick={() => onChange(removeTimelineItem(timeline, 'voiceover', item.id))}
+                  aria-label={`Remove ${item.name}`}
+                >
+                  <X className="w-2.5 h-2.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {/* Music, with its beats */}
+          <div className="relative h-6 rounded bg-muted/20 overflow-hidden">
+            {timeline.music.map((item) => {
+              const start = startOf('music', item.id, item.start);
+              return (
+                <div
+                  key={item.id}
+                  className="absolute inset-y-0.5 rounded-sm bg-emerald-500/30 border border-emerald-500 text-[9px] px-1 flex items-center cursor-grab touch-none"
+                  style={{ left: percent(start), width: percent(item.duration) }}
+                  onPointerDown={(e) => handlePointerDown(e, 'music', item.id, item.start)}
+                >
+                  <span className="truncate">{item.name}{!item.url && ' (preview only)'}</span>
+                </div>
+              );
+            })}
+            {beats.map((beat, i) => (
+              <div
+                key={i}
+                className="absolute bottom-0 w-px h-2 bg-emerald-300/80 pointer-events-none"
+                style={{ left: percent(beat) }}
+              />
+            ))}
+          </div>
+
+          {playhead !== null && (
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-white/80 pointer-events-none z-20"
+              style={{ left: percent(playhead) }}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -18,6 +18,8 @@ export interface VideoTimelineProps {
   onTimeChange: (time: number) => void;
   onPlayPause: () => void;
   onTrimChange?: (clips: TrimClip[]) => void;
+  // Clips to show, e.g. after an undo or when reopening a project; empty means untrimmed
+  clips?: TrimClip[];
   highlights?: { startTime: number; endTime: number; id: string; selected: boolean }[];
 }
 
@@ -28,6 +30,7 @@ export const VideoTimeline: React.FC<VideoTimelineProps> = ({
   onTimeChange,
   onPlayPause,
   onTrimChange,
+  clips: controlledClips,
   highlights = [],
 }) => {
   const timelineRef = useRef<HTMLDivElement>(null);
@@ -40,10 +43,12 @@ export const VideoTimeline: React.FC<VideoTimelineProps> = ({
   const [zoom, setZoom] = useState(1);
 
   useEffect(() => {
-    if (duration > 0) {
+    if (controlledClips && controlledClips.length > 0) {
+      setClips(controlledClips);
+    } else if (duration > 0) {
       setClips([{ id: 'main', startTime: 0, endTime: duration, isActive: true }]);
     }
-  }, [duration]);
+  }, [duration, controlledClips]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, ReactNode } from 'react';
-import { useOfflineMode, cacheUtils } from '@/hooks/useOfflineMode';
+import { useOfflineMode, cacheUtils, type OfflineActionType, type OfflineActionPayloads } from '@/hooks/useOfflineMode';
 
 interface OfflineContextType {
   isOnline: boolean;
@@ -7,7 +7,7 @@ interface OfflineContextType {
   queuedCount: number;
   isSyncing: boolean;
   lastSyncTime: Date | null;
-  queueAction: (type: 'like' | 'follow' | 'task_complete' | 'message' | 'transaction', payload: Record<string, unknown>) => string;
+  queueAction: <T extends OfflineActionType>(type: T, payload: OfflineActionPayloads[T]) => string;
   syncPendingActions: () => Promise<void>;
   cache: typeof cacheUtils;
 }
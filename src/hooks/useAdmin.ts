@@ -52,6 +52,69 @@ export interface UserBan {
   created_at: string;
 }
 
+export type DriftSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface BalanceReconciliation {
+  id: string;
+  run_id: string;
+  user_id: string;
+  coin_type: string;
+  profile_balance: number;
+  expected_balance: number;
+  ledger_balance: number | null;
+  drift: number;
+  severity: DriftSeverity;
+  status: string;
+  breakdown: unknown;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  resolution_note: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReconciliationRun {
+  id: string;
+  triggered_by: string | null;
+  auto_correct: boolean;
+  auto_correct_threshold: number;
+  balances_checked: number;
+  mismatches_found: number;
+  auto_corrected: number;
+  status: string;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+export interface RewardRule {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  priority: number;
+  reward_type: string | null;
+  subscription_tiers: string[] | null;
+  min_level: number | null;
+  max_level: number | null;
+  min_trust_score: number | null;
+  max_trust_score: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  coin_type: string | null;
+  amount_min: number | null;
+  amount_max: number | null;
+  multiplier: number;
+  daily_limit_icoin: number | null;
+  daily_limit_vicoin: number | null;
+  daily_limit_promo_views: number | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RewardRuleInput = Omit<RewardRule, 'id' | 'created_by' | 'created_at' | 'updated_at'>;
+
 export interface AdminStats {
   totalUsers: number;
   totalCreators: number;
@@ -68,6 +131,9 @@ export const useAdmin = () => {
   const [userReports, setUserReports] = useState<UserReport[]>([]);
   const [adminActions, setAdminActions] = useState<AdminAction[]>([]);
   const [userBans, setUserBans] = useState<UserBan[]>([]);
+  const [balanceDrift, setBalanceDrift] = useState<BalanceReconciliation[]>([]);
+  const [lastReconciliationRun, setLastReconciliationRun] = useState<ReconciliationRun | null>(null);
+  const [rewardRules, setRewardRules] = useState<RewardRule[]>([]);
   const [stats, setStats] = useState<AdminStats>({
     totalUsers: 0,
     totalCreators: 0,
@@ -139,6 +205,47 @@ export const useAdmin = () => {
     }
   }, [isAdmin, isModerator]);
 
+  const fetchBalanceDrift = useCallback(async () => {
+    if (!isAdmin && !isModerator) return;
+
+    const [{ data, error }, { data: runs }] = await Promise.all([
+      supabase
+        .from('balance_reconciliations')
+        .select('*')
+        .in('status', ['open', 'frozen'])
+        .order('created_at', { ascending: false })
+        .limit(200),
+      supabase
+        .from('balance_reconciliation_runs')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(1),
+    ]);
+
+    if (error) {
+      console.error('Error fetching balance drift:', error);
+    } else {
+      setBalanceDrift((data || []) as BalanceReconciliation[]);
+    }
+    setLastReconciliationRun(runs?.[0] ?? null);
+  }, [isAdmin, isModerator]);
+
+  const fetchRewardRules = useCallback(async () => {
+    if (!isAdmin && !isModerator) return;
+
+    const { data, error } = await supabase
+      .from('reward_rules')
+      .select('*')
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching reward rules:', error);
+    } else {
+      setRewardRules((data || []) as RewardRule[]);
+    }
+  }, [isAdmin, isModerator]);
+
   const fetchStats = useCallback(async () => {
     if (!isAdmin && !isModerator) return;
 
@@ -281,7 +388,125 @@ export const useAdmin = () => {
     }
   };
 
-  const updateUserRole = async (userId: string, newRole: 'user' | 'creator' | 'moderator' | 'admin') => {
+  const freezeUserForDrift = async (finding: BalanceReconciliation) => {
+    if (!user || !isAdmin) return;
+
+    const reason = `Balance drift under review: ${finding.drift > 0 ? '+' : ''}${finding.drift} ${finding.coin_type}`;
+    const { error: banError } = await supabase.from('user_bans').insert({
+      user_id: finding.user_id,
+      banned_by: user.id,
+      reason,
+      is_permanent: false,
+      expires_at: null,
+    });
+
+    // An existing ban already freezes the account; still mark the finding
+    if (banError && banError.code !== '23505') {
+      toast({ title: 'Error', description: 'Failed to freeze user', variant: 'destructive' });
+      return;
+    }
+
+    const { error } = await supabase
+      .from('balance_reconciliations')
+      .update({ status: 'frozen', resolved_by: user.id, resolved_at: new Date().toISOString() })
+      .eq('id', finding.id);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to update drift finding', variant: 'destructive' });
+    } else {
+      await logAdminAction('freeze_user', 'user', finding.user_id, {
+        reason,
+        reconciliationId: finding.id,
+        coinType: finding.coin_type,
+        drift: finding.drift,
+        severity: finding.severity,
+      });
+      await Promise.all([fetchBalanceDrift(), fetchUserBans()]);
+      toast({ title: 'Success', description: 'User frozen pending review' });
+    }
+  };
+
+  const correctBalanceDrift = async (finding: BalanceReconciliation, note?: string) => {
+    if (!isAdmin) return;
+
+    // The RPC posts the ledger adjustment and writes the admin_actions entry atomically
+    const { error } = await supabase.rpc('admin_correct_balance_drift', {
+      p_reconciliation_id: finding.id,
+      p_note: note ?? null,
+    });
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to correct balance', variant: 'destructive' });
+    } else {
+      await Promise.all([fetchBalanceDrift(), fetchAdminActions()]);
+      toast({ title: 'Success', description: `Balance set to ${finding.expected_balance} ${finding.coin_type}` });
+    }
+  };
+
+  const runReconciliation = async () => {
+    if (!isAdmin) return;
+
+    const { data, error } = await supabase.functions.invoke('reconcile-balances', {
+      body: { autoCorrect: false },
+    });
+
+    if (error || !data?.success) {
+      toast({ title: 'Error', description: 'Reconciliation run failed', variant: 'destructive' });
+    } else {
+      await fetchBalanceDrift();
+      toast({ title: 'Reconciliation complete', description: `${data.mismatchesFound} mismatches in ${data.balancesChecked} balances` });
+    }
+  };
+
+  const saveRewardRule = async (rule: RewardRuleInput, ruleId?: string) => {
+    if (!isAdmin || !user) return false;
+
+    const { data, error } = ruleId
+      ? await supabase.from('reward_rules').update(rule).eq('id', ruleId).select('id').single()
+      : await supabase.from('reward_rules').insert({ ...rule, created_by: user.id }).select('id').single();
+
+    if (error) {
+      toast({ title: 'Error', description: error.message || 'Failed to save reward rule', variant: 'destructive' });
+      return false;
+    }
+
+    await logAdminAction(ruleId ? 'update_reward_rule' : 'create_reward_rule', 'reward_rule', data.id, { name: rule.name });
+    await fetchRewardRules();
+    toast({ title: 'Success', description: `Reward rule "${rule.name}" saved` });
+    return true;
+  };
+
+  const toggleRewardRule = async (rule: RewardRule) => {
+    if (!isAdmin) return;
+
+    const { error } = await supabase
+      .from('reward_rules')
+      .update({ is_active: !rule.is_active })
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to update reward rule', variant: 'destructive' });
+    } else {
+      await logAdminAction('update_reward_rule', 'reward_rule', rule.id, { name: rule.name, is_active: !rule.is_active });
+      await fetchRewardRules();
+    }
+  };
+
+  const deleteRewardRule = async (rule: RewardRule) => {
+    if (!isAdmin) return;
+
+    const { error } = await supabase.from('reward_rules').delete().eq('id', rule.id);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to delete reward rule', variant: 'destructive' });
+    } else {
+      await logAdminAction('delete_reward_rule', 'reward_rule', rule.id, { name: rule.name });
+      await fetchRewardRules();
+      toast({ title: 'Success', description: `Reward rule "${rule.name}" deleted` });
+    }
+  };
+
+  const updateUserRole = async (userId: string, newRole: 'user' | 'creator' | 'moderator' | 'admin' | 'business') => {
     if (!isAdmin) {
       toast({ title: 'Error', description: 'Only admins can change roles', variant: 'destructive' });
       return;
@@ -313,19 +538,24 @@ export const useAdmin = () => {
         fetchUserReports(),
         fetchAdminActions(),
         fetchUserBans(),
+        fetchBalanceDrift(),
+        fetchRewardRules(),
         fetchStats(),
       ]);
       setIsLoading(false);
     };
 
     loadData();
-  }, [isAdmin, isModerator, fetchContentFlags, fetchUserReports, fetchAdminActions, fetchUserBans, fetchStats]);
+  }, [isAdmin, isModerator, fetchContentFlags, fetchUserReports, fetchAdminActions, fetchUserBans, fetchBalanceDrift, fetchRewardRules, fetchStats]);
 
   return {
     contentFlags,
     userReports,
     adminActions,
     userBans,
+    balanceDrift,
+    lastReconciliationRun,
+    rewardRules,
     stats,
     isLoading,
     resolveFlag,
@@ -333,11 +563,19 @@ export const useAdmin = () => {
     banUser,
     unbanUser,
     updateUserRole,
+    freezeUserForDrift,
+    correctBalanceDrift,
+    runReconciliation,
+    saveRewardRule,
+    toggleRewardRule,
+    deleteRewardRule,
     refresh: () => Promise.all([
       fetchContentFlags(),
       fetchUserReports(),
       fetchAdminActions(),
       fetchUserBans(),
+      fetchBalanceDrift(),
+      fetchRewardRules(),
       fetchStats(),
     ]),
   };
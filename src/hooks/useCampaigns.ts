@@ -0,0 +1,169 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { realtimeService } from '@/services/realtime.service';
+import type { Database } from '@/integrations/supabase/types';
+import type { Campaign } from '@/types/app.types';
+
+type CampaignRow = Database['public']['Tables']['campaigns']['Row'];
+
+export interface CampaignInput {
+  title: string;
+  description: string;
+  rewardType: Campaign['reward_type'];
+  rewardAmount: number;
+  requiredAction: Campaign['required_action'];
+  targetViews: number;
+  budget: number;
+  pacing: Campaign['pacing'];
+  startDate?: string;
+  endDate: string;
+  promotionId?: string;
+}
+
+export type CampaignUpdate = Partial<Pick<CampaignInput, 'title' | 'description' | 'rewardAmount' | 'targetViews' | 'budget' | 'pacing' | 'endDate'>>;
+
+function toCampaign(row: CampaignRow): Campaign {
+  return {
+    id: row.id,
+    business_id: row.business_id,
+    title: row.title,
+    description: row.description,
+    reward_type: row.reward_type as Campaign['reward_type'],
+    reward_amount: row.reward_amount,
+    required_action: row.required_action as Campaign['required_action'],
+    target_views: row.target_views,
+    current_views: row.current_views,
+    budget: row.budget,
+    spent: row.spent,
+    status: row.status as Campaign['status'],
+    pause_reason: row.pause_reason as Campaign['pause_reason'],
+    pacing: row.pacing as Campaign['pacing'],
+    promotion_id: row.promotion_id,
+    start_date: row.start_date,
+    end_date: row.end_date,
+    location: row.latitude !== null && row.longitude !== null
+      ? { latitude: row.latitude, longitude: row.longitude, address: row.address ?? undefined }
+      : undefined,
+    created_at: row.created_at,
+  };
+}
+
+export function useCampaigns() {
+  const { user } = useAuth();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchCampaigns = useCallback(async () => {
+    if (!user) {
+      setCampaigns([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('campaigns')
+        .select('*')
+        .eq('business_id', user.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setCampaigns((data || []).map(toCampaign));
+    } catch (error) {
+      console.error('Failed to fetch campaigns:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchCampaigns();
+  }, [fetchCampaigns]);
+
+  // Spend lands on the campaign row as rewards are paid, so advertisers see it live
+  useEffect(() => {
+    if (!user?.id) return;
+
+    return realtimeService.subscribeToCampaigns(user.id, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        setCampaigns(prev => prev.filter(c => c.id !== payload.old.id));
+        return;
+      }
+
+      const campaign = toCampaign(payload.new);
+      setCampaigns(prev => {
+        const exists = prev.some(c => c.id === campaign.id);
+        return exists
+          ? prev.map(c => (c.id === campaign.id ? campaign : c))
+          : [campaign, ...prev];
+      });
+    });
+  }, [user?.id]);
+
+  // Returns the response body, or null after toasting the server's reason
+  const invoke = useCallback(async (body: Record<string, unknown>, failure: string) => {
+    const { data, error } = await supabase.functions.invoke('manage-campaign', { body });
+
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const parsed = ctx && typeof ctx.json === 'function'
+        ? await ctx.clone().json().catch(() => null)
+        : null;
+      console.error(`${failure}:`, parsed?.error || error);
+      toast({
+        title: failure,
+        description: parsed?.error || 'Please try again',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    return data;
+  }, []);
+
+  const applyResult = (data: { campaign?: CampaignRow } | null): Campaign | null => {
+    if (!data?.campaign) return null;
+    const campaign = toCampaign(data.campaign);
+    setCampaigns(prev => prev.some(c => c.id === campaign.id)
+      ? prev.map(c => (c.id === campaign.id ? campaign : c))
+      : [campaign, ...prev]);
+    return campaign;
+  };
+
+  const createCampaign = async (input: CampaignInput) => {
+    const campaign = applyResult(await invoke({ action: 'create', ...input }, 'Failed to create campaign'));
+    if (campaign) {
+      toast({ title: 'Campaign launched', description: campaign.title });
+    }
+    return campaign;
+  };
+
+  const updateCampaign = async (campaignId: string, updates: CampaignUpdate) =>
+    applyResult(await invoke({ action: 'update', campaignId, ...updates }, 'Failed to update campaign'));
+
+  const pauseCampaign = async (campaignId: string) =>
+    applyResult(await invoke({ action: 'pause', campaignId }, 'Failed to pause campaign'));
+
+  const resumeCampaign = async (campaignId: string) =>
+    applyResult(await invoke({ action: 'resume', campaignId }, 'Failed to resume campaign'));
+
+  const deleteCampaign = async (campaignId: string): Promise<boolean> => {
+    const data = await invoke({ action: 'delete', campaignId }, 'Failed to delete campaign');
+    if (!data) return false;
+    setCampaigns(prev => prev.filter(c => c.id !== campaignId));
+    return true;
+  };
+
+  return {
+    campaigns,
+    isLoading,
+    createCampaign,
+    updateCampaign,
+    pauseCampaign,
+    resumeCampaign,
+    deleteCampaign,
+    refetch: fetchCampaigns,
+  };
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import type { AttentionFrame } from '@/lib/attentionTrace';
 
 interface EyeTrackingState {
   isTracking: boolean;
@@ -8,6 +9,9 @@ interface EyeTrackingState {
   error: string | null;
 }
 
+// Relative drop in eye-band brightness that counts as closed eyes
+const BLINK_BRIGHTNESS_DROP = 0.25;
+
 interface UseEyeTrackingOptions {
   enabled?: boolean;
   onAttentionLost?: () => void;
@@ -35,6 +39,9 @@ export function useEyeTracking(options: UseEyeTrackingOptions = {}) {
   const streamRef = useRef<MediaStream | null>(null);
   const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const attentionFramesRef = useRef({ detected: 0, total: 0 });
+  const traceRef = useRef<AttentionFrame[]>([]);
+  const eyeBaselineRef = useRef<number | null>(null);
+  const eyesClosedRef = useRef(false);
   const wasAttentiveRef = useRef(true);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   
@@ -165,19 +172,34 @@ export function useEyeTracking(options: UseEyeTrackingOptions = {}) {
         
         let skinTonePixels = 0;
         let totalPixels = 0;
+        let skinX = 0;
+        let skinY = 0;
+        let eyeBrightness = 0;
+        let eyePixels = 0;
         
         for (let i = 0; i < data.length; i += 4) {
           const r = data[i];
           const g = data[i + 1];
           const b = data[i + 2];
+          const pixel = i / 4;
+          const x = pixel % 160;
+          const y = Math.floor(pixel / 160);
           
           if (r > 60 && g > 40 && b > 20 && 
               r > g && r > b && 
               Math.abs(r - g) > 15 &&
               r - b > 15) {
             skinTonePixels++;
+            skinX += x;
+            skinY += y;
           }
           totalPixels++;
+
+          // Eyes sit in the upper band of the face region
+          if (y >= 24 && y < 72) {
+            eyeBrightness += (r * 0.299 + g * 0.587 + b * 0.114) / 255;
+            eyePixels++;
+          }
         }
         
         const skinRatio = skinTonePixels / totalPixels;
@@ -188,6 +210,26 @@ export function useEyeTracking(options: UseEyeTrackingOptions = {}) {
           attentionFramesRef.current.detected++;
         }
 
+        // Gaze approximated by the face centroid's offset from the region center
+        const gaze = skinTonePixels > 0
+          ? { x: skinX / skinTonePixels / 80 - 1, y: skinY / skinTonePixels / 80 - 1 }
+          : { x: 0, y: 0 };
+
+        // Blink = eye-band brightness dropping below a slowly adapting baseline
+        const brightness = eyePixels > 0 ? eyeBrightness / eyePixels : 0;
+        const baseline = eyeBaselineRef.current ?? brightness;
+        eyeBaselineRef.current = baseline * 0.95 + brightness * 0.05;
+        const eyesClosed = baseline > 0 && (baseline - brightness) / baseline > BLINK_BRIGHTNESS_DROP;
+        const blink = eyesClosed && !eyesClosedRef.current;
+        eyesClosedRef.current = eyesClosed;
+
+        traceRef.current.push({
+          timestamp: performance.now(),
+          facePresent: faceDetected,
+          gaze,
+          blink,
+        });
+
         const attentionScore = Math.round(
           (attentionFramesRef.current.detected / attentionFramesRef.current.total) * 100
         );
@@ -222,6 +264,9 @@ export function useEyeTracking(options: UseEyeTrackingOptions = {}) {
   // Reset attention score for new content
   const resetAttention = useCallback(() => {
     attentionFramesRef.current = { detected: 0, total: 0 };
+    traceRef.current = [];
+    eyeBaselineRef.current = null;
+    eyesClosedRef.current = false;
     wasAttentiveRef.current = true;
     setState(prev => ({ ...prev, attentionScore: 0 }));
   }, []);
@@ -234,7 +279,7 @@ export function useEyeTracking(options: UseEyeTrackingOptions = {}) {
     
     console.log(`[EyeTracking] Final score: ${score}% (threshold: ${requiredAttentionThreshold}%)`);
     
-    return { score, passed, framesDetected: detected, totalFrames: total };
+    return { score, passed, framesDetected: detected, totalFrames: total, trace: [...traceRef.current] };
   }, [requiredAttentionThreshold]);
 
   // Auto start/stop based on enabled prop - use ref to track previous enabled state
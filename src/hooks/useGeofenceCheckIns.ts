@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import { notificationSoundService } from '@/services/notificationSound.service';
+import { securityService } from '@/services/security.service';
+import {
+  GeofenceEngine,
+  distanceMeters,
+  type Geofence,
+  type GeofenceEvent,
+  type GeofencePosition,
+  type GeofenceStatus,
+} from '@/lib/geofence';
+import { getActiveLocationSource, subscribeLocationSource } from '@/lib/locationSource';
+import {
+  enqueueOfflineAction,
+  getOfflineQueueState,
+  syncOfflineActions,
+  type QueuedCheckIn,
+} from '@/lib/offlineQueue';
+
+export interface GeofencedPromotion {
+  id: string;
+  business_name: string;
+  latitude: number;
+  longitude: number;
+  reward_amount: number;
+  reward_type: string;
+  geofence_radius_meters?: number;
+  min_dwell_seconds?: number;
+}
+
+const DEFAULT_RADIUS_METERS = 100;
+const DEFAULT_DWELL_SECONDS = 60;
+// Promotions within this distance get fences; refetched after moving half of it
+const FENCE_SEARCH_RADIUS_KM = 2;
+const FENCE_REFRESH_METERS = 1000;
+const MAX_FENCES = 50;
+const TICK_INTERVAL = 5000;
+const AUTO_CHECKIN_KEY = 'geofence_auto_checkin';
+
+const toFence = (promo: GeofencedPromotion): Geofence => ({
+  id: promo.id,
+  latitude: promo.latitude,
+  longitude: promo.longitude,
+  radiusMeters: promo.geofence_radius_meters ?? DEFAULT_RADIUS_METERS,
+  minDwellMs: (promo.min_dwell_seconds ?? DEFAULT_DWELL_SECONDS) * 1000,
+});
+
+const formatDwell = (seconds: number) =>
+  seconds >= 60 ? `${Math.round(seconds / 60)} min` : `${seconds}s`;
+
+// Watches position against the geofences of nearby promotions. Arriving shows a heads-up;
+// staying for the promotion's dwell time prompts a check-in, or queues one straight away
+// when auto check-in is on. Check-ins go through the offline queue so they land even if
+// the connection drops at the door.
+export function useGeofenceCheckIns(enabled: boolean = true) {
+  const { user } = useAuth();
+  const source = useSyncExternalStore(subscribeLocationSource, getActiveLocationSource);
+  const [promotions, setPromotions] = useState<GeofencedPromotion[]>([]);
+  const [statuses, setStatuses] = useState<GeofenceStatus[]>([]);
+  const [lastPosition, setLastPosition] = useState<GeofencePosition | null>(null);
+  const [isWatching, setIsWatching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [autoCheckIn, setAutoCheckInState] = useState(() => localStorage.getItem(AUTO_CHECKIN_KEY) === 'true');
+
+  const engineRef = useRef(new GeofenceEngine());
+  const promotionsRef = useRef(new Map<string, GeofencedPromotion>());
+  const fetchedAtRef = useRef<{ lat: number; lng: number } | null>(null);
+  // Promotions checked in (or queued) this session; the server also allows one a day
+  const checkedInRef = useRef(new Set<string>());
+
+  const setAutoCheckIn = useCallback((value: boolean) => {
+    localStorage.setItem(AUTO_CHECKIN_KEY, String(value));
+    setAutoCheckInState(value);
+  }, []);
+
+  const refreshFences = useCallback(async (position: GeofencePosition) => {
+    fetchedAtRef.current = { lat: position.latitude, lng: position.longitude };
+    try {
+      const { data, error } = await supabase.functions.invoke('get-nearby-promotions', {
+        body: {
+          latitude: position.latitude,
+          longitude: position.longitude,
+          radiusKm: FENCE_SEARCH_RADIUS_KM,
+          limit: MAX_FENCES,
+        },
+      });
+      if (error) throw error;
+
+      const nearby: GeofencedPromotion[] = data?.promotions || [];
+      promotionsRef.current = new Map(nearby.map(promo => [promo.id, promo]));
+      engineRef.current.setFences(nearby.map(toFence));
+      setPromotions(nearby);
+      setStatuses(engineRef.current.getStatuses());
+    } catch (err) {
+      console.error('[Geofence] Error loading nearby promotions:', err);
+      // Try again on the next fix
+      fetchedAtRef.current = null;
+    }
+  }, []);
+
+  const checkIn = useCallback(async (promotionId: string, position: GeofencePosition) => {
+    const promo = promotionsRef.current.get(promotionId);
+    if (!promo || checkedInRef.current.has(promotionId)) return;
+    checkedInRef.current.add(promotionId);
+
+    const payload: QueuedCheckIn = {
+      promotionId: promo.id,
+      userLat: position.latitude,
+      userLng: position.longitude,
+      accuracy: position.accuracy,
+      recordedAt: new Date(position.timestamp).toISOString(),
+      maxDistanceMeters: promo.geofence_radius_meters ?? DEFAULT_RADIUS_METERS,
+      deviceFingerprint: await securityService.generateFingerprint(),
+    };
+
+    const actionId = enqueueOfflineAction('checkin', payload);
+    await syncOfflineActions();
+
+    const queued = getOfflineQueueState().actions.find(action => action.id === actionId);
+    if (!queued) {
+      notificationSoundService.playReward();
+      toast.success(`Checked in at ${promo.business_name}`, {
+        description: `+${promo.reward_amount} ${promo.reward_type}`,
+      });
+    } else if (queued.status === 'conflict') {
+      toast.error('Check-in failed', { description: queued.lastError ?? undefined });
+    } else {
+      toast('Check-in saved', { description: "It will be sent when you're back online" });
+    }
+  }, []);
+
+  const handleEvents = useCallback((events: GeofenceEvent[]) => {
+    for (const event of events) {
+      const promo = promotionsRef.current.get(event.fenceId);
+      if (!promo) continue;
+      const toastId = `geofence-${promo.id}`;
+
+      if (event.type === 'enter') {
+        if (checkedInRef.current.has(promo.id)) continue;
+        const dwellSeconds = promo.min_dwell_seconds ?? DEFAULT_DWELL_SECONDS;
+        toast(`📍 You're at ${promo.business_name}`, {
+          id: toastId,
+          description: dwellSeconds > 0
+            ? `Stay ${formatDwell(dwellSeconds)} to check in for ${promo.reward_amount} ${promo.reward_type}`
+            : `Check in for ${promo.reward_amount} ${promo.reward_type}`,
+        });
+      } else if (event.type === 'dwell') {
+        if (checkedInRef.current.has(promo.id)) continue;
+        if (autoCheckIn) {
+          toast.dismiss(toastId);
+          checkIn(promo.id, event.position);
+        } else {
+          notificationSoundService.playReward();
+          toast(`Ready to check in at ${promo.business_name}`, {
+            id: toastId,
+            description: `Earn ${promo.reward_amount} ${promo.reward_type}`,
+            duration: 30000,
+            action: {
+              label: 'Check In',
+              onClick: () => checkIn(promo.id, event.position),
+            },
+          });
+        }
+      } else if (!event.dwelled) {
+        // Left before the dwell time; the prompt no longer applies
+        toast.dismiss(toastId);
+      }
+    }
+    setStatuses(engineRef.current.getStatuses());
+  }, [autoCheckIn, checkIn]);
+
+  // Latest handlers for the long-lived watch callback
+  const handleEventsRef = useRef(handleEvents);
+  handleEventsRef.current = handleEvents;
+
+  // A different source (simulation on or off) starts from a clean slate; declared
+  // before the watch effect so it runs first and the watch sees the new engine
+  useEffect(() => {
+    engineRef.current = new GeofenceEngine();
+    engineRef.current.setFences([...promotionsRef.current.values()].map(toFence));
+    fetchedAtRef.current = null;
+    setStatuses(engineRef.current.getStatuses());
+  }, [source]);
+
+  useEffect(() => {
+    if (!enabled || !user?.id) return;
+
+    let stopped = false;
+    let stop: (() => void) | null = null;
+    const engine = engineRef.current;
+
+    source.watch(
+      (position) => {
+        if (stopped) return;
+        setLastPosition(position);
+        setError(null);
+
+        const fetchedAt = fetchedAtRef.current;
+        if (!fetchedAt || distanceMeters(fetchedAt.lat, fetchedAt.lng, position.latitude, position.longitude) > FENCE_REFRESH_METERS) {
+          refreshFences(position);
+        }
+        handleEventsRef.current(engine.update(position));
+      },
+      (err) => {
+        console.error('[Geofence] Location error:', err);
+        if (!stopped) setError(err.message);
+      },
+    ).then((stopWatching) => {
+      if (stopped) stopWatching();
+      else stop = stopWatching;
+    });
+    setIsWatching(true);
+
+    const interval = setInterval(() => {
+      handleEventsRef.current(engine.tick(source.now()));
+    }, TICK_INTERVAL);
+
+    return () => {
+      stopped = true;
+      stop?.();
+      clearInterval(interval);
+      setIsWatching(false);
+    };
+  }, [enabled, user?.id, source, refreshFences]);
+
+  return {
+    promotions,
+    statuses,
+    lastPosition,
+    isWatching,
+    error,
+    source,
+    autoCheckIn,
+    setAutoCheckIn,
+    checkIn,
+  };
+}
@@ -0,0 +1,176 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import type { Database } from '@/integrations/supabase/types';
+import {
+  fetchLiveComments,
+  fetchLiveProfiles,
+  LIVE_COMMENT_HISTORY,
+  postLiveComment,
+  sendLiveGift,
+  sendLiveHeartbeat,
+  toLiveComment,
+  toLiveStream,
+  touchLiveViewer,
+  type CoinType,
+  type LiveComment,
+  type LiveStream,
+} from '@/lib/liveStreams';
+
+type LiveStreamRow = Database['public']['Tables']['live_streams']['Row'];
+type LiveCommentRow = Database['public']['Tables']['live_stream_comments']['Row'];
+
+interface LivePresence {
+  userId: string | null;
+  role: 'host' | 'viewer';
+}
+
+// How often the host sends the heartbeat that keeps the stream from being ended as
+// abandoned (after two minutes), and signed-in viewers check in to be counted in the
+// feed. The server drops viewers after three missed check-ins.
+const HEARTBEAT_INTERVAL_MS = 15_000;
+
+// One stream as seen from inside it, by the host or a viewer: its current state, the
+// audience from the realtime presence channel, and the comment feed
+export function useLiveStream(initial: LiveStream | null, { asHost = false }: { asHost?: boolean } = {}) {
+  const { user, refreshProfile } = useAuth();
+  const [stream, setStream] = useState<LiveStream | null>(initial);
+  const [comments, setComments] = useState<LiveComment[]>([]);
+  const [viewerCount, setViewerCount] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [isGifting, setIsGifting] = useState(false);
+  const streamId = initial?.id;
+  const isLive = stream?.status === 'live';
+
+  useEffect(() => setStream(initial), [initial]);
+
+  useEffect(() => {
+    if (!streamId) return;
+    let cancelled = false;
+
+    fetchLiveComments(streamId)
+      .then(history => !cancelled && setComments(history))
+      .catch(error => console.error('[LiveStream] Error loading comments:', error));
+
+    // Signed-out viewers still count, under a key of their own
+    const presenceKey = user?.id ?? crypto.randomUUID();
+    const ownPresence: LivePresence = { userId: user?.id ?? null, role: asHost ? 'host' : 'viewer' };
+    const channel = supabase.channel(`live:${streamId}`, {
+      config: { presence: { key: presenceKey } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<LivePresence>();
+        const viewers = Object.values(state).filter(presences => presences.every(presence => presence.role !== 'host'));
+        setViewerCount(viewers.length);
+      })
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'live_stream_comments', filter: `stream_id=eq.${streamId}` },
+        async (payload) => {
+          const row = payload.new as LiveCommentRow;
+          const authors = await fetchLiveProfiles([row.user_id]).catch(() => null);
+          if (cancelled) return;
+          const comment = toLiveComment(row, authors?.get(row.user_id));
+          setComments(prev => prev.some(c => c.id === comment.id)
+            ? prev
+            : [...prev, comment].slice(-LIVE_COMMENT_HISTORY * 2));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'live_stream_comments', filter: `stream_id=eq.${streamId}` },
+        (payload) => {
+          const id = (payload.old as Partial<LiveCommentRow>).id;
+          setComments(prev => prev.filter(c => c.id !== id));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'live_streams', filter: `id=eq.${streamId}` },
+        (payload) => {
+          setStream(prev => prev && toLiveStream(payload.new as LiveStreamRow, prev.host));
+        }
+      )
+      .subscribe((status) => {
+        if (status !== 'SUBSCRIBED') return;
+        channel.track(ownPresence);
+      });
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+      setComments([]);
+      setViewerCount(0);
+    };
+  }, [streamId, user, asHost]);
+
+  // The stored audience (shown in the feed) is counted on the server from viewers'
+  // check-ins and refreshed by the host's heartbeat
+  useEffect(() => {
+    if (!streamId || !isLive || (!asHost && !user)) return;
+
+    const beat = () => {
+      (asHost ? sendLiveHeartbeat(streamId) : touchLiveViewer(streamId))
+        .catch(error => console.error('[LiveStream] Error sending heartbeat:', error));
+    };
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [asHost, streamId, isLive, user]);
+
+  const sendComment = useCallback(async (message: string) => {
+    if (!stream || !message.trim()) return false;
+    if (!user) {
+      toast.error('Sign in to comment');
+      return false;
+    }
+
+    setIsSending(true);
+    try {
+      await postLiveComment(stream.id, user.id, message);
+      return true;
+    } catch (error) {
+      console.error('[LiveStream] Error sending comment:', error);
+      toast.error(stream.allowComments ? 'Could not send comment' : 'Comments are turned off');
+      return false;
+    } finally {
+      setIsSending(false);
+    }
+  }, [stream, user]);
+
+  const sendGift = useCallback(async (amount: number, coinType: CoinType, message?: string) => {
+    if (!stream) return false;
+    if (!user) {
+      toast.error('Sign in to send gifts');
+      return false;
+    }
+
+    setIsGifting(true);
+    try {
+      const result = await sendLiveGift(stream, amount, coinType, message);
+      toast.success(`Sent ${result.amount} ${result.coinType === 'vicoin' ? 'Vicoins' : 'Icoins'}!`);
+      await refreshProfile();
+      return true;
+    } catch (error) {
+      toast.error('Gift not sent', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+      return false;
+    } finally {
+      setIsGifting(false);
+    }
+  }, [stream, user, refreshProfile]);
+
+  return {
+    stream,
+    comments,
+    viewerCount,
+    isSending,
+    isGifting,
+    sendComment,
+    sendGift,
+  };
+}
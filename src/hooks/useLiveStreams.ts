@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchLiveStreams, type LiveStream } from '@/lib/liveStreams';
+
+// Stream changes come in bursts (every host reports its audience regularly), so the
+// list is reloaded at most this often
+const RELOAD_DELAY_MS = 2000;
+
+// Streams on air and coming up, kept current as hosts go live, report viewers and end
+export function useLiveStreams() {
+  const [live, setLive] = useState<LiveStream[]>([]);
+  const [scheduled, setScheduled] = useState<LiveStream[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const reloadTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const streams = await fetchLiveStreams();
+      setLive(streams.live);
+      setScheduled(streams.scheduled);
+    } catch (error) {
+      console.error('[LiveStreams] Error loading:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+
+    const channel = supabase
+      .channel('live-streams:feed')
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'live_streams' },
+        () => {
+          if (reloadTimerRef.current) return;
+          reloadTimerRef.current = setTimeout(() => {
+            reloadTimerRef.current = null;
+            load();
+          }, RELOAD_DELAY_MS);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      if (reloadTimerRef.current) clearTimeout(reloadTimerRef.current);
+      reloadTimerRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [load]);
+
+  return {
+    live,
+    scheduled,
+    isLoading,
+    refresh: load,
+  };
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from 'sonner';
+import {
+  fetchLockedSegments,
+  fetchUnlockedSegmentIds,
+  requestSegmentUnlock,
+  type LockedSegment,
+  type SegmentUnlock,
+} from '@/lib/lockedSegments';
+
+// Links are re-requested this long before they run out, so playback doesn't hit a 403
+const REFRESH_MARGIN_MS = 30_000;
+
+// Feed items without a backing user_content row (mock or external media) have no locks
+const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Locked segments of a piece of content and the clean cuts this viewer has unlocked
+export function useLockedSegments(contentId: string | undefined) {
+  const { user } = useAuth();
+  const [segments, setSegments] = useState<LockedSegment[]>([]);
+  const [unlocks, setUnlocks] = useState<Record<string, SegmentUnlock>>({});
+  const [unlockingId, setUnlockingId] = useState<string | null>(null);
+  const refreshingRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!contentId || !uuidRegex.test(contentId)) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const locked = await fetchLockedSegments(contentId);
+        if (cancelled || locked.length === 0) return;
+        setSegments(locked);
+        if (!user) return;
+
+        // Earlier unlocks (and the creator's own segments) just need fresh links
+        const unlockedIds = locked[0].creatorId === user.id
+          ? locked.map(segment => segment.id)
+          : await fetchUnlockedSegmentIds(contentId, user.id);
+        for (const segmentId of unlockedIds) {
+          const unlock = await requestSegmentUnlock(segmentId);
+          if (cancelled) return;
+          setUnlocks(prev => ({ ...prev, [segmentId]: unlock }));
+        }
+      } catch (error) {
+        console.error('[LockedSegments] Error loading:', error);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      setSegments([]);
+      setUnlocks({});
+    };
+  }, [contentId, user]);
+
+  const unlock = useCallback(async (segment: LockedSegment) => {
+    if (!user) {
+      toast.error('Sign in to unlock');
+      return false;
+    }
+
+    setUnlockingId(segment.id);
+    try {
+      const result = await requestSegmentUnlock(segment.id);
+      setUnlocks(prev => ({ ...prev, [segment.id]: result }));
+      return true;
+    } catch (error) {
+      toast.error('Not unlocked yet', {
+        description: error instanceof Error ? error.message : 'Please try again',
+      });
+      return false;
+    } finally {
+      setUnlockingId(null);
+    }
+  }, [user]);
+
+  // Swaps in a new link for an unlocked segment whose link is about to expire
+  const refreshIfExpiring = useCallback((segmentId: string) => {
+    const current = unlocks[segmentId];
+    if (!current || current.expiresAt - Date.now() > REFRESH_MARGIN_MS) return;
+    if (refreshingRef.current.has(segmentId)) return;
+    refreshingRef.current.add(segmentId);
+    requestSegmentUnlock(segmentId)
+      .then(result => setUnlocks(prev => ({ ...prev, [segmentId]: result })))
+      .catch(error => console.error('[LockedSegments] Error refreshing link:', error))
+      .finally(() => refreshingRef.current.delete(segmentId));
+  }, [unlocks]);
+
+  return {
+    segments,
+    unlocks,
+    unlockingId,
+    unlock,
+    refreshIfExpiring,
+  };
+}
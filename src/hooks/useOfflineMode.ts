@@ -1,12 +1,16 @@
-import { useState, useEffect, useCallback } from 'react';
-
-interface QueuedAction {
-  id: string;
-  type: 'like' | 'follow' | 'task_complete' | 'message' | 'transaction';
-  payload: Record<string, unknown>;
-  timestamp: number;
-  retries: number;
-}
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import {
+  subscribeOfflineQueue,
+  getOfflineQueueState,
+  enqueueOfflineAction,
+  removeOfflineAction,
+  retryOfflineAction,
+  syncOfflineActions,
+  type OfflineActionType,
+  type OfflineActionPayloads,
+} from '@/lib/offlineQueue';
+
+export type { QueuedAction, QueuedActionStatus, OfflineActionType, OfflineActionPayloads } from '@/lib/offlineQueue';
 
 interface CacheEntry<T> {
   data: T;
@@ -21,38 +25,22 @@ const CACHE_DURATIONS = {
   messages: 15 * 60 * 1000, // 15 minutes
 };
 
-const QUEUED_ACTIONS_KEY = 'offline_queued_actions';
 const CACHE_PREFIX = 'cache_';
 
 export const useOfflineMode = () => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [queuedActions, setQueuedActions] = useState<QueuedAction[]>([]);
-  const [isSyncing, setIsSyncing] = useState(false);
-  const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
-
-  // Load queued actions from localStorage on mount
-  useEffect(() => {
-    const stored = localStorage.getItem(QUEUED_ACTIONS_KEY);
-    if (stored) {
-      try {
-        setQueuedActions(JSON.parse(stored));
-      } catch (e) {
-        console.error('Error parsing queued actions:', e);
-      }
-    }
-  }, []);
-
-  // Save queued actions to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem(QUEUED_ACTIONS_KEY, JSON.stringify(queuedActions));
-  }, [queuedActions]);
+  // The queue itself lives in IndexedDB and is shared by every caller of this hook
+  const { actions: queuedActions, isSyncing, lastSyncTime } = useSyncExternalStore(
+    subscribeOfflineQueue,
+    getOfflineQueueState
+  );
 
   // Listen for online/offline events
   useEffect(() => {
     const handleOnline = () => {
       setIsOnline(true);
       // Attempt to sync when coming back online
-      syncPendingActions();
+      syncOfflineActions();
     };
 
     const handleOffline = () => {
@@ -69,109 +57,32 @@ export const useOfflineMode = () => {
   }, []);
 
   // Queue an action for later sync
-  const queueAction = useCallback((
-    type: QueuedAction['type'],
-    payload: Record<string, unknown>
-  ) => {
-    const action: QueuedAction = {
-      id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type,
-      payload,
-      timestamp: Date.now(),
-      retries: 0,
-    };
-
-    setQueuedActions(prev => [...prev, action]);
-    return action.id;
-  }, []);
-
-  // Remove an action from the queue
-  const removeFromQueue = useCallback((actionId: string) => {
-    setQueuedActions(prev => prev.filter(a => a.id !== actionId));
-  }, []);
+  const queueAction = useCallback(<T extends OfflineActionType>(
+    type: T,
+    payload: OfflineActionPayloads[T]
+  ) => enqueueOfflineAction(type, payload), []);
 
   // Sync pending actions (to be called when online)
-  const syncPendingActions = useCallback(async () => {
-    if (!navigator.onLine || queuedActions.length === 0 || isSyncing) return;
+  const syncPendingActions = useCallback(() => syncOfflineActions(), []);
 
-    setIsSyncing(true);
-    const failedActions: QueuedAction[] = [];
-
-    for (const action of queuedActions) {
-      try {
-        // Process action based on type
-        const success = await processQueuedAction(action);
-        if (!success && action.retries < 3) {
-          failedActions.push({ ...action, retries: action.retries + 1 });
-        }
-      } catch (error) {
-        console.error('Error processing queued action:', error);
-        if (action.retries < 3) {
-          failedActions.push({ ...action, retries: action.retries + 1 });
-        }
-      }
-    }
-
-    setQueuedActions(failedActions);
-    setLastSyncTime(new Date());
-    setIsSyncing(false);
-  }, [queuedActions, isSyncing]);
+  // Conflicts and exhausted retries stay listed until the user dismisses or retries them
+  const queuedCount = queuedActions.filter(a => a.status === 'pending' || a.status === 'syncing').length;
 
   return {
     isOnline,
     isOffline: !isOnline,
     queuedActions,
-    queuedCount: queuedActions.length,
+    queuedCount,
+    needsAttentionCount: queuedActions.length - queuedCount,
     isSyncing,
     lastSyncTime,
     queueAction,
-    removeFromQueue,
+    removeFromQueue: removeOfflineAction,
+    retryAction: retryOfflineAction,
     syncPendingActions,
   };
 };
 
-// Process a queued action - returns true if successful
-async function processQueuedAction(action: QueuedAction): Promise<boolean> {
-  // Import supabase dynamically to avoid circular dependencies
-  const { supabase } = await import('@/integrations/supabase/client');
-
-  switch (action.type) {
-    case 'like':
-      // Handle like action
-      const { error: likeError } = await supabase
-        .from('content_interactions')
-        .upsert({
-          user_id: action.payload.userId as string,
-          content_id: action.payload.contentId as string,
-          liked: true,
-        });
-      return !likeError;
-
-    case 'task_complete':
-      // Handle task completion
-      const { error: taskError } = await supabase
-        .from('user_tasks')
-        .update({
-          progress: action.payload.progress as number,
-          completed: action.payload.completed as boolean,
-          completed_at: action.payload.completed ? new Date().toISOString() : null,
-        })
-        .eq('id', action.payload.taskId as string);
-      return !taskError;
-
-    case 'transaction':
-      // Handle transaction
-      const { error: txError } = await supabase
-        .from('transactions')
-        .insert([action.payload as { amount: number; coin_type: string; description: string; type: string; user_id: string }]);
-      return !txError;
-
-    default:
-      console.warn('Unknown action type:', action.type);
-      return true; // Remove unknown actions from queue
-  }
-}
-
 // Cache utilities
 export const cacheUtils = {
   set: <T>(key: string, data: T, type: keyof typeof CACHE_DURATIONS = 'feed') => {
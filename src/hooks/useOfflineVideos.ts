@@ -0,0 +1,40 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  subscribeOfflineVideos,
+  getOfflineVideosState,
+  downloadVideoForOffline,
+  removeOfflineVideo,
+  markOfflineVideoPlayed,
+  isOfflineVideoSupported,
+} from '@/lib/offlineVideos';
+import type { SavedVideo } from '@/hooks/useSavedVideos';
+
+export { OfflineStorageFullError, getOfflinePlaybackUrl } from '@/lib/offlineVideos';
+export type { OfflineVideo } from '@/lib/offlineVideos';
+
+export const useOfflineVideos = () => {
+  // Downloads are shared across every caller, like the offline action queue
+  const { videos, progress } = useSyncExternalStore(subscribeOfflineVideos, getOfflineVideosState);
+
+  const isDownloaded = useCallback((contentId: string) => !!videos[contentId], [videos]);
+
+  // Resolves once the video is in Cache Storage; rejects with OfflineStorageFullError
+  // when it can't fit even after evicting older downloads
+  const download = useCallback((video: SavedVideo) => {
+    if (!video.videoSrc) return Promise.reject(new Error('Only videos can be downloaded'));
+    return downloadVideoForOffline({ contentId: video.contentId, url: video.videoSrc, title: video.title });
+  }, []);
+
+  const usedBytes = Object.values(videos).reduce((sum, video) => sum + video.size, 0);
+
+  return {
+    isSupported: isOfflineVideoSupported(),
+    downloads: videos,
+    isDownloaded,
+    downloadProgress: (contentId: string) => progress[contentId] ?? null,
+    usedBytes,
+    download,
+    remove: removeOfflineVideo,
+    markPlayed: markOfflineVideoPlayed,
+  };
+};
@@ -0,0 +1,183 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export type ScoreComponent =
+  | 'base'
+  | 'reward'
+  | 'popularity'
+  | 'freshness'
+  | 'likedTags'
+  | 'dislikedTags'
+  | 'category'
+  | 'engagement'
+  | 'collaborative'
+  | 'alreadySeen'
+  | 'nearby'
+  | 'exploration';
+
+export type ScoreBreakdown = Partial<Record<ScoreComponent, number>>;
+
+export type DiversityDemotion = 'author_cap' | 'category_cap';
+
+export interface PersonalizedFeedItem {
+  id: string;
+  kind: 'content' | 'promotion';
+  title: string;
+  category: string;
+  tags: string[];
+  reward: number;
+  coinType: 'icoin' | 'vicoin';
+  thumbnail: string | null;
+  mediaUrl: string | null;
+  duration: number | null;
+  creatorId: string | null;
+  publishedAt: string;
+  distanceKm: number | null;
+  score: number;
+  reason: string;
+  position: number;
+  personalized: boolean;
+  // Only present when the page was requested with debug
+  breakdown?: ScoreBreakdown;
+  demotedBy?: DiversityDemotion | null;
+}
+
+export interface PersonalizedFeedMeta {
+  userId: string | null;
+  personalized: boolean;
+  interactionCount: number;
+  // Candidates boosted by item-to-item similarity to what the user engaged with
+  collaborativeMatches: number;
+  coldStart: boolean;
+  total: number;
+}
+
+export interface PersonalizedFeedPage {
+  feed: PersonalizedFeedItem[];
+  nextCursor: string | null;
+  meta: PersonalizedFeedMeta;
+}
+
+export interface FeedPageRequest {
+  cursor?: string;
+  limit?: number;
+  refresh?: boolean;
+  latitude?: number;
+  longitude?: number;
+  debug?: boolean;
+}
+
+export interface FeedExplanation {
+  contentId: string;
+  shown: boolean;
+  rank: number | null;
+  total: number;
+  score: number | null;
+  reason: string | null;
+  breakdown: ScoreBreakdown | null;
+  demotedBy: DiversityDemotion | null;
+  // Why the post isn't in the feed, empty when it is
+  notShown: string[];
+}
+
+// Thrown when the cached ranking behind a cursor was replaced; start again from the top
+export class FeedCursorExpiredError extends Error {}
+
+export async function fetchPersonalizedFeedPage(request: FeedPageRequest = {}): Promise<PersonalizedFeedPage> {
+  const { data, error } = await supabase.functions.invoke('get-personalized-feed', {
+    body: request,
+  });
+
+  if (error) {
+    const ctx = (error as { context?: Response }).context;
+    const parsed = ctx && typeof ctx.json === 'function'
+      ? await ctx.clone().json().catch(() => null)
+      : null;
+    if (parsed?.code === 'cursor_expired') {
+      throw new FeedCursorExpiredError(parsed.error);
+    }
+    throw error;
+  }
+
+  return {
+    feed: data.feed,
+    nextCursor: data.nextCursor,
+    meta: data.meta,
+  };
+}
+
+// Where one of the caller's own posts lands in today's default ranking
+export async function fetchFeedExplanation(contentId: string): Promise<FeedExplanation> {
+  const { data, error } = await supabase.functions.invoke('get-personalized-feed', {
+    body: { explainContentId: contentId },
+  });
+
+  if (error) throw error;
+  return data.explanation;
+}
+
+export function usePersonalizedFeed(pageSize = 10) {
+  const { user } = useAuth();
+  const [feed, setFeed] = useState<PersonalizedFeedItem[]>([]);
+  const [meta, setMeta] = useState<PersonalizedFeedMeta | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // refresh re-ranks on the server instead of serving the cached ranking
+  const loadFirstPage = useCallback(async (refresh = false) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await fetchPersonalizedFeedPage({ limit: pageSize, refresh });
+      setFeed(page.feed);
+      setMeta(page.meta);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading feed:', err);
+      setError('Failed to load personalized feed');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pageSize]);
+
+  // Signing in or out changes who the feed is ranked for
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage, user?.id]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchPersonalizedFeedPage({ cursor: nextCursor, limit: pageSize });
+      setFeed(prev => [...prev, ...page.feed]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      if (err instanceof FeedCursorExpiredError) {
+        await loadFirstPage();
+      } else {
+        console.error('Error loading more feed items:', err);
+        setError('Failed to load more');
+      }
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoadingMore, pageSize, loadFirstPage]);
+
+  const refresh = useCallback(() => loadFirstPage(true), [loadFirstPage]);
+
+  return {
+    feed,
+    meta,
+    isLoading,
+    isLoadingMore,
+    hasMore: nextCursor !== null,
+    error,
+    loadMore,
+    refresh,
+  };
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { realtimeService } from '@/services/realtime.service';
+import { subDays, subHours } from 'date-fns';
+import type { Database } from '@/integrations/supabase/types';
+
+// Rollup rows from the grouping sets leave promotion_id and/or bucket NULL
+type BurnStatsRow = Omit<Database['public']['Functions']['promotion_burn_stats']['Returns'][number], 'promotion_id' | 'bucket'> & {
+  promotion_id: string | null;
+  bucket: string | null;
+};
+
+export type BurnPeriod = '24h' | '7d' | '30d';
+
+export interface BurnMetrics {
+  checkins: number;
+  promoViews: number;
+  coinsDisbursed: number;
+  uniqueUsers: number;
+  attentionMinutes: number;
+  // Coins paid per verified attention-minute; null until any attention is recorded
+  costPerAttentionMinute: number | null;
+}
+
+export interface BurnPoint extends BurnMetrics {
+  bucket: string;
+}
+
+export interface PromotionBurn extends BurnMetrics {
+  promotionId: string;
+  businessName: string;
+  series: BurnPoint[];
+}
+
+const PERIODS: Record<BurnPeriod, { bucket: 'hour' | 'day'; from: () => Date }> = {
+  '24h': { bucket: 'hour', from: () => subHours(new Date(), 24) },
+  '7d': { bucket: 'day', from: () => subDays(new Date(), 7) },
+  '30d': { bucket: 'day', from: () => subDays(new Date(), 30) },
+};
+
+// Bursts of activity arrive together; refetch once they settle
+const LIVE_REFRESH_DELAY_MS = 1500;
+
+function toMetrics(row: BurnStatsRow): BurnMetrics {
+  const attentionMinutes = Number(row.attention_seconds) / 60;
+  return {
+    checkins: row.checkins,
+    promoViews: row.promo_views,
+    coinsDisbursed: row.coins_disbursed,
+    uniqueUsers: row.unique_users,
+    attentionMinutes,
+    costPerAttentionMinute: attentionMinutes > 0 ? row.coins_disbursed / attentionMinutes : null,
+  };
+}
+
+export function usePromoBurnStats(period: BurnPeriod) {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<BurnStatsRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const refreshTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const fetchStats = useCallback(async () => {
+    if (!user) {
+      setRows([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { bucket, from } = PERIODS[period];
+      const { data, error } = await supabase.rpc('promotion_burn_stats', {
+        p_from: from().toISOString(),
+        p_to: new Date().toISOString(),
+        p_bucket: bucket,
+      });
+
+      if (error) throw error;
+      setRows((data || []) as BurnStatsRow[]);
+      setLastUpdated(new Date());
+    } catch (error) {
+      console.error('Failed to fetch promotion burn stats:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, period]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchStats();
+  }, [fetchStats]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    const unsubscribe = realtimeService.subscribeToPromotionActivity(user.id, () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      refreshTimer.current = setTimeout(fetchStats, LIVE_REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      if (refreshTimer.current) clearTimeout(refreshTimer.current);
+      unsubscribe();
+    };
+  }, [user?.id, fetchStats]);
+
+  // Split the grouping-set rows back into totals, the overall series and per-promotion series
+  const { totals, series, promotions } = useMemo(() => {
+    let totals: BurnMetrics | null = null;
+    const series: BurnPoint[] = [];
+    const byPromotion = new Map<string, PromotionBurn>();
+
+    for (const row of rows) {
+      const { promotion_id: promotionId, bucket } = row;
+
+      if (promotionId === null) {
+        if (bucket === null) totals = toMetrics(row);
+        else series.push({ bucket, ...toMetrics(row) });
+        continue;
+      }
+
+      const promotion = byPromotion.get(promotionId) ?? {
+        promotionId,
+        businessName: row.business_name,
+        series: [],
+        ...toMetrics({ ...row, checkins: 0, promo_views: 0, coins_disbursed: 0, unique_users: 0, attention_seconds: 0 }),
+      };
+      if (bucket === null) {
+        Object.assign(promotion, toMetrics(row));
+      } else {
+        promotion.series.push({ bucket, ...toMetrics(row) });
+      }
+      byPromotion.set(promotionId, promotion);
+    }
+
+    return {
+      totals,
+      series,
+      promotions: [...byPromotion.values()].sort((a, b) => b.coinsDisbursed - a.coinsDisbursed),
+    };
+  }, [rows]);
+
+  return {
+    totals,
+    series,
+    promotions,
+    isLoading,
+    lastUpdated,
+    refetch: fetchStats,
+  };
+}
@@ -1,4 +1,6 @@
 import { useState, useCallback, useMemo, useEffect } from 'react';
+import { solveRoute, optimizeOrder, planRoute } from '@/lib/routeSolver';
+import type { OpeningHours, RoutePlan, RoutePoint, SolverStop } from '@/lib/routeSolver';
 
 export interface RouteStop {
   id: string;
@@ -15,6 +17,8 @@ export interface RouteStop {
   /** Added from feed content (has associated video/promo) */
   fromFeed?: boolean;
   contentId?: string;
+  openingHours?: OpeningHours | null;
+  expiresAt?: string | null;
 }
 
 export type TransportMode = 'walking' | 'driving' | 'transit' | 'cycling' | 'running';
@@ -58,6 +62,7 @@ export interface PromoRoute {
   totalReward: number;
   estimatedTime?: number; // minutes
   estimatedDistance?: number; // km
+  rewardPerMinute?: number;
   destination?: RouteDestination | null;
   schedule?: RouteSchedule | null;
   /** Per-segment transport override keyed by "fromIndex-toIndex" */
@@ -99,16 +104,56 @@ function writeToStorage<T>(key: string, value: T) {
   }
 }
 
-// Haversine for distance sorting
-const haversine = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-  const R = 6371;
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos((lat1 * Math.PI) / 180) * Math.cos((lat2 * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-};
+const SCHEDULE_DAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Next time a scheduled route sets off; unscheduled routes leave now
+export function nextDeparture(schedule: RouteSchedule | null | undefined, now: Date = new Date()): Date {
+  if (!schedule?.time) return now;
+  const [hours, minutes] = schedule.time.split(':').map(Number);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const candidate = new Date(now);
+    candidate.setDate(now.getDate() + offset);
+    candidate.setHours(hours || 0, minutes || 0, 0, 0);
+    const dayMatches = schedule.day === 'everyday' || SCHEDULE_DAYS[candidate.getDay()] === schedule.day;
+    if (dayMatches && candidate >= now) return candidate;
+  }
+  return now;
+}
+
+const toSolverStop = (stop: RouteStop): SolverStop & { stop: RouteStop } => ({
+  id: stop.id,
+  latitude: stop.latitude,
+  longitude: stop.longitude,
+  rewardAmount: stop.rewardAmount,
+  openingHours: stop.openingHours,
+  expiresAt: stop.expiresAt,
+  stop,
+});
+
+const routeStart = (route: PromoRoute, userLat?: number, userLng?: number): RoutePoint =>
+  route.origin
+    ?? (userLat !== undefined && userLng !== undefined ? { latitude: userLat, longitude: userLng } : route.stops[0]);
+
+// Leg-by-leg timing for a route in its current stop order
+export function planPromoRoute(route: PromoRoute, userLat?: number, userLng?: number): RoutePlan | null {
+  if (route.stops.length === 0) return null;
+  return planRoute(route.stops.map(toSolverStop), {
+    start: routeStart(route, userLat, userLng),
+    end: route.destination,
+    departAt: nextDeparture(route.schedule),
+    transportMode: route.transportMode,
+    segmentTransport: route.segmentTransport,
+    maxDistanceKm: route.filters.maxDistance,
+  });
+}
+
+const withEstimates = (route: PromoRoute, plan: RoutePlan | null): PromoRoute => ({
+  ...route,
+  estimatedTime: plan ? Math.round(plan.totalMinutes) : undefined,
+  estimatedDistance: plan ? Math.round(plan.totalDistanceKm * 10) / 10 : undefined,
+  rewardPerMinute: plan ? Math.round(plan.rewardPerMinute * 10) / 10 : undefined,
+});
 
 export function usePromoRoute() {
   const [activeRoute, setActiveRoute] = useState<PromoRoute | null>(null);
@@ -222,20 +267,41 @@ export function usePromoRoute() {
     [activeRoute],
   );
 
+  // ─── Optimization ───────────────────────────────────────────────
+
+  // Reorders the current stops for the shortest tour that keeps to opening hours
+  const optimizeStopOrder = useCallback((userLat?: number, userLng?: number) => {
+    setActiveRoute(prev => {
+      if (!prev || prev.stops.length === 0) return prev;
+      const ordered = optimizeOrder(prev.stops.map(toSolverStop), {
+        start: routeStart(prev, userLat, userLng),
+        end: prev.destination,
+        departAt: nextDeparture(prev.schedule),
+        transportMode: prev.transportMode,
+        segmentTransport: prev.segmentTransport,
+        maxDistanceKm: prev.filters.maxDistance,
+      });
+      const route = { ...prev, stops: ordered.map((s, i) => ({ ...s.stop, order: i })) };
+      return withEstimates(route, planPromoRoute(route, userLat, userLng));
+    });
+  }, []);
+
   // ─── Persistence ────────────────────────────────────────────────
 
   const saveRoute = useCallback(() => {
     if (!activeRoute || activeRoute.stops.length === 0) return null;
+    // Stops may have changed since the estimates were made
+    const route = withEstimates(activeRoute, planPromoRoute(activeRoute));
     setSavedRoutes(prev => {
-      const existing = prev.findIndex(r => r.id === activeRoute.id);
+      const existing = prev.findIndex(r => r.id === route.id);
       if (existing >= 0) {
         const updated = [...prev];
-        updated[existing] = activeRoute;
+        updated[existing] = route;
         return updated;
       }
-      return [...prev, activeRoute];
+      return [...prev, route];
     });
-    return activeRoute;
+    return route;
   }, [activeRoute]);
 
   const finishRoute = useCallback(() => setIsBuilding(false), []);
@@ -387,11 +453,15 @@ export function usePromoRoute() {
     reward_type: 'vicoin' | 'icoin' | 'both';
     reward_amount: number;
     required_action?: string;
+    opening_hours?: OpeningHours | null;
+    expires_at?: string | null;
   };
 
-  const applyFilterAndSort = useCallback(
+  // Chooses and orders stops with the route solver, which minimizes travel time for the
+  // optimization goal while keeping to opening hours, expiry and the distance limit
+  const selectRouteStops = useCallback(
     (promos: PromotionInput[], userLat: number, userLng: number, filters: RouteFilters) => {
-      let filtered = promos.filter(p => {
+      const filtered = promos.filter(p => {
         if (filters.rewardTypes.length > 0 && !filters.rewardTypes.includes(p.reward_type)) return false;
         if (filters.categories.length > 0 && p.category && !filters.categories.includes(p.category))
           return false;
@@ -399,37 +469,40 @@ export function usePromoRoute() {
         return true;
       });
 
-      const dist = (p: { latitude: number; longitude: number }) => haversine(userLat, userLng, p.latitude, p.longitude);
-
-      switch (filters.optimization) {
-        case 'more_earnings':
-          filtered.sort((a, b) => b.reward_amount - a.reward_amount);
-          break;
-        case 'faster':
-          filtered.sort((a, b) => dist(a) - dist(b));
-          break;
-        case 'effective':
-          filtered.sort((a, b) => {
-            const dA = dist(a) || 0.001;
-            const dB = dist(b) || 0.001;
-            return b.reward_amount / dB - a.reward_amount / dA;
-          });
-          break;
-        default:
-          filtered.sort((a, b) => {
-            const dA = dist(a);
-            const dB = dist(b);
-            return b.reward_amount * 0.6 - dB * 0.4 - (a.reward_amount * 0.6 - dA * 0.4);
-          });
-      }
+      const { stops } = solveRoute(
+        filtered.map(p => ({
+          id: p.id,
+          latitude: p.latitude,
+          longitude: p.longitude,
+          rewardAmount: p.reward_amount,
+          openingHours: p.opening_hours,
+          expiresAt: p.expires_at,
+          promo: p,
+        })),
+        {
+          start: { latitude: userLat, longitude: userLng },
+          departAt: new Date(),
+          transportMode: 'walking',
+          maxDistanceKm: filters.maxDistance,
+          maxStops: filters.maxStops,
+          optimization: filters.optimization,
+        },
+      );
 
-      return filtered.slice(0, filters.maxStops);
+      return stops.map(s => s.promo);
     },
     [],
   );
 
   const buildRouteFromStops = useCallback(
-    (selected: PromotionInput[], name: string, filters: RouteFilters, label?: string): PromoRoute => {
+    (
+      selected: PromotionInput[],
+      userLat: number,
+      userLng: number,
+      name: string,
+      filters: RouteFilters,
+      label?: string,
+    ): PromoRoute => {
       const stops: RouteStop[] = selected.map((p, i) => ({
         id: `stop-${p.id}`,
         promotionId: p.id,
@@ -441,9 +514,11 @@ export function usePromoRoute() {
         rewardType: p.reward_type,
         rewardAmount: p.reward_amount,
         requiredAction: p.required_action,
+        openingHours: p.opening_hours,
+        expiresAt: p.expires_at,
         order: i,
       }));
-      const route: PromoRoute = {
+      const draft: PromoRoute = {
         id: generateRouteId(),
         name,
         stops,
@@ -458,6 +533,7 @@ export function usePromoRoute() {
         smartLabel: label,
         origin: null,
       };
+      const route = withEstimates(draft, planPromoRoute(draft, userLat, userLng));
       setActiveRoute(route);
       setIsBuilding(true);
       return route;
@@ -469,10 +545,10 @@ export function usePromoRoute() {
 
   const suggestRoute = useCallback(
     (promos: PromotionInput[], userLat: number, userLng: number, filters: RouteFilters = defaultRouteFilters) => {
-      const selected = applyFilterAndSort(promos, userLat, userLng, filters);
-      return buildRouteFromStops(selected, 'Suggested Route', filters);
+      const selected = selectRouteStops(promos, userLat, userLng, filters);
+      return buildRouteFromStops(selected, userLat, userLng, 'Suggested Route', filters);
     },
-    [applyFilterAndSort, buildRouteFromStops],
+    [selectRouteStops, buildRouteFromStops],
   );
 
   // ─── suggestFromWatchLater ──────────────────────────────────────
@@ -489,11 +565,13 @@ export function usePromoRoute() {
         reward_type: w.rewardType,
         reward_amount: w.rewardAmount,
         required_action: w.requiredAction,
+        opening_hours: w.openingHours,
+        expires_at: w.expiresAt,
       }));
-      const selected = applyFilterAndSort(promos, userLat, userLng, filters);
-      return buildRouteFromStops(selected, 'Saved Promos Route', filters, 'Built from your saved promos');
+      const selected = selectRouteStops(promos, userLat, userLng, filters);
+      return buildRouteFromStops(selected, userLat, userLng, 'Saved Promos Route', filters, 'Built from your saved promos');
     },
-    [watchLater, applyFilterAndSort, buildRouteFromStops],
+    [watchLater, selectRouteStops, buildRouteFromStops],
   );
 
   // ─── suggestByInterests ─────────────────────────────────────────
@@ -513,7 +591,7 @@ export function usePromoRoute() {
           ? p.reward_amount * 1.5 // boost interest-matched promos
           : p.reward_amount,
       }));
-      const selected = applyFilterAndSort(weighted, userLat, userLng, filters);
+      const selected = selectRouteStops(weighted, userLat, userLng, filters);
       // Restore original amounts
       const restored = selected.map(s => {
         const orig = promos.find(p => p.id === s.id);
@@ -521,12 +599,14 @@ export function usePromoRoute() {
       });
       return buildRouteFromStops(
         restored,
+        userLat,
+        userLng,
         'Interests Route',
         filters,
         `Based on: ${interestCategories.slice(0, 3).join(', ')}`,
       );
     },
-    [applyFilterAndSort, buildRouteFromStops],
+    [selectRouteStops, buildRouteFromStops],
   );
 
   // ─── suggestSmartRoute ──────────────────────────────────────────
@@ -586,6 +666,8 @@ export function usePromoRoute() {
         reward_type: w.rewardType,
         reward_amount: w.rewardAmount,
         required_action: w.requiredAction,
+        opening_hours: w.openingHours,
+        expires_at: w.expiresAt,
       }));
 
       const combinedPromos = [...wlPromos, ...promos];
@@ -597,10 +679,10 @@ export function usePromoRoute() {
         return true;
       });
 
-      const selected = applyFilterAndSort(deduped, userLat, userLng, filters);
-      return buildRouteFromStops(selected, 'Smart Route', filters, label);
+      const selected = selectRouteStops(deduped, userLat, userLng, filters);
+      return buildRouteFromStops(selected, userLat, userLng, 'Smart Route', filters, label);
     },
-    [watchLater, applyFilterAndSort, buildRouteFromStops],
+    [watchLater, selectRouteStops, buildRouteFromStops],
   );
 
   // ─── Derived state ──────────────────────────────────────────────
@@ -629,6 +711,7 @@ export function usePromoRoute() {
     setSchedule,
     setSegmentTransport,
     getSegmentTransport,
+    optimizeStopOrder,
     saveRoute,
     finishRoute,
     discardRoute,
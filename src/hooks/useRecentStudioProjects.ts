@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  subscribeRecentProjects,
+  getRecentProjects,
+  refreshRecentProjects,
+  deleteStudioProject,
+} from '@/lib/studioProject';
+
+export type { StudioProjectSummary } from '@/lib/studioProject';
+
+// Studio projects saved on this device, plus ones synced from the user's other devices
+export const useRecentStudioProjects = (limit = 6) => {
+  const { user } = useAuth();
+  const projects = useSyncExternalStore(subscribeRecentProjects, getRecentProjects);
+
+  useEffect(() => {
+    if (user) refreshRecentProjects(user.id);
+  }, [user]);
+
+  const remove = useCallback((projectId: string) => deleteStudioProject(projectId, user?.id), [user?.id]);
+
+  return {
+    projects: projects.slice(0, limit),
+    total: projects.length,
+    remove,
+  };
+};
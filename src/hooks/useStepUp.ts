@@ -0,0 +1,60 @@
+import { useState, useCallback, useRef } from 'react';
+import { useTwoFactor, type StepUpScope } from '@/hooks/useTwoFactor';
+
+type Action = () => void | Promise<void>;
+
+// Grants are treated as expired a little early so a request never races the server's clock
+const EXPIRY_MARGIN_MS = 10_000;
+
+// Gates a sensitive action behind a two-factor challenge; render StepUpDialog with
+// dialogProps. `guard` runs the action straight away when 2FA is off or a reusable
+// grant is still fresh. `prompt` always asks, for when the server answered step_up_required.
+export function useStepUp(scope: StepUpScope) {
+  const { status, challenge } = useTwoFactor();
+  const [isOpen, setIsOpen] = useState(false);
+  const pendingAction = useRef<Action | null>(null);
+  const validUntil = useRef(0);
+
+  const prompt = useCallback((action: Action) => {
+    pendingAction.current = action;
+    setIsOpen(true);
+  }, []);
+
+  const guard = useCallback((action: Action) => {
+    if (!status?.enabled || Date.now() < validUntil.current) {
+      action();
+      return;
+    }
+    prompt(action);
+  }, [status?.enabled, prompt]);
+
+  const verify = async (code: string): Promise<boolean> => {
+    const grant = await challenge(code, scope);
+    if (!grant) return false;
+
+    if (!grant.singleUse) {
+      validUntil.current = new Date(grant.expiresAt).getTime() - EXPIRY_MARGIN_MS;
+    }
+    setIsOpen(false);
+
+    const action = pendingAction.current;
+    pendingAction.current = null;
+    await action?.();
+    return true;
+  };
+
+  const cancel = () => {
+    pendingAction.current = null;
+    setIsOpen(false);
+  };
+
+  return {
+    guard,
+    prompt,
+    dialogProps: {
+      open: isOpen,
+      onVerify: verify,
+      onCancel: cancel,
+    },
+  };
+}
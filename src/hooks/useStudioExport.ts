@@ -0,0 +1,139 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { renderEdl } from '@/lib/studioRenderer';
+import {
+  edlForUnlockedSegment,
+  edlLockedBlurs,
+  edlOutputDuration,
+  isVerifiableLock,
+  type EditDecisionList,
+} from '@/lib/studioEdl';
+
+export type StudioExportStatus = 'idle' | 'rendering' | 'done' | 'error';
+
+// The clean cut of a locked segment, served only to viewers who unlock it
+export interface StudioUnlockClip {
+  segmentId: string;
+  file: File;
+}
+
+export interface StudioExport {
+  file: File;
+  edl: EditDecisionList;
+  unlockClips: StudioUnlockClip[];
+}
+
+// A finished export waiting for the Create page to pick it up. Files can't ride along
+// in router state reliably, so it's kept here until the upload completes.
+let pendingExport: StudioExport | null = null;
+
+export const handOffStudioExport = (studioExport: StudioExport) => {
+  pendingExport = studioExport;
+};
+
+export const getPendingStudioExport = () => pendingExport;
+
+export const clearPendingStudioExport = () => {
+  pendingExport = null;
+};
+
+// Renders Studio edits to a video file, with progress and cancellation
+export function useStudioExport() {
+  const [status, setStatus] = useState<StudioExportStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<(StudioExport & { url: string }) | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const resultUrlRef = useRef<string | null>(null);
+  resultUrlRef.current = result?.url ?? null;
+
+  const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setResult(prev => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return null;
+    });
+    setStatus('idle');
+    setProgress(0);
+    setError(null);
+  }, []);
+
+  const startExport = useCallback(async (edl: EditDecisionList) => {
+    reset();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus('rendering');
+
+    try {
+      // Locked segments of a video get a clean clip each, rendered after the main video;
+      // progress covers all of it, weighted by length
+      const unlockEdls = edl.source.kind === 'video'
+        ? edlLockedBlurs(edl).filter(blur => isVerifiableLock(blur.lock)).flatMap(blur => {
+            const unlockEdl = edlForUnlockedSegment(edl, blur.lock.segmentId);
+            return unlockEdl ? [{ segmentId: blur.lock.segmentId, edl: unlockEdl }] : [];
+          })
+        : [];
+      const passes = [edl, ...unlockEdls.map(unlock => unlock.edl)];
+      const lengths = passes.map(edlOutputDuration);
+      const total = lengths.reduce((sum, length) => sum + length, 0) || 1;
+      let done = 0;
+
+      const renderPass = async (pass: EditDecisionList, index: number) => {
+        const rendered = await renderEdl(pass, {
+          signal: controller.signal,
+          onProgress: (value) => setProgress((done + value * lengths[index]) / total),
+        });
+        done += lengths[index];
+        return rendered;
+      };
+
+      const rendered = await renderPass(edl, 0);
+      const baseName = edl.source.name?.replace(/\.[^.]+$/, '') || 'studio-export';
+      const file = new File([rendered.blob], `${baseName}-edit.${rendered.extension}`, { type: rendered.mimeType });
+
+      const unlockClips: StudioUnlockClip[] = [];
+      for (const [index, unlock] of unlockEdls.entries()) {
+        const clip = await renderPass(unlock.edl, index + 1);
+        unlockClips.push({
+          segmentId: unlock.segmentId,
+          file: new File([clip.blob], `${baseName}-unlock-${index + 1}.${clip.extension}`, { type: clip.mimeType }),
+        });
+      }
+
+      setResult({ file, edl, unlockClips, url: URL.createObjectURL(file) });
+      setStatus('done');
+      return file;
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return null;
+      console.error('[StudioExport] Render failed:', err);
+      setError(err instanceof Error ? err.message : 'Export failed');
+      setStatus('error');
+      return null;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [reset]);
+
+  const cancelExport = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setStatus('idle');
+    setProgress(0);
+  }, []);
+
+  // Stop rendering if the Studio is left mid-export
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    if (resultUrlRef.current) URL.revokeObjectURL(resultUrlRef.current);
+  }, []);
+
+  return {
+    status,
+    progress,
+    error,
+    result,
+    startExport,
+    cancelExport,
+    reset,
+  };
+}
@@ -2,14 +2,17 @@ import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
+import { signStudioMedia, STUDIO_MEDIA_BUCKET } from '@/lib/studioMedia';
 
 export interface MediaFile {
   id: string;
-  file: File;
+  // Missing for media restored from a saved project, which only has its storage URL
+  file?: File;
   url: string;
   type: 'image' | 'video';
   uploadProgress: number;
   isUploading: boolean;
+  // Object path in studio-media, for uploads made in this session
   storagePath?: string;
 }
 
@@ -19,7 +22,7 @@ export const useStudioMedia = () => {
   const [currentMedia, setCurrentMedia] = useState<MediaFile | null>(null);
   const [isUploading, setIsUploading] = useState(false);
 
-  const uploadToStorage = useCallback(async (file: File, mediaId: string): Promise<string | null> => {
+  const uploadToStorage = useCallback(async (file: File, mediaId: string): Promise<{ path: string; url: string } | null> => {
     if (!user) {
       toast.error('Please sign in to upload media');
       return null;
@@ -30,7 +33,7 @@ export const useStudioMedia = () => {
     const filePath = `${user.id}/${fileName}`;
 
     const { error: uploadError, data } = await supabase.storage
-      .from('studio-media')
+      .from(STUDIO_MEDIA_BUCKET)
       .upload(filePath, file, {
         cacheControl: '3600',
         upsert: false,
@@ -42,11 +45,13 @@ export const useStudioMedia = () => {
       return null;
     }
 
-    const { data: urlData } = supabase.storage
-      .from('studio-media')
-      .getPublicUrl(filePath);
+    const url = await signStudioMedia(filePath);
+    if (!url) {
+      toast.error('Failed to upload media');
+      return null;
+    }
 
-    return urlData.publicUrl;
+    return { path: filePath, url };
   }, [user]);
 
   const addMedia = useCallback(async (files: FileList | File[]) => {
@@ -98,13 +103,13 @@ export const useStudioMedia = () => {
       }
 
       // Upload to storage
-      const storageUrl = await uploadToStorage(file, mediaId);
+      const stored = await uploadToStorage(file, mediaId);
 
-      if (storageUrl) {
+      if (stored) {
         setMediaFiles(prev => 
           prev.map(m => 
             m.id === mediaId 
-              ? { ...m, url: storageUrl, storagePath: storageUrl, isUploading: false, uploadProgress: 100 }
+              ? { ...m, url: stored.url, storagePath: stored.path, isUploading: false, uploadProgress: 100 }
               : m
           )
         );
@@ -112,7 +117,7 @@ export const useStudioMedia = () => {
         // Update current media if it's this one
         setCurrentMedia(prev => 
           prev?.id === mediaId 
-            ? { ...prev, url: storageUrl, storagePath: storageUrl, isUploading: false, uploadProgress: 100 }
+            ? { ...prev, url: stored.url, storagePath: stored.path, isUploading: false, uploadProgress: 100 }
             : prev
         );
         
@@ -133,17 +138,12 @@ export const useStudioMedia = () => {
     const media = mediaFiles.find(m => m.id === mediaId);
     
     if (media?.storagePath && user) {
-      // Extract the path from the full URL
-      const urlParts = media.storagePath.split('/studio-media/');
-      if (urlParts.length > 1) {
-        const filePath = urlParts[1];
-        const { error } = await supabase.storage
-          .from('studio-media')
-          .remove([filePath]);
-        
-        if (error) {
-          console.error('Delete error:', error);
-        }
+      const { error } = await supabase.storage
+        .from(STUDIO_MEDIA_BUCKET)
+        .remove([media.storagePath]);
+
+      if (error) {
+        console.error('Delete error:', error);
       }
     }
 
@@ -169,6 +169,20 @@ export const useStudioMedia = () => {
     }
   }, [mediaFiles]);
 
+  // Puts media from a saved project back in the editor. It has no storagePath, so
+  // removing it here leaves the stored file alone for the project to keep using.
+  const restoreMedia = useCallback((media: { url: string; type: 'image' | 'video' }) => {
+    const restored: MediaFile = {
+      id: `media-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+      url: media.url,
+      type: media.type,
+      uploadProgress: 100,
+      isUploading: false,
+    };
+    setMediaFiles([restored]);
+    setCurrentMedia(restored);
+  }, []);
+
   const clearAll = useCallback(async () => {
     // Revoke all local URLs
     mediaFiles.forEach(m => {
@@ -189,6 +203,7 @@ export const useStudioMedia = () => {
     removeMedia,
     selectMedia,
     clearAll,
+    restoreMedia,
     setCurrentMedia,
   };
 };
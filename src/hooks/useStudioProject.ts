@@ -0,0 +1,197 @@
+import { useState, useCallback, useRef, useEffect, type SetStateAction } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createStudioProject,
+  loadStudioProject,
+  saveStudioProject,
+  syncStudioProject,
+  StudioProjectVersionError,
+  type StudioProject,
+  type StudioProjectEdit,
+  type StudioProjectMedia,
+} from '@/lib/studioProject';
+
+export type StudioProjectStatus = 'loading' | 'ready' | 'missing' | 'error';
+
+interface ProjectHistory {
+  past: StudioProjectEdit[];
+  project: StudioProject;
+  future: StudioProjectEdit[];
+}
+
+const MAX_HISTORY_SIZE = 100;
+// Changes to the same field this close together are one undo step, so dragging a
+// slider doesn't fill the history with every value it passed through
+const COALESCE_MS = 800;
+const AUTO_SAVE_DELAY = 1500;
+
+const touch = (project: StudioProject, changes: Partial<StudioProject>): StudioProject => ({
+  ...project,
+  ...changes,
+  updatedAt: new Date().toISOString(),
+});
+
+// The Studio's project document with undo/redo and autosave. Pass a project id to
+// reopen a saved project; without one a new project is started. Projects are only
+// saved once they have media, since there's nothing to reopen before that.
+export function useStudioProject(projectId: string | null) {
+  const { user, loading: authLoading } = useAuth();
+  const [history, setHistory] = useState<ProjectHistory>(() => ({
+    past: [],
+    project: createStudioProject(projectId ?? undefined),
+    future: [],
+  }));
+  const [status, setStatus] = useState<StudioProjectStatus>(projectId ? 'loading' : 'ready');
+  const [error, setError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+
+  const { project } = history;
+  const projectRef = useRef(project);
+  projectRef.current = project;
+  const userIdRef = useRef(user?.id);
+  userIdRef.current = user?.id;
+  const loadedIdRef = useRef<string | null>(projectId ? null : project.id);
+  const lastChangeRef = useRef<{ field: keyof StudioProjectEdit; at: number } | null>(null);
+  const dirtyRef = useRef(false);
+
+  const save = useCallback(async () => {
+    const current = projectRef.current;
+    if (!dirtyRef.current || !current.media) return;
+    dirtyRef.current = false;
+
+    await saveStudioProject(current);
+    setSavedAt(current.updatedAt);
+
+    const userId = userIdRef.current;
+    if (userId) {
+      syncStudioProject(current, userId)
+        .catch(err => console.error('[StudioProject] Sync failed:', err));
+    }
+  }, []);
+
+  // Reopen a saved project; waits for auth so a copy edited on another device is found
+  useEffect(() => {
+    if (!projectId || authLoading || loadedIdRef.current === projectId) return;
+    loadedIdRef.current = projectId;
+    setStatus('loading');
+    setError(null);
+
+    loadStudioProject(projectId, user?.id)
+      .then(loaded => {
+        if (loadedIdRef.current !== projectId) return;
+        setHistory({ past: [], project: loaded ?? createStudioProject(projectId), future: [] });
+        setStatus(loaded ? 'ready' : 'missing');
+      })
+      .catch(err => {
+        if (loadedIdRef.current !== projectId) return;
+        console.error('[StudioProject] Load failed:', err);
+        setHistory({ past: [], project: createStudioProject(), future: [] });
+        setError(err instanceof StudioProjectVersionError ? err.message : 'Could not open this project');
+        setStatus('error');
+      });
+  }, [projectId, authLoading, user?.id]);
+
+  const updateEdit = useCallback(<K extends keyof StudioProjectEdit>(
+    field: K,
+    value: SetStateAction<StudioProjectEdit[K]>
+  ) => {
+    const now = Date.now();
+    const last = lastChangeRef.current;
+    const coalesce = last?.field === field && now - last.at < COALESCE_MS;
+    lastChangeRef.current = { field, at: now };
+    dirtyRef.current = true;
+
+    setHistory(prev => {
+      const current = prev.project.edit[field];
+      const next = typeof value === 'function'
+        ? (value as (prevValue: StudioProjectEdit[K]) => StudioProjectEdit[K])(current)
+        : value;
+      if (Object.is(next, current)) return prev;
+
+      return {
+        past: coalesce ? prev.past : [...prev.past, prev.project.edit].slice(-MAX_HISTORY_SIZE),
+        project: touch(prev.project, { edit: { ...prev.project.edit, [field]: next } }),
+        future: [],
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChangeRef.current = null;
+    dirtyRef.current = true;
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        project: touch(prev.project, { edit: prev.past[prev.past.length - 1] }),
+        future: [prev.project.edit, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChangeRef.current = null;
+    dirtyRef.current = true;
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.project.edit],
+        project: touch(prev.project, { edit: prev.future[0] }),
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  // Media isn't part of the undo history; changing it names a still-untitled project
+  const setMedia = useCallback((media: StudioProjectMedia | null) => {
+    dirtyRef.current = true;
+    setHistory(prev => {
+      if (prev.project.media?.url === media?.url && prev.project.media?.path === media?.path) return prev;
+      const untitled = !prev.project.media;
+      const name = untitled && media?.name ? media.name.replace(/\.[^.]+$/, '') : prev.project.name;
+      return { ...prev, project: touch(prev.project, { media, name }) };
+    });
+  }, []);
+
+  const rename = useCallback((name: string) => {
+    dirtyRef.current = true;
+    setHistory(prev => ({ ...prev, project: touch(prev.project, { name }) }));
+  }, []);
+
+  // Autosave a moment after the last change
+  useEffect(() => {
+    if (!dirtyRef.current) return;
+    const timer = setTimeout(save, AUTO_SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [project, save]);
+
+  // Save straight away when the tab is hidden or the Studio is left
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.hidden) save();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('beforeunload', save);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('beforeunload', save);
+      save();
+    };
+  }, [save]);
+
+  return {
+    project,
+    edit: project.edit,
+    status,
+    error,
+    savedAt,
+    updateEdit,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    setMedia,
+    rename,
+  };
+}
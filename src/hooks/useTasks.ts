@@ -137,55 +137,22 @@ export const useTasks = () => {
     return data || [];
   }, []);
 
-  // Fetch or create user tasks for today
+  // Fetch the current period's tasks, which the server creates from the active templates
   const fetchUserTasks = useCallback(async () => {
     if (!user) return;
 
-    const today = new Date().toISOString().split('T')[0];
-    const weekStart = getWeekStart();
+    const [allTemplates, { data: currentTasks, error }] = await Promise.all([
+      fetchTemplates(),
+      supabase.rpc('ensure_user_tasks'),
+    ]);
 
-    // Get existing tasks
-    const { data: existingTasks } = await supabase
-      .from('user_tasks')
-      .select('*')
-      .eq('user_id', user.id)
-      .gte('period_start', weekStart);
-
-    // Get templates to create missing tasks
-    const allTemplates = await fetchTemplates();
-    
-    const tasksToCreate: any[] = [];
-    
-    for (const template of allTemplates) {
-      const periodStart = template.type === 'weekly' ? weekStart : today;
-      const exists = existingTasks?.find(
-        t => t.template_id === template.id && t.period_start === periodStart
-      );
-      
-      if (!exists) {
-        tasksToCreate.push({
-          user_id: user.id,
-          template_id: template.id,
-          goal: template.goal,
-          period_start: periodStart,
-        });
-      }
-    }
-
-    if (tasksToCreate.length > 0) {
-      await supabase.from('user_tasks').insert(tasksToCreate);
+    if (error) {
+      console.error('Error loading tasks:', error);
+      return;
     }
 
-    // Refetch all tasks
-    const { data: allTasks } = await supabase
-      .from('user_tasks')
-      .select('*')
-      .eq('user_id', user.id)
-      .gte('period_start', weekStart)
-      .order('created_at', { ascending: true });
-
     // Merge with templates
-    const tasksWithTemplates = (allTasks || []).map(task => ({
+    const tasksWithTemplates = (currentTasks || []).map(task => ({
       ...task,
       template: allTemplates.find(t => t.id === task.template_id),
     })) as UserTask[];
@@ -230,17 +197,13 @@ export const useTasks = () => {
     const newProgress = Math.min(task.progress + increment, task.goal);
     const completed = newProgress >= task.goal;
 
-    const { error } = await supabase
-      .from('user_tasks')
-      .update({
-        progress: newProgress,
-        completed,
-        completed_at: completed ? new Date().toISOString() : null,
-      })
-      .eq('id', task.id);
+    const { data: recorded, error } = await supabase.rpc('record_task_progress', {
+      p_task_id: task.id,
+      p_progress: newProgress,
+    });
 
-    if (error) {
-      console.error('Error updating task:', error);
+    if (error || !recorded) {
+      console.error('Error updating task:', error ?? 'task period is over');
       return;
     }
 
@@ -265,11 +228,13 @@ export const useTasks = () => {
     const task = tasks.find(t => t.id === taskId);
     if (!task || !task.completed || task.reward_claimed || !task.template) return;
 
-    // Mark as claimed
-    await supabase
-      .from('user_tasks')
-      .update({ reward_claimed: true })
-      .eq('id', taskId);
+    // Marks the task claimed and pays any coins through the ledger, once
+    const { error: claimError } = await supabase.rpc('claim_task_reward', { p_task_id: taskId });
+    if (claimError) {
+      console.error('Failed to claim task reward:', claimError);
+      toast.error('Could not claim reward');
+      return;
+    }
 
     // Award XP
     const xpGained = task.template.xp_reward;
@@ -297,26 +262,6 @@ export const useTasks = () => {
       prev ? { ...prev, current_xp: newCurrentXp, total_xp: newTotalXp, level: newLevel } : null
     );
 
-    // Award coins
-    if (task.template.reward_type !== 'xp') {
-      const coinField = task.template.reward_type === 'vicoin' ? 'vicoin_balance' : 'icoin_balance';
-      
-      // Get current balance and update
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select(coinField)
-        .eq('user_id', user.id)
-        .single();
-
-      if (profileData) {
-        const currentBalance = (profileData as Record<string, number>)[coinField] || 0;
-        await supabase
-          .from('profiles')
-          .update({ [coinField]: currentBalance + task.template.reward_value })
-          .eq('user_id', user.id);
-      }
-    }
-
     setTasks(prev =>
       prev.map(t => (t.id === taskId ? { ...t, reward_claimed: true } : t))
     );
@@ -406,12 +351,3 @@ export const useTasks = () => {
     refetch: fetchUserTasks,
   };
 };
-
-// Helper function to get week start date
-function getWeekStart(): string {
-  const today = new Date();
-  const day = today.getDay();
-  const diff = today.getDate() - day + (day === 0 ? -6 : 1);
-  const weekStart = new Date(today.setDate(diff));
-  return weekStart.toISOString().split('T')[0];
-}
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+
+export type StepUpScope = 'payout' | 'transfer' | 'payment_methods';
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  pending: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrSvg: string;
+}
+
+export interface StepUpGrant {
+  scope: StepUpScope;
+  expiresAt: string;
+  // Payout and transfer grants are used up by the next request
+  singleUse: boolean;
+}
+
+export function useTwoFactor() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Returns the response body, or null after toasting the server's reason
+  const invoke = useCallback(async (body: Record<string, unknown>, failure: string) => {
+    const { data, error } = await supabase.functions.invoke('manage-two-factor', { body });
+
+    if (error) {
+      const ctx = (error as { context?: Response }).context;
+      const parsed = ctx && typeof ctx.json === 'function'
+        ? await ctx.clone().json().catch(() => null)
+        : null;
+      console.error(`${failure}:`, parsed?.error || error);
+      toast({
+        title: failure,
+        description: parsed?.error || 'Please try again',
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    return data;
+  }, []);
+
+  const fetchStatus = useCallback(async () => {
+    if (!user) {
+      setStatus(null);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-two-factor', {
+        body: { action: 'status' },
+      });
+
+      if (error) throw error;
+
+      setStatus({
+        enabled: data.enabled,
+        pending: data.pending,
+        backupCodesRemaining: data.backupCodesRemaining,
+      });
+    } catch (error) {
+      console.error('Failed to fetch two-factor status:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const enroll = async (): Promise<TwoFactorEnrollment | null> => {
+    const data = await invoke({ action: 'enroll' }, 'Failed to start setup');
+    if (!data) return null;
+    setStatus(prev => ({ enabled: false, pending: true, backupCodesRemaining: prev?.backupCodesRemaining ?? 0 }));
+    return { secret: data.secret, otpauthUrl: data.otpauthUrl, qrSvg: data.qrSvg };
+  };
+
+  // Returns the one-time backup codes on success
+  const activate = async (code: string): Promise<string[] | null> => {
+    const data = await invoke({ action: 'activate', code }, 'Verification failed');
+    if (!data) return null;
+    setStatus({ enabled: true, pending: false, backupCodesRemaining: data.backupCodes.length });
+    return data.backupCodes;
+  };
+
+  const disable = async (code: string): Promise<boolean> => {
+    const data = await invoke({ action: 'disable', code }, 'Failed to disable 2FA');
+    if (!data) return false;
+    setStatus({ enabled: false, pending: false, backupCodesRemaining: 0 });
+    return true;
+  };
+
+  const regenerateBackupCodes = async (code: string): Promise<string[] | null> => {
+    const data = await invoke({ action: 'regenerate_backup_codes', code }, 'Failed to create new codes');
+    if (!data) return null;
+    setStatus(prev => prev && { ...prev, backupCodesRemaining: data.backupCodes.length });
+    return data.backupCodes;
+  };
+
+  const challenge = async (code: string, scope: StepUpScope): Promise<StepUpGrant | null> => {
+    const data = await invoke({ action: 'challenge', code, scope }, 'Verification failed');
+    if (!data) return null;
+    return { scope: data.scope, expiresAt: data.expiresAt, singleUse: data.singleUse };
+  };
+
+  return {
+    status,
+    isLoading,
+    enroll,
+    activate,
+    disable,
+    regenerateBackupCodes,
+    challenge,
+    refetch: fetchStatus,
+  };
+}
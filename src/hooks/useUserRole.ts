@@ -2,7 +2,7 @@ import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 
-type AppRole = 'user' | 'creator' | 'moderator' | 'admin';
+type AppRole = 'user' | 'creator' | 'moderator' | 'admin' | 'business';
 
 interface UseUserRoleReturn {
   role: AppRole;
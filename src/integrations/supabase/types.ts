@@ -233,6 +233,113 @@ export type Database = {
         }
         Relationships: []
       }
+      balance_reconciliation_runs: {
+        Row: {
+          auto_correct: boolean
+          auto_correct_threshold: number
+          auto_corrected: number
+          balances_checked: number
+          error_message: string | null
+          finished_at: string | null
+          id: string
+          mismatches_found: number
+          started_at: string
+          status: string
+          triggered_by: string | null
+        }
+        Insert: {
+          auto_correct?: boolean
+          auto_correct_threshold?: number
+          auto_corrected?: number
+          balances_checked?: number
+          error_message?: string | null
+          finished_at?: string | null
+          id?: string
+          mismatches_found?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string | null
+        }
+        Update: {
+          auto_correct?: boolean
+          auto_correct_threshold?: number
+          auto_corrected?: number
+          balances_checked?: number
+          error_message?: string | null
+          finished_at?: string | null
+          id?: string
+          mismatches_found?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string | null
+        }
+        Relationships: []
+      }
+      balance_reconciliations: {
+        Row: {
+          breakdown: Json
+          coin_type: string
+          created_at: string
+          drift: number
+          expected_balance: number
+          id: string
+          ledger_balance: number | null
+          profile_balance: number
+          resolution_note: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          run_id: string
+          severity: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          breakdown?: Json
+          coin_type: string
+          created_at?: string
+          drift: number
+          expected_balance: number
+          id?: string
+          ledger_balance?: number | null
+          profile_balance: number
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          run_id: string
+          severity: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          breakdown?: Json
+          coin_type?: string
+          created_at?: string
+          drift?: number
+          expected_balance?: number
+          id?: string
+          ledger_balance?: number | null
+          profile_balance?: number
+          resolution_note?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          run_id?: string
+          severity?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "balance_reconciliations_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "balance_reconciliation_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       blocked_users: {
         Row: {
           block_type: string
@@ -260,6 +367,92 @@ export type Database = {
         }
         Relationships: []
       }
+      campaigns: {
+        Row: {
+          address: string | null
+          budget: number
+          business_id: string
+          created_at: string
+          current_views: number
+          description: string
+          end_date: string
+          funded: number
+          id: string
+          latitude: number | null
+          longitude: number | null
+          pacing: string
+          pause_reason: string | null
+          promotion_id: string | null
+          required_action: string
+          reward_amount: number
+          reward_type: string
+          spent: number
+          start_date: string
+          status: string
+          target_views: number
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          budget: number
+          business_id: string
+          created_at?: string
+          current_views?: number
+          description?: string
+          end_date: string
+          funded?: number
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          pacing?: string
+          pause_reason?: string | null
+          promotion_id?: string | null
+          required_action: string
+          reward_amount: number
+          reward_type: string
+          spent?: number
+          start_date?: string
+          status?: string
+          target_views?: number
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          budget?: number
+          business_id?: string
+          created_at?: string
+          current_views?: number
+          description?: string
+          end_date?: string
+          funded?: number
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          pacing?: string
+          pause_reason?: string | null
+          promotion_id?: string | null
+          required_action?: string
+          reward_amount?: number
+          reward_type?: string
+          spent?: number
+          start_date?: string
+          status?: string
+          target_views?: number
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "campaigns_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coin_gifts: {
         Row: {
           amount: number
@@ -516,6 +709,143 @@ export type Database = {
         }
         Relationships: []
       }
+      content_locked_segments: {
+        Row: {
+          action_type: string
+          amount: number | null
+          button_text: string
+          coin_type: string
+          content_id: string
+          created_at: string
+          creator_id: string
+          custom_action: string | null
+          description: string
+          id: string
+          mutes_audio: boolean
+          segment_key: string
+          storage_path: string
+          windows: Json
+        }
+        Insert: {
+          action_type: string
+          amount?: number | null
+          button_text: string
+          coin_type?: string
+          content_id: string
+          created_at?: string
+          creator_id: string
+          custom_action?: string | null
+          description?: string
+          id?: string
+          mutes_audio?: boolean
+          segment_key: string
+          storage_path: string
+          windows: Json
+        }
+        Update: {
+          action_type?: string
+          amount?: number | null
+          button_text?: string
+          coin_type?: string
+          content_id?: string
+          created_at?: string
+          creator_id?: string
+          custom_action?: string | null
+          description?: string
+          id?: string
+          mutes_audio?: boolean
+          segment_key?: string
+          storage_path?: string
+          windows?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_locked_segments_content_id_fkey"
+            columns: ["content_id"]
+            isOneToOne: false
+            referencedRelation: "user_content"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_segment_unlocks: {
+        Row: {
+          action_type: string
+          amount: number
+          coin_type: string | null
+          content_id: string
+          created_at: string
+          creator_id: string
+          id: string
+          segment_id: string
+          tip_id: string | null
+          user_id: string
+        }
+        Insert: {
+          action_type: string
+          amount?: number
+          coin_type?: string | null
+          content_id: string
+          created_at?: string
+          creator_id: string
+          id?: string
+          segment_id: string
+          tip_id?: string | null
+          user_id: string
+        }
+        Update: {
+          action_type?: string
+          amount?: number
+          coin_type?: string | null
+          content_id?: string
+          created_at?: string
+          creator_id?: string
+          id?: string
+          segment_id?: string
+          tip_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_segment_unlocks_content_id_fkey"
+            columns: ["content_id"]
+            isOneToOne: false
+            referencedRelation: "user_content"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_segment_unlocks_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "content_locked_segments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_similarity: {
+        Row: {
+          co_users: number
+          computed_at: string
+          content_id: string
+          score: number
+          similar_content_id: string
+        }
+        Insert: {
+          co_users: number
+          computed_at?: string
+          content_id: string
+          score: number
+          similar_content_id: string
+        }
+        Update: {
+          co_users?: number
+          computed_at?: string
+          content_id?: string
+          score?: number
+          similar_content_id?: string
+        }
+        Relationships: []
+      }
       conversation_participants: {
         Row: {
           conversation_id: string
@@ -620,6 +950,36 @@ export type Database = {
         }
         Relationships: []
       }
+      daily_spins: {
+        Row: {
+          amount: number
+          coin_type: string
+          created_at: string
+          journal_entry_id: string | null
+          segment: number
+          spin_date: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          coin_type: string
+          created_at?: string
+          journal_entry_id?: string | null
+          segment: number
+          spin_date?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          coin_type?: string
+          created_at?: string
+          journal_entry_id?: string | null
+          segment?: number
+          spin_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       data_export_requests: {
         Row: {
           created_at: string
@@ -888,11 +1248,16 @@ export type Database = {
           local_media_url: string | null
           media_type: string
           metadata: Json | null
+          next_attempt_at: string | null
           original_likes: number | null
           original_url: string
           original_views: number | null
           platform: string
+          publish_attempts: number
+          publish_error: string | null
+          published_at: string | null
           published_content_id: string | null
+          publishing_started_at: string | null
           scheduled_at: string | null
           status: string
           thumbnail_url: string | null
@@ -909,11 +1274,16 @@ export type Database = {
           local_media_url?: string | null
           media_type?: string
           metadata?: Json | null
+          next_attempt_at?: string | null
           original_likes?: number | null
           original_url: string
           original_views?: number | null
           platform: string
+          publish_attempts?: number
+          publish_error?: string | null
+          published_at?: string | null
           published_content_id?: string | null
+          publishing_started_at?: string | null
           scheduled_at?: string | null
           status?: string
           thumbnail_url?: string | null
@@ -930,11 +1300,16 @@ export type Database = {
           local_media_url?: string | null
           media_type?: string
           metadata?: Json | null
+          next_attempt_at?: string | null
           original_likes?: number | null
           original_url?: string
           original_views?: number | null
           platform?: string
+          publish_attempts?: number
+          publish_error?: string | null
+          published_at?: string | null
           published_content_id?: string | null
+          publishing_started_at?: string | null
           scheduled_at?: string | null
           status?: string
           thumbnail_url?: string | null
@@ -1002,59 +1377,300 @@ export type Database = {
         }
         Relationships: []
       }
-      linked_social_accounts: {
+      ledger_accounts: {
         Row: {
-          avatar_url: string | null
-          display_name: string | null
-          followers_count: number | null
+          account_type: string
+          balance: number
+          coin_type: string
+          created_at: string
           id: string
-          is_verified: boolean | null
-          linked_at: string
-          platform: string
-          profile_url: string | null
+          system_code: string | null
           updated_at: string
-          user_id: string
-          username: string | null
+          user_id: string | null
         }
         Insert: {
-          avatar_url?: string | null
-          display_name?: string | null
-          followers_count?: number | null
+          account_type: string
+          balance?: number
+          coin_type: string
+          created_at?: string
           id?: string
-          is_verified?: boolean | null
-          linked_at?: string
-          platform: string
-          profile_url?: string | null
+          system_code?: string | null
           updated_at?: string
-          user_id: string
-          username?: string | null
+          user_id?: string | null
         }
         Update: {
-          avatar_url?: string | null
-          display_name?: string | null
-          followers_count?: number | null
+          account_type?: string
+          balance?: number
+          coin_type?: string
+          created_at?: string
           id?: string
-          is_verified?: boolean | null
-          linked_at?: string
-          platform?: string
-          profile_url?: string | null
+          system_code?: string | null
           updated_at?: string
-          user_id?: string
-          username?: string | null
+          user_id?: string | null
         }
         Relationships: []
       }
-      message_reactions: {
+      ledger_journal_entries: {
         Row: {
           created_at: string
-          emoji: string
+          description: string
+          entry_type: string
           id: string
-          message_id: string
-          user_id: string
+          metadata: Json
+          reference_id: string | null
         }
         Insert: {
           created_at?: string
-          emoji: string
+          description: string
+          entry_type: string
+          id?: string
+          metadata?: Json
+          reference_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          entry_type?: string
+          id?: string
+          metadata?: Json
+          reference_id?: string | null
+        }
+        Relationships: []
+      }
+      ledger_postings: {
+        Row: {
+          account_id: string
+          amount: number
+          balance_after: number
+          coin_type: string
+          created_at: string
+          direction: string
+          id: string
+          journal_entry_id: string
+          user_id: string | null
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          balance_after: number
+          coin_type: string
+          created_at?: string
+          direction: string
+          id?: string
+          journal_entry_id: string
+          user_id?: string | null
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          balance_after?: number
+          coin_type?: string
+          created_at?: string
+          direction?: string
+          id?: string
+          journal_entry_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_postings_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_postings_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_journal_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      linked_social_accounts: {
+        Row: {
+          avatar_url: string | null
+          display_name: string | null
+          followers_count: number | null
+          id: string
+          is_verified: boolean | null
+          linked_at: string
+          platform: string
+          profile_url: string | null
+          updated_at: string
+          user_id: string
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          display_name?: string | null
+          followers_count?: number | null
+          id?: string
+          is_verified?: boolean | null
+          linked_at?: string
+          platform: string
+          profile_url?: string | null
+          updated_at?: string
+          user_id: string
+          username?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          display_name?: string | null
+          followers_count?: number | null
+          id?: string
+          is_verified?: boolean | null
+          linked_at?: string
+          platform?: string
+          profile_url?: string | null
+          updated_at?: string
+          user_id?: string
+          username?: string | null
+        }
+        Relationships: []
+      }
+      live_stream_comments: {
+        Row: {
+          coin_type: string | null
+          created_at: string
+          gift_amount: number | null
+          id: string
+          is_gift: boolean
+          message: string
+          stream_id: string
+          tip_id: string | null
+          user_id: string
+        }
+        Insert: {
+          coin_type?: string | null
+          created_at?: string
+          gift_amount?: number | null
+          id?: string
+          is_gift?: boolean
+          message: string
+          stream_id: string
+          tip_id?: string | null
+          user_id: string
+        }
+        Update: {
+          coin_type?: string | null
+          created_at?: string
+          gift_amount?: number | null
+          id?: string
+          is_gift?: boolean
+          message?: string
+          stream_id?: string
+          tip_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "live_stream_comments_stream_id_fkey"
+            columns: ["stream_id"]
+            isOneToOne: false
+            referencedRelation: "live_streams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      live_stream_viewers: {
+        Row: {
+          last_seen_at: string
+          stream_id: string
+          user_id: string
+        }
+        Insert: {
+          last_seen_at?: string
+          stream_id: string
+          user_id: string
+        }
+        Update: {
+          last_seen_at?: string
+          stream_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "live_stream_viewers_stream_id_fkey"
+            columns: ["stream_id"]
+            isOneToOne: false
+            referencedRelation: "live_streams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      live_streams: {
+        Row: {
+          allow_comments: boolean
+          allow_gifts: boolean
+          created_at: string
+          ended_at: string | null
+          heartbeat_at: string
+          host_id: string
+          id: string
+          peak_viewers: number
+          scheduled_at: string | null
+          sfu_provider: string
+          sfu_room: string
+          started_at: string | null
+          status: string
+          thumbnail_url: string | null
+          title: string
+          updated_at: string
+          viewer_count: number
+        }
+        Insert: {
+          allow_comments?: boolean
+          allow_gifts?: boolean
+          created_at?: string
+          ended_at?: string | null
+          heartbeat_at?: string
+          host_id: string
+          id?: string
+          peak_viewers?: number
+          scheduled_at?: string | null
+          sfu_provider?: string
+          sfu_room?: string
+          started_at?: string | null
+          status?: string
+          thumbnail_url?: string | null
+          title: string
+          updated_at?: string
+          viewer_count?: number
+        }
+        Update: {
+          allow_comments?: boolean
+          allow_gifts?: boolean
+          created_at?: string
+          ended_at?: string | null
+          heartbeat_at?: string
+          host_id?: string
+          id?: string
+          peak_viewers?: number
+          scheduled_at?: string | null
+          sfu_provider?: string
+          sfu_room?: string
+          started_at?: string | null
+          status?: string
+          thumbnail_url?: string | null
+          title?: string
+          updated_at?: string
+          viewer_count?: number
+        }
+        Relationships: []
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
           id?: string
           message_id: string
           user_id: string
@@ -1208,6 +1824,36 @@ export type Database = {
         }
         Relationships: []
       }
+      offline_action_receipts: {
+        Row: {
+          action_type: string
+          created_at: string
+          idempotency_key: string
+          reason: string | null
+          result: Json | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          action_type: string
+          created_at?: string
+          idempotency_key: string
+          reason?: string | null
+          result?: Json | null
+          status: string
+          user_id: string
+        }
+        Update: {
+          action_type?: string
+          created_at?: string
+          idempotency_key?: string
+          reason?: string | null
+          result?: Json | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       payment_methods: {
         Row: {
           created_at: string
@@ -1300,6 +1946,108 @@ export type Database = {
           },
         ]
       }
+      pending_rewards: {
+        Row: {
+          amount: number
+          campaign_id: string | null
+          claimable_at: string | null
+          claimed_at: string | null
+          created_at: string
+          earned_at: string
+          expires_at: string
+          hold_reason: string | null
+          id: string
+          journal_entry_id: string | null
+          metadata: Json
+          reference_id: string | null
+          source: string
+          status: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          campaign_id?: string | null
+          claimable_at?: string | null
+          claimed_at?: string | null
+          created_at?: string
+          earned_at?: string
+          expires_at?: string
+          hold_reason?: string | null
+          id?: string
+          journal_entry_id?: string | null
+          metadata?: Json
+          reference_id?: string | null
+          source: string
+          status?: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          campaign_id?: string | null
+          claimable_at?: string | null
+          claimed_at?: string | null
+          created_at?: string
+          earned_at?: string
+          expires_at?: string
+          hold_reason?: string | null
+          id?: string
+          journal_entry_id?: string | null
+          metadata?: Json
+          reference_id?: string | null
+          source?: string
+          status?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_rewards_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_rewards_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_journal_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      personalized_feed_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          feed_id: string
+          items: Json
+          meta: Json
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          feed_id?: string
+          items?: Json
+          meta?: Json
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          feed_id?: string
+          items?: Json
+          meta?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
       privacy_consents: {
         Row: {
           consent_type: string
@@ -1420,11 +2168,61 @@ export type Database = {
         }
         Relationships: []
       }
+      promotion_activity: {
+        Row: {
+          attention_seconds: number
+          business_id: string
+          coins: number
+          created_at: string
+          id: string
+          kind: string
+          occurred_at: string
+          promotion_id: string
+          source_id: string | null
+          viewer_hash: string
+        }
+        Insert: {
+          attention_seconds?: number
+          business_id: string
+          coins?: number
+          created_at?: string
+          id?: string
+          kind: string
+          occurred_at?: string
+          promotion_id: string
+          source_id?: string | null
+          viewer_hash: string
+        }
+        Update: {
+          attention_seconds?: number
+          business_id?: string
+          coins?: number
+          created_at?: string
+          id?: string
+          kind?: string
+          occurred_at?: string
+          promotion_id?: string
+          source_id?: string | null
+          viewer_hash?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_activity_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       promotion_checkins: {
         Row: {
+          accuracy_meters: number | null
           business_name: string
+          campaign_id: string | null
           checked_in_at: string
           created_at: string
+          device_fingerprint: string | null
           distance_meters: number
           id: string
           latitude: number
@@ -1434,6 +2232,8 @@ export type Database = {
           reward_claimed: boolean
           reward_claimed_at: string | null
           reward_type: string | null
+          risk_score: number
+          risk_signals: string[]
           status: string
           streak_bonus: number | null
           streak_day: number | null
@@ -1442,9 +2242,12 @@ export type Database = {
           user_longitude: number
         }
         Insert: {
+          accuracy_meters?: number | null
           business_name: string
+          campaign_id?: string | null
           checked_in_at?: string
           created_at?: string
+          device_fingerprint?: string | null
           distance_meters: number
           id?: string
           latitude: number
@@ -1454,6 +2257,8 @@ export type Database = {
           reward_claimed?: boolean
           reward_claimed_at?: string | null
           reward_type?: string | null
+          risk_score?: number
+          risk_signals?: string[]
           status?: string
           streak_bonus?: number | null
           streak_day?: number | null
@@ -1462,9 +2267,12 @@ export type Database = {
           user_longitude: number
         }
         Update: {
+          accuracy_meters?: number | null
           business_name?: string
+          campaign_id?: string | null
           checked_in_at?: string
           created_at?: string
+          device_fingerprint?: string | null
           distance_meters?: number
           id?: string
           latitude?: number
@@ -1474,6 +2282,8 @@ export type Database = {
           reward_claimed?: boolean
           reward_claimed_at?: string | null
           reward_type?: string | null
+          risk_score?: number
+          risk_signals?: string[]
           status?: string
           streak_bonus?: number | null
           streak_day?: number | null
@@ -1482,6 +2292,13 @@ export type Database = {
           user_longitude?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "promotion_checkins_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "promotion_checkins_promotion_id_fkey"
             columns: ["promotion_id"]
@@ -1576,6 +2393,7 @@ export type Database = {
       promotions: {
         Row: {
           address: string | null
+          attention_validation: Json | null
           business_id: string | null
           business_name: string
           category: string | null
@@ -1583,12 +2401,16 @@ export type Database = {
           current_claims: number
           description: string | null
           expires_at: string | null
+          geofence_radius_meters: number
           id: string
           image_url: string | null
           is_active: boolean
           latitude: number
+          location: unknown | null
           longitude: number
           max_claims: number | null
+          min_dwell_seconds: number
+          opening_hours: Json | null
           required_action: string
           reward_amount: number
           reward_type: string
@@ -1596,6 +2418,7 @@ export type Database = {
         }
         Insert: {
           address?: string | null
+          attention_validation?: Json | null
           business_id?: string | null
           business_name: string
           category?: string | null
@@ -1603,12 +2426,16 @@ export type Database = {
           current_claims?: number
           description?: string | null
           expires_at?: string | null
+          geofence_radius_meters?: number
           id?: string
           image_url?: string | null
           is_active?: boolean
           latitude: number
+          location?: never
           longitude: number
           max_claims?: number | null
+          min_dwell_seconds?: number
+          opening_hours?: Json | null
           required_action: string
           reward_amount: number
           reward_type: string
@@ -1616,6 +2443,7 @@ export type Database = {
         }
         Update: {
           address?: string | null
+          attention_validation?: Json | null
           business_id?: string | null
           business_name?: string
           category?: string | null
@@ -1623,12 +2451,16 @@ export type Database = {
           current_claims?: number
           description?: string | null
           expires_at?: string | null
+          geofence_radius_meters?: number
           id?: string
           image_url?: string | null
           is_active?: boolean
           latitude?: number
+          location?: never
           longitude?: number
           max_claims?: number | null
+          min_dwell_seconds?: number
+          opening_hours?: Json | null
           required_action?: string
           reward_amount?: number
           reward_type?: string
@@ -1709,33 +2541,125 @@ export type Database = {
         Row: {
           amount: number
           attention_score: number | null
+          campaign_id: string | null
           coin_type: string
           content_id: string
           created_at: string
           id: string
           reward_type: string
+          rule_trace: Json | null
           user_id: string
         }
         Insert: {
           amount: number
           attention_score?: number | null
+          campaign_id?: string | null
           coin_type: string
           content_id: string
           created_at?: string
           id?: string
           reward_type: string
+          rule_trace?: Json | null
           user_id: string
         }
         Update: {
           amount?: number
           attention_score?: number | null
+          campaign_id?: string | null
           coin_type?: string
           content_id?: string
           created_at?: string
           id?: string
           reward_type?: string
+          rule_trace?: Json | null
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "reward_logs_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reward_rules: {
+        Row: {
+          amount_max: number | null
+          amount_min: number | null
+          coin_type: string | null
+          created_at: string
+          created_by: string | null
+          daily_limit_icoin: number | null
+          daily_limit_promo_views: number | null
+          daily_limit_vicoin: number | null
+          description: string | null
+          ends_at: string | null
+          id: string
+          is_active: boolean
+          max_level: number | null
+          max_trust_score: number | null
+          min_level: number | null
+          min_trust_score: number | null
+          multiplier: number
+          name: string
+          priority: number
+          reward_type: string | null
+          starts_at: string | null
+          subscription_tiers: string[] | null
+          updated_at: string
+        }
+        Insert: {
+          amount_max?: number | null
+          amount_min?: number | null
+          coin_type?: string | null
+          created_at?: string
+          created_by?: string | null
+          daily_limit_icoin?: number | null
+          daily_limit_promo_views?: number | null
+          daily_limit_vicoin?: number | null
+          description?: string | null
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_level?: number | null
+          max_trust_score?: number | null
+          min_level?: number | null
+          min_trust_score?: number | null
+          multiplier?: number
+          name: string
+          priority?: number
+          reward_type?: string | null
+          starts_at?: string | null
+          subscription_tiers?: string[] | null
+          updated_at?: string
+        }
+        Update: {
+          amount_max?: number | null
+          amount_min?: number | null
+          coin_type?: string | null
+          created_at?: string
+          created_by?: string | null
+          daily_limit_icoin?: number | null
+          daily_limit_promo_views?: number | null
+          daily_limit_vicoin?: number | null
+          description?: string | null
+          ends_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_level?: number | null
+          max_trust_score?: number | null
+          min_level?: number | null
+          min_trust_score?: number | null
+          multiplier?: number
+          name?: string
+          priority?: number
+          reward_type?: string | null
+          starts_at?: string | null
+          subscription_tiers?: string[] | null
+          updated_at?: string
+        }
         Relationships: []
       }
       saved_content: {
@@ -1759,6 +2683,39 @@ export type Database = {
         }
         Relationships: []
       }
+      studio_projects: {
+        Row: {
+          created_at: string
+          document: Json
+          id: string
+          media_url: string | null
+          name: string
+          schema_version: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          document: Json
+          id: string
+          media_url?: string | null
+          name: string
+          schema_version: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          document?: Json
+          id?: string
+          media_url?: string | null
+          name?: string
+          schema_version?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       subscription_status: {
         Row: {
           created_at: string
@@ -1795,6 +2752,48 @@ export type Database = {
         }
         Relationships: []
       }
+      task_reward_claims: {
+        Row: {
+          created_at: string
+          journal_entry_id: string | null
+          period_start: string
+          task_id: string
+          template_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          journal_entry_id?: string | null
+          period_start: string
+          task_id: string
+          template_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          journal_entry_id?: string | null
+          period_start?: string
+          task_id?: string
+          template_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_reward_claims_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "user_tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_reward_claims_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "task_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       task_templates: {
         Row: {
           category: string
@@ -1918,6 +2917,41 @@ export type Database = {
         }
         Relationships: []
       }
+      two_factor_step_ups: {
+        Row: {
+          consumed_at: string | null
+          created_at: string
+          expires_at: string
+          id: string
+          scope: string
+          user_id: string
+        }
+        Insert: {
+          consumed_at?: string | null
+          created_at?: string
+          expires_at: string
+          id?: string
+          scope: string
+          user_id: string
+        }
+        Update: {
+          consumed_at?: string | null
+          created_at?: string
+          expires_at?: string
+          id?: string
+          scope?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "two_factor_step_ups_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_two_factor"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       user_achievements: {
         Row: {
           achievement_id: string | null
@@ -1947,6 +2981,38 @@ export type Database = {
           },
         ]
       }
+      user_backup_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_backup_codes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "user_two_factor"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
       user_bans: {
         Row: {
           banned_by: string
@@ -2300,11 +3366,70 @@ export type Database = {
           },
         ]
       }
+      user_two_factor: {
+        Row: {
+          created_at: string
+          enabled_at: string | null
+          failed_attempts: number
+          last_used_step: number | null
+          locked_until: string | null
+          secret: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          enabled_at?: string | null
+          failed_attempts?: number
+          last_used_step?: number | null
+          locked_until?: string | null
+          secret: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          enabled_at?: string | null
+          failed_attempts?: number
+          last_used_step?: number | null
+          locked_until?: string | null
+          secret?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      admin_correct_balance_drift: {
+        Args: {
+          p_note?: string
+          p_reconciliation_id: string
+        }
+        Returns: Json
+      }
+      apply_offline_action: {
+        Args: {
+          p_action_type: string
+          p_idempotency_key: string
+          p_payload: Json
+        }
+        Returns: Json
+      }
+      atomic_campaign_reward: {
+        Args: {
+          p_amount: number
+          p_campaign_id: string
+          p_description: string
+          p_entry_type?: string
+          p_reference_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
       atomic_convert_coins: {
         Args: {
           p_exchange_rate?: number
@@ -2313,6 +3438,17 @@ export type Database = {
         }
         Returns: Json
       }
+      atomic_live_gift: {
+        Args: {
+          p_amount: number
+          p_coin_type: string
+          p_creator_id: string
+          p_message?: string
+          p_stream_id: string
+          p_tipper_id: string
+        }
+        Returns: Json
+      }
       atomic_request_payout: {
         Args: {
           p_amount: number
@@ -2322,6 +3458,15 @@ export type Database = {
         }
         Returns: Json
       }
+      atomic_send_gift: {
+        Args: {
+          p_amount: number
+          p_coin_type: string
+          p_message?: string
+          p_recipient_id: string
+        }
+        Returns: Json
+      }
       atomic_tip_creator: {
         Args: {
           p_amount: number
@@ -2337,11 +3482,107 @@ export type Database = {
           p_amount: number
           p_coin_type: string
           p_description: string
+          p_entry_type?: string
           p_reference_id: string
           p_user_id: string
         }
         Returns: Json
       }
+      claim_daily_spin: {
+        Args: never
+        Returns: Json
+      }
+      claim_due_scheduled_posts: {
+        Args: {
+          p_limit?: number
+          p_stale_after?: unknown
+        }
+        Returns: {
+          description: string | null
+          duration: number | null
+          edited_media_url: string | null
+          id: string
+          imported_at: string
+          linked_account_id: string | null
+          local_media_url: string | null
+          media_type: string
+          metadata: Json | null
+          next_attempt_at: string | null
+          original_likes: number | null
+          original_url: string
+          original_views: number | null
+          platform: string
+          publish_attempts: number
+          publish_error: string | null
+          published_at: string | null
+          published_content_id: string | null
+          publishing_started_at: string | null
+          scheduled_at: string | null
+          status: string
+          thumbnail_url: string | null
+          title: string | null
+          user_id: string
+        }[]
+      }
+      claim_pending_reward: {
+        Args: {
+          p_reward_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      claim_task_reward: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: Json
+      }
+      consume_step_up: {
+        Args: {
+          p_scope: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      convert_coins_with_step_up: {
+        Args: {
+          p_exchange_rate?: number
+          p_icoin_amount: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      end_abandoned_live_streams: {
+        Args: never
+        Returns: number
+      }
+      ensure_user_tasks: {
+        Args: never
+        Returns: {
+          completed: boolean
+          completed_at: string | null
+          created_at: string
+          goal: number
+          id: string
+          period_end: string | null
+          period_start: string
+          progress: number
+          reward_claimed: boolean
+          template_id: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      expire_campaigns: {
+        Args: never
+        Returns: number
+      }
+      expire_pending_rewards: {
+        Args: {
+          p_user_id?: string
+        }
+        Returns: number
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -2349,9 +3590,221 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_step_up: {
+        Args: {
+          p_scope: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      interaction_rating: {
+        Args: {
+          p_attention: number
+          p_completion: number
+          p_liked: boolean
+          p_shared: boolean
+          p_skipped: boolean
+        }
+        Returns: number
+      }
+      ledger_adjust_balance: {
+        Args: {
+          p_coin_type: string
+          p_description: string
+          p_metadata?: Json
+          p_target_balance: number
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      ledger_system_account: {
+        Args: {
+          p_code: string
+          p_coin_type: string
+        }
+        Returns: string
+      }
+      ledger_user_account: {
+        Args: {
+          p_coin_type: string
+          p_user_id: string
+        }
+        Returns: string
+      }
+      ledger_verify_user_balance: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          account_balance: number
+          coin_type: string
+          is_consistent: boolean
+          profile_balance: number
+          replayed_balance: number
+        }[]
+      }
+      locked_segment_stats: {
+        Args: {
+          p_content_id?: string
+        }
+        Returns: {
+          action_type: string
+          amount: number
+          coins_earned: number
+          content_id: string
+          content_title: string
+          last_unlocked_at: string
+          segment_id: string
+          unlocks: number
+        }[]
+      }
+      nearby_promotions: {
+        Args: {
+          p_after_distance?: number
+          p_after_id?: string
+          p_category?: string
+          p_latitude: number
+          p_limit?: number
+          p_longitude: number
+          p_radius_m: number
+          p_reward_type?: string
+        }
+        Returns: {
+          promotion: Json
+          distance_m: number
+        }[]
+      }
+      post_journal_entry: {
+        Args: {
+          p_description: string
+          p_entry_type: string
+          p_legs: Json
+          p_metadata?: Json
+          p_reference_id: string
+        }
+        Returns: string
+      }
+      promotion_burn_stats: {
+        Args: {
+          p_bucket?: string
+          p_from: string
+          p_to?: string
+        }
+        Returns: {
+          attention_seconds: number
+          bucket: string
+          business_name: string
+          checkins: number
+          coins_disbursed: number
+          promo_views: number
+          promotion_id: string
+          unique_users: number
+        }[]
+      }
+      promotion_clusters: {
+        Args: {
+          p_category?: string
+          p_cell_deg?: number
+          p_east: number
+          p_limit?: number
+          p_north: number
+          p_reward_type?: string
+          p_south: number
+          p_west: number
+        }
+        Returns: {
+          latitude: number
+          longitude: number
+          promotion_count: number
+          reward_total: number
+          max_reward: number
+          promotion: Json
+        }[]
+      }
+      rebuild_content_similarity: {
+        Args: {
+          p_max_per_user?: number
+          p_min_co_users?: number
+          p_neighbours?: number
+          p_shrinkage?: number
+          p_window?: unknown
+        }
+        Returns: number
+      }
+      reconciliation_expected_balances: {
+        Args: never
+        Returns: {
+          breakdown: Json
+          coin_type: string
+          expected_balance: number
+          ledger_balance: number
+          profile_balance: number
+          user_id: string
+        }[]
+      }
+      record_promotion_activity: {
+        Args: {
+          p_attention_seconds?: number
+          p_coins?: number
+          p_kind: string
+          p_occurred_at?: string
+          p_promotion_id: string
+          p_source_id?: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      record_task_progress: {
+        Args: {
+          p_progress: number
+          p_task_id: string
+        }
+        Returns: boolean
+      }
+      release_pending_reward: {
+        Args: {
+          p_note?: string
+          p_reward_id: string
+        }
+        Returns: undefined
+      }
+      request_payout_with_step_up: {
+        Args: {
+          p_amount: number
+          p_coin_type: string
+          p_method: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      task_period_start: {
+        Args: {
+          p_type: string
+        }
+        Returns: string
+      }
+      touch_live_viewer: {
+        Args: {
+          p_stream_id: string
+        }
+        Returns: undefined
+      }
+      two_factor_enabled: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      unlock_segment_with_payment: {
+        Args: {
+          p_segment_id: string
+          p_user_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
-      app_role: "user" | "creator" | "moderator" | "admin"
+      app_role: "user" | "creator" | "moderator" | "admin" | "business"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -2479,7 +3932,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["user", "creator", "moderator", "admin"],
+      app_role: ["user", "creator", "moderator", "admin", "business"],
     },
   },
 } as const
@@ -0,0 +1,70 @@
+// Per-frame eye-tracking trace uploaded with validate-attention so the server can
+// replay the session instead of trusting client-side totals.
+// Keep in sync with supabase/functions/validate-attention/replay.ts.
+
+export const ATTENTION_TRACE_VERSION = 1;
+
+// Gaze components are quantized to integers in this range
+const GAZE_SCALE = 100;
+
+export interface AttentionFrame {
+  timestamp: number; // performance.now() in ms
+  facePresent: boolean;
+  gaze: { x: number; y: number }; // -1 to 1 from the center of the face region
+  blink: boolean;
+}
+
+/**
+ * Columnar layout compresses far better than an array of frame objects:
+ * dt holds frame deltas in tenths of a millisecond, the rest are per-frame columns.
+ */
+interface EncodedTrace {
+  v: number;
+  dt: number[];
+  f: number[];
+  gx: number[];
+  gy: number[];
+  b: number[];
+}
+
+const quantizeGaze = (value: number) =>
+  Math.round(Math.max(-1, Math.min(1, value)) * GAZE_SCALE);
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Encode frames as gzip-compressed, base64 JSON. Returns null when the browser
+ * can't compress, in which case the server falls back to the summary fields.
+ */
+export async function encodeAttentionTrace(frames: AttentionFrame[]): Promise<string | null> {
+  if (frames.length === 0 || typeof CompressionStream === 'undefined') return null;
+
+  const trace: EncodedTrace = { v: ATTENTION_TRACE_VERSION, dt: [], f: [], gx: [], gy: [], b: [] };
+  let previous = frames[0].timestamp;
+
+  for (const frame of frames) {
+    trace.dt.push(Math.round((frame.timestamp - previous) * 10));
+    trace.f.push(frame.facePresent ? 1 : 0);
+    trace.gx.push(quantizeGaze(frame.gaze.x));
+    trace.gy.push(quantizeGaze(frame.gaze.y));
+    trace.b.push(frame.blink ? 1 : 0);
+    previous = frame.timestamp;
+  }
+
+  try {
+    const stream = new Blob([JSON.stringify(trace)])
+      .stream()
+      .pipeThrough(new CompressionStream('gzip'));
+    const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+    return toBase64(compressed);
+  } catch (error) {
+    console.error('[AttentionTrace] Failed to encode trace:', error);
+    return null;
+  }
+}
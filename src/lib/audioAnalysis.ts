@@ -0,0 +1,196 @@
+// Local audio analysis for the Studio: beat tracking for music and length probing for
+// voiceovers. detectBeats works on plain samples so it runs (and can be checked) without
+// a browser; the helpers at the bottom decode files with the Web Audio API to feed it.
+
+export interface BeatAnalysis {
+  // 0 when no steady pulse was found
+  bpm: number;
+  // Seconds from the start of the audio
+  beats: number[];
+  // 0..1, how clearly the tempo stood out
+  confidence: number;
+}
+
+export interface BeatDetectionOptions {
+  minBpm?: number;
+  maxBpm?: number;
+}
+
+// Onsets are measured every 10ms; fine enough to place a cut on, coarse enough that a
+// whole song analyses in well under a second
+const HOP_SECONDS = 0.01;
+// Onset strength is measured against its average over this many hops either side
+const DETREND_HOPS = 10;
+// Tempi near this are preferred, which settles half/double-time ambiguity the way
+// most listeners would count it
+const PREFERRED_BPM = 120;
+// Width of that preference in octaves
+const TEMPO_SPREAD = 1;
+// Each predicted beat may move this fraction of a beat to land on the actual onset
+const BEAT_SLACK = 0.15;
+// Rate audio is decoded at for analysis; beats don't need more
+const ANALYSIS_SAMPLE_RATE = 22050;
+
+const NO_BEATS: BeatAnalysis = { bpm: 0, beats: [], confidence: 0 };
+
+// How sharply loudness rises at each hop (half-wave rectified log-energy difference),
+// with the local average taken off so sustained loud passages don't read as onsets
+export function onsetEnvelope(samples: Float32Array, hopSize: number): Float32Array {
+  const frames = Math.floor(samples.length / hopSize);
+  const envelope = new Float32Array(frames);
+  let previous = 0;
+
+  for (let frame = 0; frame < frames; frame++) {
+    let energy = 0;
+    for (let i = frame * hopSize; i < (frame + 1) * hopSize; i++) energy += samples[i] * samples[i];
+    const level = Math.log1p((energy / hopSize) * 1000);
+    envelope[frame] = frame > 0 ? Math.max(0, level - previous) : 0;
+    previous = level;
+  }
+
+  const detrended = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    let count = 0;
+    for (let i = Math.max(0, frame - DETREND_HOPS); i <= Math.min(frames - 1, frame + DETREND_HOPS); i++) {
+      sum += envelope[i];
+      count += 1;
+    }
+    detrended[frame] = Math.max(0, envelope[frame] - sum / count);
+  }
+  return detrended;
+}
+
+// Beat period in hops, by autocorrelating the onset envelope over the allowed tempi
+function estimatePeriod(envelope: Float32Array, framesPerSecond: number, minBpm: number, maxBpm: number) {
+  const minLag = Math.max(1, Math.floor((60 / maxBpm) * framesPerSecond));
+  const maxLag = Math.min(envelope.length - 1, Math.ceil((60 / minBpm) * framesPerSecond));
+
+  let zeroLag = 0;
+  for (let i = 0; i < envelope.length; i++) zeroLag += envelope[i] * envelope[i];
+  if (zeroLag === 0 || maxLag <= minLag) return null;
+
+  const correlation = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    if (lag < 1 || lag >= envelope.length) continue;
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) sum += envelope[i] * envelope[i - lag];
+    correlation[lag] = sum;
+  }
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * framesPerSecond) / lag;
+    const octaves = Math.log2(bpm / PREFERRED_BPM) / TEMPO_SPREAD;
+    const score = correlation[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag === 0) return null;
+
+  // Parabolic interpolation between neighbouring lags for a sub-hop period
+  const a = correlation[bestLag - 1] ?? 0;
+  const b = correlation[bestLag];
+  const c = correlation[bestLag + 1] ?? 0;
+  const denominator = a - 2 * b + c;
+  const shift = denominator !== 0 ? Math.max(-0.5, Math.min(0.5, (0.5 * (a - c)) / denominator)) : 0;
+
+  return { period: bestLag + shift, confidence: Math.min(1, b / zeroLag) };
+}
+
+// Finds the pulse in a mono signal and lays beats along it, each nudged onto the
+// strongest onset nearby so slight drift in a live recording is followed
+export function detectBeats(
+  samples: Float32Array,
+  sampleRate: number,
+  { minBpm = 70, maxBpm = 180 }: BeatDetectionOptions = {}
+): BeatAnalysis {
+  const hopSize = Math.max(1, Math.round(sampleRate * HOP_SECONDS));
+  const envelope = onsetEnvelope(samples, hopSize);
+  const framesPerSecond = sampleRate / hopSize;
+  const estimate = estimatePeriod(envelope, framesPerSecond, minBpm, maxBpm);
+  if (!estimate) return NO_BEATS;
+  const { period, confidence } = estimate;
+
+  const slack = Math.max(1, Math.round(period * BEAT_SLACK));
+  const strongestNear = (frame: number) => {
+    let best = Math.min(envelope.length - 1, Math.max(0, frame));
+    for (let i = Math.max(0, frame - slack); i <= Math.min(envelope.length - 1, frame + slack); i++) {
+      if (envelope[i] > envelope[best]) best = i;
+    }
+    return best;
+  };
+
+  // The phase whose comb of beats, each allowed the same slack, finds the most onset energy
+  let bestPhase = 0;
+  let bestPhaseScore = -1;
+  for (let phase = 0; phase < Math.ceil(period); phase++) {
+    let score = 0;
+    for (let t = phase; t < envelope.length; t += period) score += envelope[strongestNear(Math.round(t))];
+    if (score > bestPhaseScore) {
+      bestPhaseScore = score;
+      bestPhase = phase;
+    }
+  }
+
+  const beats: number[] = [];
+  for (let predicted = bestPhase; predicted < envelope.length; ) {
+    const frame = strongestNear(Math.round(predicted));
+    beats.push(Number(((frame * hopSize) / sampleRate).toFixed(3)));
+    predicted = frame + period;
+  }
+
+  return {
+    bpm: Math.round(((60 * framesPerSecond) / period) * 10) / 10,
+    beats,
+    confidence,
+  };
+}
+
+// An even grid of beats, for tracks that come with a tempo but no audio to analyse
+export function beatGrid(bpm: number, firstBeat: number, duration: number): number[] {
+  if (bpm <= 0) return [];
+  const interval = 60 / bpm;
+  const beats: number[] = [];
+  for (let time = Math.max(0, firstBeat); time < duration; time += interval) {
+    beats.push(Number(time.toFixed(3)));
+  }
+  return beats;
+}
+
+// ─── Browser helpers ────────────────────────────────────────────
+
+// Decodes an audio file and mixes it down to one channel at the analysis rate
+export async function decodeAudioMono(url: string, signal?: AbortSignal) {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Could not load audio (${response.status})`);
+  const data = await response.arrayBuffer();
+
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(data);
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < samples.length; i++) samples[i] += channelData[i] / buffer.numberOfChannels;
+  }
+  return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+}
+
+export async function analyzeBeats(url: string, options?: BeatDetectionOptions & { signal?: AbortSignal }) {
+  const { samples, sampleRate } = await decodeAudioMono(url, options?.signal);
+  return detectBeats(samples, sampleRate, options);
+}
+
+// Length of an audio file in seconds, from its metadata
+export function readAudioDuration(url: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => resolve(Number.isFinite(audio.duration) ? audio.duration : 0);
+    audio.onerror = () => reject(new Error('Could not read audio'));
+    audio.src = url;
+  });
+}
@@ -0,0 +1,129 @@
+// Arrival detection for promotion geofences. The engine is fed position fixes and
+// reports when a visitor enters a fence, has stayed long enough to check in (dwell),
+// and leaves. Time comes from the fixes and from tick(), never from the wall clock,
+// so the same sequence of fixes always produces the same events.
+
+export interface Geofence {
+  id: string;
+  latitude: number;
+  longitude: number;
+  radiusMeters: number;
+  minDwellMs: number;
+}
+
+export interface GeofencePosition {
+  latitude: number;
+  longitude: number;
+  // Meters, as reported by the device
+  accuracy: number;
+  timestamp: number;
+}
+
+// outside -> inside on entry; inside -> dwelling once minDwellMs has passed; either
+// goes back to outside on exit
+export type GeofencePhase = 'outside' | 'inside' | 'dwelling';
+
+export interface GeofenceStatus {
+  fenceId: string;
+  phase: GeofencePhase;
+  enteredAt: number | null;
+  distance: number | null;
+}
+
+export type GeofenceEvent =
+  | { type: 'enter'; fenceId: string; at: number; distance: number }
+  | { type: 'dwell'; fenceId: string; at: number; dwellMs: number; position: GeofencePosition }
+  | { type: 'exit'; fenceId: string; at: number; dwellMs: number; dwelled: boolean };
+
+// Fixes less accurate than this can't tell inside from outside for a typical storefront
+export const MAX_FIX_ACCURACY_METERS = 100;
+// Leaving needs this much (or the fix's accuracy, if larger) beyond the radius, so GPS
+// jitter at the edge doesn't flap between enter and exit
+const EXIT_MARGIN_METERS = 25;
+// Dwell isn't confirmed from a fix older than this; the visitor may have walked off
+// without the device reporting it yet
+const STALE_FIX_MS = 2 * 60 * 1000;
+
+export function distanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const R = 6371e3;
+  const φ1 = (lat1 * Math.PI) / 180;
+  const φ2 = (lat2 * Math.PI) / 180;
+  const Δφ = ((lat2 - lat1) * Math.PI) / 180;
+  const Δλ = ((lon2 - lon1) * Math.PI) / 180;
+  const a = Math.sin(Δφ / 2) ** 2 + Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export class GeofenceEngine {
+  private fences = new Map<string, Geofence>();
+  private statuses = new Map<string, GeofenceStatus>();
+  private lastFix: GeofencePosition | null = null;
+
+  // Fences that stay keep their state; removed ones are dropped without an exit event
+  setFences(fences: Geofence[]) {
+    this.fences = new Map(fences.map(fence => [fence.id, fence]));
+    for (const id of [...this.statuses.keys()]) {
+      if (!this.fences.has(id)) this.statuses.delete(id);
+    }
+    for (const fence of fences) {
+      if (!this.statuses.has(fence.id)) {
+        this.statuses.set(fence.id, { fenceId: fence.id, phase: 'outside', enteredAt: null, distance: null });
+      }
+    }
+  }
+
+  update(position: GeofencePosition): GeofenceEvent[] {
+    if (position.accuracy > MAX_FIX_ACCURACY_METERS) return [];
+    if (this.lastFix && position.timestamp < this.lastFix.timestamp) return [];
+    this.lastFix = position;
+
+    const events: GeofenceEvent[] = [];
+    for (const fence of this.fences.values()) {
+      const status = this.statuses.get(fence.id)!;
+      const distance = distanceMeters(position.latitude, position.longitude, fence.latitude, fence.longitude);
+      status.distance = distance;
+
+      if (status.phase === 'outside') {
+        if (distance <= fence.radiusMeters) {
+          status.phase = 'inside';
+          status.enteredAt = position.timestamp;
+          events.push({ type: 'enter', fenceId: fence.id, at: position.timestamp, distance });
+        }
+      } else if (distance > fence.radiusMeters + Math.max(EXIT_MARGIN_METERS, position.accuracy)) {
+        const dwellMs = position.timestamp - (status.enteredAt ?? position.timestamp);
+        events.push({ type: 'exit', fenceId: fence.id, at: position.timestamp, dwellMs, dwelled: status.phase === 'dwelling' });
+        status.phase = 'outside';
+        status.enteredAt = null;
+      }
+
+      const dwell = this.checkDwell(fence, status, position.timestamp);
+      if (dwell) events.push(dwell);
+    }
+    return events;
+  }
+
+  // Confirms dwells between fixes; a stationary device may not report for a while
+  tick(now: number): GeofenceEvent[] {
+    const events: GeofenceEvent[] = [];
+    for (const fence of this.fences.values()) {
+      const dwell = this.checkDwell(fence, this.statuses.get(fence.id)!, now);
+      if (dwell) events.push(dwell);
+    }
+    return events;
+  }
+
+  getStatuses(): GeofenceStatus[] {
+    return [...this.statuses.values()].map(status => ({ ...status }));
+  }
+
+  private checkDwell(fence: Geofence, status: GeofenceStatus, now: number): GeofenceEvent | null {
+    if (status.phase !== 'inside' || status.enteredAt === null || !this.lastFix) return null;
+    if (now - this.lastFix.timestamp > STALE_FIX_MS) return null;
+
+    const dwellMs = now - status.enteredAt;
+    if (dwellMs < fence.minDwellMs) return null;
+
+    status.phase = 'dwelling';
+    return { type: 'dwell', fenceId: fence.id, at: now, dwellMs, position: this.lastFix };
+  }
+}
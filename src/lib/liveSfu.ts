@@ -0,0 +1,211 @@
+// WebRTC transport for live streams. The host publishes camera and mic to a room and
+// viewers subscribe to it; how the media actually gets from one to the other is up to
+// the SFU adapter named on the stream (live_streams.sfu_provider), so a hosted SFU can
+// be plugged in with registerSfuAdapter without touching the screens.
+
+export interface SfuPublication {
+  stop(): void;
+}
+
+export interface SfuSubscription {
+  stop(): void;
+}
+
+export interface SfuAdapter {
+  readonly name: string;
+  // Starts sending the host's media to the room; mute by disabling the tracks
+  publish(room: string, media: MediaStream): Promise<SfuPublication>;
+  // onStream gets the host's media whenever it (re)connects and null when it goes away
+  subscribe(room: string, onStream: (media: MediaStream | null) => void): Promise<SfuSubscription>;
+}
+
+const adapters = new Map<string, () => SfuAdapter>();
+
+export function registerSfuAdapter(name: string, factory: () => SfuAdapter) {
+  adapters.set(name, factory);
+}
+
+export function getSfuAdapter(name: string): SfuAdapter {
+  const factory = adapters.get(name);
+  if (!factory) throw new Error(`No live streaming adapter registered for "${name}"`);
+  return factory();
+}
+
+// No adapter is available to carry a new stream to viewers
+export class SfuUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SfuUnavailableError';
+  }
+}
+
+// Adapter new streams are created with. The local stand-in only reaches tabs in the same
+// browser, so it's the fallback in development only; other builds must name a hosted
+// adapter in VITE_LIVE_SFU_PROVIDER.
+const CONFIGURED_SFU_PROVIDER: string | undefined =
+  import.meta.env.VITE_LIVE_SFU_PROVIDER || (import.meta.env.DEV ? 'local' : undefined);
+
+// The provider to record on a new stream. Throws rather than let a host go live on a
+// stream that nobody else could watch.
+export function defaultSfuProvider(): string {
+  if (!CONFIGURED_SFU_PROVIDER) {
+    throw new SfuUnavailableError('Live streaming is not set up for this app yet');
+  }
+  if (!adapters.has(CONFIGURED_SFU_PROVIDER)) {
+    throw new SfuUnavailableError(`No live streaming adapter registered for "${CONFIGURED_SFU_PROVIDER}"`);
+  }
+  return CONFIGURED_SFU_PROVIDER;
+}
+
+// ─── Local stand-in ─────────────────────────────────────────────
+
+type LocalSignal =
+  | { type: 'publisher-up' }
+  | { type: 'publisher-down' }
+  | { type: 'join'; viewerId: string }
+  | { type: 'leave'; viewerId: string }
+  | { type: 'offer'; viewerId: string; sdp: string }
+  | { type: 'answer'; viewerId: string; sdp: string }
+  | { type: 'candidate'; viewerId: string; from: 'publisher' | 'viewer'; candidate: RTCIceCandidateInit };
+
+// Each peer connection with the work queued on it, so ICE candidates that arrive before
+// the session description is applied wait for it instead of being rejected
+interface LocalPeer {
+  connection: RTCPeerConnection;
+  ready: Promise<unknown>;
+}
+
+const localChannel = (room: string) => new BroadcastChannel(`live-sfu:${room}`);
+
+// Real WebRTC with signalling over BroadcastChannel: the host's tab connects directly to
+// each viewer tab in the same browser. Good for development and testing the live flow
+// end to end on one machine; anything across devices needs a hosted SFU adapter.
+export const createLocalSfuAdapter = (): SfuAdapter => ({
+  name: 'local',
+
+  async publish(room, media) {
+    const channel = localChannel(room);
+    const send = (signal: LocalSignal) => channel.postMessage(signal);
+    const peers = new Map<string, LocalPeer>();
+
+    const disconnect = (viewerId: string) => {
+      peers.get(viewerId)?.connection.close();
+      peers.delete(viewerId);
+    };
+
+    const connect = (viewerId: string) => {
+      disconnect(viewerId);
+      const connection = new RTCPeerConnection();
+      media.getTracks().forEach(track => connection.addTrack(track, media));
+      connection.onicecandidate = (event) => {
+        if (event.candidate) {
+          send({ type: 'candidate', viewerId, from: 'publisher', candidate: event.candidate.toJSON() });
+        }
+      };
+
+      const ready = (async () => {
+        const offer = await connection.createOffer();
+        await connection.setLocalDescription(offer);
+        send({ type: 'offer', viewerId, sdp: offer.sdp ?? '' });
+      })();
+      peers.set(viewerId, { connection, ready });
+    };
+
+    channel.onmessage = ({ data }: MessageEvent<LocalSignal>) => {
+      const peer = 'viewerId' in data ? peers.get(data.viewerId) : undefined;
+      switch (data.type) {
+        case 'join':
+          connect(data.viewerId);
+          break;
+        case 'leave':
+          disconnect(data.viewerId);
+          break;
+        case 'answer':
+          if (peer) peer.ready = peer.ready.then(() => peer.connection.setRemoteDescription({ type: 'answer', sdp: data.sdp }));
+          break;
+        case 'candidate':
+          if (peer && data.from === 'viewer') {
+            peer.ready = peer.ready.then(() => peer.connection.addIceCandidate(data.candidate)).catch(() => undefined);
+          }
+          break;
+      }
+    };
+
+    // Viewers already waiting in the room ask to join when they hear this
+    send({ type: 'publisher-up' });
+
+    return {
+      stop() {
+        send({ type: 'publisher-down' });
+        peers.forEach(peer => peer.connection.close());
+        peers.clear();
+        channel.close();
+      },
+    };
+  },
+
+  async subscribe(room, onStream) {
+    const channel = localChannel(room);
+    const send = (signal: LocalSignal) => channel.postMessage(signal);
+    const viewerId = crypto.randomUUID();
+    let peer: LocalPeer | null = null;
+
+    const close = () => {
+      peer?.connection.close();
+      peer = null;
+    };
+
+    const answer = (sdp: string) => {
+      close();
+      const connection = new RTCPeerConnection();
+      connection.ontrack = (event) => onStream(event.streams[0] ?? null);
+      connection.onicecandidate = (event) => {
+        if (event.candidate) {
+          send({ type: 'candidate', viewerId, from: 'viewer', candidate: event.candidate.toJSON() });
+        }
+      };
+
+      const ready = (async () => {
+        await connection.setRemoteDescription({ type: 'offer', sdp });
+        const description = await connection.createAnswer();
+        await connection.setLocalDescription(description);
+        send({ type: 'answer', viewerId, sdp: description.sdp ?? '' });
+      })();
+      peer = { connection, ready };
+    };
+
+    channel.onmessage = ({ data }: MessageEvent<LocalSignal>) => {
+      if ('viewerId' in data && data.viewerId !== viewerId) return;
+      switch (data.type) {
+        case 'publisher-up':
+          send({ type: 'join', viewerId });
+          break;
+        case 'publisher-down':
+          close();
+          onStream(null);
+          break;
+        case 'offer':
+          answer(data.sdp);
+          break;
+        case 'candidate':
+          if (peer && data.from === 'publisher') {
+            const current = peer;
+            current.ready = current.ready.then(() => current.connection.addIceCandidate(data.candidate)).catch(() => undefined);
+          }
+          break;
+      }
+    };
+
+    send({ type: 'join', viewerId });
+
+    return {
+      stop() {
+        send({ type: 'leave', viewerId });
+        close();
+        channel.close();
+      },
+    };
+  },
+});
+
+registerSfuAdapter('local', createLocalSfuAdapter);
@@ -0,0 +1,268 @@
+// Live stream sessions and their comments. Streams are rows in live_streams that the
+// host moves from scheduled to live to ended; comments and gifts are rows in
+// live_stream_comments, with gifts paid and posted by tip-creator in one go.
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { defaultSfuProvider } from '@/lib/liveSfu';
+
+type LiveStreamRow = Database['public']['Tables']['live_streams']['Row'];
+type LiveCommentRow = Database['public']['Tables']['live_stream_comments']['Row'];
+
+export type LiveStreamStatus = 'scheduled' | 'live' | 'ended';
+export type CoinType = 'vicoin' | 'icoin';
+
+export interface LiveHost {
+  username: string;
+  avatarUrl: string | null;
+}
+
+export interface LiveStream {
+  id: string;
+  hostId: string;
+  host: LiveHost;
+  title: string;
+  status: LiveStreamStatus;
+  scheduledAt: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  thumbnailUrl: string | null;
+  allowComments: boolean;
+  allowGifts: boolean;
+  sfuProvider: string;
+  sfuRoom: string;
+  viewerCount: number;
+  peakViewers: number;
+}
+
+export interface LiveComment {
+  id: string;
+  streamId: string;
+  userId: string;
+  username: string;
+  avatarUrl: string | null;
+  message: string;
+  isGift: boolean;
+  giftAmount: number | null;
+  coinType: CoinType | null;
+  createdAt: string;
+}
+
+export interface LiveGiftResult {
+  tipId: string;
+  amount: number;
+  coinType: CoinType;
+  newBalance: number;
+}
+
+// Comments loaded when a viewer opens a stream; later ones arrive over realtime
+export const LIVE_COMMENT_HISTORY = 50;
+
+const UNKNOWN_HOST: LiveHost = { username: 'Unknown', avatarUrl: null };
+
+// Profiles are looked up once per session; hosts and commenters repeat a lot
+const profileCache = new Map<string, LiveHost>();
+
+export async function fetchLiveProfiles(userIds: string[]): Promise<Map<string, LiveHost>> {
+  const missing = [...new Set(userIds)].filter(id => !profileCache.has(id));
+  if (missing.length > 0) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('user_id, username, display_name, avatar_url')
+      .in('user_id', missing);
+    if (error) throw error;
+    for (const profile of data ?? []) {
+      profileCache.set(profile.user_id, {
+        username: profile.username || profile.display_name || 'Unknown',
+        avatarUrl: profile.avatar_url,
+      });
+    }
+  }
+  return new Map(userIds.map(id => [id, profileCache.get(id) ?? UNKNOWN_HOST]));
+}
+
+export const toLiveStream = (row: LiveStreamRow, host: LiveHost = UNKNOWN_HOST): LiveStream => ({
+  id: row.id,
+  hostId: row.host_id,
+  host,
+  title: row.title,
+  status: row.status as LiveStreamStatus,
+  scheduledAt: row.scheduled_at,
+  startedAt: row.started_at,
+  endedAt: row.ended_at,
+  thumbnailUrl: row.thumbnail_url,
+  allowComments: row.allow_comments,
+  allowGifts: row.allow_gifts,
+  sfuProvider: row.sfu_provider,
+  sfuRoom: row.sfu_room,
+  viewerCount: row.viewer_count,
+  peakViewers: row.peak_viewers,
+});
+
+export const toLiveComment = (row: LiveCommentRow, author: LiveHost = UNKNOWN_HOST): LiveComment => ({
+  id: row.id,
+  streamId: row.stream_id,
+  userId: row.user_id,
+  username: author.username,
+  avatarUrl: author.avatarUrl,
+  message: row.message,
+  isGift: row.is_gift,
+  giftAmount: row.gift_amount,
+  coinType: row.coin_type === 'vicoin' || row.coin_type === 'icoin' ? row.coin_type : null,
+  createdAt: row.created_at,
+});
+
+async function withHosts(rows: LiveStreamRow[]): Promise<LiveStream[]> {
+  const hosts = await fetchLiveProfiles(rows.map(row => row.host_id));
+  return rows.map(row => toLiveStream(row, hosts.get(row.host_id)));
+}
+
+// Streams on air, busiest first, and those scheduled from now on, soonest first
+export async function fetchLiveStreams(): Promise<{ live: LiveStream[]; scheduled: LiveStream[] }> {
+  const [live, scheduled] = await Promise.all([
+    supabase
+      .from('live_streams')
+      .select('*')
+      .eq('status', 'live')
+      .order('viewer_count', { ascending: false })
+      .limit(50),
+    supabase
+      .from('live_streams')
+      .select('*')
+      .eq('status', 'scheduled')
+      .gte('scheduled_at', new Date(Date.now() - 60 * 60 * 1000).toISOString())
+      .order('scheduled_at', { ascending: true })
+      .limit(20),
+  ]);
+  if (live.error) throw live.error;
+  if (scheduled.error) throw scheduled.error;
+
+  return {
+    live: await withHosts(live.data ?? []),
+    scheduled: await withHosts(scheduled.data ?? []),
+  };
+}
+
+export async function fetchLiveStream(streamId: string): Promise<LiveStream | null> {
+  const { data, error } = await supabase.from('live_streams').select('*').eq('id', streamId).maybeSingle();
+  if (error) throw error;
+  return data ? (await withHosts([data]))[0] : null;
+}
+
+// Goes live straight away, or announces the stream for later when scheduledAt is given
+export async function createLiveStream(
+  hostId: string,
+  options: { title: string; allowComments: boolean; allowGifts: boolean; scheduledAt?: Date }
+): Promise<LiveStream> {
+  const sfuProvider = defaultSfuProvider();
+  const { data, error } = await supabase
+    .from('live_streams')
+    .insert({
+      host_id: hostId,
+      title: options.title.trim(),
+      status: options.scheduledAt ? 'scheduled' : 'live',
+      scheduled_at: options.scheduledAt?.toISOString() ?? null,
+      allow_comments: options.allowComments,
+      allow_gifts: options.allowGifts,
+      sfu_provider: sfuProvider,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+  return (await withHosts([data]))[0];
+}
+
+async function updateLiveStream(streamId: string, changes: Database['public']['Tables']['live_streams']['Update']) {
+  const { data, error } = await supabase
+    .from('live_streams')
+    .update(changes)
+    .eq('id', streamId)
+    .select('*')
+    .single();
+  if (error) throw error;
+  return (await withHosts([data]))[0];
+}
+
+// Takes a scheduled stream live, with whatever the host changed on the way
+export const startLiveStream = (
+  streamId: string,
+  options: { title: string; allowComments: boolean; allowGifts: boolean }
+) => updateLiveStream(streamId, {
+  status: 'live',
+  title: options.title.trim(),
+  allow_comments: options.allowComments,
+  allow_gifts: options.allowGifts,
+});
+
+export const endLiveStream = (streamId: string) => updateLiveStream(streamId, { status: 'ended' });
+
+// The host's regular check-in, which keeps the stream from being ended as abandoned. The
+// server recounts viewer_count from the viewers' check-ins on every heartbeat.
+export async function sendLiveHeartbeat(streamId: string) {
+  const { error } = await supabase
+    .from('live_streams')
+    .update({ heartbeat_at: new Date().toISOString() })
+    .eq('id', streamId);
+  if (error) throw error;
+}
+
+// A signed-in viewer's check-in, counted towards the stream's stored audience
+export async function touchLiveViewer(streamId: string) {
+  const { error } = await supabase.rpc('touch_live_viewer', { p_stream_id: streamId });
+  if (error) throw error;
+}
+
+export async function cancelScheduledStream(streamId: string) {
+  const { error } = await supabase.from('live_streams').delete().eq('id', streamId);
+  if (error) throw error;
+}
+
+// Most recent comments, oldest first
+export async function fetchLiveComments(streamId: string): Promise<LiveComment[]> {
+  const { data, error } = await supabase
+    .from('live_stream_comments')
+    .select('*')
+    .eq('stream_id', streamId)
+    .order('created_at', { ascending: false })
+    .limit(LIVE_COMMENT_HISTORY);
+  if (error) throw error;
+
+  const rows = (data ?? []).reverse();
+  const authors = await fetchLiveProfiles(rows.map(row => row.user_id));
+  return rows.map(row => toLiveComment(row, authors.get(row.user_id)));
+}
+
+export async function postLiveComment(streamId: string, userId: string, message: string) {
+  const { error } = await supabase
+    .from('live_stream_comments')
+    .insert({ stream_id: streamId, user_id: userId, message: message.trim() });
+  if (error) throw error;
+}
+
+// Pays the host through tip-creator, which also posts the gift to the stream's comments.
+// Throws with the server's reason (e.g. not enough coins, stream over) when it refuses.
+export async function sendLiveGift(
+  stream: Pick<LiveStream, 'id' | 'hostId'>,
+  amount: number,
+  coinType: CoinType,
+  message?: string
+): Promise<LiveGiftResult> {
+  const { data, error } = await supabase.functions.invoke('tip-creator', {
+    body: { streamId: stream.id, creatorId: stream.hostId, amount, coinType, message },
+  });
+
+  if (error) {
+    const ctx = (error as { context?: Response }).context;
+    const parsed = ctx && typeof ctx.json === 'function'
+      ? await ctx.clone().json().catch(() => null)
+      : null;
+    throw new Error(parsed?.error || error.message || 'Could not send gift');
+  }
+  if (!data?.success) throw new Error(data?.error || 'Could not send gift');
+
+  return {
+    tipId: data.tip_id,
+    amount: data.amount,
+    coinType: data.coin_type,
+    newBalance: data.new_balance,
+  };
+}
@@ -0,0 +1,155 @@
+// Where position fixes come from. Native builds use the Capacitor Geolocation plugin,
+// which keeps reporting while the app is backgrounded; browsers fall back to
+// navigator.geolocation. In development a simulated source can stand in for both, so
+// geofence arrivals can be walked through without a device.
+import type { GeofencePosition } from '@/lib/geofence';
+
+export type PositionListener = (position: GeofencePosition) => void;
+export type PositionErrorListener = (error: Error) => void;
+
+export interface LocationSource {
+  kind: 'device' | 'simulated';
+  // Resolves with a function that stops watching
+  watch(onPosition: PositionListener, onError: PositionErrorListener): Promise<() => void>;
+  // Clock the geofence engine ticks with; the simulator runs its own
+  now(): number;
+}
+
+const WATCH_OPTIONS = { enableHighAccuracy: true, maximumAge: 10000, timeout: 20000 };
+
+async function watchNative(onPosition: PositionListener, onError: PositionErrorListener): Promise<(() => void) | null> {
+  try {
+    const { Capacitor } = await import('@capacitor/core');
+    if (!Capacitor.isNativePlatform()) return null;
+
+    const { Geolocation } = await import('@capacitor/geolocation');
+    const permission = await Geolocation.checkPermissions();
+    if (permission.location !== 'granted') {
+      const requested = await Geolocation.requestPermissions({ permissions: ['location'] });
+      if (requested.location !== 'granted') {
+        onError(new Error('Location permission denied'));
+        return () => {};
+      }
+    }
+
+    const id = await Geolocation.watchPosition(WATCH_OPTIONS, (position, err) => {
+      if (err || !position) {
+        onError(err instanceof Error ? err : new Error(String(err?.message ?? 'Location unavailable')));
+        return;
+      }
+      onPosition({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        timestamp: position.timestamp,
+      });
+    });
+    return () => {
+      Geolocation.clearWatch({ id });
+    };
+  } catch (error) {
+    console.log('Native geolocation not available, using browser location', error);
+    return null;
+  }
+}
+
+export const deviceLocationSource: LocationSource = {
+  kind: 'device',
+  async watch(onPosition, onError) {
+    const stopNative = await watchNative(onPosition, onError);
+    if (stopNative) return stopNative;
+
+    if (!navigator.geolocation) {
+      onError(new Error('Location is not available on this device'));
+      return () => {};
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => onPosition({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+        timestamp: position.timestamp,
+      }),
+      (error) => onError(new Error(error.message || 'Location unavailable')),
+      WATCH_OPTIONS,
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  },
+  now: () => Date.now(),
+};
+
+// Test harness for the geofence state machine: fixes are placed by hand and time only
+// moves when advance() is called, so dwell timers can be fast-forwarded
+export class SimulatedLocationSource implements LocationSource {
+  readonly kind = 'simulated' as const;
+  private clock = Date.now();
+  private position: GeofencePosition | null = null;
+  private listeners = new Set<PositionListener>();
+
+  async watch(onPosition: PositionListener) {
+    this.listeners.add(onPosition);
+    if (this.position) onPosition(this.position);
+    return () => {
+      this.listeners.delete(onPosition);
+    };
+  }
+
+  now() {
+    return this.clock;
+  }
+
+  getPosition() {
+    return this.position;
+  }
+
+  moveTo(latitude: number, longitude: number, accuracy = 10) {
+    this.position = { latitude, longitude, accuracy, timestamp: this.clock };
+    this.emit();
+  }
+
+  // Moves the clock forward and reports the current position again, as a stationary
+  // device would
+  advance(ms: number) {
+    this.clock += ms;
+    if (this.position) {
+      this.position = { ...this.position, timestamp: this.clock };
+      this.emit();
+    }
+  }
+
+  private emit() {
+    const position = this.position;
+    if (position) this.listeners.forEach(listener => listener(position));
+  }
+}
+
+let simulated: SimulatedLocationSource | null = null;
+const listeners = new Set<() => void>();
+
+// Development builds only; production always reads the device
+export const isLocationSimulationAvailable = () => import.meta.env.DEV;
+
+export function startLocationSimulation(from?: { latitude: number; longitude: number }) {
+  if (!isLocationSimulationAvailable()) return null;
+  simulated = new SimulatedLocationSource();
+  if (from) simulated.moveTo(from.latitude, from.longitude);
+  listeners.forEach(listener => listener());
+  return simulated;
+}
+
+export function stopLocationSimulation() {
+  simulated = null;
+  listeners.forEach(listener => listener());
+}
+
+export function subscribeLocationSource(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getActiveLocationSource(): LocationSource {
+  return simulated ?? deviceLocationSource;
+}
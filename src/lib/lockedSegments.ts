@@ -0,0 +1,162 @@
+// Locked segments of published Studio videos. The published file has them blurred in;
+// each one's clean cut is uploaded to the private locked-media bucket, and viewers get a
+// short-lived link to it from unlock-segment once they've done what the creator asked.
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  edlLockedBlurs,
+  edlLockWindows,
+  isVerifiableLock,
+  type EditDecisionList,
+  type EdlLock,
+  type EdlWindow,
+} from '@/lib/studioEdl';
+
+export interface LockedSegment {
+  id: string;
+  contentId: string;
+  creatorId: string;
+  action: EdlLock['action'];
+  amount: number | null;
+  coinType: 'vicoin' | 'icoin';
+  buttonText: string;
+  description: string;
+  customAction: string | null;
+  windows: EdlWindow[];
+  mutesAudio: boolean;
+}
+
+export interface SegmentUnlock {
+  url: string;
+  expiresAt: number;
+}
+
+interface LockedSegmentRow {
+  id: string;
+  content_id: string;
+  creator_id: string;
+  action_type: string;
+  amount: number | null;
+  coin_type: string;
+  button_text: string;
+  description: string;
+  custom_action: string | null;
+  windows: Json;
+  mutes_audio: boolean;
+}
+
+// windows is stored as plain JSON; anything that isn't a well-formed window is dropped
+const parseWindows = (value: Json): EdlWindow[] =>
+  Array.isArray(value)
+    ? value.flatMap(item => {
+        if (typeof item !== 'object' || item === null || Array.isArray(item)) return [];
+        const { start, end, offset } = item;
+        return typeof start === 'number' && typeof end === 'number' && typeof offset === 'number' && end > start
+          ? [{ start, end, offset }]
+          : [];
+      })
+    : [];
+
+const toLockedSegment = (row: LockedSegmentRow): LockedSegment => ({
+  id: row.id,
+  contentId: row.content_id,
+  creatorId: row.creator_id,
+  action: row.action_type as EdlLock['action'],
+  amount: row.amount,
+  coinType: row.coin_type === 'icoin' ? 'icoin' : 'vicoin',
+  buttonText: row.button_text,
+  description: row.description,
+  customAction: row.custom_action,
+  windows: parseWindows(row.windows),
+  mutesAudio: row.mutes_audio,
+});
+
+// Uploads the clean cuts and writes the manifest for content just published from the
+// Studio. Locks the server can't verify are left out, so they're plain blurs.
+export async function publishLockedSegments(
+  contentId: string,
+  userId: string,
+  edl: EditDecisionList,
+  unlockClips: { segmentId: string; file: File }[]
+): Promise<number> {
+  const rows = [];
+
+  for (const blur of edlLockedBlurs(edl)) {
+    if (!isVerifiableLock(blur.lock)) continue;
+    const clip = unlockClips.find(c => c.segmentId === blur.lock.segmentId);
+    const windows = edlLockWindows(edl, blur);
+    if (!clip || windows.length === 0) continue;
+
+    const extension = clip.file.name.split('.').pop() || 'webm';
+    const storagePath = `${userId}/${contentId}/${crypto.randomUUID()}.${extension}`;
+    const { error: uploadError } = await supabase.storage
+      .from('locked-media')
+      .upload(storagePath, clip.file, { contentType: clip.file.type, upsert: false });
+    if (uploadError) throw uploadError;
+
+    rows.push({
+      content_id: contentId,
+      creator_id: userId,
+      segment_key: blur.lock.segmentId,
+      action_type: blur.lock.action,
+      amount: blur.lock.amount,
+      button_text: blur.lock.buttonText,
+      description: blur.lock.description,
+      custom_action: blur.lock.customAction,
+      windows: windows.map(({ start, end, offset }) => ({ start, end, offset })),
+      mutes_audio: blur.muteAudio,
+      storage_path: storagePath,
+    });
+  }
+
+  if (rows.length === 0) return 0;
+  const { error } = await supabase.from('content_locked_segments').insert(rows);
+  if (error) throw error;
+  return rows.length;
+}
+
+export async function fetchLockedSegments(contentId: string): Promise<LockedSegment[]> {
+  const { data, error } = await supabase
+    .from('content_locked_segments')
+    .select('id, content_id, creator_id, action_type, amount, coin_type, button_text, description, custom_action, windows, mutes_audio')
+    .eq('content_id', contentId);
+  if (error) throw error;
+  return (data ?? []).map(toLockedSegment);
+}
+
+// Ids of the segments of this content the viewer has already unlocked
+export async function fetchUnlockedSegmentIds(contentId: string, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('content_segment_unlocks')
+    .select('segment_id')
+    .eq('content_id', contentId)
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data ?? []).map(row => row.segment_id);
+}
+
+// Asks the server to check the action and hand over the clean cut. Throws with the
+// server's reason (e.g. not following yet, not enough coins) when it refuses.
+export async function requestSegmentUnlock(segmentId: string): Promise<SegmentUnlock> {
+  const { data, error } = await supabase.functions.invoke('unlock-segment', { body: { segmentId } });
+
+  if (error) {
+    // Refusals come back as non-2xx with the reason in the body
+    const ctx = (error as { context?: Response }).context;
+    const parsed = ctx && typeof ctx.json === 'function'
+      ? await ctx.clone().json().catch(() => null)
+      : null;
+    throw new Error(parsed?.error || error.message || 'Could not unlock');
+  }
+  if (!data?.success) throw new Error(data?.error || 'Could not unlock');
+
+  return { url: data.url, expiresAt: Date.parse(data.expires_at) };
+}
+
+export const activeLockWindow = (segments: LockedSegment[], time: number) => {
+  for (const segment of segments) {
+    const window = segment.windows.find(w => time >= w.start && time < w.end);
+    if (window) return { segment, window };
+  }
+  return null;
+};
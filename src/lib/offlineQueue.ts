@@ -0,0 +1,355 @@
+// Durable queue for actions taken while offline. Actions live in IndexedDB so they
+// survive reloads and localStorage quota errors, and every hook instance shares the
+// same in-memory snapshot. Each action type is replayed by a registered handler.
+import type { Json } from '@/integrations/supabase/types';
+
+export type OfflineActionType = 'like' | 'follow' | 'task_complete' | 'message' | 'transaction' | 'checkin';
+
+// pending: waiting for the next sync; failed: out of retries, retry by hand;
+// conflict: the server refused it for good (e.g. the post was deleted)
+export type QueuedActionStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export interface QueuedAction {
+  id: string;
+  // Sent with the replay so the server applies the action at most once
+  idempotencyKey: string;
+  type: OfflineActionType;
+  payload: OfflineActionPayload;
+  timestamp: number;
+  retries: number;
+  status: QueuedActionStatus;
+  lastError: string | null;
+}
+
+export type ActionOutcome =
+  | { status: 'applied' }
+  | { status: 'conflict'; reason: string };
+
+// Payload for 'transaction' actions: what was watched offline, for the server to verify
+export interface OfflineEarning {
+  rewardType: 'promo_view' | 'task_complete';
+  contentId: string;
+  promoId?: string;
+  earnedAt: string;
+  attention: {
+    attentionScore: number;
+    watchDuration: number;
+    totalDuration: number;
+    framesDetected: number;
+    totalFrames: number;
+    deviceFingerprint?: string;
+    trace?: string;
+  };
+}
+
+// Payload for 'checkin' actions, queued when a visitor has dwelled inside a promotion's
+// geofence. The fix is the one that confirmed the dwell, not the one at sync time; the
+// promotion's location and reward are looked up by verify-checkin.
+export interface QueuedCheckIn {
+  promotionId: string;
+  userLat: number;
+  userLng: number;
+  accuracy: number;
+  recordedAt: string;
+  maxDistanceMeters: number;
+  deviceFingerprint?: string;
+}
+
+// What each action type carries; like/follow/message/task_complete are applied by the
+// apply_offline_action RPC, which reads these same keys
+export interface OfflineActionPayloads {
+  like: { contentId: string };
+  follow: { userId: string };
+  message: { conversationId: string; content: string; type?: string; replyToId?: string };
+  task_complete: { taskId: string; progress: number };
+  transaction: OfflineEarning;
+  checkin: QueuedCheckIn;
+}
+
+export type OfflineActionPayload = OfflineActionPayloads[OfflineActionType];
+
+// Resolve with the outcome; throw to have the action retried on the next sync
+export type OfflineActionHandler = (action: QueuedAction) => Promise<ActionOutcome>;
+
+export interface OfflineQueueState {
+  actions: QueuedAction[];
+  isSyncing: boolean;
+  lastSyncTime: Date | null;
+}
+
+const MAX_RETRIES = 3;
+
+const DB_NAME = 'offline-queue';
+const STORE_NAME = 'actions';
+const LEGACY_STORAGE_KEY = 'offline_queued_actions';
+
+const handlers = new Map<OfflineActionType, OfflineActionHandler>();
+
+export function registerOfflineActionHandler(type: OfflineActionType, handler: OfflineActionHandler) {
+  handlers.set(type, handler);
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB unavailable, offline actions will not survive a reload');
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening offline queue:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function persist(action: QueuedAction) {
+  withStore('readwrite', store => store.put(action))
+    .catch(error => console.error('Error saving offline action:', error));
+}
+
+function unpersist(id: string) {
+  withStore('readwrite', store => store.delete(id))
+    .catch(error => console.error('Error deleting offline action:', error));
+}
+
+// Actions queued by older builds sit in localStorage without idempotency keys
+function takeLegacyActions(): QueuedAction[] {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return [];
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+
+  try {
+    const legacy: Array<Pick<QueuedAction, 'id' | 'type' | 'payload' | 'timestamp' | 'retries'>> = JSON.parse(stored);
+    return legacy.map(action => ({
+      ...action,
+      idempotencyKey: crypto.randomUUID(),
+      status: 'pending',
+      lastError: null,
+    }));
+  } catch (e) {
+    console.error('Error parsing queued actions:', e);
+    return [];
+  }
+}
+
+let state: OfflineQueueState = { actions: [], isSyncing: false, lastSyncTime: null };
+const listeners = new Set<() => void>();
+let loadPromise: Promise<void> | null = null;
+
+function setState(next: Partial<OfflineQueueState>) {
+  state = { ...state, ...next };
+  listeners.forEach(listener => listener());
+}
+
+function updateAction(id: string, changes: Partial<QueuedAction>) {
+  const actions = state.actions.map(action => (action.id === id ? { ...action, ...changes } : action));
+  setState({ actions });
+  const updated = actions.find(action => action.id === id);
+  if (updated) persist(updated);
+}
+
+function load(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = (await withStore('readonly', store => store.getAll() as IDBRequest<QueuedAction[]>)) ?? [];
+        const legacy = takeLegacyActions();
+        legacy.forEach(persist);
+
+        // A sync interrupted by a reload leaves actions marked as syncing
+        const actions = [...stored, ...legacy]
+          .map(action => (action.status === 'syncing' ? { ...action, status: 'pending' as const } : action))
+          .sort((a, b) => a.timestamp - b.timestamp);
+
+        // Anything queued before the load finished is already in state
+        setState({ actions: [...actions, ...state.actions.filter(a => !actions.some(b => b.id === a.id))] });
+      } catch (error) {
+        console.error('Error loading offline queue:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+export function subscribeOfflineQueue(listener: () => void) {
+  listeners.add(listener);
+  load();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getOfflineQueueState() {
+  return state;
+}
+
+export function enqueueOfflineAction<T extends OfflineActionType>(type: T, payload: OfflineActionPayloads[T]): string {
+  const action: QueuedAction = {
+    id: crypto.randomUUID(),
+    idempotencyKey: crypto.randomUUID(),
+    type,
+    payload,
+    timestamp: Date.now(),
+    retries: 0,
+    status: 'pending',
+    lastError: null,
+  };
+
+  setState({ actions: [...state.actions, action] });
+  persist(action);
+  return action.id;
+}
+
+export function removeOfflineAction(id: string) {
+  setState({ actions: state.actions.filter(action => action.id !== id) });
+  unpersist(id);
+}
+
+// Puts a failed action back in line; the idempotency key is kept so a replay that
+// did reach the server isn't applied twice
+export function retryOfflineAction(id: string) {
+  updateAction(id, { status: 'pending', retries: 0, lastError: null });
+}
+
+let syncPromise: Promise<void> | null = null;
+
+export function syncOfflineActions(): Promise<void> {
+  if (!syncPromise) {
+    syncPromise = runSync().finally(() => {
+      syncPromise = null;
+    });
+  }
+  return syncPromise;
+}
+
+async function runSync() {
+  await load();
+  const due = state.actions.filter(action => action.status === 'pending');
+  if (!navigator.onLine || due.length === 0) return;
+
+  setState({ isSyncing: true });
+
+  // In queue order, so e.g. a follow lands before a message that depends on it
+  for (const action of due) {
+    const handler = handlers.get(action.type);
+    if (!handler) {
+      updateAction(action.id, { status: 'failed', lastError: `No handler for ${action.type} actions` });
+      continue;
+    }
+
+    updateAction(action.id, { status: 'syncing' });
+    try {
+      const outcome = await handler(action);
+      if (outcome.status === 'applied') {
+        removeOfflineAction(action.id);
+      } else {
+        updateAction(action.id, { status: 'conflict', lastError: outcome.reason });
+      }
+    } catch (error) {
+      console.error('Error processing queued action:', error);
+      const retries = action.retries + 1;
+      updateAction(action.id, {
+        status: retries >= MAX_RETRIES ? 'failed' : 'pending',
+        retries,
+        lastError: error instanceof Error ? error.message : 'Sync failed',
+      });
+    }
+  }
+
+  setState({ isSyncing: false, lastSyncTime: new Date() });
+}
+
+// Applied by the apply_offline_action RPC, which checks the target still exists and
+// records the idempotency key in the same transaction
+const applyOnServer: OfflineActionHandler = async (action) => {
+  // Import supabase dynamically to avoid circular dependencies
+  const { supabase } = await import('@/integrations/supabase/client');
+
+  const { data, error } = await supabase.rpc('apply_offline_action', {
+    p_idempotency_key: action.idempotencyKey,
+    p_action_type: action.type,
+    p_payload: action.payload as Json,
+  });
+  if (error) throw error;
+
+  const result = data as { status: 'applied' | 'conflict'; reason: string | null };
+  return result.status === 'conflict'
+    ? { status: 'conflict', reason: result.reason ?? 'This action can no longer be applied' }
+    : { status: 'applied' };
+};
+
+registerOfflineActionHandler('like', applyOnServer);
+registerOfflineActionHandler('follow', applyOnServer);
+registerOfflineActionHandler('message', applyOnServer);
+registerOfflineActionHandler('task_complete', applyOnServer);
+
+// Coins earned offline are re-validated by sync-offline-actions (attention replay, reward
+// rules, daily caps) and the server decides the amount. Queue the payload as an
+// OfflineEarning; nothing in it is trusted as a balance change.
+registerOfflineActionHandler('transaction', async (action) => {
+  const { supabase } = await import('@/integrations/supabase/client');
+
+  const { data, error } = await supabase.functions.invoke('sync-offline-actions', {
+    body: { idempotencyKey: action.idempotencyKey, type: action.type, payload: action.payload },
+  });
+
+  if (error) {
+    const ctx = (error as { context?: Response }).context;
+    // Malformed payloads (including ones queued by older builds) will never validate
+    if (ctx?.status === 400) {
+      return { status: 'conflict', reason: 'This offline earning is missing the details needed to verify it' };
+    }
+    throw error;
+  }
+
+  return data.status === 'rejected'
+    ? { status: 'conflict', reason: data.reason ?? 'This earning could not be verified' }
+    : { status: 'applied' };
+});
+
+registerOfflineActionHandler('checkin', async (action) => {
+  const { supabase } = await import('@/integrations/supabase/client');
+
+  const { data, error } = await supabase.functions.invoke('verify-checkin', {
+    body: { ...action.payload, idempotencyKey: action.idempotencyKey },
+  });
+
+  if (error) {
+    const ctx = (error as { context?: Response }).context;
+    // Already checked in today, or a payload verify-checkin won't accept
+    if (ctx?.status === 400) {
+      const body = await ctx.json().catch(() => null);
+      return { status: 'conflict', reason: body?.error ?? 'This check-in was not accepted' };
+    }
+    throw error;
+  }
+
+  return data.success
+    ? { status: 'applied' }
+    : { status: 'conflict', reason: data.message ?? 'This check-in could not be verified' };
+});
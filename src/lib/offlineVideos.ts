@@ -0,0 +1,220 @@
+// Videos downloaded for offline viewing. The bytes live in Cache Storage, keyed by the
+// original URL, where public/offline-video-sw.js serves them (with Range support) to the
+// <video> element. A small manifest in localStorage tracks sizes and last playback so
+// the least recently watched downloads are evicted first when space runs out.
+
+// Keep in sync with OFFLINE_VIDEO_CACHE in public/offline-video-sw.js
+export const OFFLINE_VIDEO_CACHE = 'offline-videos';
+
+const MANIFEST_KEY = 'offline_video_manifest';
+
+// Downloads never use more than this, nor more than this share of the origin's quota
+const MAX_OFFLINE_BYTES = 1024 * 1024 * 1024; // 1 GB
+const MAX_QUOTA_SHARE = 0.5;
+
+export interface OfflineVideo {
+  contentId: string;
+  url: string;
+  title: string;
+  size: number;
+  contentType: string;
+  downloadedAt: number;
+  lastPlayedAt: number | null;
+}
+
+export interface OfflineVideosState {
+  videos: Record<string, OfflineVideo>;
+  // 0..1 for downloads in progress
+  progress: Record<string, number>;
+}
+
+export class OfflineStorageFullError extends Error {
+  constructor(public readonly needed: number, public readonly budget: number) {
+    super('Not enough storage to download this video');
+  }
+}
+
+export const isOfflineVideoSupported = () => typeof caches !== 'undefined';
+
+function readManifest(): Record<string, OfflineVideo> {
+  try {
+    const raw = localStorage.getItem(MANIFEST_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+let state: OfflineVideosState = { videos: readManifest(), progress: {} };
+const listeners = new Set<() => void>();
+let reconcilePromise: Promise<void> | null = null;
+
+function setState(next: Partial<OfflineVideosState>) {
+  state = { ...state, ...next };
+  if (next.videos) {
+    try {
+      localStorage.setItem(MANIFEST_KEY, JSON.stringify(state.videos));
+    } catch (e) {
+      console.error('Error saving offline video manifest:', e);
+    }
+  }
+  listeners.forEach(listener => listener());
+}
+
+function setProgress(contentId: string, value: number | null) {
+  const progress = { ...state.progress };
+  if (value === null) delete progress[contentId];
+  else progress[contentId] = value;
+  setState({ progress });
+}
+
+// The manifest and the cache can drift apart if a download was interrupted or the
+// browser cleared storage; trust the cache and drop whatever the other side lacks
+function reconcile(): Promise<void> {
+  if (!reconcilePromise) {
+    reconcilePromise = (async () => {
+      if (!isOfflineVideoSupported()) return;
+      try {
+        const cache = await caches.open(OFFLINE_VIDEO_CACHE);
+        const cachedUrls = new Set((await cache.keys()).map(request => request.url));
+        const videos = Object.fromEntries(
+          Object.entries(state.videos).filter(([, video]) => cachedUrls.has(video.url))
+        );
+        const knownUrls = new Set(Object.values(videos).map(video => video.url));
+        await Promise.all([...cachedUrls].filter(url => !knownUrls.has(url)).map(url => cache.delete(url)));
+        setState({ videos });
+      } catch (error) {
+        console.error('Error reconciling offline videos:', error);
+      }
+    })();
+  }
+  return reconcilePromise;
+}
+
+export function subscribeOfflineVideos(listener: () => void) {
+  listeners.add(listener);
+  reconcile();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getOfflineVideosState() {
+  return state;
+}
+
+export function getOfflineUsage(): number {
+  return Object.values(state.videos).reduce((sum, video) => sum + video.size, 0);
+}
+
+export async function getOfflineBudget(): Promise<number> {
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  if (!estimate?.quota) return MAX_OFFLINE_BYTES;
+  // Space other caches already use isn't ours to count against the share
+  const ours = getOfflineUsage();
+  const available = estimate.quota * MAX_QUOTA_SHARE - ((estimate.usage ?? 0) - ours);
+  return Math.max(0, Math.min(MAX_OFFLINE_BYTES, available));
+}
+
+// Evicts least recently watched downloads until `bytes` more fit in the budget
+async function makeRoom(bytes: number, keep: string) {
+  const budget = await getOfflineBudget();
+  if (bytes > budget) throw new OfflineStorageFullError(bytes, budget);
+
+  const byLastUse = Object.values(state.videos)
+    .filter(video => video.contentId !== keep)
+    .sort((a, b) => (a.lastPlayedAt ?? a.downloadedAt) - (b.lastPlayedAt ?? b.downloadedAt));
+
+  let used = getOfflineUsage();
+  for (const video of byLastUse) {
+    if (used + bytes <= budget) break;
+    await removeOfflineVideo(video.contentId);
+    used -= video.size;
+  }
+}
+
+export async function downloadVideoForOffline(video: { contentId: string; url: string; title: string }): Promise<OfflineVideo> {
+  if (!isOfflineVideoSupported()) throw new Error('Offline downloads are not supported in this browser');
+  await reconcile();
+  if (state.videos[video.contentId]) return state.videos[video.contentId];
+
+  setProgress(video.contentId, 0);
+  try {
+    // Plain GET so the full file comes back as a 200 rather than a partial response
+    const response = await fetch(video.url);
+    if (!response.ok || !response.body) throw new Error(`Download failed (${response.status})`);
+
+    const contentType = response.headers.get('content-type') || 'video/mp4';
+    const expected = Number(response.headers.get('content-length')) || 0;
+    if (expected) await makeRoom(expected, video.contentId);
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      received += value.length;
+      if (expected) setProgress(video.contentId, Math.min(0.99, received / expected));
+    }
+
+    const blob = new Blob(chunks, { type: contentType });
+    if (!expected) await makeRoom(blob.size, video.contentId);
+
+    const cache = await caches.open(OFFLINE_VIDEO_CACHE);
+    await cache.put(video.url, new Response(blob, {
+      headers: { 'Content-Type': contentType, 'Content-Length': String(blob.size) },
+    }));
+
+    // Ask the browser not to clear downloads under storage pressure
+    navigator.storage?.persist?.().catch(() => {});
+
+    const entry: OfflineVideo = {
+      contentId: video.contentId,
+      url: video.url,
+      title: video.title,
+      size: blob.size,
+      contentType,
+      downloadedAt: Date.now(),
+      lastPlayedAt: null,
+    };
+    setState({ videos: { ...state.videos, [video.contentId]: entry } });
+    return entry;
+  } finally {
+    setProgress(video.contentId, null);
+  }
+}
+
+export async function removeOfflineVideo(contentId: string) {
+  const video = state.videos[contentId];
+  if (!video) return;
+
+  const videos = { ...state.videos };
+  delete videos[contentId];
+  setState({ videos });
+
+  if (isOfflineVideoSupported()) {
+    const cache = await caches.open(OFFLINE_VIDEO_CACHE);
+    await cache.delete(video.url);
+  }
+}
+
+export function markOfflineVideoPlayed(contentId: string) {
+  const video = state.videos[contentId];
+  if (!video) return;
+  setState({ videos: { ...state.videos, [contentId]: { ...video, lastPlayedAt: Date.now() } } });
+}
+
+// The original URL works once the service worker controls the page; before that (first
+// load, or dev without a service worker) fall back to an object URL for the cached
+// file. Callers revoke URLs that start with "blob:".
+export async function getOfflinePlaybackUrl(contentId: string): Promise<string | null> {
+  const video = state.videos[contentId];
+  if (!video || !isOfflineVideoSupported()) return null;
+  if (navigator.serviceWorker?.controller) return video.url;
+
+  const cache = await caches.open(OFFLINE_VIDEO_CACHE);
+  const cached = await cache.match(video.url);
+  return cached ? URL.createObjectURL(await cached.blob()) : null;
+}
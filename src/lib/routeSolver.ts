@@ -0,0 +1,334 @@
+// Route planning for promo routes: choosing which promotions to visit and in what order
+// so the tour takes as little time as possible. Travel time is estimated from straight-
+// line distance, a detour factor and a typical speed per transport mode. Opening hours
+// are read in the device's local time, on the assumption that the route is planned
+// where it will be travelled.
+import type { TransportMode, RouteOptimization } from '@/hooks/usePromoRoute';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Opening windows per day as "HH:mm" pairs; a close earlier than the open runs past
+// midnight. Days left out are closed; null or an empty object means always open.
+export type OpeningHours = Partial<Record<Weekday, [string, string][]>>;
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface SolverStop extends RoutePoint {
+  id: string;
+  rewardAmount: number;
+  openingHours?: OpeningHours | null;
+  expiresAt?: string | null;
+}
+
+export interface RouteSolverOptions {
+  start: RoutePoint;
+  end?: RoutePoint | null;
+  departAt: Date;
+  transportMode: TransportMode;
+  // Overrides for the leg between stop positions, keyed "fromIndex-toIndex"
+  segmentTransport?: Record<string, TransportMode>;
+  maxDistanceKm?: number;
+}
+
+export interface RouteLeg {
+  // null for the final leg to the destination
+  toId: string | null;
+  mode: TransportMode;
+  distanceKm: number;
+  travelMinutes: number;
+  arriveAt: string;
+  // Waiting for the stop to open
+  waitMinutes: number;
+  departAt: string;
+}
+
+export type StopIssue = 'closed' | 'expired';
+
+export interface RoutePlan {
+  legs: RouteLeg[];
+  issues: Record<string, StopIssue>;
+  totalMinutes: number;
+  totalDistanceKm: number;
+  totalReward: number;
+  rewardPerMinute: number;
+  withinDistance: boolean;
+  feasible: boolean;
+}
+
+const SPEED_KMH: Record<TransportMode, number> = {
+  walking: 4.8,
+  running: 9,
+  cycling: 15,
+  transit: 22,
+  driving: 35,
+};
+
+// Waiting for a vehicle, or parking, on every leg
+const LEG_OVERHEAD_MINUTES: Record<TransportMode, number> = {
+  walking: 0,
+  running: 0,
+  cycling: 1,
+  transit: 6,
+  driving: 3,
+};
+
+// Streets aren't straight lines
+const DETOUR_FACTOR = 1.3;
+// Time spent at each stop to check in
+export const STOP_MINUTES = 5;
+// Longest the route will wait outside for a stop to open; beyond this it counts as closed
+const MAX_WAIT_MINUTES = 120;
+const MAX_IMPROVEMENT_PASSES = 50;
+
+const JS_WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const DAY_MINUTES = 24 * 60;
+const WEEK_MINUTES = 7 * DAY_MINUTES;
+
+const haversineKm = (a: RoutePoint, b: RoutePoint): number => {
+  const R = 6371;
+  const dLat = ((b.latitude - a.latitude) * Math.PI) / 180;
+  const dLon = ((b.longitude - a.longitude) * Math.PI) / 180;
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos((a.latitude * Math.PI) / 180) * Math.cos((b.latitude * Math.PI) / 180) * Math.sin(dLon / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+};
+
+export function estimateLeg(from: RoutePoint, to: RoutePoint, mode: TransportMode) {
+  const distanceKm = haversineKm(from, to) * DETOUR_FACTOR;
+  const travelMinutes = distanceKm < 0.01 ? 0 : (distanceKm / SPEED_KMH[mode]) * 60 + LEG_OVERHEAD_MINUTES[mode];
+  return { distanceKm, travelMinutes };
+}
+
+const parseTime = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+// Opening windows as minutes from Sunday 00:00, repeated a week either side so
+// windows that wrap around the week boundary still match
+function weeklyWindows(hours: OpeningHours): [number, number][] {
+  const windows: [number, number][] = [];
+  JS_WEEKDAYS.forEach((day, index) => {
+    for (const [open, close] of hours[day] ?? []) {
+      const start = index * DAY_MINUTES + parseTime(open);
+      let end = index * DAY_MINUTES + parseTime(close);
+      if (end <= start) end += DAY_MINUTES;
+      for (const shift of [-WEEK_MINUTES, 0, WEEK_MINUTES]) windows.push([start + shift, end + shift]);
+    }
+  });
+  return windows;
+}
+
+// Earliest time from `arrival` at which the stop is open for the whole STOP_MINUTES
+// visit; null if that means waiting longer than MAX_WAIT_MINUTES
+export function earliestVisit(openingHours: OpeningHours | null | undefined, arrival: Date): Date | null {
+  if (!openingHours || Object.keys(openingHours).length === 0) return arrival;
+
+  const now = arrival.getDay() * DAY_MINUTES + arrival.getHours() * 60 + arrival.getMinutes() + arrival.getSeconds() / 60;
+  let best = Infinity;
+  for (const [open, close] of weeklyWindows(openingHours)) {
+    const latestStart = close - STOP_MINUTES;
+    if (latestStart < now) continue;
+    const start = Math.max(open, now);
+    if (start <= latestStart && start < best) best = start;
+  }
+
+  if (best === Infinity || best - now > MAX_WAIT_MINUTES) return null;
+  return new Date(arrival.getTime() + (best - now) * 60000);
+}
+
+const legMode = (options: RouteSolverOptions, from: number, to: number) =>
+  options.segmentTransport?.[`${from}-${to}`] || options.transportMode;
+
+// Times a tour visited in the given order
+export function planRoute(stops: SolverStop[], options: RouteSolverOptions): RoutePlan {
+  const legs: RouteLeg[] = [];
+  const issues: Record<string, StopIssue> = {};
+  let clock = options.departAt.getTime();
+  let position: RoutePoint = options.start;
+  let totalDistanceKm = 0;
+
+  stops.forEach((stop, index) => {
+    const mode = index === 0 ? options.transportMode : legMode(options, index - 1, index);
+    const { distanceKm, travelMinutes } = estimateLeg(position, stop, mode);
+    const arrival = new Date(clock + travelMinutes * 60000);
+    const visit = earliestVisit(stop.openingHours, arrival);
+    const begin = visit ?? arrival;
+
+    if (stop.expiresAt && begin.getTime() > new Date(stop.expiresAt).getTime()) {
+      issues[stop.id] = 'expired';
+    } else if (!visit) {
+      issues[stop.id] = 'closed';
+    }
+
+    clock = begin.getTime() + STOP_MINUTES * 60000;
+    totalDistanceKm += distanceKm;
+    position = stop;
+    legs.push({
+      toId: stop.id,
+      mode,
+      distanceKm,
+      travelMinutes,
+      arriveAt: arrival.toISOString(),
+      waitMinutes: (begin.getTime() - arrival.getTime()) / 60000,
+      departAt: new Date(clock).toISOString(),
+    });
+  });
+
+  if (options.end) {
+    const { distanceKm, travelMinutes } = estimateLeg(position, options.end, options.transportMode);
+    clock += travelMinutes * 60000;
+    totalDistanceKm += distanceKm;
+    const arriveAt = new Date(clock).toISOString();
+    legs.push({ toId: null, mode: options.transportMode, distanceKm, travelMinutes, arriveAt, waitMinutes: 0, departAt: arriveAt });
+  }
+
+  const totalMinutes = (clock - options.departAt.getTime()) / 60000;
+  const totalReward = stops.reduce((sum, stop) => sum + stop.rewardAmount, 0);
+  const withinDistance = options.maxDistanceKm === undefined || totalDistanceKm <= options.maxDistanceKm;
+
+  return {
+    legs,
+    issues,
+    totalMinutes,
+    totalDistanceKm,
+    totalReward,
+    rewardPerMinute: totalMinutes > 0 ? totalReward / totalMinutes : 0,
+    withinDistance,
+    feasible: withinDistance && Object.keys(issues).length === 0,
+  };
+}
+
+// Fewer problem stops first, then staying within the distance limit, then time
+const isBetterPlan = (a: RoutePlan, b: RoutePlan) => {
+  const issuesA = Object.keys(a.issues).length;
+  const issuesB = Object.keys(b.issues).length;
+  if (issuesA !== issuesB) return issuesA < issuesB;
+  if (a.withinDistance !== b.withinDistance) return a.withinDistance;
+  return a.totalMinutes < b.totalMinutes - 0.01;
+};
+
+// Local search over the visiting order: reversing a stretch of the tour (2-opt) and
+// moving a single stop elsewhere (relocate), until neither helps
+function improveOrder(stops: SolverStop[], options: RouteSolverOptions): SolverStop[] {
+  let best = stops;
+  let bestPlan = planRoute(best, options);
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const reversed = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const plan = planRoute(reversed, options);
+        if (isBetterPlan(plan, bestPlan)) {
+          best = reversed;
+          bestPlan = plan;
+          improved = true;
+        }
+      }
+    }
+
+    for (let i = 0; i < best.length; i++) {
+      for (let j = 0; j < best.length; j++) {
+        if (i === j) continue;
+        const moved = [...best];
+        const [stop] = moved.splice(i, 1);
+        moved.splice(j, 0, stop);
+        const plan = planRoute(moved, options);
+        if (isBetterPlan(plan, bestPlan)) {
+          best = moved;
+          bestPlan = plan;
+          improved = true;
+        }
+      }
+    }
+
+    if (!improved) break;
+  }
+  return best;
+}
+
+function nearestNeighbourOrder(stops: SolverStop[], start: RoutePoint): SolverStop[] {
+  const remaining = [...stops];
+  const ordered: SolverStop[] = [];
+  let position = start;
+  while (remaining.length > 0) {
+    let nearest = 0;
+    for (let i = 1; i < remaining.length; i++) {
+      if (haversineKm(position, remaining[i]) < haversineKm(position, remaining[nearest])) nearest = i;
+    }
+    position = remaining[nearest];
+    ordered.push(...remaining.splice(nearest, 1));
+  }
+  return ordered;
+}
+
+// Reorders a fixed set of stops; nothing is dropped, so stops that can't be reached in
+// time stay in the plan with an issue
+export function optimizeOrder<T extends SolverStop>(stops: T[], options: RouteSolverOptions): T[] {
+  if (stops.length < 2) return stops;
+  const fromCurrent = improveOrder(stops, options);
+  const fromNearest = improveOrder(nearestNeighbourOrder(stops, options.start), options);
+  return (isBetterPlan(planRoute(fromNearest, options), planRoute(fromCurrent, options)) ? fromNearest : fromCurrent) as T[];
+}
+
+// How much a stop is worth adding at the cost of `addedMinutes`
+function insertionScore(optimization: RouteOptimization, reward: number, addedMinutes: number): number {
+  switch (optimization) {
+    case 'more_earnings':
+      return reward * 1000 - addedMinutes;
+    case 'faster':
+      return -addedMinutes + reward * 0.001;
+    case 'effective':
+      return reward / Math.max(addedMinutes, 0.5);
+    default:
+      return reward * 0.6 - addedMinutes * 0.4;
+  }
+}
+
+// Picks up to maxStops candidates and orders them (a small orienteering problem with
+// time windows). Each round inserts the candidate whose best feasible position scores
+// highest for the optimization goal; the finished tour is then tidied by local search.
+export function solveRoute<T extends SolverStop>(
+  candidates: T[],
+  options: RouteSolverOptions & { maxStops: number; optimization: RouteOptimization },
+): { stops: T[]; plan: RoutePlan } {
+  const departAt = options.departAt.getTime();
+  let remaining = candidates.filter(stop => {
+    if (stop.expiresAt && new Date(stop.expiresAt).getTime() <= departAt) return false;
+    // A stop beyond the distance limit from the start can't be part of any tour
+    return options.maxDistanceKm === undefined || haversineKm(options.start, stop) * DETOUR_FACTOR <= options.maxDistanceKm;
+  });
+
+  let tour: T[] = [];
+  let currentPlan = planRoute(tour, options);
+
+  while (tour.length < options.maxStops && remaining.length > 0) {
+    let best: { stop: T; tour: T[]; plan: RoutePlan; score: number } | null = null;
+
+    for (const stop of remaining) {
+      for (let position = 0; position <= tour.length; position++) {
+        const trial = [...tour.slice(0, position), stop, ...tour.slice(position)];
+        const plan = planRoute(trial, options);
+        if (!plan.feasible) continue;
+
+        const score = insertionScore(options.optimization, stop.rewardAmount, plan.totalMinutes - currentPlan.totalMinutes);
+        if (!best || score > best.score) best = { stop, tour: trial, plan, score };
+      }
+    }
+
+    if (!best) break;
+    tour = best.tour;
+    currentPlan = best.plan;
+    const added = best.stop;
+    remaining = remaining.filter(stop => stop !== added);
+  }
+
+  const ordered = improveOrder(tour, options) as T[];
+  return { stops: ordered, plan: planRoute(ordered, options) };
+}
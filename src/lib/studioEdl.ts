@@ -0,0 +1,376 @@
+// Edit decision list (EDL) for Studio exports: a plain JSON description of everything
+// done to a piece of media in the Studio — which ranges are kept and in what order,
+// playback speed, transitions, colour grading, blurred segments, text, and extra audio —
+// so it can be rendered, stored, or rendered again later without the editor's component
+// state.
+import type { BlurSegment, BlurType, CAFConfig } from '@/components/studio/MediaBlurEditor';
+import type { TextElement } from '@/components/studio/TextDesigner';
+import type { GeneratedAudio } from '@/components/studio/AISoundGenerator';
+import type { Subtitle } from '@/components/studio/AISubtitleGenerator';
+import {
+  duckingEnvelope,
+  type ClipTransition,
+  type GainPoint,
+  type StudioTimeline,
+  type TimelineClip,
+} from '@/lib/studioTimeline';
+
+export const EDL_VERSION = 2;
+
+// Text sizes in the editor are pixels on a preview this tall; the EDL stores them as a
+// fraction of frame height so they scale with the output resolution
+const TEXT_REFERENCE_HEIGHT = 600;
+// Anything shorter is a stray click on the timeline, not a cut
+const MIN_CLIP_SECONDS = 0.05;
+// Stills have no length of their own
+const DEFAULT_IMAGE_SECONDS = 5;
+
+export interface EdlSource {
+  kind: 'video' | 'image';
+  url: string;
+  name?: string;
+  // Seconds; the length of the untrimmed video, or how long a still is shown
+  duration: number;
+}
+
+// A kept range of the source, in source seconds; clips play in list order
+export interface EdlClip {
+  start: number;
+  end: number;
+  // Into this clip from the one before, in output seconds
+  transition: ClipTransition | null;
+}
+
+export interface EdlGrade {
+  // One of the Studio's basic filters, drawn as a gradient overlay
+  filterId: string;
+  filterGradient: string | null;
+  // AI style from VideoPreviewFilters, if one is applied
+  styleId: string | null;
+  // 0..1, shared by the filter and the style as in the preview
+  intensity: number;
+  // Beauty slider values by tool id, 0..100
+  beauty: Record<string, number>;
+}
+
+// What a viewer has to do to see a blurred range unblurred
+export interface EdlLock {
+  segmentId: string;
+  action: CAFConfig['type'];
+  // Vicoins, for payment locks
+  amount: number | null;
+  buttonText: string;
+  description: string;
+  customAction: string | null;
+}
+
+// A blurred range in source seconds
+export interface EdlBlur {
+  start: number;
+  end: number;
+  type: BlurType;
+  // 0..1
+  intensity: number;
+  hideVideo: boolean;
+  muteAudio: boolean;
+  lock: EdlLock | null;
+}
+
+// Where a locked range lands in the output, and how far into the segment's own clean
+// clip that is; a range split across clips has one window per piece
+export interface EdlWindow {
+  start: number;
+  end: number;
+  offset: number;
+}
+
+export interface EdlText {
+  id: string;
+  text: string;
+  // Captions and subtitles follow the footage (source seconds); timeline overlays follow
+  // the finished video (output seconds). Untimed text stays up for the whole video.
+  clock: 'source' | 'output';
+  start: number;
+  end: number;
+  // Centre of the text as a percentage of the frame
+  x: number;
+  y: number;
+  // Fraction of frame height
+  size: number;
+  fontFamily: string;
+  color: string;
+  bold: boolean;
+  italic: boolean;
+  align: 'left' | 'center' | 'right';
+  rotation: number;
+  opacity: number;
+  strokeColor: string;
+  strokeWidth: number;
+  shadowColor: string;
+  shadowBlur: number;
+  // Subtitles get a backing box so they read over any footage
+  background: string | null;
+}
+
+// Audio laid over the output, in output seconds
+export interface EdlAudio {
+  id: string;
+  kind: 'music' | 'sfx' | 'voiceover';
+  url: string;
+  start: number;
+  volume: number;
+  // Multiplier on volume over output time, e.g. music ducking under voiceovers; empty
+  // keeps the volume flat
+  gain: GainPoint[];
+}
+
+export interface EditDecisionList {
+  version: typeof EDL_VERSION;
+  createdAt: string;
+  source: EdlSource;
+  clips: EdlClip[];
+  speed: number;
+  grade: EdlGrade;
+  effects: string[];
+  blurs: EdlBlur[];
+  texts: EdlText[];
+  audio: EdlAudio[];
+  // Level of the source's own sound in the mix
+  sourceVolume: number;
+}
+
+export interface StudioEditState {
+  media: { type: 'video' | 'image'; url: string; file?: File };
+  duration: number;
+  timeline: StudioTimeline;
+  speed: number;
+  filterId: string;
+  filterGradient: string | null;
+  aiStyleId: string | null;
+  filterIntensity: number;
+  beautyValues: Record<string, number>;
+  effects: string[];
+  blurSegments: BlurSegment[];
+  textElements: TextElement[];
+  subtitles: Subtitle[];
+  generatedAudios: GeneratedAudio[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Clips clamped to the source, in timeline order; an empty or fully trimmed timeline
+// keeps the whole source
+function normalizeClips(clips: TimelineClip[], duration: number): EdlClip[] {
+  const kept = clips
+    .map(clip => ({
+      start: clamp(clip.startTime, 0, duration),
+      end: clamp(clip.endTime, 0, duration),
+      transition: clip.transition,
+    }))
+    .filter(clip => clip.end - clip.start >= MIN_CLIP_SECONDS);
+  return kept.length > 0 ? kept : [{ start: 0, end: duration, transition: null }];
+}
+
+const textStyle = (element: TextElement): Omit<EdlText, 'clock' | 'start' | 'end'> => ({
+  id: element.id,
+  text: element.text,
+  x: element.x,
+  y: element.y,
+  size: element.fontSize / TEXT_REFERENCE_HEIGHT,
+  fontFamily: element.fontFamily,
+  color: element.color,
+  bold: element.bold,
+  italic: element.italic,
+  align: element.textAlign,
+  rotation: element.rotation,
+  opacity: element.opacity,
+  strokeColor: element.strokeColor,
+  strokeWidth: element.strokeWidth,
+  shadowColor: element.shadowColor,
+  shadowBlur: element.shadowBlur,
+  background: null,
+});
+
+const toEdlText = (element: TextElement, timeline: StudioTimeline, duration: number): EdlText => {
+  const overlay = timeline.overlay.find(item => item.textId === element.id);
+  return {
+    ...textStyle(element),
+    clock: overlay ? 'output' : 'source',
+    start: overlay ? overlay.start : 0,
+    end: overlay ? overlay.end : duration,
+  };
+};
+
+const subtitleToEdlText = (subtitle: Subtitle): EdlText => ({
+  id: `subtitle-${subtitle.id}`,
+  text: subtitle.text,
+  clock: 'source',
+  start: subtitle.startTime,
+  end: subtitle.endTime,
+  x: 50,
+  y: 88,
+  size: 0.045,
+  fontFamily: 'Inter',
+  color: '#ffffff',
+  bold: true,
+  italic: false,
+  align: 'center',
+  rotation: 0,
+  opacity: 1,
+  strokeColor: '#000000',
+  strokeWidth: 0,
+  shadowColor: 'rgba(0,0,0,0.6)',
+  shadowBlur: 4,
+  background: 'rgba(0,0,0,0.55)',
+});
+
+export function buildEditDecisionList(state: StudioEditState): EditDecisionList {
+  const isImage = state.media.type === 'image';
+  const duration = isImage ? DEFAULT_IMAGE_SECONDS : state.duration;
+
+  // Music of any origin dips under voiceovers
+  const ducking = duckingEnvelope(state.timeline);
+  const audio: EdlAudio[] = [];
+  for (const item of state.timeline.music) {
+    if (item.url) audio.push({ id: item.id, kind: 'music', url: item.url, start: item.start, volume: item.volume, gain: ducking });
+  }
+  for (const item of state.timeline.voiceover) {
+    if (item.url) audio.push({ id: item.id, kind: 'voiceover', url: item.url, start: item.start, volume: item.volume, gain: [] });
+  }
+  for (const generated of state.generatedAudios) {
+    audio.push({
+      id: generated.id,
+      kind: generated.type,
+      url: generated.audioUrl,
+      start: 0,
+      volume: generated.type === 'sfx' ? 1 : 0.8,
+      gain: generated.type === 'music' ? ducking : [],
+    });
+  }
+
+  return {
+    version: EDL_VERSION,
+    createdAt: new Date().toISOString(),
+    source: {
+      kind: state.media.type,
+      url: state.media.url,
+      name: state.media.file?.name,
+      duration,
+    },
+    clips: isImage ? [{ start: 0, end: duration, transition: null }] : normalizeClips(state.timeline.video, duration),
+    speed: isImage ? 1 : clamp(state.speed, 0.25, 4),
+    grade: {
+      filterId: state.filterId,
+      filterGradient: state.filterId === 'none' ? null : state.filterGradient,
+      styleId: state.aiStyleId,
+      intensity: clamp(state.filterIntensity / 100, 0, 1),
+      beauty: Object.fromEntries(Object.entries(state.beautyValues).filter(([, value]) => value > 0)),
+    },
+    effects: [...state.effects],
+    blurs: state.blurSegments
+      .filter(segment => segment.endTime > segment.startTime)
+      .map(segment => ({
+        start: segment.startTime,
+        end: segment.endTime,
+        type: segment.blurType,
+        intensity: clamp(segment.blurIntensity / 100, 0, 1),
+        hideVideo: segment.videoHidden,
+        muteAudio: segment.audioMuted,
+        lock: segment.cafEnabled && segment.cafConfig
+          ? {
+              segmentId: segment.id,
+              action: segment.cafConfig.type,
+              amount: segment.cafConfig.type === 'payment' ? Math.max(1, Math.round(segment.cafConfig.amount ?? 1)) : null,
+              buttonText: segment.cafConfig.buttonText,
+              description: segment.cafConfig.description,
+              customAction: segment.cafConfig.customAction ?? null,
+            }
+          : null,
+      })),
+    texts: [
+      ...state.textElements.filter(element => element.text.trim()).map(element => toEdlText(element, state.timeline, duration)),
+      ...state.subtitles.filter(subtitle => subtitle.text.trim()).map(subtitleToEdlText),
+    ],
+    audio,
+    sourceVolume: audio.some(track => track.kind === 'music') ? 0.6 : 1,
+  };
+}
+
+// Length of the rendered output in seconds
+export const edlOutputDuration = (edl: EditDecisionList) =>
+  edl.clips.reduce((total, clip) => total + (clip.end - clip.start), 0) / edl.speed;
+
+// Output time at which a clip starts playing
+export const edlClipOffset = (edl: EditDecisionList, clipIndex: number) =>
+  edl.clips.slice(0, clipIndex).reduce((total, clip) => total + (clip.end - clip.start), 0) / edl.speed;
+
+export const activeBlur = (edl: EditDecisionList, sourceTime: number) =>
+  edl.blurs.find(blur => sourceTime >= blur.start && sourceTime <= blur.end) ?? null;
+
+export const activeTexts = (edl: EditDecisionList, sourceTime: number, outputTime: number) =>
+  edl.texts.filter(text => {
+    const time = text.clock === 'output' ? outputTime : sourceTime;
+    return time >= text.start && time <= text.end;
+  });
+
+// Actions the server can check before unlocking. Locks with any other action stay
+// blurred for good once posted, since nothing could prove the viewer did it.
+export const VERIFIABLE_LOCK_ACTIONS: ReadonlyArray<EdlLock['action']> = ['payment', 'follow', 'like', 'comment'];
+
+export const isVerifiableLock = (lock: EdlLock) => VERIFIABLE_LOCK_ACTIONS.includes(lock.action);
+
+export const edlLockedBlurs = (edl: EditDecisionList) =>
+  edl.blurs.filter((blur): blur is EdlBlur & { lock: EdlLock } => blur.lock !== null);
+
+// Pieces of the kept clips that fall inside a source range, in play order
+function clipsWithin(edl: EditDecisionList, start: number, end: number) {
+  return edl.clips.flatMap((clip, index) => {
+    const from = Math.max(clip.start, start);
+    const to = Math.min(clip.end, end);
+    return to - from >= MIN_CLIP_SECONDS ? [{ index, start: from, end: to }] : [];
+  });
+}
+
+export function edlLockWindows(edl: EditDecisionList, blur: EdlBlur): EdlWindow[] {
+  let offset = 0;
+  return clipsWithin(edl, blur.start, blur.end).map(piece => {
+    const clip = edl.clips[piece.index];
+    const start = edlClipOffset(edl, piece.index) + (piece.start - clip.start) / edl.speed;
+    const length = (piece.end - piece.start) / edl.speed;
+    const window = { start, end: start + length, offset };
+    offset += length;
+    return window;
+  });
+}
+
+// The locked range alone with its own blur lifted, for viewers who unlock it. Other
+// blurs stay, so overlapping locks don't give each other away; added audio is left
+// out since the clip plays over the published video, which already carries it.
+// Overlays timed on the output clock are moved to where their windows fall in the clip.
+export function edlForUnlockedSegment(edl: EditDecisionList, segmentId: string): EditDecisionList | null {
+  const blur = edl.blurs.find(b => b.lock?.segmentId === segmentId);
+  if (!blur) return null;
+  const clips = clipsWithin(edl, blur.start, blur.end).map(({ start, end }) => ({ start, end, transition: null }));
+  if (clips.length === 0) return null;
+
+  const windows = edlLockWindows(edl, blur);
+  const texts = edl.texts.flatMap(text => {
+    if (text.clock === 'source') return [text];
+    return windows.flatMap(window => {
+      const start = Math.max(text.start, window.start);
+      const end = Math.min(text.end, window.end);
+      const shift = window.offset - window.start;
+      return end > start ? [{ ...text, id: `${text.id}@${window.offset}`, start: start + shift, end: end + shift }] : [];
+    });
+  });
+
+  return {
+    ...edl,
+    clips,
+    effects: [],
+    blurs: edl.blurs.filter(b => b !== blur),
+    texts,
+    audio: [],
+    sourceVolume: 1,
+  };
+}
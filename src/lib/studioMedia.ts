@@ -0,0 +1,49 @@
+// Studio uploads are the creator's unedited originals, including whatever a published
+// video blurs behind a locked segment, so the studio-media bucket is private. Objects
+// are kept by path and played through signed URLs that are reissued whenever a project
+// is opened.
+import { supabase } from '@/integrations/supabase/client';
+
+export const STUDIO_MEDIA_BUCKET = 'studio-media';
+
+// Long enough to outlast an editing session
+const SIGNED_URL_SECONDS = 12 * 60 * 60;
+
+// The object path inside a studio-media URL, public (from older builds) or signed
+export function studioMediaPath(url: string): string | null {
+  const [, path] = url.split(`/${STUDIO_MEDIA_BUCKET}/`);
+  if (!path) return null;
+  return decodeURIComponent(path.split('?')[0]);
+}
+
+export async function signStudioMedia(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(STUDIO_MEDIA_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error('Error signing Studio media:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+// Fresh URLs for many objects at once, keyed by path. Paths that can't be signed (not
+// signed in, or the file is gone) are left out.
+export async function signStudioMediaPaths(paths: string[]): Promise<Map<string, string>> {
+  const signed = new Map<string, string>();
+  if (paths.length === 0) return signed;
+
+  const { data, error } = await supabase.storage
+    .from(STUDIO_MEDIA_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_SECONDS);
+
+  if (error) {
+    console.error('Error signing Studio media:', error);
+    return signed;
+  }
+  for (const item of data ?? []) {
+    if (item.path && item.signedUrl) signed.set(item.path, item.signedUrl);
+  }
+  return signed;
+}
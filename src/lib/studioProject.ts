@@ -0,0 +1,458 @@
+// Studio projects: everything edited in the Studio as one typed, versioned document, so
+// an edit survives a reload and can be reopened later. Projects are kept in IndexedDB on
+// the device and, for signed-in users, mirrored to the studio_projects table. Documents
+// written by older builds are upgraded through the migrations below when they're read.
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { BlurSegment } from '@/components/studio/MediaBlurEditor';
+import type { TextElement } from '@/components/studio/TextDesigner';
+import type { GeneratedAudio } from '@/components/studio/AISoundGenerator';
+import type { Subtitle } from '@/components/studio/AISubtitleGenerator';
+import type { AutoShowProfile } from '@/components/studio/CAFConfigPanel';
+import { createTimeline, DEFAULT_DUCKING, musicFromLibraryTrack, type StudioTimeline } from '@/lib/studioTimeline';
+import { signStudioMediaPaths, studioMediaPath } from '@/lib/studioMedia';
+
+export const PROJECT_VERSION = 2;
+
+export interface AIHighlight {
+  id: string;
+  startTime: number;
+  endTime: number;
+  score: number;
+  reason: string;
+  selected: boolean;
+}
+
+export interface StudioProjectMedia {
+  type: 'video' | 'image';
+  // Storage URL; local blob: URLs don't outlive the page, so they're never saved
+  url: string;
+  // Object in the private studio-media bucket. url is a signed link to it that expires,
+  // so it's reissued from this whenever the project is opened.
+  path: string | null;
+  name: string | null;
+}
+
+// The undoable part of a project
+export interface StudioProjectEdit {
+  timeline: StudioTimeline;
+  filterId: string;
+  // 0..100
+  filterIntensity: number;
+  aiStyleId: string | null;
+  beautyValues: Record<string, number>;
+  effects: string[];
+  aiHighlights: AIHighlight[];
+  generatedAudios: GeneratedAudio[];
+  textElements: TextElement[];
+  subtitles: Subtitle[];
+  blurSegments: BlurSegment[];
+  autoShowProfiles: AutoShowProfile[];
+  speed: number;
+}
+
+export interface StudioProject {
+  version: typeof PROJECT_VERSION;
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  media: StudioProjectMedia | null;
+  edit: StudioProjectEdit;
+}
+
+// What the recent projects list needs, without the edit itself
+export type StudioProjectSummary = Pick<StudioProject, 'id' | 'name' | 'updatedAt' | 'media'>;
+
+// A project saved by a newer build than this one
+export class StudioProjectVersionError extends Error {
+  constructor(public readonly version: number) {
+    super(`This project was saved by a newer version of the app (v${version}). Update to open it.`);
+    this.name = 'StudioProjectVersionError';
+  }
+}
+
+export const createEmptyEdit = (): StudioProjectEdit => ({
+  timeline: createTimeline(),
+  filterId: 'none',
+  filterIntensity: 100,
+  aiStyleId: null,
+  beautyValues: {},
+  effects: [],
+  aiHighlights: [],
+  generatedAudios: [],
+  textElements: [],
+  subtitles: [],
+  blurSegments: [],
+  autoShowProfiles: [],
+  speed: 1,
+});
+
+export function createStudioProject(id: string = crypto.randomUUID()): StudioProject {
+  const now = new Date().toISOString();
+  return {
+    version: PROJECT_VERSION,
+    id,
+    name: 'Untitled project',
+    createdAt: now,
+    updatedAt: now,
+    media: null,
+    edit: createEmptyEdit(),
+  };
+}
+
+type RawDocument = Record<string, unknown>;
+
+// migrations[n] upgrades a version n document to version n + 1. Bump PROJECT_VERSION
+// and add a step here whenever a change to the document isn't just a new field with a
+// default (new fields are filled in by normalizeEdit without a version bump).
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {
+  // v2: the single trim strip became the video track of a multi-track timeline, and the
+  // picked library track its music bed. The old beat sync points were stretched to the
+  // video's length rather than measured, so they're dropped.
+  1: (doc) => {
+    const { trimClips, audioTrack, beatSyncPoints: _beats, ...edit } = isRecord(doc.edit) ? doc.edit : ({} as RawDocument);
+    const timeline: StudioTimeline = {
+      ...createTimeline(),
+      video: arrayOr<Omit<StudioTimeline['video'][number], 'transition'>>(trimClips, [])
+        .map(clip => ({ ...clip, transition: null })),
+      music: isRecord(audioTrack)
+        ? [musicFromLibraryTrack({
+            id: stringOr(audioTrack.id, crypto.randomUUID()),
+            name: stringOr(audioTrack.name, 'Music'),
+            previewUrl: typeof audioTrack.previewUrl === 'string' ? audioTrack.previewUrl : undefined,
+            duration: numberOr(audioTrack.duration, 0),
+            beatPoints: arrayOr<number>(audioTrack.beatPoints, []),
+          })]
+        : [],
+    };
+    return { ...doc, version: 2, edit: { ...edit, timeline } };
+  },
+};
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const arrayOr = <T>(value: unknown, fallback: T[]): T[] => (Array.isArray(value) ? (value as T[]) : fallback);
+const numberOr = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+const stringOr = <T extends string | null>(value: unknown, fallback: T) =>
+  typeof value === 'string' ? value : fallback;
+
+function normalizeTimeline(raw: unknown): StudioTimeline {
+  const timeline = isRecord(raw) ? raw : {};
+  const defaults = createTimeline();
+  const ducking = isRecord(timeline.ducking) ? timeline.ducking : {};
+  return {
+    video: arrayOr(timeline.video, defaults.video),
+    overlay: arrayOr(timeline.overlay, defaults.overlay),
+    voiceover: arrayOr(timeline.voiceover, defaults.voiceover),
+    music: arrayOr(timeline.music, defaults.music),
+    ducking: {
+      enabled: typeof ducking.enabled === 'boolean' ? ducking.enabled : DEFAULT_DUCKING.enabled,
+      level: numberOr(ducking.level, DEFAULT_DUCKING.level),
+      attack: numberOr(ducking.attack, DEFAULT_DUCKING.attack),
+      release: numberOr(ducking.release, DEFAULT_DUCKING.release),
+    },
+  };
+}
+
+// Fills anything missing with its default and revives values JSON can't carry
+function normalizeEdit(raw: unknown): StudioProjectEdit {
+  const edit = isRecord(raw) ? raw : {};
+  const defaults = createEmptyEdit();
+  return {
+    timeline: normalizeTimeline(edit.timeline),
+    filterId: stringOr(edit.filterId, defaults.filterId),
+    filterIntensity: numberOr(edit.filterIntensity, defaults.filterIntensity),
+    aiStyleId: stringOr(edit.aiStyleId, defaults.aiStyleId),
+    beautyValues: isRecord(edit.beautyValues) ? (edit.beautyValues as Record<string, number>) : defaults.beautyValues,
+    effects: arrayOr(edit.effects, defaults.effects),
+    aiHighlights: arrayOr(edit.aiHighlights, defaults.aiHighlights),
+    generatedAudios: arrayOr<GeneratedAudio>(edit.generatedAudios, defaults.generatedAudios)
+      .map(audio => ({ ...audio, createdAt: new Date(audio.createdAt) })),
+    textElements: arrayOr(edit.textElements, defaults.textElements),
+    subtitles: arrayOr(edit.subtitles, defaults.subtitles),
+    blurSegments: arrayOr(edit.blurSegments, defaults.blurSegments),
+    autoShowProfiles: arrayOr(edit.autoShowProfiles, defaults.autoShowProfiles),
+    speed: numberOr(edit.speed, defaults.speed),
+  };
+}
+
+// Turns a stored document of any known version into a current StudioProject
+export function migrateProject(raw: unknown): StudioProject {
+  if (!isRecord(raw) || typeof raw.id !== 'string') {
+    throw new Error('Not a Studio project');
+  }
+
+  let doc = raw;
+  let version = numberOr(doc.version, 1);
+  if (version > PROJECT_VERSION) throw new StudioProjectVersionError(version);
+
+  while (version < PROJECT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) throw new Error(`No migration from Studio project v${version}`);
+    doc = migrate(doc);
+    version += 1;
+  }
+
+  const media = isRecord(doc.media) && typeof doc.media.url === 'string' && !doc.media.url.startsWith('blob:')
+    ? {
+        type: doc.media.type === 'image' ? 'image' as const : 'video' as const,
+        url: doc.media.url,
+        path: stringOr(doc.media.path, null) ?? studioMediaPath(doc.media.url),
+        name: stringOr(doc.media.name, null),
+      }
+    : null;
+  const createdAt = stringOr(doc.createdAt, new Date().toISOString());
+
+  return {
+    version: PROJECT_VERSION,
+    id: raw.id,
+    name: stringOr(doc.name, 'Untitled project'),
+    createdAt,
+    updatedAt: stringOr(doc.updatedAt, createdAt),
+    media,
+    edit: normalizeEdit(doc.edit),
+  };
+}
+
+const toSummary = ({ id, name, updatedAt, media }: StudioProject): StudioProjectSummary => ({ id, name, updatedAt, media });
+
+// Swaps each project's stored media URL for a freshly signed one
+async function withSignedMedia<T extends { media: StudioProjectMedia | null }>(projects: T[]): Promise<T[]> {
+  const paths = projects.flatMap(project => project.media?.path ? [project.media.path] : []);
+  const signed = await signStudioMediaPaths([...new Set(paths)]);
+  return projects.map(project => {
+    const url = project.media?.path ? signed.get(project.media.path) : undefined;
+    return url && project.media ? { ...project, media: { ...project.media, url } } : project;
+  });
+}
+
+const byMostRecent = (a: StudioProjectSummary, b: StudioProjectSummary) => b.updatedAt.localeCompare(a.updatedAt);
+
+const DB_NAME = 'studio-projects';
+const STORE_NAME = 'projects';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('IndexedDB unavailable, Studio projects will not survive a reload');
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error('Error opening Studio projects:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readLocal(id: string): Promise<StudioProject | null> {
+  const stored = await withStore('readonly', store => store.get(id));
+  if (!stored) return null;
+  try {
+    return migrateProject(stored);
+  } catch (error) {
+    if (error instanceof StudioProjectVersionError) throw error;
+    console.error('Discarding unreadable Studio project:', error);
+    return null;
+  }
+}
+
+let recentProjects: StudioProjectSummary[] = [];
+const listeners = new Set<() => void>();
+let loadPromise: Promise<void> | null = null;
+
+function setRecentProjects(next: StudioProjectSummary[]) {
+  recentProjects = next;
+  listeners.forEach(listener => listener());
+}
+
+function upsertRecent(summary: StudioProjectSummary) {
+  setRecentProjects([summary, ...recentProjects.filter(p => p.id !== summary.id)].sort(byMostRecent));
+}
+
+function loadRecent(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const stored = (await withStore('readonly', store => store.getAll())) ?? [];
+        const summaries: StudioProjectSummary[] = [];
+        for (const raw of stored) {
+          try {
+            summaries.push(toSummary(migrateProject(raw)));
+          } catch {
+            // Unreadable or from a newer build; it stays stored but isn't listed
+          }
+        }
+        const signed = await withSignedMedia(summaries);
+        // Anything saved before the load finished is already listed
+        setRecentProjects([
+          ...recentProjects,
+          ...signed.filter(s => !recentProjects.some(p => p.id === s.id)),
+        ].sort(byMostRecent));
+      } catch (error) {
+        console.error('Error loading Studio projects:', error);
+      }
+    })();
+  }
+  return loadPromise;
+}
+
+export function subscribeRecentProjects(listener: () => void) {
+  listeners.add(listener);
+  loadRecent();
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getRecentProjects() {
+  return recentProjects;
+}
+
+export async function saveStudioProject(project: StudioProject) {
+  upsertRecent(toSummary(project));
+  try {
+    await withStore('readwrite', store => store.put(project));
+  } catch (error) {
+    console.error('Error saving Studio project:', error);
+  }
+}
+
+// The server copy drops generated audio and voiceovers held as data: URLs; those can
+// run to megabytes and only the device that made them needs them
+function toRemoteDocument(project: StudioProject): Json {
+  const document = {
+    ...project,
+    edit: {
+      ...project.edit,
+      timeline: {
+        ...project.edit.timeline,
+        voiceover: project.edit.timeline.voiceover.filter(item => !item.url?.startsWith('data:')),
+      },
+      generatedAudios: project.edit.generatedAudios.filter(audio => !audio.audioUrl.startsWith('data:')),
+    },
+  };
+  return JSON.parse(JSON.stringify(document));
+}
+
+export async function syncStudioProject(project: StudioProject, userId: string) {
+  const { error } = await supabase
+    .from('studio_projects')
+    .upsert({
+      id: project.id,
+      user_id: userId,
+      name: project.name,
+      schema_version: project.version,
+      document: toRemoteDocument(project),
+      media_url: project.media?.url ?? null,
+      created_at: project.createdAt,
+      updated_at: project.updatedAt,
+    });
+  if (error) throw error;
+}
+
+// Reads a project from the device, preferring the server copy when it's newer (it was
+// edited on another device). Resolves null if neither has it.
+export async function loadStudioProject(id: string, userId?: string): Promise<StudioProject | null> {
+  const project = await loadStoredProject(id, userId);
+  if (!project) return null;
+  const [signed] = await withSignedMedia([project]);
+  return signed;
+}
+
+async function loadStoredProject(id: string, userId?: string): Promise<StudioProject | null> {
+  const local = await readLocal(id);
+  if (!userId) return local;
+
+  const { data, error } = await supabase
+    .from('studio_projects')
+    .select('document')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching Studio project:', error);
+    return local;
+  }
+  if (!data) return local;
+
+  const remote = migrateProject(data.document);
+  if (local && local.updatedAt >= remote.updatedAt) return local;
+  await saveStudioProject(remote);
+  return remote;
+}
+
+// Lists projects saved from other devices alongside the local ones
+export async function refreshRecentProjects(userId: string) {
+  await loadRecent();
+  const { data, error } = await supabase
+    .from('studio_projects')
+    .select('id, name, updated_at, media_url, document')
+    .eq('user_id', userId)
+    .order('updated_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    console.error('Error fetching Studio projects:', error);
+    return;
+  }
+
+  const remote: StudioProjectSummary[] = [];
+  for (const row of data ?? []) {
+    const local = recentProjects.find(p => p.id === row.id);
+    if (local && Date.parse(local.updatedAt) >= Date.parse(row.updated_at)) continue;
+    try {
+      const project = migrateProject(row.document);
+      remote.push(toSummary(project));
+      await withStore('readwrite', store => store.put(project));
+    } catch (e) {
+      console.error('Skipping Studio project', row.id, e);
+    }
+  }
+  if (remote.length === 0) return;
+  const signed = await withSignedMedia(remote);
+  setRecentProjects([
+    ...signed,
+    ...recentProjects.filter(p => !signed.some(r => r.id === p.id)),
+  ].sort(byMostRecent));
+}
+
+export async function deleteStudioProject(id: string, userId?: string) {
+  setRecentProjects(recentProjects.filter(p => p.id !== id));
+  try {
+    await withStore('readwrite', store => store.delete(id));
+  } catch (error) {
+    console.error('Error deleting Studio project:', error);
+  }
+  if (userId) {
+    const { error } = await supabase.from('studio_projects').delete().eq('id', id);
+    if (error) console.error('Error deleting synced Studio project:', error);
+  }
+}
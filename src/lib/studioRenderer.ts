@@ -0,0 +1,581 @@
+// Renders an edit decision list to a video file in the browser. Frames are composited
+// on a canvas while the source plays through each kept clip; the canvas stream and a
+// Web Audio mix of the source and any added audio are recorded with MediaRecorder.
+// Rendering runs in real time (divided by the speed setting) and needs the page to stay
+// in the foreground, since hidden tabs stop painting frames.
+import { styleFilters } from '@/components/studio/VideoPreviewFilters';
+import {
+  activeBlur,
+  activeTexts,
+  edlClipOffset,
+  edlOutputDuration,
+  type EditDecisionList,
+  type EdlBlur,
+  type EdlText,
+} from '@/lib/studioEdl';
+import { gainAt, type TransitionKind } from '@/lib/studioTimeline';
+
+export interface RenderOptions {
+  // 0..1
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+  // Longest side of the output in pixels
+  maxDimension?: number;
+  fps?: number;
+}
+
+export interface RenderResult {
+  blob: Blob;
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+  duration: number;
+  width: number;
+  height: number;
+}
+
+export class RenderUnsupportedError extends Error {
+  constructor() {
+    super('Video export is not supported in this browser');
+  }
+}
+
+const DEFAULT_MAX_DIMENSION = 1280;
+const DEFAULT_FPS = 30;
+const VIDEO_BITS_PER_SECOND = 5_000_000;
+// Fade-through-black at clip boundaries when the Fade effect is on
+const FADE_SECONDS = 0.3;
+// Peak blur of a blur transition, in pixels at the output size
+const TRANSITION_BLUR_PX = 16;
+// Push-in over the length of each clip when the Zoom effect is on
+const ZOOM_AMOUNT = 0.08;
+// Mosaic and pixelate blurs draw the frame at most this many blocks across
+const MAX_MOSAIC_BLOCKS = 96;
+
+// MP4 plays everywhere once posted, so it wins when the browser can record it
+const RECORDER_TYPES = [
+  'video/mp4;codecs=avc1,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export function pickRecorderMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export const isStudioRenderSupported = () =>
+  typeof document !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+  pickRecorderMimeType() !== null;
+
+const abortError = () => new DOMException('Render cancelled', 'AbortError');
+
+// ─── Media loading ──────────────────────────────────────────────
+
+function waitFor(target: EventTarget, event: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('Could not load media for export')); };
+    const onAbort = () => { cleanup(); reject(abortError()); };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function loadVideo(url: string, signal?: AbortSignal): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = url;
+  await waitFor(video, 'loadeddata', signal);
+  return video;
+}
+
+async function loadImage(url: string, signal?: AbortSignal): Promise<HTMLImageElement> {
+  const image = new Image();
+  image.crossOrigin = 'anonymous';
+  image.src = url;
+  await waitFor(image, 'load', signal);
+  return image;
+}
+
+async function loadAudio(url: string, signal?: AbortSignal): Promise<HTMLAudioElement> {
+  const audio = new Audio();
+  audio.crossOrigin = 'anonymous';
+  audio.preload = 'auto';
+  audio.src = url;
+  await waitFor(audio, 'loadedmetadata', signal);
+  return audio;
+}
+
+async function seek(video: HTMLVideoElement, time: number, signal?: AbortSignal) {
+  if (Math.abs(video.currentTime - time) < 0.01) return;
+  const seeked = waitFor(video, 'seeked', signal);
+  video.currentTime = time;
+  await seeked;
+}
+
+// Calls onFrame once per display frame until it returns true. Animation frames rather
+// than video frame callbacks, which stop firing once a video ends and would hang here.
+function runFrames(onFrame: () => boolean, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const step = () => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      if (onFrame()) {
+        resolve();
+        return;
+      }
+      requestAnimationFrame(step);
+    };
+    step();
+  });
+}
+
+// ─── Drawing ────────────────────────────────────────────────────
+
+// Splits on commas that aren't inside parentheses, e.g. between gradient stops
+function splitTopLevel(value: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+const isColorStop = (part: string) => /^(#|rgb|hsl|transparent)/.test(part);
+
+// Turns the CSS gradients used by the preview into canvas gradients, covering the
+// linear (with an angle) and radial (with an optional "at x% y%") forms the Studio uses
+function cssGradient(ctx: CanvasRenderingContext2D, css: string, width: number, height: number): CanvasGradient | null {
+  const match = /^(linear|radial)-gradient\((.*)\)$/.exec(css.trim());
+  if (!match) return null;
+  const parts = splitTopLevel(match[2]);
+  const hasPrelude = parts.length > 0 && !isColorStop(parts[0]);
+  const stops = hasPrelude ? parts.slice(1) : parts;
+
+  let gradient: CanvasGradient;
+  if (match[1] === 'linear') {
+    const angle = ((hasPrelude ? parseFloat(parts[0]) : 180) * Math.PI) / 180;
+    const dx = Math.sin(angle);
+    const dy = -Math.cos(angle);
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+    gradient = ctx.createLinearGradient(
+      width / 2 - dx * half, height / 2 - dy * half,
+      width / 2 + dx * half, height / 2 + dy * half,
+    );
+  } else {
+    const at = hasPrelude ? /at\s+([\d.]+)%\s+([\d.]+)%/.exec(parts[0]) : null;
+    const cx = at ? (parseFloat(at[1]) / 100) * width : width / 2;
+    const cy = at ? (parseFloat(at[2]) / 100) * height : height / 2;
+    const radius = Math.hypot(Math.max(cx, width - cx), Math.max(cy, height - cy));
+    gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius);
+  }
+
+  stops.forEach((stop, index) => {
+    const [, color, position] = /^(.*?)(?:\s+([\d.]+)%)?$/.exec(stop) ?? [];
+    if (!color) return;
+    const offset = position !== undefined ? parseFloat(position) / 100 : index / Math.max(1, stops.length - 1);
+    gradient.addColorStop(Math.min(1, Math.max(0, offset)), color === 'transparent' ? 'rgba(0,0,0,0)' : color);
+  });
+  return gradient;
+}
+
+// Same mapping as BlurPreviewPlayer, so exports match what the creator previewed
+function blurFilter(blur: EdlBlur): string {
+  const intensity = blur.intensity;
+  switch (blur.type) {
+    case 'glass': return `blur(${12 * intensity}px)`;
+    case 'mosaic':
+    case 'pixelate': return `blur(${2 * intensity}px)`;
+    case 'xray': return `invert(${intensity})`;
+    case 'outlines': return `contrast(${1 + 2 * intensity}) brightness(${1 + 0.5 * intensity})`;
+    case 'negative': return `invert(${intensity}) hue-rotate(${180 * intensity}deg)`;
+    case 'shadow': return `brightness(${1 - 0.8 * intensity})`;
+    case 'whitening': return `brightness(${1 + intensity}) contrast(${1 - 0.5 * intensity})`;
+    case 'blackwhite': return `grayscale(${intensity}) blur(${8 * intensity}px)`;
+    case 'frosted': return `blur(${20 * intensity}px) saturate(${1 + 0.5 * intensity})`;
+    case 'gaussian': return `blur(${25 * intensity}px)`;
+    default: return `blur(${10 * intensity}px)`;
+  }
+}
+
+// Whole-frame approximations of the beauty tools; the face-specific ones (teeth, eyes,
+// slimming, contour, blemishes) need face tracking and are carried in the EDL only
+function beautyFilter(beauty: Record<string, number>): string {
+  const filters: string[] = [];
+  if (beauty.smooth) filters.push(`blur(${(beauty.smooth / 100) * 1.2}px)`);
+  if (beauty.brighten) filters.push(`brightness(${1 + (beauty.brighten / 100) * 0.2})`);
+  if (beauty.sharpen) filters.push(`contrast(${1 + (beauty.sharpen / 100) * 0.25})`);
+  return filters.join(' ');
+}
+
+function drawText(ctx: CanvasRenderingContext2D, text: EdlText, width: number, height: number) {
+  const size = Math.max(8, text.size * height);
+  const lines = text.text.split('\n');
+  const lineHeight = size * 1.2;
+
+  ctx.save();
+  ctx.globalAlpha = text.opacity;
+  ctx.translate((text.x / 100) * width, (text.y / 100) * height);
+  ctx.rotate((text.rotation * Math.PI) / 180);
+  ctx.font = `${text.italic ? 'italic ' : ''}${text.bold ? 'bold ' : ''}${size}px "${text.fontFamily}", sans-serif`;
+  ctx.textAlign = text.align;
+  ctx.textBaseline = 'middle';
+
+  const top = -((lines.length - 1) * lineHeight) / 2;
+  if (text.background) {
+    const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const left = text.align === 'center' ? -textWidth / 2 : text.align === 'right' ? -textWidth : 0;
+    const padding = size * 0.3;
+    ctx.fillStyle = text.background;
+    ctx.fillRect(left - padding, top - lineHeight / 2 - padding / 2, textWidth + padding * 2, lines.length * lineHeight + padding);
+  }
+
+  ctx.shadowColor = text.shadowColor;
+  ctx.shadowBlur = text.shadowBlur;
+  lines.forEach((line, index) => {
+    const y = top + index * lineHeight;
+    if (text.strokeWidth > 0) {
+      ctx.strokeStyle = text.strokeColor;
+      ctx.lineWidth = text.strokeWidth;
+      ctx.strokeText(line, 0, y);
+    }
+    ctx.fillStyle = text.color;
+    ctx.fillText(line, 0, y);
+  });
+  ctx.restore();
+}
+
+interface FrameContext {
+  ctx: CanvasRenderingContext2D;
+  // Scratch canvas for mosaic blurs
+  mosaic: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  media: HTMLVideoElement | HTMLImageElement;
+  edl: EditDecisionList;
+}
+
+interface FrameTime {
+  sourceTime: number;
+  outputTime: number;
+  clipIndex: number;
+  // Seconds since the clip started and until it ends, in output time
+  clipElapsed: number;
+  clipRemaining: number;
+}
+
+// How far into a transition a frame is: 1 right at the cut, 0 at either end. A clip's
+// transition covers the end of the clip before it and its own start.
+function activeTransition(edl: EditDecisionList, time: FrameTime): { kind: TransitionKind; amount: number } | null {
+  const incoming = edl.clips[time.clipIndex]?.transition;
+  if (incoming && time.clipElapsed < incoming.duration / 2) {
+    return { kind: incoming.kind, amount: 1 - time.clipElapsed / (incoming.duration / 2) };
+  }
+  const outgoing = edl.clips[time.clipIndex + 1]?.transition;
+  if (outgoing && time.clipRemaining < outgoing.duration / 2) {
+    return { kind: outgoing.kind, amount: 1 - Math.max(0, time.clipRemaining) / (outgoing.duration / 2) };
+  }
+  return null;
+}
+
+function drawFrame({ ctx, mosaic, width, height, media, edl }: FrameContext, time: FrameTime) {
+  const blur = activeBlur(edl, time.sourceTime);
+  const transition = activeTransition(edl, time);
+  const style = edl.grade.styleId ? styleFilters[edl.grade.styleId] : undefined;
+  const intensity = edl.grade.intensity;
+
+  ctx.save();
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+
+  if (!blur?.hideVideo) {
+    if (edl.effects.includes('zoom')) {
+      const clipLength = time.clipElapsed + time.clipRemaining;
+      const scale = 1 + ZOOM_AMOUNT * (clipLength > 0 ? time.clipElapsed / clipLength : 0);
+      ctx.translate(width / 2, height / 2);
+      ctx.scale(scale, scale);
+      ctx.translate(-width / 2, -height / 2);
+    }
+
+    let frame: CanvasImageSource = media;
+    if (blur && (blur.type === 'mosaic' || blur.type === 'pixelate')) {
+      const blocks = Math.max(8, Math.round(MAX_MOSAIC_BLOCKS * (1 - blur.intensity * 0.9)));
+      const blockWidth = blocks;
+      const blockHeight = Math.max(1, Math.round((blocks * height) / width));
+      mosaic.canvas.width = blockWidth;
+      mosaic.canvas.height = blockHeight;
+      mosaic.drawImage(media, 0, 0, blockWidth, blockHeight);
+      frame = mosaic.canvas;
+      ctx.imageSmoothingEnabled = false;
+    }
+
+    const baseFilter = [
+      beautyFilter(edl.grade.beauty),
+      blur ? blurFilter(blur) : '',
+      transition?.kind === 'blur' ? `blur(${(transition.amount * TRANSITION_BLUR_PX).toFixed(1)}px)` : '',
+    ].filter(Boolean).join(' ');
+    ctx.filter = baseFilter || 'none';
+    ctx.drawImage(frame, 0, 0, width, height);
+
+    // The preview blends the styled picture over the original by intensity
+    if (style && intensity > 0) {
+      ctx.globalAlpha = intensity;
+      ctx.filter = [baseFilter, style.filter].filter(Boolean).join(' ');
+      ctx.drawImage(frame, 0, 0, width, height);
+      ctx.globalAlpha = 1;
+    }
+    ctx.filter = 'none';
+    ctx.imageSmoothingEnabled = true;
+  }
+  ctx.restore();
+
+  ctx.save();
+  if (style?.overlay && (style.overlayOpacity ?? 0) > 0) {
+    const gradient = cssGradient(ctx, style.overlay, width, height);
+    if (gradient) {
+      ctx.globalAlpha = (style.overlayOpacity ?? 0.3) * intensity;
+      ctx.globalCompositeOperation = (style.mixBlendMode as GlobalCompositeOperation) || 'source-over';
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+    }
+  }
+  if (edl.grade.filterGradient && !style) {
+    const gradient = cssGradient(ctx, edl.grade.filterGradient, width, height);
+    if (gradient) {
+      ctx.globalAlpha = 0.5 * intensity;
+      ctx.globalCompositeOperation = 'overlay';
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+    }
+  }
+  ctx.restore();
+
+  // Letterbox and vignette, as VideoPreviewFilters draws them for these styles
+  const styleId = edl.grade.styleId;
+  if (styleId === 'movie' || styleId === 'epic' || styleId === 'documentary') {
+    const bar = height * 0.06 * intensity;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, bar);
+    ctx.fillRect(0, height - bar, width, bar);
+  }
+  if (styleId === 'thriller' || styleId === 'horror' || styleId === 'epic' || styleId === 'noir') {
+    const vignette = ctx.createRadialGradient(width / 2, height / 2, Math.min(width, height) * 0.35, width / 2, height / 2, Math.hypot(width, height) / 2);
+    vignette.addColorStop(0, 'rgba(0,0,0,0)');
+    vignette.addColorStop(1, `rgba(0,0,0,${0.5 * intensity})`);
+    ctx.fillStyle = vignette;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  for (const text of activeTexts(edl, time.sourceTime, time.outputTime)) drawText(ctx, text, width, height);
+
+  if (transition && transition.kind !== 'blur') {
+    const shade = transition.kind === 'flash' ? '255,255,255' : '0,0,0';
+    ctx.fillStyle = `rgba(${shade},${transition.amount})`;
+    ctx.fillRect(0, 0, width, height);
+  } else if (!transition && edl.effects.includes('fade')) {
+    const edge = Math.min(time.clipElapsed, time.clipRemaining);
+    if (edge < FADE_SECONDS) {
+      ctx.fillStyle = `rgba(0,0,0,${1 - Math.max(0, edge) / FADE_SECONDS})`;
+      ctx.fillRect(0, 0, width, height);
+    }
+  }
+}
+
+// ─── Rendering ──────────────────────────────────────────────────
+
+const evenSize = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+export async function renderEdl(edl: EditDecisionList, options: RenderOptions = {}): Promise<RenderResult> {
+  const { onProgress, signal, maxDimension = DEFAULT_MAX_DIMENSION, fps = DEFAULT_FPS } = options;
+  const mimeType = pickRecorderMimeType();
+  if (!mimeType || !isStudioRenderSupported()) throw new RenderUnsupportedError();
+  if (signal?.aborted) throw abortError();
+
+  const isVideo = edl.source.kind === 'video';
+  const totalDuration = edlOutputDuration(edl);
+  const cleanup: (() => void)[] = [];
+
+  try {
+    const media = isVideo ? await loadVideo(edl.source.url, signal) : await loadImage(edl.source.url, signal);
+    const sourceWidth = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+    const sourceHeight = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+    const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight, 1));
+    const width = evenSize(sourceWidth * scale);
+    const height = evenSize(sourceHeight * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    const mosaic = document.createElement('canvas').getContext('2d');
+    if (!ctx || !mosaic) throw new RenderUnsupportedError();
+
+    // Audio: the source's own sound (muted through blurred segments that ask for it)
+    // and any added tracks, mixed into one stream for the recorder
+    const audioContext = new AudioContext();
+    cleanup.push(() => { audioContext.close(); });
+    const mix = audioContext.createMediaStreamDestination();
+
+    let sourceGain: GainNode | null = null;
+    if (media instanceof HTMLVideoElement) {
+      sourceGain = audioContext.createGain();
+      sourceGain.gain.value = edl.sourceVolume;
+      audioContext.createMediaElementSource(media).connect(sourceGain).connect(mix);
+      cleanup.push(() => media.pause());
+    }
+
+    const overlays = await Promise.all(edl.audio.map(async track => {
+      try {
+        const element = await loadAudio(track.url, signal);
+        const gain = audioContext.createGain();
+        gain.gain.value = track.volume;
+        audioContext.createMediaElementSource(element).connect(gain).connect(mix);
+        cleanup.push(() => element.pause());
+        return { track, element, gain };
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.warn('[StudioRender] Skipping audio that failed to load:', track.url, error);
+        return null;
+      }
+    }));
+    const audioTracks = overlays.filter(overlay => overlay !== null);
+
+    const videoStream = canvas.captureStream(fps);
+    const stream = new MediaStream([...videoStream.getVideoTracks(), ...mix.stream.getAudioTracks()]);
+    cleanup.push(() => stream.getTracks().forEach(track => track.stop()));
+
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    cleanup.push(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    });
+
+    // Added audio follows output time; it's paused with the recorder between clips
+    const syncAudioTracks = (outputTime: number, playing: boolean) => {
+      for (const { track, element } of audioTracks) {
+        const offset = outputTime - track.start;
+        const inRange = offset >= 0 && (!Number.isFinite(element.duration) || offset < element.duration);
+        if (playing && inRange) {
+          element.currentTime = offset;
+          element.play().catch(error => console.warn('[StudioRender] Audio playback blocked:', error));
+        } else {
+          element.pause();
+        }
+      }
+    };
+
+    // Volume automation (music ducking) is applied per frame, on the output clock
+    const applyAudioGain = (outputTime: number) => {
+      for (const { track, gain } of audioTracks) {
+        if (track.gain.length > 0) gain.gain.value = track.volume * gainAt(track.gain, outputTime);
+      }
+    };
+
+    const frameContext: FrameContext = { ctx, mosaic, width, height, media, edl };
+    await audioContext.resume();
+    recorder.start(1000);
+    onProgress?.(0);
+
+    for (let index = 0; index < edl.clips.length; index++) {
+      const clip = edl.clips[index];
+      const clipOffset = edlClipOffset(edl, index);
+      const clipDuration = (clip.end - clip.start) / edl.speed;
+
+      if (media instanceof HTMLVideoElement) {
+        if (recorder.state === 'recording') recorder.pause();
+        await seek(media, clip.start, signal);
+        media.playbackRate = edl.speed;
+      }
+      if (recorder.state === 'paused') recorder.resume();
+      syncAudioTracks(clipOffset, true);
+
+      if (media instanceof HTMLVideoElement) {
+        await media.play();
+        await runFrames(() => {
+          const sourceTime = media.currentTime;
+          const clipElapsed = (sourceTime - clip.start) / edl.speed;
+          if (sourceGain) {
+            const muted = activeBlur(edl, sourceTime)?.muteAudio;
+            sourceGain.gain.value = muted ? 0 : edl.sourceVolume;
+          }
+          applyAudioGain(clipOffset + clipElapsed);
+          drawFrame(frameContext, {
+            sourceTime,
+            outputTime: clipOffset + clipElapsed,
+            clipIndex: index,
+            clipElapsed,
+            clipRemaining: clipDuration - clipElapsed,
+          });
+          onProgress?.(Math.min(1, (clipOffset + clipElapsed) / totalDuration));
+          return sourceTime >= clip.end || media.ended;
+        }, signal);
+        media.pause();
+      } else {
+        const startedAt = performance.now();
+        await runFrames(() => {
+          const clipElapsed = (performance.now() - startedAt) / 1000;
+          applyAudioGain(clipOffset + clipElapsed);
+          drawFrame(frameContext, {
+            sourceTime: clip.start + clipElapsed,
+            outputTime: clipOffset + clipElapsed,
+            clipIndex: index,
+            clipElapsed,
+            clipRemaining: clipDuration - clipElapsed,
+          });
+          onProgress?.(Math.min(1, (clipOffset + clipElapsed) / totalDuration));
+          return clipElapsed >= clipDuration;
+        }, signal);
+      }
+      syncAudioTracks(clipOffset + clipDuration, false);
+    }
+
+    const stopped = waitFor(recorder, 'stop', signal);
+    recorder.stop();
+    await stopped;
+    onProgress?.(1);
+
+    const type = mimeType.split(';')[0];
+    return {
+      blob: new Blob(chunks, { type }),
+      mimeType: type,
+      extension: type === 'video/mp4' ? 'mp4' : 'webm',
+      duration: totalDuration,
+      width,
+      height,
+    };
+  } finally {
+    cleanup.reverse().forEach(step => {
+      try {
+        step();
+      } catch (error) {
+        console.warn('[StudioRender] Cleanup failed:', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,304 @@
+// Multi-track Studio timeline: the kept video clips with the transition into each, text
+// overlays, voiceovers and music. Video clips are ranges of the source in play order;
+// everything else sits on the output clock (seconds into the finished video). Nothing
+// here touches the DOM, so the model can be built and checked outside a browser.
+import type { TrimClip } from '@/components/studio/VideoTimeline';
+import type { AudioTrack } from '@/components/studio/AudioLibrary';
+
+export type TrackKind = 'video' | 'overlay' | 'voiceover' | 'music';
+
+export const TRANSITION_KINDS = ['fade', 'flash', 'blur'] as const;
+export type TransitionKind = (typeof TRANSITION_KINDS)[number];
+
+// How a clip comes in from the one before it; half the duration is taken from the end
+// of the previous clip and half from the start of this one, so timing doesn't change
+export interface ClipTransition {
+  kind: TransitionKind;
+  duration: number;
+}
+
+export interface TimelineClip extends TrimClip {
+  // Null is a straight cut
+  transition: ClipTransition | null;
+}
+
+// When a text element is on screen; text without an overlay item stays up throughout
+export interface TimelineOverlay {
+  id: string;
+  textId: string;
+  start: number;
+  end: number;
+}
+
+export interface TimelineAudio {
+  id: string;
+  name: string;
+  // Null for library tracks with nothing to play yet; they still carry their beats
+  url: string | null;
+  start: number;
+  duration: number;
+  // 0..1
+  volume: number;
+  // Beat times in the audio's own seconds
+  beats: number[];
+}
+
+export interface DuckingSettings {
+  enabled: boolean;
+  // Music level under a voiceover, 0..1 of its normal volume
+  level: number;
+  // Seconds to dip before a voiceover starts and to come back after it ends
+  attack: number;
+  release: number;
+}
+
+export interface StudioTimeline {
+  video: TimelineClip[];
+  overlay: TimelineOverlay[];
+  voiceover: TimelineAudio[];
+  music: TimelineAudio[];
+  ducking: DuckingSettings;
+}
+
+// A point on a gain envelope, in output seconds; gain is a multiplier on the volume
+export interface GainPoint {
+  time: number;
+  gain: number;
+}
+
+export const DEFAULT_TRANSITION_SECONDS = 0.5;
+// Cuts further than this from a beat are left where they are
+export const DEFAULT_SNAP_TOLERANCE = 0.25;
+// Anything shorter is a stray click, not a clip
+const MIN_CLIP_SECONDS = 0.05;
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+  enabled: true,
+  level: 0.3,
+  attack: 0.2,
+  release: 0.4,
+};
+
+export const createTimeline = (): StudioTimeline => ({
+  video: [],
+  overlay: [],
+  voiceover: [],
+  music: [],
+  ducking: { ...DEFAULT_DUCKING },
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// ─── Video track ────────────────────────────────────────────────
+
+// Takes clips back from the trim editor, keeping the transitions of clips it still has
+export function applyTrimClips(timeline: StudioTimeline, clips: TrimClip[]): StudioTimeline {
+  const transitions = new Map(timeline.video.map(clip => [clip.id, clip.transition]));
+  return {
+    ...timeline,
+    video: clips.map(clip => ({
+      id: clip.id,
+      startTime: clip.startTime,
+      endTime: clip.endTime,
+      isActive: clip.isActive,
+      transition: transitions.get(clip.id) ?? null,
+    })),
+  };
+}
+
+export function setClipTransition(timeline: StudioTimeline, clipId: string, transition: ClipTransition | null): StudioTimeline {
+  return {
+    ...timeline,
+    video: timeline.video.map(clip => (clip.id === clipId ? { ...clip, transition } : clip)),
+  };
+}
+
+// The clips that actually play, with where each lands on the output clock. An empty
+// video track plays the whole source once.
+export function clipOutputRanges(timeline: StudioTimeline, sourceDuration: number, speed: number) {
+  const clips = timeline.video.length > 0
+    ? timeline.video
+    : [{ id: 'main', startTime: 0, endTime: sourceDuration, isActive: true, transition: null }];
+
+  let offset = 0;
+  return clips
+    .filter(clip => clip.endTime - clip.startTime >= MIN_CLIP_SECONDS)
+    .map(clip => {
+      const length = (clip.endTime - clip.startTime) / speed;
+      const range = { clip, start: offset, end: offset + length };
+      offset += length;
+      return range;
+    });
+}
+
+export const timelineDuration = (timeline: StudioTimeline, sourceDuration: number, speed: number) =>
+  clipOutputRanges(timeline, sourceDuration, speed).reduce((total, range) => total + (range.end - range.start), 0);
+
+// Output time at which a moment of the source plays, taking the first clip that has it
+export function sourceToOutputTime(timeline: StudioTimeline, sourceDuration: number, speed: number, sourceTime: number) {
+  const range = clipOutputRanges(timeline, sourceDuration, speed)
+    .find(({ clip }) => sourceTime >= clip.startTime && sourceTime <= clip.endTime);
+  return range ? range.start + (sourceTime - range.clip.startTime) / speed : null;
+}
+
+// ─── Beats ──────────────────────────────────────────────────────
+
+// Beats of every music item on the output clock, in order
+export function timelineBeats(timeline: StudioTimeline): number[] {
+  return timeline.music
+    .flatMap(item => item.beats.filter(beat => beat < item.duration).map(beat => item.start + beat))
+    .sort((a, b) => a - b);
+}
+
+export function nearestBeat(time: number, beats: number[], tolerance = DEFAULT_SNAP_TOLERANCE): number | null {
+  let nearest: number | null = null;
+  for (const beat of beats) {
+    if (Math.abs(beat - time) <= tolerance && (nearest === null || Math.abs(beat - time) < Math.abs(nearest - time))) {
+      nearest = beat;
+    }
+  }
+  return nearest;
+}
+
+export const snapTime = (time: number, beats: number[], tolerance = DEFAULT_SNAP_TOLERANCE) =>
+  nearestBeat(time, beats, tolerance) ?? time;
+
+// Moves each cut between clips onto the nearest beat by trimming or extending the end of
+// the clip before it. Cuts are handled in order, so an earlier move carries into the
+// later cuts before they're snapped.
+export function snapCutsToBeats(
+  timeline: StudioTimeline,
+  sourceDuration: number,
+  speed: number,
+  tolerance = DEFAULT_SNAP_TOLERANCE
+): { timeline: StudioTimeline; snapped: number } {
+  const beats = timelineBeats(timeline);
+  if (beats.length === 0 || timeline.video.length < 2) return { timeline, snapped: 0 };
+
+  let snapped = 0;
+  let offset = 0;
+  const video = timeline.video.map((clip, index) => {
+    const length = (clip.endTime - clip.startTime) / speed;
+    if (index === timeline.video.length - 1) return clip;
+
+    const cut = offset + length;
+    const beat = nearestBeat(cut, beats, tolerance);
+    let endTime = clip.endTime;
+    if (beat !== null && beat !== cut) {
+      endTime = clamp(clip.endTime + (beat - cut) * speed, clip.startTime + MIN_CLIP_SECONDS, sourceDuration);
+      if (endTime !== clip.endTime) snapped += 1;
+    }
+    offset += (endTime - clip.startTime) / speed;
+    return endTime === clip.endTime ? clip : { ...clip, endTime };
+  });
+
+  return { timeline: snapped > 0 ? { ...timeline, video } : timeline, snapped };
+}
+
+// ─── Overlay, voiceover and music tracks ────────────────────────
+
+export function setOverlayTiming(timeline: StudioTimeline, textId: string, start: number, end: number): StudioTimeline {
+  const existing = timeline.overlay.find(item => item.textId === textId);
+  const timing = { start: Math.max(0, Math.min(start, end)), end: Math.max(start, end) };
+  return {
+    ...timeline,
+    overlay: existing
+      ? timeline.overlay.map(item => (item === existing ? { ...item, ...timing } : item))
+      : [...timeline.overlay, { id: crypto.randomUUID(), textId, ...timing }],
+  };
+}
+
+export function addAudioItem(timeline: StudioTimeline, track: 'voiceover' | 'music', item: TimelineAudio): StudioTimeline {
+  return { ...timeline, [track]: [...timeline[track], { ...item, start: Math.max(0, item.start) }] };
+}
+
+// Music is one bed under the whole video; picking another track replaces it
+export const setMusic = (timeline: StudioTimeline, item: TimelineAudio | null): StudioTimeline =>
+  ({ ...timeline, music: item ? [{ ...item, start: Math.max(0, item.start) }] : [] });
+
+// A library track as the music bed, carrying the beats listed with it until they're measured
+export const musicFromLibraryTrack = (
+  track: Pick<AudioTrack, 'id' | 'name' | 'previewUrl' | 'duration' | 'beatPoints'>
+): TimelineAudio => ({
+  id: track.id,
+  name: track.name,
+  url: track.previewUrl ?? null,
+  start: 0,
+  duration: track.duration,
+  volume: 0.8,
+  beats: track.beatPoints,
+});
+
+export const setAudioBeats = (timeline: StudioTimeline, track: 'voiceover' | 'music', id: string, beats: number[]): StudioTimeline =>
+  ({ ...timeline, [track]: timeline[track].map(item => (item.id === id ? { ...item, beats } : item)) });
+
+export function moveTimelineItem(timeline: StudioTimeline, track: 'overlay' | 'voiceover' | 'music', id: string, start: number): StudioTimeline {
+  const moved = Math.max(0, start);
+  if (track === 'overlay') {
+    return {
+      ...timeline,
+      overlay: timeline.overlay.map(item => (item.id === id ? { ...item, start: moved, end: moved + (item.end - item.start) } : item)),
+    };
+  }
+  return { ...timeline, [track]: timeline[track].map(item => (item.id === id ? { ...item, start: moved } : item)) };
+}
+
+export function removeTimelineItem(timeline: StudioTimeline, track: 'overlay' | 'voiceover' | 'music', id: string): StudioTimeline {
+  if (track === 'overlay') return { ...timeline, overlay: timeline.overlay.filter(item => item.id !== id) };
+  return { ...timeline, [track]: timeline[track].filter(item => item.id !== id) };
+}
+
+// ─── Ducking ────────────────────────────────────────────────────
+
+// Output ranges with a voiceover playing, overlapping ones merged
+export function voiceoverRanges(timeline: StudioTimeline) {
+  const ranges = timeline.voiceover
+    .filter(item => item.url && item.duration > 0)
+    .map(item => ({ start: item.start, end: item.start + item.duration }))
+    .sort((a, b) => a.start - b.start);
+
+  const merged: { start: number; end: number }[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+// Gain envelope for music: down to the ducking level through each voiceover, ramping
+// over the attack before it and the release after. Ranges closer together than a ramp
+// stay ducked between them rather than bobbing up.
+export function duckingEnvelope(timeline: StudioTimeline): GainPoint[] {
+  const { enabled, level, attack, release } = timeline.ducking;
+  if (!enabled) return [];
+
+  const points: GainPoint[] = [];
+  const ranges = voiceoverRanges(timeline);
+  for (let i = 0; i < ranges.length; i++) {
+    const { start, end } = ranges[i];
+    const next = ranges[i + 1];
+    const last = points[points.length - 1];
+
+    const rampFrom = Math.max(0, start - attack);
+    if ((!last || last.gain === 1) && rampFrom < start) points.push({ time: rampFrom, gain: 1 });
+    points.push({ time: start, gain: level }, { time: end, gain: level });
+    if (!next || next.start - attack > end + release) points.push({ time: end + release, gain: 1 });
+  }
+  return points;
+}
+
+// Gain at a moment on an envelope, linear between points and flat past either end
+export function gainAt(envelope: GainPoint[], time: number): number {
+  if (envelope.length === 0) return 1;
+  if (time <= envelope[0].time) return envelope[0].gain;
+  for (let i = 1; i < envelope.length; i++) {
+    const a = envelope[i - 1];
+    const b = envelope[i];
+    if (time <= b.time) {
+      const span = b.time - a.time;
+      return span > 0 ? a.gain + ((time - a.time) / span) * (b.gain - a.gain) : b.gain;
+    }
+  }
+  return envelope[envelope.length - 1].gain;
+}
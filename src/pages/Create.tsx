@@ -1,5 +1,5 @@
 import React, { useState, useEffect, forwardRef, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { ArrowLeft, Image, Video, Megaphone, Target, X, MapPin, Hash, Link as LinkIcon, DollarSign, Clapperboard, Wand2, Clock, Calendar, Save, RotateCcw, Share2, Camera } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -12,7 +12,10 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { ContentUpload } from '@/components/ContentUpload';
+import { RecentStudioProjects } from '@/components/studio/RecentStudioProjects';
 import { useDraftSave } from '@/hooks/useDraftSave';
+import { getPendingStudioExport, clearPendingStudioExport } from '@/hooks/useStudioExport';
+import { publishLockedSegments } from '@/lib/lockedSegments';
 import { format, formatDistanceToNow } from 'date-fns';
 import { TikTokCamera } from '@/components/TikTokCamera';
 
@@ -42,8 +45,16 @@ const contentTypes: { id: ContentType; label: string; icon: React.ReactNode; des
 
 const Create = forwardRef<HTMLDivElement>((_, ref) => {
   const navigate = useNavigate();
+  const location = useLocation();
   const { user } = useAuth();
-  const [selectedType, setSelectedType] = useState<ContentType | null>(null);
+  // A video exported from the Studio opens straight into a post with it uploading
+  const [studioExport] = useState(() =>
+    (location.state as { fromStudio?: boolean } | null)?.fromStudio ? getPendingStudioExport() : null
+  );
+  const studioFile = studioExport?.file ?? null;
+  // Where the Studio export landed, to tell it apart from media swapped in afterwards
+  const [studioMediaUrl, setStudioMediaUrl] = useState<string | null>(null);
+  const [selectedType, setSelectedType] = useState<ContentType | null>(studioFile ? 'post' : null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [enableSchedule, setEnableSchedule] = useState(false);
   const [scheduleDate, setScheduleDate] = useState('');
@@ -107,7 +118,7 @@ const Create = forwardRef<HTMLDivElement>((_, ref) => {
     tags: [],
     tagInput: '',
     mediaUrl: null,
-    mediaType: 'image',
+    mediaType: studioFile ? 'video' : 'image',
     locationAddress: '',
     callToAction: '',
     externalLink: '',
@@ -194,6 +205,8 @@ const Create = forwardRef<HTMLDivElement>((_, ref) => {
 
   const handleUploadComplete = (url: string, type: 'image' | 'video') => {
     setForm(prev => ({ ...prev, mediaUrl: url, mediaType: type }));
+    if (getPendingStudioExport()) setStudioMediaUrl(url);
+    clearPendingStudioExport();
   };
 
   const handleSaveDraft = async () => {
@@ -256,7 +269,7 @@ const Create = forwardRef<HTMLDivElement>((_, ref) => {
         publishedAt = null;
       }
 
-      const { error } = await supabase.from('user_content').insert({
+      const { data: content, error } = await supabase.from('user_content').insert({
         user_id: user.id,
         content_type: selectedType,
         title: form.title || null,
@@ -274,10 +287,23 @@ const Create = forwardRef<HTMLDivElement>((_, ref) => {
         external_link: (selectedType === 'promotion' || selectedType === 'campaign') ? (form.externalLink || null) : null,
         budget: (selectedType === 'promotion' || selectedType === 'campaign') && form.budget ? parseInt(form.budget) : null,
         target_audience: (selectedType === 'promotion' || selectedType === 'campaign') ? (form.targetAudience || null) : null,
-      });
+      }).select('id').single();
 
       if (error) throw error;
 
+      // Segments locked in the Studio only stay locked with their clean cuts in private
+      // storage; the post itself is already up, so a failure here is reported, not fatal
+      if (studioExport && studioExport.unlockClips.length > 0 && form.mediaUrl && form.mediaUrl === studioMediaUrl) {
+        try {
+          await publishLockedSegments(content.id, user.id, studioExport.edl, studioExport.unlockClips);
+        } catch (lockError) {
+          console.error('Error publishing locked segments:', lockError);
+          toast.error('Locked segments could not be set up', {
+            description: 'They stay blurred for everyone until you post again.',
+          });
+        }
+      }
+
       clearDraft();
       
       if (status === 'scheduled') {
@@ -356,6 +382,8 @@ const Create = forwardRef<HTMLDivElement>((_, ref) => {
               ))}
             </div>
 
+            <RecentStudioProjects />
+
             {/* Import from Social Media */}
             <div className="p-4 rounded-2xl bg-muted/50 border border-border">
               <div className="flex items-start gap-3">
@@ -430,6 +458,7 @@ const Create = forwardRef<HTMLDivElement>((_, ref) => {
               mediaType={form.mediaType}
               existingUrl={form.mediaUrl || undefined}
               onRemove={() => setForm(prev => ({ ...prev, mediaUrl: null }))}
+              initialFile={studioFile}
             />
 
             {/* Media Type Selection */}
@@ -5,6 +5,7 @@ import { CoinSlideAnimation } from '@/components/CoinSlideAnimation';
 import { WalletScreen } from '@/components/WalletScreen';
 import { ProfileScreen } from '@/components/ProfileScreen';
 import { DiscoveryMap } from '@/components/DiscoveryMap';
+import { GeofenceSimulator } from '@/components/GeofenceSimulator';
 import { PersonalizedFeed } from '@/components/PersonalizedFeed';
 import { UnifiedContentFeed } from '@/components/UnifiedContentFeed';
 import { MessagesScreen } from '@/components/MessagesScreen';
@@ -34,6 +35,7 @@ import { rewardsService } from '@/services/rewards.service';
 import { supabase } from '@/integrations/supabase/client';
 import { usePromoRoute, defaultRouteFilters } from '@/hooks/usePromoRoute';
 import { useNearbyPromotions } from '@/hooks/useNearbyPromotions';
+import { useGeofenceCheckIns } from '@/hooks/useGeofenceCheckIns';
 import { useSavedVideos } from '@/hooks/useSavedVideos';
 import { SavedVideosGallery } from '@/components/SavedVideosGallery';
 import { toast } from 'sonner';
@@ -224,6 +226,9 @@ const Index = () => {
   
   // Nearby promotions with route suggestion detection
   const { routeSuggestion, dismissRouteSuggestion } = useNearbyPromotions(true);
+
+  // Arrival detection and check-in prompts for the promotions around the user
+  const geofences = useGeofenceCheckIns(true);
   
   // Show route suggestion toast when cluster detected
   const { suggestRoute } = promoRoute;
@@ -758,6 +763,9 @@ const Index = () => {
           promoRoute={promoRoute}
         />
 
+        {/* Geofence simulator (development builds only) */}
+        <GeofenceSimulator geofences={geofences} />
+
         {/* Personalized AI Feed */}
         {showFeed && (
           <div className="fixed inset-0 z-40 bg-background">
@@ -9,16 +9,19 @@ import {
   Cpu, Brain, Clapperboard, Timer, Gauge, Target, Upload, X, Plus
 } from 'lucide-react';
 import { VideoTimeline, TrimClip } from '@/components/studio/VideoTimeline';
+import { TimelineTracks } from '@/components/studio/TimelineTracks';
 import { AIVideoEditor, AIStyle, AIEditOptions, aiStyles } from '@/components/studio/AIVideoEditor';
 import { VideoPreviewFilters } from '@/components/studio/VideoPreviewFilters';
 import { ComparisonSlider } from '@/components/studio/ComparisonSlider';
-import { AudioLibrary, AudioTrack } from '@/components/studio/AudioLibrary';
-import { AISoundGenerator, GeneratedAudio } from '@/components/studio/AISoundGenerator';
+import { AudioLibrary } from '@/components/studio/AudioLibrary';
+import { AISoundGenerator } from '@/components/studio/AISoundGenerator';
 import { AIVoiceoverGenerator } from '@/components/studio/AIVoiceoverGenerator';
 import { AISubtitleGenerator } from '@/components/studio/AISubtitleGenerator';
+import { TextOverlayEditor } from '@/components/studio/TextOverlayEditor';
 import { FacetuneBeautyEditor } from '@/components/studio/FacetuneBeautyEditor';
-import { MediaBlurEditor, BlurSegment } from '@/components/studio/MediaBlurEditor';
+import { MediaBlurEditor } from '@/components/studio/MediaBlurEditor';
 import { CAFConfigPanel } from '@/components/studio/CAFConfigPanel';
+import { StudioExportDialog } from '@/components/studio/StudioExportDialog';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
@@ -27,6 +30,19 @@ import { Switch } from '@/components/ui/switch';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useStudioMedia } from '@/hooks/useStudioMedia';
+import { useStudioExport, handOffStudioExport } from '@/hooks/useStudioExport';
+import { useStudioProject } from '@/hooks/useStudioProject';
+import { buildEditDecisionList } from '@/lib/studioEdl';
+import {
+  addAudioItem,
+  applyTrimClips,
+  musicFromLibraryTrack,
+  setAudioBeats,
+  setMusic,
+  sourceToOutputTime,
+} from '@/lib/studioTimeline';
+import { readAudioDuration } from '@/lib/audioAnalysis';
+import type { AIHighlight, StudioProjectEdit } from '@/lib/studioProject';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { PublishToFeedButton } from '@/components/PublishToFeedButton';
@@ -66,15 +82,6 @@ interface StyleTemplate {
   description: string;
 }
 
-interface AIHighlight {
-  id: string;
-  startTime: number;
-  endTime: number;
-  score: number;
-  reason: string;
-  selected: boolean;
-}
-
 const filters: Filter[] = [
   { id: 'none', name: 'Original', preview: 'linear-gradient(135deg, #333 0%, #666 100%)', isPremium: false, category: 'basic' },
   { id: 'bright', name: 'Bright', preview: 'linear-gradient(135deg, #fff5e6 0%, #ffd699 100%)', isPremium: false, category: 'basic' },
@@ -155,6 +162,7 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
   // Check for imported media ID from URL params
   const searchParams = new URLSearchParams(location.search);
   const importedMediaId = searchParams.get('importedMediaId');
+  const projectIdParam = searchParams.get('projectId');
   
   // Media upload hook
   const { 
@@ -163,8 +171,27 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
     isUploading, 
     addMedia, 
     removeMedia, 
-    selectMedia 
+    selectMedia,
+    restoreMedia,
   } = useStudioMedia();
+
+  // Edits live in the project document, which autosaves and keeps the undo history
+  const {
+    project,
+    edit,
+    status: projectStatus,
+    error: projectError,
+    savedAt,
+    updateEdit,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    setMedia: setProjectMedia,
+  } = useStudioProject(projectIdParam);
+
+  const editSetter = <K extends keyof StudioProjectEdit>(field: K) =>
+    (value: React.SetStateAction<StudioProjectEdit[K]>) => updateEdit(field, value);
   
   // Load imported media if ID is provided
   useEffect(() => {
@@ -228,18 +255,24 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
   const [aiAnalyzing, setAiAnalyzing] = useState(false);
   
   // Filter state
-  const [selectedFilter, setSelectedFilter] = useState('none');
-  const [filterIntensity, setFilterIntensity] = useState([100]);
+  const selectedFilter = edit.filterId;
+  const setSelectedFilter = editSetter('filterId');
+  const filterIntensity = [edit.filterIntensity];
+  const setFilterIntensity = (value: number[]) => updateEdit('filterIntensity', value[0]);
   
   // Beauty state
-  const [beautyValues, setBeautyValues] = useState<Record<string, number>>({});
+  const beautyValues = edit.beautyValues;
+  const setBeautyValues = editSetter('beautyValues');
   
   // Effects state
-  const [selectedEffects, setSelectedEffects] = useState<string[]>([]);
+  const selectedEffects = edit.effects;
+  const setSelectedEffects = editSetter('effects');
   
   // AI state
-  const [aiHighlights, setAiHighlights] = useState<AIHighlight[]>([]);
-  const [selectedAIStyle, setSelectedAIStyle] = useState<string | null>(null);
+  const aiHighlights = edit.aiHighlights;
+  const setAiHighlights = editSetter('aiHighlights');
+  const selectedAIStyle = edit.aiStyleId;
+  const setSelectedAIStyle = editSetter('aiStyleId');
   const [referenceVideos, setReferenceVideos] = useState<string[]>([]);
   const [aiSuggestions, setAiSuggestions] = useState<string[]>([]);
   
@@ -247,26 +280,61 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
   const [isComparing, setIsComparing] = useState(false);
   
   // Audio state
-  const [selectedAudioTrack, setSelectedAudioTrack] = useState<AudioTrack | null>(null);
-  const [beatSyncPoints, setBeatSyncPoints] = useState<number[]>([]);
-  const [generatedAudios, setGeneratedAudios] = useState<GeneratedAudio[]>([]);
+  const generatedAudios = edit.generatedAudios;
+  const setGeneratedAudios = editSetter('generatedAudios');
   
-  // Trim state
-  const [trimClips, setTrimClips] = useState<TrimClip[]>([]);
+  // Timeline state: video clips, text overlays, voiceovers and music
+  const timeline = edit.timeline;
+  const setTimeline = editSetter('timeline');
+
+  // Text state
+  const textElements = edit.textElements;
+  const setTextElements = editSetter('textElements');
+  const subtitles = edit.subtitles;
+  const setSubtitles = editSetter('subtitles');
   
   // Blur/CAF state
-  const [blurSegments, setBlurSegments] = useState<BlurSegment[]>([]);
-  const [autoShowProfiles, setAutoShowProfiles] = useState<any[]>([]);
+  const blurSegments = edit.blurSegments;
+  const setBlurSegments = editSetter('blurSegments');
+  const autoShowProfiles = edit.autoShowProfiles;
+  const setAutoShowProfiles = editSetter('autoShowProfiles');
   
   // Playback
-  const [speed, setSpeed] = useState([1]);
-  
-  // History for undo/redo
-  const [history, setHistory] = useState<any[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
+  const speed = [edit.speed];
+  const setSpeed = (value: number[]) => updateEdit('speed', value[0]);
+
+  // Export
+  const studioExport = useStudioExport();
+
+  // Reopened projects bring their media back from storage
+  useEffect(() => {
+    if (projectStatus === 'missing') {
+      toast.error('Project not found', { description: 'Starting a new project instead.' });
+    } else if (projectStatus === 'error' && projectError) {
+      toast.error('Could not open project', { description: projectError });
+    } else if (projectStatus === 'ready' && project.media && !currentMedia) {
+      restoreMedia(project.media);
+    }
+  // Only when a load finishes, not on every edit
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectStatus]);
 
-  const canUndo = historyIndex > 0;
-  const canRedo = historyIndex < history.length - 1;
+  // Once media is in storage the project can be saved; keep its id in the URL so a
+  // reload reopens it
+  useEffect(() => {
+    if (projectStatus === 'loading' || !currentMedia || currentMedia.isUploading || currentMedia.url.startsWith('blob:')) return;
+    setProjectMedia({
+      type: currentMedia.type,
+      url: currentMedia.url,
+      path: currentMedia.storagePath ?? project.media?.path ?? null,
+      name: currentMedia.file?.name ?? project.media?.name ?? null,
+    });
+    if (projectIdParam !== project.id) {
+      const params = new URLSearchParams(location.search);
+      params.set('projectId', project.id);
+      navigate({ search: params.toString() }, { replace: true });
+    }
+  }, [currentMedia, projectStatus, project.id, project.media?.name, project.media?.path, projectIdParam, location.search, navigate, setProjectMedia]);
 
   const handleBack = () => {
     navigate('/create');
@@ -322,14 +390,14 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
 
   const handleUndo = () => {
     if (canUndo) {
-      setHistoryIndex(prev => prev - 1);
+      undo();
       toast.success('Undone');
     }
   };
 
   const handleRedo = () => {
     if (canRedo) {
-      setHistoryIndex(prev => prev + 1);
+      redo();
       toast.success('Redone');
     }
   };
@@ -460,7 +528,7 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
   };
 
   const handleTrimChange = (clips: TrimClip[]) => {
-    setTrimClips(clips);
+    setTimeline(prev => applyTrimClips(prev, clips));
     toast.success('Trim updated');
   };
 
@@ -482,12 +550,64 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
   };
 
   const handleExport = () => {
-    toast.success('Exporting video...', {
-      description: 'Your creation will be ready in a moment.',
+    if (!currentMedia || currentMedia.isUploading) {
+      toast.error('Please upload a video first');
+      return;
+    }
+
+    const edl = buildEditDecisionList({
+      media: { type: currentMedia.type, url: currentMedia.url, file: currentMedia.file },
+      duration,
+      timeline,
+      speed: speed[0],
+      filterId: selectedFilter,
+      filterGradient: filters.find(f => f.id === selectedFilter)?.preview ?? null,
+      aiStyleId: selectedAIStyle,
+      filterIntensity: filterIntensity[0],
+      beautyValues,
+      effects: selectedEffects,
+      blurSegments,
+      textElements,
+      subtitles,
+      generatedAudios,
+    });
+    videoRef.current?.pause();
+    setIsPlaying(false);
+    studioExport.startExport(edl);
+  };
+
+  const handlePostExport = () => {
+    if (!studioExport.result) return;
+    const { file, edl, unlockClips } = studioExport.result;
+    handOffStudioExport({ file, edl, unlockClips });
+    navigate('/create', { state: { fromStudio: true } });
+  };
+
+  // Voiceovers go on their own track at the playhead; music ducks under them on export
+  const handleVoiceoverGenerated = async (voiceover: { id: string; voiceName: string; audioUrl: string }) => {
+    let voiceDuration = 0;
+    try {
+      voiceDuration = await readAudioDuration(voiceover.audioUrl);
+    } catch (error) {
+      console.error('Could not read voiceover length:', error);
+    }
+    if (voiceDuration <= 0) {
+      toast.error('Could not add voiceover to the timeline');
+      return;
+    }
+
+    setTimeline(prev => addAudioItem(prev, 'voiceover', {
+      id: voiceover.id,
+      name: `${voiceover.voiceName} voiceover`,
+      url: voiceover.audioUrl,
+      start: sourceToOutputTime(prev, duration, speed[0], currentTime) ?? 0,
+      duration: voiceDuration,
+      volume: 1,
+      beats: [],
+    }));
+    toast.success('Voiceover ready', {
+      description: `${voiceover.voiceName} voice added to timeline`
     });
-    setTimeout(() => {
-      navigate('/create');
-    }, 1500);
   };
 
   const toggleHighlight = (id: string) => {
@@ -696,21 +816,18 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
             <TabsContent value="library">
               <AudioLibrary
                 isPremium={isPremium}
-                videoDuration={duration}
-                aiHighlights={aiHighlights.map(h => ({ startTime: h.startTime, endTime: h.endTime }))}
                 onSelectTrack={(track) => {
-                  setSelectedAudioTrack(track);
+                  setTimeline(prev => setMusic(prev, musicFromLibraryTrack(track)));
                   toast.success(`Added: ${track.name}`, { 
                     description: `${track.bpm} BPM • ${track.duration}s` 
                   });
                 }}
-                onSyncBeat={(beats) => {
-                  setBeatSyncPoints(beats);
-                  toast.success('Beat sync applied!', {
-                    description: `${beats.length} beat points synced with your video.`
-                  });
+                onSyncBeat={(track, beats) => {
+                  setTimeline(prev => prev.music.some(item => item.id === track.id)
+                    ? setAudioBeats(prev, 'music', track.id, beats)
+                    : setMusic(prev, { ...musicFromLibraryTrack(track), beats }));
                 }}
-                selectedTrackId={selectedAudioTrack?.id}
+                selectedTrackId={timeline.music[0]?.id}
               />
             </TabsContent>
             
@@ -727,11 +844,7 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
             
             <TabsContent value="voiceover">
               <AIVoiceoverGenerator
-                onVoiceoverGenerated={(voiceover) => {
-                  toast.success('Voiceover ready', {
-                    description: `${voiceover.voiceName} voice added to timeline`
-                  });
-                }}
+                onVoiceoverGenerated={handleVoiceoverGenerated}
               />
             </TabsContent>
           </Tabs>
@@ -753,6 +866,7 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
               <AISubtitleGenerator
                 videoRef={videoRef}
                 onSubtitlesGenerated={(subs) => {
+                  setSubtitles(subs);
                   toast.success('Subtitles ready', {
                     description: `${subs.length} segments generated`
                   });
@@ -761,12 +875,17 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
             </TabsContent>
             
             <TabsContent value="captions">
-              <div className="space-y-4">
-                <h4 className="text-sm font-medium">Add Text Overlay</h4>
-                <p className="text-xs text-muted-foreground">
-                  Text overlay editor coming soon. Use AI Subtitles for automatic transcription.
-                </p>
-              </div>
+              <TextOverlayEditor
+                mediaUrl={currentMedia?.url}
+                mediaType={currentMedia?.type}
+                initialElements={textElements}
+                onSave={(elements) => {
+                  setTextElements(elements);
+                  toast.success('Text overlays saved', {
+                    description: `${elements.length} overlay${elements.length === 1 ? '' : 's'} will be included in the export`
+                  });
+                }}
+              />
             </TabsContent>
           </Tabs>
         );
@@ -815,6 +934,9 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
           <h1 className="text-lg font-semibold flex items-center gap-2">
             <Clapperboard className="w-5 h-5 text-primary" />
             Studio
+            {savedAt && (
+              <span className="text-xs font-normal text-muted-foreground">· Saved</span>
+            )}
           </h1>
           <div className="flex items-center gap-2">
             <Button
@@ -1096,8 +1218,19 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
             onTimeChange={handleTimeChange}
             onPlayPause={togglePlayPause}
             onTrimChange={handleTrimChange}
+            clips={timeline.video}
             highlights={aiHighlights}
           />
+          <div className="mt-3">
+            <TimelineTracks
+              timeline={timeline}
+              sourceDuration={duration}
+              speed={speed[0]}
+              currentTime={currentTime}
+              textElements={textElements}
+              onChange={setTimeline}
+            />
+          </div>
         </div>
       )}
 
@@ -1259,11 +1392,22 @@ const Studio = forwardRef<HTMLDivElement>((_, ref) => {
             className="flex-1"
           />
         ) : (
-          <Button className="flex-1" onClick={handleExport}>
+          <Button className="flex-1" onClick={handleExport} disabled={studioExport.status === 'rendering'}>
             <Download className="w-4 h-4 mr-2" /> Export
           </Button>
         )}
       </div>
+
+      <StudioExportDialog
+        status={studioExport.status}
+        progress={studioExport.progress}
+        error={studioExport.error}
+        result={studioExport.result}
+        onCancel={studioExport.cancelExport}
+        onClose={studioExport.reset}
+        onRetry={handleExport}
+        onPost={handlePostExport}
+      />
     </div>
   );
 });
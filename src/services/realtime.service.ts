@@ -1,8 +1,11 @@
 // Real-time Service for Supabase Subscriptions
 import { supabase } from '@/integrations/supabase/client';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
 
 type SubscriptionCallback<T> = (payload: T) => void;
+type CampaignRow = Database['public']['Tables']['campaigns']['Row'];
+type PromotionActivityRow = Database['public']['Tables']['promotion_activity']['Row'];
 
 class RealtimeService {
   private channels: Map<string, RealtimeChannel> = new Map();
@@ -94,6 +97,64 @@ class RealtimeService {
     return () => this.unsubscribe(channelName);
   }
 
+  // Subscribe to a business's campaign spend and status changes
+  subscribeToCampaigns(businessId: string, onUpdate: SubscriptionCallback<RealtimePostgresChangesPayload<CampaignRow>>) {
+    const channelName = `campaigns:${businessId}`;
+    
+    if (this.channels.has(channelName)) {
+      return () => this.unsubscribe(channelName);
+    }
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'campaigns',
+          filter: `business_id=eq.${businessId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<CampaignRow>) => {
+          console.log('[Realtime] Campaign update:', payload);
+          onUpdate(payload);
+        }
+      )
+      .subscribe();
+
+    this.channels.set(channelName, channel);
+    return () => this.unsubscribe(channelName);
+  }
+
+  // Subscribe to check-ins, paid views and attention on a business's promotions
+  subscribeToPromotionActivity(businessId: string, onUpdate: SubscriptionCallback<RealtimePostgresChangesPayload<PromotionActivityRow>>) {
+    const channelName = `promotion-activity:${businessId}`;
+    
+    if (this.channels.has(channelName)) {
+      return () => this.unsubscribe(channelName);
+    }
+
+    const channel = supabase
+      .channel(channelName)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'promotion_activity',
+          filter: `business_id=eq.${businessId}`,
+        },
+        (payload: RealtimePostgresChangesPayload<PromotionActivityRow>) => {
+          console.log('[Realtime] Promotion activity:', payload);
+          onUpdate(payload);
+        }
+      )
+      .subscribe();
+
+    this.channels.set(channelName, channel);
+    return () => this.unsubscribe(channelName);
+  }
+
   // Subscribe to content feed updates
   subscribeToFeed(onUpdate: SubscriptionCallback<any>) {
     const channelName = 'feed:global';
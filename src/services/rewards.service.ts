@@ -12,6 +12,22 @@ export interface WalletTransaction {
   timestamp: Date;
 }
 
+// Ledger posting as seen from the user's wallet
+export type LedgerEntryType = 'opening_balance' | 'reward' | 'checkin' | 'tip' | 'gift' | 'conversion' | 'payout' | 'adjustment' | 'campaign_funding';
+
+export interface LedgerEntry {
+  id: string;
+  journalEntryId: string;
+  entryType: LedgerEntryType;
+  direction: 'debit' | 'credit';
+  amount: number;
+  coinType: 'vicoin' | 'icoin';
+  balanceAfter: number;
+  description: string;
+  referenceId: string | null;
+  timestamp: Date;
+}
+
 // Reward types
 export type RewardType = 'promo_view' | 'task_complete' | 'referral' | 'milestone' | 'daily_bonus';
 export type CoinType = 'vicoin' | 'icoin';
@@ -102,24 +118,50 @@ class RewardsService {
   // Get user's pending rewards
   async getPendingRewards(userId: string): Promise<Reward[]> {
     try {
-      console.log('[Rewards] Getting pending rewards for:', userId);
-      // Will be implemented when rewards queue table exists
-      return [];
+      const { data, error } = await supabase
+        .from('pending_rewards')
+        .select('id, user_id, campaign_id, type, amount, status, earned_at, claimed_at, expires_at, claimable_at')
+        .eq('user_id', userId)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(row => ({
+        id: row.id,
+        user_id: row.user_id,
+        campaign_id: row.campaign_id,
+        type: row.type as Reward['type'],
+        amount: row.amount,
+        status: row.status as Reward['status'],
+        earned_at: row.earned_at,
+        claimed_at: row.claimed_at ?? undefined,
+        expires_at: row.expires_at,
+        claimable_at: row.claimable_at,
+      }));
     } catch (error) {
       console.error('[Rewards] Get pending error:', error);
       return [];
     }
   }
 
-  // Claim a reward
-  async claimReward(rewardId: string): Promise<{ success: boolean; error?: string }> {
+  // Claim a reward; claiming twice returns the original payout
+  async claimReward(rewardId: string): Promise<{ success: boolean; amount?: number; newBalance?: number; error?: string }> {
     try {
       const { data, error } = await supabase.functions.invoke('claim-reward', {
         body: { rewardId },
       });
 
-      if (error) throw error;
-      return { success: true };
+      if (error) {
+        const ctx = (error as { context?: Response }).context;
+        const parsed = ctx && typeof ctx.json === 'function'
+          ? await ctx.clone().json().catch(() => null)
+          : null;
+        return { success: false, error: parsed?.error || 'Failed to claim reward' };
+      }
+
+      return { success: true, amount: data.amount, newBalance: data.newBalance ?? undefined };
     } catch (error) {
       console.error('[Rewards] Claim error:', error);
       return { success: false, error: 'Failed to claim reward' };
@@ -165,6 +207,40 @@ class RewardsService {
     }
   }
 
+  // Get the user's ledger postings (credits and debits to their wallets), newest first
+  async getLedgerEntries(
+    userId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<LedgerEntry[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ledger_postings')
+        .select('id, journal_entry_id, direction, amount, coin_type, balance_after, created_at, ledger_journal_entries(entry_type, description, reference_id)')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .range(offset, offset + limit - 1);
+
+      if (error) throw error;
+
+      return (data || []).map((posting): LedgerEntry => ({
+        id: posting.id,
+        journalEntryId: posting.journal_entry_id,
+        entryType: (posting.ledger_journal_entries?.entry_type || 'adjustment') as LedgerEntryType,
+        direction: posting.direction as LedgerEntry['direction'],
+        amount: posting.amount,
+        coinType: posting.coin_type as 'vicoin' | 'icoin',
+        balanceAfter: posting.balance_after,
+        description: posting.ledger_journal_entries?.description || '',
+        referenceId: posting.ledger_journal_entries?.reference_id ?? null,
+        timestamp: new Date(posting.created_at),
+      }));
+    } catch (error) {
+      console.error('[Rewards] Get ledger entries error:', error);
+      return [];
+    }
+  }
+
   // Get daily limits status
   async getDailyLimits(userId: string): Promise<DailyLimits | null> {
     try {
@@ -9,7 +9,8 @@ export type AbuseType =
   | 'attention_fraud'
   | 'rate_limit'
   | 'suspicious_pattern'
-  | 'geo_mismatch';
+  | 'geo_mismatch'
+  | 'location_spoofing';
 
 interface DeviceInfo {
   userAgent: string;
@@ -54,6 +54,9 @@ export interface Campaign {
   budget: number;
   spent: number;
   status: 'active' | 'paused' | 'completed' | 'expired';
+  pause_reason: 'manual' | 'budget_exhausted' | 'unfunded' | null;
+  pacing: 'even' | 'asap';
+  promotion_id: string | null;
   start_date: string;
   end_date: string;
   location?: GeoLocation;
@@ -63,13 +66,14 @@ export interface Campaign {
 export interface Reward {
   id: string;
   user_id: string;
-  campaign_id: string;
+  campaign_id: string | null;
   type: 'vicoin' | 'icoin' | 'discount' | 'product';
   amount: number;
   status: 'pending' | 'claimed' | 'expired';
   earned_at: string;
   claimed_at?: string;
   expires_at: string;
+  claimable_at?: string | null; // null while held for review
 }
 
 // Transaction Types
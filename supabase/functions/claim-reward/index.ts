@@ -0,0 +1,127 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ClaimRewardSchema = z.object({
+  rewardId: z.string().uuid('Invalid reward ID'),
+});
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get user from auth header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized', success: false }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error('[ClaimReward] Auth error:', authError);
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized', success: false }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const parseResult = ClaimRewardSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      console.warn('[ClaimReward] Validation failed:', parseResult.error.flatten());
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors, success: false }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { rewardId } = parseResult.data;
+    console.log('[ClaimReward] Request:', { userId: user.id, rewardId });
+
+    // Sweep the caller's overdue rewards first so the list they see afterwards is current
+    const { data: expiredCount, error: sweepError } = await supabase.rpc('expire_pending_rewards', {
+      p_user_id: user.id,
+    });
+
+    if (sweepError) {
+      console.error('[ClaimReward] Expiry sweep error:', sweepError);
+    } else if (expiredCount) {
+      console.log('[ClaimReward] Expired pending rewards:', { userId: user.id, expiredCount });
+    }
+
+    // Locks the reward row, pays through the ledger and returns the original result on repeat claims
+    const { data, error: rpcError } = await supabase.rpc('claim_pending_reward', {
+      p_reward_id: rewardId,
+      p_user_id: user.id,
+    });
+
+    if (rpcError) {
+      console.error('[ClaimReward] RPC error:', rpcError);
+      const msg = rpcError.message || '';
+
+      if (msg.includes('REWARD_NOT_FOUND')) {
+        return new Response(
+          JSON.stringify({ error: 'Reward not found', code: 'reward_not_found', success: false }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (msg.includes('REWARD_EXPIRED')) {
+        return new Response(
+          JSON.stringify({ error: 'Reward has expired', code: 'reward_expired', success: false }),
+          { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (msg.includes('REWARD_ON_HOLD')) {
+        return new Response(
+          JSON.stringify({ error: 'Reward is not claimable yet', code: 'reward_on_hold', success: false }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      // Held campaign rewards are charged to the campaign when claimed
+      if (msg.includes('CAMPAIGN_')) {
+        return new Response(
+          JSON.stringify({ error: 'The campaign behind this reward can no longer pay it', code: 'campaign_unavailable', success: false }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw new Error('Failed to claim reward');
+    }
+
+    console.log('[ClaimReward] Claimed:', { userId: user.id, rewardId, alreadyClaimed: data.already_claimed });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        alreadyClaimed: data.already_claimed,
+        type: data.type,
+        amount: data.amount,
+        newBalance: data.new_balance ?? null,
+        journalEntryId: data.journal_entry_id ?? null,
+        claimedAt: data.claimed_at,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('[ClaimReward] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return new Response(
+      JSON.stringify({ error: message, success: false }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
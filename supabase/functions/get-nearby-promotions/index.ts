@@ -7,26 +7,52 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Haversine formula to calculate distance between two points
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
+// Zoom at which every promotion gets its own pin instead of a cluster
+const UNCLUSTERED_ZOOM = 15;
+// Roughly four cells across a 256px tile, so clusters sit ~64px apart on screen
+const CELLS_PER_TILE = 4;
+
+const BoundsSchema = z.object({
+  west: z.number().min(-180).max(180),
+  south: z.number().min(-90).max(90),
+  east: z.number().min(-180).max(180),
+  north: z.number().min(-90).max(90),
+}).refine(b => b.south <= b.north, { message: 'south must not be above north' });
 
+// Two modes: a map viewport (bounds + zoom) gets clusters, a point (latitude +
+// longitude) gets a distance-ordered list paged with the returned nextCursor
 const NearbyPromotionsSchema = z.object({
-  latitude: z.number().min(-90).max(90),
-  longitude: z.number().min(-180).max(180),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
   radiusKm: z.number().min(0.1).max(100).default(10),
+  bounds: BoundsSchema.optional(),
+  zoom: z.number().min(0).max(24).optional(),
+  cursor: z.string().max(200).optional(),
+  limit: z.number().int().min(1).max(100).default(20),
   category: z.string().max(100).optional(),
   rewardType: z.string().max(50).optional(),
-});
+}).refine(
+  input => input.bounds ? input.zoom !== undefined : input.latitude !== undefined && input.longitude !== undefined,
+  { message: 'Provide bounds and zoom, or latitude and longitude' }
+);
+
+const CursorSchema = z.object({ d: z.number().min(0), i: z.string().uuid() });
+
+const encodeCursor = (distanceM: number, id: string) => btoa(JSON.stringify({ d: distanceM, i: id }));
+
+function decodeCursor(cursor: string): z.infer<typeof CursorSchema> | null {
+  try {
+    const parsed = CursorSchema.safeParse(JSON.parse(atob(cursor)));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+function cellSizeForZoom(zoom: number): number | null {
+  if (zoom >= UNCLUSTERED_ZOOM) return null;
+  return 360 / Math.pow(2, Math.floor(zoom)) / CELLS_PER_TILE;
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -48,44 +74,89 @@ serve(async (req) => {
       );
     }
 
-    const { latitude, longitude, radiusKm, category, rewardType } = parseResult.data;
-    console.log('[GetNearbyPromos] Request:', { latitude, longitude, radiusKm, category, rewardType });
+    const { latitude, longitude, radiusKm, bounds, zoom, cursor, limit, category } = parseResult.data;
+    const rewardType = parseResult.data.rewardType && parseResult.data.rewardType !== 'all'
+      ? parseResult.data.rewardType
+      : null;
 
-    // Fetch all active promotions
-    let query = supabase
-      .from('promotions')
-      .select('*')
-      .eq('is_active', true)
-      .or('expires_at.is.null,expires_at.gt.now()');
+    if (bounds && zoom !== undefined) {
+      const cellDeg = cellSizeForZoom(zoom);
+      console.log('[GetNearbyPromos] Viewport:', { bounds, zoom, cellDeg, category, rewardType });
 
-    if (category) {
-      query = query.eq('category', category);
+      const { data: cells, error } = await supabase.rpc('promotion_clusters', {
+        p_west: bounds.west,
+        p_south: bounds.south,
+        p_east: bounds.east,
+        p_north: bounds.north,
+        p_cell_deg: cellDeg,
+        p_category: category ?? null,
+        p_reward_type: rewardType,
+      });
+
+      if (error) {
+        console.error('[GetNearbyPromos] Cluster query error:', error);
+        throw error;
+      }
+
+      const clusters = (cells || []).map(cell => ({
+        latitude: cell.latitude,
+        longitude: cell.longitude,
+        count: cell.promotion_count,
+        rewardTotal: Number(cell.reward_total),
+        maxReward: cell.max_reward,
+        promotion: cell.promotion,
+      }));
+
+      console.log('[GetNearbyPromos] Found:', clusters.length, 'clusters');
+
+      return new Response(
+        JSON.stringify({
+          clusters,
+          count: clusters.reduce((sum, cluster) => sum + cluster.count, 0),
+          bounds,
+          zoom,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    if (rewardType && rewardType !== 'all') {
-      query = query.or(`reward_type.eq.${rewardType},reward_type.eq.both`);
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid cursor' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    const { data: promotions, error } = await query;
+    console.log('[GetNearbyPromos] Request:', { latitude, longitude, radiusKm, category, rewardType, cursor: !!after });
+
+    // One extra row tells us whether another page exists
+    const { data: rows, error } = await supabase.rpc('nearby_promotions', {
+      p_latitude: latitude!,
+      p_longitude: longitude!,
+      p_radius_m: radiusKm * 1000,
+      p_category: category ?? null,
+      p_reward_type: rewardType,
+      p_after_distance: after?.d ?? null,
+      p_after_id: after?.i ?? null,
+      p_limit: limit + 1,
+    });
 
     if (error) {
       console.error('[GetNearbyPromos] Query error:', error);
       throw error;
     }
 
-    // Filter by distance and add distance to each promotion
-    const nearbyPromotions = (promotions || [])
-      .map(promo => {
-        const distance = haversineDistance(
-          latitude,
-          longitude,
-          promo.latitude,
-          promo.longitude
-        );
-        return { ...promo, distance: Math.round(distance * 100) / 100 };
-      })
-      .filter(promo => promo.distance <= radiusKm)
-      .sort((a, b) => a.distance - b.distance);
+    const page = (rows || []).slice(0, limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows && rows.length > limit && last
+      ? encodeCursor(last.distance_m, (last.promotion as { id: string }).id)
+      : null;
+
+    const nearbyPromotions = page.map(row => ({
+      ...(row.promotion as Record<string, unknown>),
+      distance: Math.round(row.distance_m / 10) / 100,
+    }));
 
     console.log('[GetNearbyPromos] Found:', nearbyPromotions.length, 'promotions');
 
@@ -93,6 +164,7 @@ serve(async (req) => {
       JSON.stringify({
         promotions: nearbyPromotions,
         count: nearbyPromotions.length,
+        nextCursor,
         center: { latitude, longitude },
         radius: radiusKm,
       }),
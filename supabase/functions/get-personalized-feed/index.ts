@@ -1,107 +1,354 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Sample content pool for demonstration
-const SAMPLE_CONTENT = [
-  { id: '1', title: 'Morning Workout Routine', category: 'fitness', tags: ['fitness', 'health', 'morning'], reward: 5, coinType: 'icoin', thumbnail: 'https://images.unsplash.com/photo-1571019614242-c5c5dee9f50b?w=400', duration: 120 },
-  { id: '2', title: 'Tech News Update', category: 'tech', tags: ['tech', 'news', 'gadgets'], reward: 3, coinType: 'icoin', thumbnail: 'https://images.unsplash.com/photo-1518770660439-4636190af475?w=400', duration: 90 },
-  { id: '3', title: 'Cooking Masterclass', category: 'food', tags: ['food', 'cooking', 'recipes'], reward: 4, coinType: 'icoin', thumbnail: 'https://images.unsplash.com/photo-1556909114-f6e7ad7d3136?w=400', duration: 180 },
-  { id: '4', title: 'Travel Adventures', category: 'travel', tags: ['travel', 'adventure', 'explore'], reward: 6, coinType: 'vicoin', thumbnail: 'https://images.unsplash.com/photo-1488646953014-85cb44e25828?w=400', duration: 150 },
-  { id: '5', title: 'Financial Tips', category: 'finance', tags: ['finance', 'money', 'investing'], reward: 8, coinType: 'vicoin', thumbnail: 'https://images.unsplash.com/photo-1611974789855-9c2a0a7236a3?w=400', duration: 200 },
-  { id: '6', title: 'Music Production', category: 'entertainment', tags: ['music', 'creative', 'production'], reward: 4, coinType: 'icoin', thumbnail: 'https://images.unsplash.com/photo-1493225457124-a3eb161ffa5f?w=400', duration: 240 },
-  { id: '7', title: 'Yoga & Meditation', category: 'fitness', tags: ['fitness', 'wellness', 'meditation'], reward: 5, coinType: 'icoin', thumbnail: 'https://images.unsplash.com/photo-1544367567-0f2fcb009e0b?w=400', duration: 300 },
-  { id: '8', title: 'Startup Stories', category: 'business', tags: ['business', 'startup', 'entrepreneur'], reward: 7, coinType: 'vicoin', thumbnail: 'https://images.unsplash.com/photo-1559136555-9303baea8ebd?w=400', duration: 180 },
-  { id: '9', title: 'Gaming Highlights', category: 'entertainment', tags: ['gaming', 'esports', 'entertainment'], reward: 3, coinType: 'icoin', thumbnail: 'https://images.unsplash.com/photo-1542751371-adc38448a05e?w=400', duration: 120 },
-  { id: '10', title: 'Local Events Near You', category: 'local', tags: ['local', 'events', 'community'], reward: 10, coinType: 'vicoin', thumbnail: 'https://images.unsplash.com/photo-1540575467063-178a50c2df87?w=400', duration: 60 },
-];
+// Candidate pool sizes; the ranked list is cut to MAX_RANKED before caching
+const CONTENT_CANDIDATES = 300;
+const PROMOTION_CANDIDATES = 100;
+const MAX_RANKED = 200;
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
+const CACHE_TTL_MINUTES = 10;
+
+// Collaborative filtering: the user's strongest recent engagements seed lookups in
+// content_similarity, and a neighbour's similarity (0..1) is worth up to this many points
+const COLLABORATIVE_WEIGHT = 60;
+const MAX_SEEDS = 10;
+// Below this a neighbour still adds its points but doesn't claim the reason
+const COLLABORATIVE_REASON_MIN = 0.1;
+// Promotions within this distance get the "Near you" boost
+const NEARBY_KM = 25;
+
+// Epsilon-greedy exploration: each item is picked for a boost with this probability,
+// drawn from a seed of user and UTC day so a ranking can be replayed exactly
+const EXPLORATION_RATE = 0.15;
+const EXPLORATION_BOOST = 10;
+
+// Caps apply within each consecutive window of DIVERSITY_WINDOW positions
+const DIVERSITY_WINDOW = 10;
+const MAX_PER_AUTHOR = 2;
+const MAX_PER_CATEGORY = 4;
+
+const FeedRequestSchema = z.object({
+  cursor: z.string().max(200).optional(),
+  limit: z.number().int().min(1).max(50).default(10),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  // Re-rank instead of serving the cached feed, e.g. after "more/less like this"
+  refresh: z.boolean().default(false),
+  // Include each item's score breakdown
+  debug: z.boolean().default(false),
+  // Creators asking where one of their own posts lands in the default ranking
+  explainContentId: z.string().uuid().optional(),
+});
+
+interface Candidate {
+  id: string;
+  kind: 'content' | 'promotion';
+  title: string;
+  category: string;
+  tags: string[];
+  reward: number;
+  coinType: 'icoin' | 'vicoin';
+  thumbnail: string | null;
+  mediaUrl: string | null;
+  duration: number | null;
+  creatorId: string | null;
+  publishedAt: string;
+  popularity: number;
+  distanceKm: number | null;
+}
+
+interface UserPreferences {
+  liked_tags: string[] | null;
+  disliked_tags: string[] | null;
+  preferred_categories: string[] | null;
+  last_seen_content: string[] | null;
+  avg_watch_time: number | null;
+  focus_score: number | null;
+}
+
+interface Interaction {
+  content_id: string;
+  category: string | null;
+  watch_completion_rate: number | null;
+  attention_score: number | null;
+  liked: boolean | null;
+  shared: boolean | null;
+  skipped: boolean | null;
+}
+
+// Best similarity to any seed, and the seed it came from
+interface Neighbour {
+  score: number;
+  seedTitle: string | null;
+}
+
+type ScoreComponent =
+  | 'base'
+  | 'reward'
+  | 'popularity'
+  | 'freshness'
+  | 'likedTags'
+  | 'dislikedTags'
+  | 'category'
+  | 'engagement'
+  | 'collaborative'
+  | 'alreadySeen'
+  | 'nearby'
+  | 'exploration';
+
+type ScoreBreakdown = Partial<Record<ScoreComponent, number>>;
+
+interface RankedItem extends Candidate {
+  score: number;
+  reason: string;
+  breakdown: ScoreBreakdown;
+  // Set when a diversity cap pushed the item below lower-scored ones
+  demotedBy?: 'author_cap' | 'category_cap';
+}
+
+interface FeedMeta {
+  userId: string | null;
+  personalized: boolean;
+  interactionCount: number;
+  collaborativeMatches: number;
+  coldStart: boolean;
+  total: number;
+}
+
+interface Cursor {
+  feedId: string;
+  offset: number;
+}
 
+function encodeCursor(cursor: Cursor): string {
+  return btoa(JSON.stringify({ f: cursor.feedId, o: cursor.offset }));
+}
+
+function decodeCursor(value: string): Cursor | null {
   try {
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const parsed = JSON.parse(atob(value));
+    if (typeof parsed.f !== 'string' || !Number.isInteger(parsed.o) || parsed.o < 0) return null;
+    return { feedId: parsed.f, offset: parsed.o };
+  } catch {
+    return null;
+  }
+}
 
-    // Get user from auth header (optional for cold start)
-    const authHeader = req.headers.get('Authorization');
-    let userId: string | null = null;
-    let userPreferences: any = null;
-    let interactions: any[] = [];
+function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => deg * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
 
-    if (authHeader) {
-      const token = authHeader.replace('Bearer ', '');
-      const { data: { user } } = await supabase.auth.getUser(token);
-      userId = user?.id || null;
+// FNV-1a followed by murmur3's finalizer, mapped to [0, 1)
+function seededUnit(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) / 4294967296;
+}
 
-      if (userId) {
-        // Fetch user preferences
-        const { data: prefs } = await supabase
-          .from('user_preferences')
-          .select('*')
-          .eq('user_id', userId)
-          .maybeSingle();
-        userPreferences = prefs;
-
-        // Fetch recent interactions
-        const { data: recentInteractions } = await supabase
-          .from('content_interactions')
-          .select('*')
-          .eq('user_id', userId)
-          .order('created_at', { ascending: false })
-          .limit(20);
-        interactions = recentInteractions || [];
-      }
+function explorationSeed(userId: string | null): string {
+  return `${userId ?? 'anonymous'}:${new Date().toISOString().slice(0, 10)}`;
+}
+
+async function loadCandidates(
+  supabase: SupabaseClient,
+  userId: string | null,
+  latitude?: number,
+  longitude?: number,
+): Promise<Candidate[]> {
+  const now = new Date().toISOString();
+
+  let contentQuery = supabase
+    .from('user_content')
+    .select('id, user_id, title, caption, content_type, tags, thumbnail_url, media_url, reward_type, published_at, created_at, views_count, likes_count, shares_count')
+    .eq('status', 'published')
+    .eq('is_public', true)
+    .not('is_draft', 'is', true)
+    .or(`expires_at.is.null,expires_at.gt.${now}`)
+    .order('published_at', { ascending: false, nullsFirst: false })
+    .limit(CONTENT_CANDIDATES);
+
+  // Creators don't need their own posts recommended back to them
+  if (userId) {
+    contentQuery = contentQuery.neq('user_id', userId);
+  }
+
+  const [contentResult, promotionResult] = await Promise.all([
+    contentQuery,
+    supabase
+      .from('promotions')
+      .select('id, business_id, business_name, description, category, image_url, reward_type, reward_amount, latitude, longitude, current_claims, max_claims, created_at')
+      .eq('is_active', true)
+      .or(`expires_at.is.null,expires_at.gt.${now}`)
+      .order('created_at', { ascending: false })
+      .limit(PROMOTION_CANDIDATES),
+  ]);
+
+  if (contentResult.error) throw contentResult.error;
+  if (promotionResult.error) throw promotionResult.error;
+
+  // User content has no category column, so its first tag stands in for one
+  const content: Candidate[] = (contentResult.data || []).map(row => {
+    const tags: string[] = row.tags || [];
+    return {
+      id: row.id,
+      kind: 'content',
+      title: row.title || row.caption || 'Untitled',
+      category: tags[0] || row.content_type,
+      tags,
+      reward: 0,
+      coinType: row.reward_type === 'vicoin' ? 'vicoin' : 'icoin',
+      thumbnail: row.thumbnail_url,
+      mediaUrl: row.media_url,
+      duration: null,
+      creatorId: row.user_id,
+      publishedAt: row.published_at || row.created_at,
+      popularity: (row.views_count || 0) + (row.likes_count || 0) * 5 + (row.shares_count || 0) * 10,
+      distanceKm: null,
+    };
+  });
+
+  const promotions: Candidate[] = (promotionResult.data || [])
+    .filter(row => row.max_claims === null || row.current_claims < row.max_claims)
+    .map(row => ({
+      id: row.id,
+      kind: 'promotion',
+      title: row.business_name,
+      category: row.category || 'local',
+      tags: [row.category, 'local'].filter((tag): tag is string => !!tag),
+      reward: row.reward_amount,
+      coinType: row.reward_type === 'vicoin' ? 'vicoin' : 'icoin',
+      thumbnail: row.image_url,
+      mediaUrl: null,
+      duration: null,
+      creatorId: row.business_id,
+      publishedAt: row.created_at,
+      popularity: row.current_claims,
+      distanceKm: latitude !== undefined && longitude !== undefined
+        ? distanceKm(latitude, longitude, row.latitude, row.longitude)
+        : null,
+    }));
+
+  return [...content, ...promotions];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// A seed is something the user clearly enjoyed: liked, shared, or mostly watched with attention
+function isSeed(interaction: Interaction): boolean {
+  if (interaction.skipped) return false;
+  return !!interaction.liked || !!interaction.shared
+    || ((interaction.watch_completion_rate || 0) >= 70 && (interaction.attention_score || 0) >= 60);
+}
+
+async function loadNeighbours(supabase: SupabaseClient, interactions: Interaction[]): Promise<Map<string, Neighbour>> {
+  const neighbours = new Map<string, Neighbour>();
+  const seeds = interactions.filter(isSeed).slice(0, MAX_SEEDS).map(i => i.content_id);
+  if (seeds.length === 0) return neighbours;
+
+  const seedUuids = seeds.filter(id => UUID_PATTERN.test(id));
+  const [similarityResult, titleResult] = await Promise.all([
+    supabase
+      .from('content_similarity')
+      .select('content_id, similar_content_id, score')
+      .in('content_id', seeds)
+      .order('score', { ascending: false })
+      .limit(MAX_SEEDS * 20),
+    seedUuids.length
+      ? supabase.from('user_content').select('id, title').in('id', seedUuids)
+      : Promise.resolve({ data: [] as { id: string; title: string | null }[], error: null }),
+  ]);
+
+  if (similarityResult.error) throw similarityResult.error;
+  if (titleResult.error) throw titleResult.error;
+
+  const titles = new Map((titleResult.data || []).map(row => [row.id, row.title]));
+  const seen = new Set(interactions.map(i => i.content_id));
+
+  for (const row of similarityResult.data || []) {
+    // Already watched items don't need a nudge
+    if (seen.has(row.similar_content_id)) continue;
+    const score = Number(row.score);
+    const existing = neighbours.get(row.similar_content_id);
+    if (!existing || score > existing.score) {
+      neighbours.set(row.similar_content_id, { score, seedTitle: titles.get(row.content_id) ?? null });
     }
+  }
 
-    const { latitude, longitude } = await req.json().catch(() => ({}));
-    console.log('[PersonalizedFeed] Request:', { userId, hasPrefs: !!userPreferences, interactionCount: interactions.length });
+  return neighbours;
+}
+
+function scoreCandidates(
+  candidates: Candidate[],
+  userPreferences: UserPreferences | null,
+  interactions: Interaction[],
+  neighbours: Map<string, Neighbour>,
+  seed: string,
+): RankedItem[] {
+  const now = Date.now();
+  const coldStart = !userPreferences && !interactions.length;
 
-    // Calculate content scores
-    let scoredContent = SAMPLE_CONTENT.map(content => {
-      let score = 50; // Base score
-      let reason = 'Trending';
+  return candidates.map(content => {
+    const breakdown: ScoreBreakdown = { base: 50 };
+    const add = (component: ScoreComponent, points: number) => {
+      if (points !== 0) breakdown[component] = (breakdown[component] ?? 0) + points;
+    };
+    let reason = 'Trending';
+    const isNearby = content.distanceKm !== null && content.distanceKm <= NEARBY_KM;
 
+    if (coldStart) {
       // Cold start: show trending + high-conversion content
-      if (!userPreferences && !interactions.length) {
-        score += content.reward * 2; // Higher reward = higher priority
-        if (content.category === 'local' && latitude && longitude) {
-          score += 20;
-          reason = 'Near you';
-        }
-        return { ...content, score, reason };
+      add('reward', content.reward * 2); // Higher reward = higher priority
+      add('popularity', Math.log10(1 + content.popularity) * 10);
+      // Fresh posts float up for their first week
+      const ageDays = (now - new Date(content.publishedAt).getTime()) / 86_400_000;
+      add('freshness', Math.max(0, 7 - ageDays) * 2);
+      if (isNearby) {
+        add('nearby', 20);
+        reason = 'Near you';
       }
-
+    } else {
       // Tag matching
-      if (userPreferences?.liked_tags?.length) {
-        const matchedTags = content.tags.filter(tag => 
-          userPreferences.liked_tags.includes(tag)
+      const likedTags = userPreferences?.liked_tags ?? [];
+      if (likedTags.length) {
+        const matchedTags = content.tags.filter(tag =>
+          likedTags.includes(tag)
         );
-        score += matchedTags.length * 15;
+        add('likedTags', matchedTags.length * 15);
         if (matchedTags.length > 0) {
           reason = `Based on: ${matchedTags[0]}`;
         }
       }
 
       // Penalize disliked tags
-      if (userPreferences?.disliked_tags?.length) {
-        const dislikedTags = content.tags.filter(tag => 
-          userPreferences.disliked_tags.includes(tag)
+      const dislikedTagList = userPreferences?.disliked_tags ?? [];
+      if (dislikedTagList.length) {
+        const dislikedTags = content.tags.filter(tag =>
+          dislikedTagList.includes(tag)
         );
-        score -= dislikedTags.length * 20;
+        add('dislikedTags', -dislikedTags.length * 20);
       }
 
       // Category preference
       if (userPreferences?.preferred_categories?.includes(content.category)) {
-        score += 25;
+        add('category', 25);
         reason = `You like ${content.category}`;
       }
 
@@ -110,37 +357,296 @@ serve(async (req) => {
       if (categoryInteractions.length > 0) {
         const avgCompletion = categoryInteractions.reduce((sum, i) => sum + (i.watch_completion_rate || 0), 0) / categoryInteractions.length;
         const avgAttention = categoryInteractions.reduce((sum, i) => sum + (i.attention_score || 0), 0) / categoryInteractions.length;
-        
-        score += avgCompletion * 0.3;
-        score += avgAttention * 0.2;
-        
+
+        add('engagement', avgCompletion * 0.3 + avgAttention * 0.2);
+
         if (avgCompletion > 80) {
           reason = 'You watch this category';
         }
       }
 
+      // Users who engaged with the same things as this user also engaged with this
+      const neighbour = neighbours.get(content.id);
+      if (neighbour) {
+        add('collaborative', neighbour.score * COLLABORATIVE_WEIGHT);
+        if (neighbour.score >= COLLABORATIVE_REASON_MIN) {
+          reason = neighbour.seedTitle
+            ? `Because you watched ${neighbour.seedTitle}`
+            : 'Popular with viewers like you';
+        }
+      }
+
       // Already seen penalty
       if (userPreferences?.last_seen_content?.includes(content.id)) {
-        score -= 30;
+        add('alreadySeen', -30);
       }
 
       // Location boost
-      if (content.category === 'local' && latitude && longitude) {
-        score += 15;
+      if (isNearby) {
+        add('nearby', 15);
         reason = 'Near you';
       }
+    }
+
+    // Diversity injection (prevent echo chamber); keyed per item so the draw
+    // doesn't depend on candidate order
+    if (seededUnit(`${seed}:${content.id}`) < EXPLORATION_RATE) {
+      add('exploration', EXPLORATION_BOOST);
+      reason = 'Discover something new';
+    }
+
+    const score = Object.values(breakdown).reduce((sum, points) => sum + (points ?? 0), 0);
+    return { ...content, score, reason, breakdown };
+  });
+}
+
+// Ties fall back to id so equal scores always come out in the same order
+function compareRanked(a: RankedItem, b: RankedItem): number {
+  return b.score - a.score || a.id.localeCompare(b.id);
+}
+
+// Greedily fills each window with the best remaining item that keeps its author and
+// category under the caps. If nothing fits, the best remaining item goes in anyway so
+// pages never come up short.
+function diversify(sorted: RankedItem[]): RankedItem[] {
+  const remaining = [...sorted];
+  const result: RankedItem[] = [];
+  let authorCounts = new Map<string, number>();
+  let categoryCounts = new Map<string, number>();
+
+  while (remaining.length > 0) {
+    if (result.length % DIVERSITY_WINDOW === 0) {
+      authorCounts = new Map();
+      categoryCounts = new Map();
+    }
+
+    const capHit = (item: RankedItem): RankedItem['demotedBy'] => {
+      if (item.creatorId && (authorCounts.get(item.creatorId) ?? 0) >= MAX_PER_AUTHOR) return 'author_cap';
+      if ((categoryCounts.get(item.category) ?? 0) >= MAX_PER_CATEGORY) return 'category_cap';
+      return undefined;
+    };
 
-      // Diversity injection (prevent echo chamber)
-      if (Math.random() < 0.15) {
-        score += 10;
-        reason = 'Discover something new';
+    let index = remaining.findIndex(item => !capHit(item));
+    if (index === -1) index = 0;
+
+    for (let i = 0; i < index; i++) {
+      remaining[i].demotedBy ??= capHit(remaining[i]);
+    }
+
+    const [item] = remaining.splice(index, 1);
+    if (item.creatorId) authorCounts.set(item.creatorId, (authorCounts.get(item.creatorId) ?? 0) + 1);
+    categoryCounts.set(item.category, (categoryCounts.get(item.category) ?? 0) + 1);
+    result.push(item);
+  }
+
+  return result;
+}
+
+function buildPage(items: RankedItem[], feedId: string, offset: number, limit: number, personalized: boolean, debug: boolean) {
+  const page = items.slice(offset, offset + limit).map(({ breakdown, demotedBy, ...content }, index) => ({
+    ...content,
+    ...(debug ? { breakdown, demotedBy: demotedBy ?? null } : {}),
+    position: offset + index + 1,
+    personalized,
+    aiEnhanced: false,
+  }));
+  const nextOffset = offset + page.length;
+  return {
+    feed: page,
+    nextCursor: nextOffset < items.length ? encodeCursor({ feedId, offset: nextOffset }) : null,
+  };
+}
+
+// Where a creator's post lands in the default (non-personalized) ranking today, with
+// its score breakdown, or why it isn't a candidate at all
+async function explainContent(supabase: SupabaseClient, userId: string, contentId: string): Promise<Response> {
+  const { data: content, error } = await supabase
+    .from('user_content')
+    .select('id, user_id, status, is_public, is_draft, expires_at')
+    .eq('id', contentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!content || content.user_id !== userId) {
+    return new Response(
+      JSON.stringify({ error: 'Content not found', success: false }),
+      { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  const notShown: string[] = [];
+  if (content.status !== 'published') notShown.push('Not published yet');
+  if (!content.is_public) notShown.push('Only visible to you');
+  if (content.is_draft) notShown.push('Saved as a draft');
+  if (content.expires_at && new Date(content.expires_at) <= new Date()) notShown.push('Expired');
+
+  let ranking: { rank: number | null; total: number; item: RankedItem | null } = { rank: null, total: 0, item: null };
+
+  if (notShown.length === 0) {
+    const candidates = await loadCandidates(supabase, null);
+    const scored = scoreCandidates(candidates, null, [], new Map(), explorationSeed(null)).sort(compareRanked);
+    const ranked = diversify(scored.slice(0, MAX_RANKED));
+    const index = ranked.findIndex(item => item.id === contentId);
+
+    if (index >= 0) {
+      ranking = { rank: index + 1, total: ranked.length, item: ranked[index] };
+    } else {
+      const item = scored.find(candidate => candidate.id === contentId) ?? null;
+      ranking = { rank: null, total: ranked.length, item };
+      notShown.push(item
+        ? `Scored below the top ${MAX_RANKED}`
+        : `Older than the ${CONTENT_CANDIDATES} most recent posts`);
+    }
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      explanation: {
+        contentId,
+        shown: ranking.rank !== null,
+        rank: ranking.rank,
+        total: ranking.total,
+        score: ranking.item?.score ?? null,
+        reason: ranking.item?.reason ?? null,
+        breakdown: ranking.item?.breakdown ?? null,
+        demotedBy: ranking.item?.demotedBy ?? null,
+        notShown,
+      },
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const parseResult = FeedRequestSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parseResult.success) {
+      console.warn('[PersonalizedFeed] Validation failed:', parseResult.error.flatten());
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors, success: false }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { cursor: rawCursor, limit, latitude, longitude, refresh, debug, explainContentId } = parseResult.data;
+    const cursor = rawCursor ? decodeCursor(rawCursor) : null;
+    if (rawCursor && !cursor) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid cursor', success: false }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Get user from auth header (optional for cold start)
+    const authHeader = req.headers.get('Authorization');
+    let userId: string | null = null;
+
+    if (authHeader) {
+      const token = authHeader.replace('Bearer ', '');
+      const { data: { user } } = await supabase.auth.getUser(token);
+      userId = user?.id || null;
+    }
+
+    if (explainContentId) {
+      if (!userId) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized', success: false }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      return await explainContent(supabase, userId, explainContentId);
+    }
+
+    // Later pages come from the ranking cached when the first page was served
+    if (userId && cursor) {
+      const { data: cached, error: cacheError } = await supabase
+        .from('personalized_feed_cache')
+        .select('feed_id, items, meta, expires_at')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (cacheError) throw cacheError;
+
+      if (!cached || cached.feed_id !== cursor.feedId) {
+        return new Response(
+          JSON.stringify({ error: 'Feed has been refreshed', code: 'cursor_expired', success: false }),
+          { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const meta = cached.meta as FeedMeta;
+      const page = buildPage(cached.items as RankedItem[], cached.feed_id, cursor.offset, limit, meta.personalized, debug);
+      return new Response(
+        JSON.stringify({ success: true, ...page, meta }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // First page: reuse a fresh cached ranking unless asked to re-rank
+    if (userId && !refresh) {
+      const { data: cached, error: cacheError } = await supabase
+        .from('personalized_feed_cache')
+        .select('feed_id, items, meta, expires_at')
+        .eq('user_id', userId)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (cacheError) throw cacheError;
+
+      if (cached) {
+        const meta = cached.meta as FeedMeta;
+        const page = buildPage(cached.items as RankedItem[], cached.feed_id, 0, limit, meta.personalized, debug);
+        console.log('[PersonalizedFeed] Cache hit:', { userId, feedId: cached.feed_id });
+        return new Response(
+          JSON.stringify({ success: true, ...page, meta }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
       }
+    }
 
-      return { ...content, score, reason };
-    });
+    let userPreferences: UserPreferences | null = null;
+    let interactions: Interaction[] = [];
+
+    if (userId) {
+      // Fetch user preferences
+      const { data: prefs } = await supabase
+        .from('user_preferences')
+        .select('liked_tags, disliked_tags, preferred_categories, last_seen_content, avg_watch_time, focus_score')
+        .eq('user_id', userId)
+        .maybeSingle();
+      userPreferences = prefs;
+
+      // Fetch recent interactions
+      const { data: recentInteractions } = await supabase
+        .from('content_interactions')
+        .select('content_id, category, watch_completion_rate, attention_score, liked, shared, skipped')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(20);
+      interactions = recentInteractions || [];
+    }
+
+    console.log('[PersonalizedFeed] Request:', { userId, hasPrefs: !!userPreferences, interactionCount: interactions.length });
+
+    const [candidates, neighbours] = await Promise.all([
+      loadCandidates(supabase, userId, latitude, longitude),
+      loadNeighbours(supabase, interactions),
+    ]);
+    const seed = explorationSeed(userId);
+    const scoredContent = scoreCandidates(candidates, userPreferences, interactions, neighbours, seed);
 
     // Sort by score
-    scoredContent.sort((a, b) => b.score - a.score);
+    scoredContent.sort(compareRanked);
 
     // Optional: Use AI for enhanced recommendations
     if (lovableApiKey && userPreferences && interactions.length > 5) {
@@ -183,27 +689,41 @@ serve(async (req) => {
       }
     }
 
-    // Add personalization metadata
-    const feed = scoredContent.slice(0, 10).map((content, index) => ({
-      ...content,
-      position: index + 1,
+    const ranked = diversify(scoredContent.slice(0, MAX_RANKED));
+    const meta: FeedMeta = {
+      userId,
       personalized: !!userPreferences,
-      aiEnhanced: false,
-    }));
+      interactionCount: interactions.length,
+      collaborativeMatches: neighbours.size,
+      coldStart: !userPreferences && interactions.length === 0,
+      total: ranked.length,
+    };
+
+    // Anonymous rankings are deterministic, so their cursors just re-rank and skip ahead
+    let feedId = 'anonymous';
+    if (userId) {
+      const { data: saved, error: saveError } = await supabase
+        .from('personalized_feed_cache')
+        .upsert({
+          user_id: userId,
+          feed_id: crypto.randomUUID(),
+          items: ranked,
+          meta,
+          created_at: new Date().toISOString(),
+          expires_at: new Date(Date.now() + CACHE_TTL_MINUTES * 60_000).toISOString(),
+        })
+        .select('feed_id')
+        .single();
+
+      if (saveError) throw saveError;
+      feedId = saved.feed_id;
+    }
 
-    console.log('[PersonalizedFeed] Returning', feed.length, 'items');
+    const page = buildPage(ranked, feedId, cursor?.offset ?? 0, limit, meta.personalized, debug);
+    console.log('[PersonalizedFeed] Returning', page.feed.length, 'of', ranked.length, 'items');
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        feed,
-        meta: {
-          userId,
-          personalized: !!userPreferences,
-          interactionCount: interactions.length,
-          coldStart: !userPreferences && interactions.length === 0,
-        },
-      }),
+      JSON.stringify({ success: true, ...page, meta, ...(debug ? { seed } : {}) }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   } catch (error: unknown) {
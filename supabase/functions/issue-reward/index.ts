@@ -1,29 +1,34 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://esm.sh/zod@3.23.8";
+import { evaluateRewardRules, type RewardRule } from "./rules.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Daily limits
-const DAILY_LIMITS = {
-  icoin: 100,
-  vicoin: 50,
-  promo_views: 20,
-};
+// Must match the reward_logs.reward_type check constraint; amounts and limits live in reward_rules
+const VALID_REWARD_TYPES = ['promo_view', 'task_complete', 'referral', 'milestone', 'daily_bonus'] as [string, ...string[]];
+
+// Same scoring as securityService.getUserTrustScore
+const TRUST_PENALTIES: Record<string, number> = { low: 5, medium: 15, high: 30, critical: 50 };
+// Below this (securityService.shouldThrottle) rewards are parked in pending_rewards for review
+const TRUST_HOLD_THRESHOLD = 50;
 
-// Reward amounts by type
-const REWARD_AMOUNTS = {
-  promo_view: { min: 1, max: 10, coinType: 'icoin' },
-  task_complete: { min: 3, max: 20, coinType: 'icoin' },
-  referral: { amount: 10, coinType: 'vicoin' },
-  milestone: { amount: 20, coinType: 'vicoin' },
-  daily_bonus: { min: 1, max: 5, coinType: 'icoin' },
+// Campaign actions each reward type can pay out for
+const CAMPAIGN_ACTIONS: Record<string, string[]> = {
+  promo_view: ['view'],
+  task_complete: ['like', 'share', 'purchase'],
 };
 
-const VALID_REWARD_TYPES = Object.keys(REWARD_AMOUNTS) as [string, ...string[]];
+// atomic_campaign_reward error prefixes and how they surface to the client
+const CAMPAIGN_ERRORS: Record<string, { status: number; code: string; error: string }> = {
+  CAMPAIGN_NOT_FOUND: { status: 404, code: 'campaign_not_found', error: 'Campaign not found' },
+  CAMPAIGN_INACTIVE: { status: 409, code: 'campaign_inactive', error: 'Campaign is not running' },
+  CAMPAIGN_BUDGET_EXHAUSTED: { status: 409, code: 'campaign_budget_exhausted', error: 'Campaign budget is spent' },
+  CAMPAIGN_PACING_LIMIT: { status: 429, code: 'campaign_pacing_limit', error: 'Campaign has reached today\'s budget' },
+};
 
 const IssueRewardSchema = z.object({
   rewardType: z.enum(VALID_REWARD_TYPES as [string, ...string[]]),
@@ -31,6 +36,7 @@ const IssueRewardSchema = z.object({
   amount: z.number().int().min(1).max(1000).optional(),
   attentionScore: z.number().min(0).max(100).optional(),
   coinType: z.enum(['vicoin', 'icoin']).optional(),
+  campaignId: z.string().uuid('Invalid campaign ID').optional(),
 });
 
 serve(async (req) => {
@@ -73,24 +79,83 @@ serve(async (req) => {
       );
     }
 
-    const { rewardType, contentId, amount, attentionScore, coinType } = parseResult.data;
-    console.log('[IssueReward] Request:', { userId: user.id, rewardType, contentId, amount, attentionScore, coinType });
+    const { rewardType, contentId, amount, attentionScore, coinType, campaignId } = parseResult.data;
+    console.log('[IssueReward] Request:', { userId: user.id, rewardType, contentId, amount, attentionScore, coinType, campaignId });
+
+    // Campaign rewards are paid at the advertiser's rate and coin, out of the campaign budget
+    let campaign: { id: string; promotion_id: string | null; reward_type: string; reward_amount: number; required_action: string; status: string } | null = null;
+    if (campaignId) {
+      const { data: campaignRow, error: campaignError } = await supabase
+        .from('campaigns')
+        .select('id, promotion_id, reward_type, reward_amount, required_action, status')
+        .eq('id', campaignId)
+        .maybeSingle();
+
+      if (campaignError) {
+        console.error('[IssueReward] Campaign load error:', campaignError);
+        throw campaignError;
+      }
 
-    // Check for replay attack - has this content already been rewarded?
-    const { data: existingReward, error: checkError } = await supabase
-      .from('reward_logs')
-      .select('id')
-      .eq('user_id', user.id)
-      .eq('content_id', contentId)
-      .eq('reward_type', rewardType)
-      .maybeSingle();
+      if (!campaignRow) {
+        const { status, ...body } = CAMPAIGN_ERRORS.CAMPAIGN_NOT_FOUND;
+        return new Response(
+          JSON.stringify({ ...body, success: false }),
+          { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // The budget only pays for views of the campaign's own promotion
+      if (campaignRow.promotion_id !== contentId) {
+        return new Response(
+          JSON.stringify({ error: 'Campaign does not cover this content', code: 'campaign_mismatch', success: false }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!(CAMPAIGN_ACTIONS[rewardType] ?? []).includes(campaignRow.required_action) ||
+          !['vicoin', 'icoin'].includes(campaignRow.reward_type)) {
+        return new Response(
+          JSON.stringify({ error: 'Campaign does not pay coins for this action', code: 'campaign_mismatch', success: false }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-    if (checkError) {
-      console.error('[IssueReward] Check error:', checkError);
-      throw checkError;
+      if (campaignRow.status !== 'active') {
+        const { status, ...body } = CAMPAIGN_ERRORS.CAMPAIGN_INACTIVE;
+        return new Response(
+          JSON.stringify({ ...body, success: false }),
+          { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      campaign = campaignRow;
+    }
+
+    // Check for replay attack - has this content already been rewarded or parked?
+    const [{ data: existingReward, error: checkError }, { data: parkedReward, error: parkedError }] = await Promise.all([
+      supabase
+        .from('reward_logs')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('content_id', contentId)
+        .eq('reward_type', rewardType)
+        .maybeSingle(),
+      supabase
+        .from('pending_rewards')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('reference_id', contentId)
+        .eq('source', rewardType)
+        .neq('status', 'expired')
+        .maybeSingle(),
+    ]);
+
+    if (checkError || parkedError) {
+      console.error('[IssueReward] Check error:', checkError || parkedError);
+      throw checkError || parkedError;
     }
 
-    if (existingReward) {
+    if (existingReward || parkedReward) {
       console.log('[IssueReward] Duplicate reward attempt blocked');
       return new Response(
         JSON.stringify({
@@ -130,17 +195,79 @@ serve(async (req) => {
       dailyCap = newCap;
     }
 
+    // Gather the user attributes reward rules can match on
+    const [subscriptionResult, levelResult, abuseResult, rulesResult] = await Promise.all([
+      supabase
+        .from('subscription_status')
+        .select('is_subscribed, tier, subscription_end')
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      supabase
+        .from('user_levels')
+        .select('level')
+        .eq('user_id', user.id)
+        .maybeSingle(),
+      supabase
+        .from('abuse_logs')
+        .select('severity')
+        .eq('user_id', user.id)
+        .eq('resolved', false),
+      supabase
+        .from('reward_rules')
+        .select('*')
+        .eq('is_active', true),
+    ]);
+
+    if (rulesResult.error) {
+      console.error('[IssueReward] Rules load error:', rulesResult.error);
+      throw rulesResult.error;
+    }
+
+    const subscription = subscriptionResult.data;
+    const subscriptionActive = subscription?.is_subscribed &&
+      (!subscription.subscription_end || new Date(subscription.subscription_end) > new Date());
+    const trustScore = Math.max(0, (abuseResult.data || []).reduce(
+      (score, log) => score - (TRUST_PENALTIES[log.severity] ?? 0),
+      100
+    ));
+
+    const ruleContext = {
+      rewardType,
+      subscriptionTier: subscriptionActive ? (subscription?.tier || 'free') : 'free',
+      level: levelResult.data?.level ?? 1,
+      trustScore,
+      now: new Date(),
+    };
+    const { resolved, missing, trace } = evaluateRewardRules((rulesResult.data || []) as RewardRule[], ruleContext);
+
+    if (!resolved) {
+      console.error('[IssueReward] No reward rule configured:', { rewardType, missing });
+      return new Response(
+        JSON.stringify({ error: 'Reward not configured', success: false, missing }),
+        { status: 503, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Determine coin type and amount
-    const rewardConfig = REWARD_AMOUNTS[rewardType as keyof typeof REWARD_AMOUNTS];
-    const finalCoinType = coinType || rewardConfig.coinType;
-    let finalAmount = amount;
-
-    if (!finalAmount) {
-      if ('amount' in rewardConfig) {
-        finalAmount = rewardConfig.amount;
-      } else {
-        finalAmount = Math.floor(Math.random() * (rewardConfig.max - rewardConfig.min + 1)) + rewardConfig.min;
-      }
+    const finalCoinType = (campaign?.reward_type as 'vicoin' | 'icoin' | undefined) || coinType || resolved.coinType;
+    let finalAmount = campaign?.reward_amount ?? amount
+      ?? Math.floor(Math.random() * (resolved.amountMax - resolved.amountMin + 1)) + resolved.amountMin;
+
+    if (resolved.multiplier !== 1) {
+      finalAmount = Math.floor(finalAmount * resolved.multiplier);
+    }
+
+    // A zero multiplier is how rules withhold a reward (e.g. for low-trust users)
+    if (finalAmount < 1) {
+      console.log('[IssueReward] Reward withheld by rules:', { userId: user.id, rewardType, trace });
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Not eligible for this reward',
+          code: 'reward_withheld',
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
     // Apply attention score modifier (85-100% = full, below reduces proportionally)
@@ -151,7 +278,7 @@ serve(async (req) => {
 
     // Check daily limits
     const earnedToday = finalCoinType === 'icoin' ? dailyCap.icoin_earned : dailyCap.vicoin_earned;
-    const limit = DAILY_LIMITS[finalCoinType as keyof typeof DAILY_LIMITS];
+    const limit = resolved.dailyLimits[finalCoinType];
 
     if (earnedToday >= limit) {
       console.log('[IssueReward] Daily limit reached');
@@ -167,13 +294,13 @@ serve(async (req) => {
     }
 
     // Check promo view limit
-    if (rewardType === 'promo_view' && dailyCap.promo_views >= DAILY_LIMITS.promo_views) {
+    if (rewardType === 'promo_view' && dailyCap.promo_views >= resolved.dailyLimits.promo_views) {
       console.log('[IssueReward] Promo view limit reached');
       return new Response(
         JSON.stringify({ 
           error: 'Daily promo view limit reached', 
           success: false,
-          limit: DAILY_LIMITS.promo_views
+          limit: resolved.dailyLimits.promo_views
         }),
         { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
@@ -183,8 +310,78 @@ serve(async (req) => {
     const remainingLimit = limit - earnedToday;
     finalAmount = Math.min(finalAmount, remainingLimit);
 
-    // Log the reward
-    const { error: logError } = await supabase
+    const ruleTrace = {
+      context: { ...ruleContext, now: ruleContext.now.toISOString() },
+      rules: trace,
+      result: {
+        coinType: finalCoinType,
+        amount: finalAmount,
+        amountSource: campaign ? 'campaign' : amount ? 'request' : 'rules',
+        campaignId: campaign?.id ?? null,
+        multiplier: resolved.multiplier,
+        dailyLimits: resolved.dailyLimits,
+      },
+    };
+
+    const capUpdates: Record<string, number> = {
+      [finalCoinType === 'icoin' ? 'icoin_earned' : 'vicoin_earned']: 
+        (finalCoinType === 'icoin' ? dailyCap.icoin_earned : dailyCap.vicoin_earned) + finalAmount,
+    };
+    
+    if (rewardType === 'promo_view') {
+      capUpdates.promo_views = dailyCap.promo_views + 1;
+    }
+
+    // Low-trust users have the reward parked for review instead of paid; it still counts toward today's caps
+    if (trustScore < TRUST_HOLD_THRESHOLD) {
+      const { data: heldReward, error: holdError } = await supabase
+        .from('pending_rewards')
+        .insert({
+          user_id: user.id,
+          campaign_id: campaign?.id ?? null,
+          type: finalCoinType,
+          amount: finalAmount,
+          source: rewardType,
+          reference_id: contentId,
+          hold_reason: 'fraud_hold',
+          claimable_at: null,
+          metadata: { trust_score: trustScore, attention_score: attentionScore ?? null, rule_trace: ruleTrace },
+        })
+        .select('id, expires_at')
+        .single();
+
+      if (holdError) {
+        console.error('[IssueReward] Hold error:', holdError);
+        throw holdError;
+      }
+
+      const { error: capHoldError } = await supabase
+        .from('daily_reward_caps')
+        .update(capUpdates)
+        .eq('id', dailyCap.id);
+
+      if (capHoldError) {
+        console.error('[IssueReward] Cap update error:', capHoldError);
+        throw capHoldError;
+      }
+
+      console.log('[IssueReward] Reward held for review:', { userId: user.id, trustScore, pendingRewardId: heldReward.id });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          held: true,
+          pendingRewardId: heldReward.id,
+          amount: finalAmount,
+          coinType: finalCoinType,
+          expiresAt: heldReward.expires_at,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Log the reward first; its unique key is the replay guard for concurrent requests
+    const { data: rewardLog, error: logError } = await supabase
       .from('reward_logs')
       .insert({
         user_id: user.id,
@@ -193,13 +390,64 @@ serve(async (req) => {
         coin_type: finalCoinType,
         amount: finalAmount,
         attention_score: attentionScore ?? null,
-      });
+        rule_trace: ruleTrace,
+        campaign_id: campaign?.id ?? null,
+      })
+      .select('id')
+      .single();
 
     if (logError) {
       console.error('[IssueReward] Log error:', logError);
       throw logError;
     }
 
+    // Post the reward to the ledger atomically — prevents race conditions with advisory lock.
+    // Campaign rewards also debit the campaign budget under its row lock.
+    const description = `Earned from ${rewardType.replace('_', ' ')}`;
+    const { data: balanceResult, error: balanceError } = campaign
+      ? await supabase.rpc('atomic_campaign_reward', {
+        p_campaign_id: campaign.id,
+        p_user_id: user.id,
+        p_amount: finalAmount,
+        p_description: description,
+        p_reference_id: contentId,
+        p_entry_type: 'reward',
+      })
+      : await supabase.rpc('atomic_update_balance', {
+        p_user_id: user.id,
+        p_amount: finalAmount,
+        p_coin_type: finalCoinType,
+        p_description: description,
+        p_reference_id: contentId,
+        p_entry_type: 'reward',
+      });
+
+    if (balanceError) {
+      console.error('[IssueReward] Atomic balance update error:', balanceError);
+
+      // Nothing was paid, so release the replay guard and let the user earn it elsewhere
+      const campaignErrorKey = Object.keys(CAMPAIGN_ERRORS).find(key => (balanceError.message || '').includes(key));
+      if (campaignErrorKey) {
+        await supabase.from('reward_logs').delete().eq('id', rewardLog.id);
+        const { status, ...body } = CAMPAIGN_ERRORS[campaignErrorKey];
+        return new Response(
+          JSON.stringify({ ...body, success: false }),
+          { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      throw balanceError;
+    }
+
+    const newBalance = balanceResult?.new_balance ?? 0;
+    const journalEntryId = balanceResult?.journal_entry_id ?? null;
+
+    // The last payout from a campaign is trimmed to whatever budget was left
+    if (campaign && balanceResult.amount !== finalAmount) {
+      finalAmount = balanceResult.amount;
+      capUpdates[finalCoinType === 'icoin' ? 'icoin_earned' : 'vicoin_earned'] = earnedToday + finalAmount;
+      await supabase.from('reward_logs').update({ amount: finalAmount }).eq('id', rewardLog.id);
+    }
+
     // Create transaction record
     const { error: txError } = await supabase
       .from('transactions')
@@ -208,7 +456,7 @@ serve(async (req) => {
         type: 'earned',
         coin_type: finalCoinType,
         amount: finalAmount,
-        description: `Earned from ${rewardType.replace('_', ' ')}`,
+        description,
         reference_id: contentId,
       });
 
@@ -217,32 +465,7 @@ serve(async (req) => {
       throw txError;
     }
 
-    // Update user's balance atomically — prevents race conditions with advisory lock
-    const { data: balanceResult, error: balanceError } = await supabase.rpc('atomic_update_balance', {
-      p_user_id: user.id,
-      p_amount: finalAmount,
-      p_coin_type: finalCoinType,
-      p_description: `Earned from ${rewardType.replace('_', ' ')}`,
-      p_reference_id: contentId,
-    });
-
-    if (balanceError) {
-      console.error('[IssueReward] Atomic balance update error:', balanceError);
-      throw balanceError;
-    }
-
-    const newBalance = balanceResult?.new_balance ?? 0;
-
     // Update daily caps
-    const capUpdates: Record<string, number> = {
-      [finalCoinType === 'icoin' ? 'icoin_earned' : 'vicoin_earned']: 
-        (finalCoinType === 'icoin' ? dailyCap.icoin_earned : dailyCap.vicoin_earned) + finalAmount,
-    };
-    
-    if (rewardType === 'promo_view') {
-      capUpdates.promo_views = dailyCap.promo_views + 1;
-    }
-
     const { error: capUpdateError } = await supabase
       .from('daily_reward_caps')
       .update(capUpdates)
@@ -266,10 +489,17 @@ serve(async (req) => {
         amount: finalAmount,
         coinType: finalCoinType,
         newBalance,
+        journalEntryId,
+        campaign: campaign ? {
+          id: campaign.id,
+          spent: balanceResult.spent,
+          remaining: balanceResult.remaining,
+          status: balanceResult.status,
+        } : undefined,
         dailyRemaining: {
-          icoin: DAILY_LIMITS.icoin - (finalCoinType === 'icoin' ? dailyCap.icoin_earned + finalAmount : dailyCap.icoin_earned),
-          vicoin: DAILY_LIMITS.vicoin - (finalCoinType === 'vicoin' ? dailyCap.vicoin_earned + finalAmount : dailyCap.vicoin_earned),
-          promo_views: DAILY_LIMITS.promo_views - (rewardType === 'promo_view' ? dailyCap.promo_views + 1 : dailyCap.promo_views),
+          icoin: resolved.dailyLimits.icoin - (finalCoinType === 'icoin' ? dailyCap.icoin_earned + finalAmount : dailyCap.icoin_earned),
+          vicoin: resolved.dailyLimits.vicoin - (finalCoinType === 'vicoin' ? dailyCap.vicoin_earned + finalAmount : dailyCap.vicoin_earned),
+          promo_views: resolved.dailyLimits.promo_views - (rewardType === 'promo_view' ? dailyCap.promo_views + 1 : dailyCap.promo_views),
         },
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
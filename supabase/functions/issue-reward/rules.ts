@@ -0,0 +1,158 @@
+export type CoinType = 'vicoin' | 'icoin';
+
+export interface RewardRule {
+  id: string;
+  name: string;
+  priority: number;
+  reward_type: string | null;
+  subscription_tiers: string[] | null;
+  min_level: number | null;
+  max_level: number | null;
+  min_trust_score: number | null;
+  max_trust_score: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  coin_type: CoinType | null;
+  amount_min: number | null;
+  amount_max: number | null;
+  multiplier: number;
+  daily_limit_icoin: number | null;
+  daily_limit_vicoin: number | null;
+  daily_limit_promo_views: number | null;
+}
+
+export interface RuleContext {
+  rewardType: string;
+  subscriptionTier: string;
+  level: number;
+  trustScore: number;
+  now: Date;
+}
+
+export interface RuleTraceEntry {
+  ruleId: string;
+  name: string;
+  priority: number;
+  matched: boolean;
+  // Conditions that failed, empty when matched
+  reasons: string[];
+  // Effects this rule set, empty when not matched
+  applied: Record<string, unknown>;
+}
+
+export interface ResolvedReward {
+  coinType: CoinType;
+  amountMin: number;
+  amountMax: number;
+  multiplier: number;
+  dailyLimits: { icoin: number; vicoin: number; promo_views: number };
+}
+
+export interface RuleEvaluation {
+  resolved: ResolvedReward | null;
+  // Effects no matching rule supplied; non-empty exactly when resolved is null
+  missing: string[];
+  trace: RuleTraceEntry[];
+}
+
+function failedConditions(rule: RewardRule, ctx: RuleContext): string[] {
+  const reasons: string[] = [];
+
+  if (rule.reward_type && rule.reward_type !== ctx.rewardType) {
+    reasons.push(`reward_type ${ctx.rewardType} != ${rule.reward_type}`);
+  }
+  if (rule.subscription_tiers && rule.subscription_tiers.length > 0 && !rule.subscription_tiers.includes(ctx.subscriptionTier)) {
+    reasons.push(`tier ${ctx.subscriptionTier} not in [${rule.subscription_tiers.join(', ')}]`);
+  }
+  if (rule.min_level !== null && ctx.level < rule.min_level) {
+    reasons.push(`level ${ctx.level} < ${rule.min_level}`);
+  }
+  if (rule.max_level !== null && ctx.level > rule.max_level) {
+    reasons.push(`level ${ctx.level} > ${rule.max_level}`);
+  }
+  if (rule.min_trust_score !== null && ctx.trustScore < rule.min_trust_score) {
+    reasons.push(`trust ${ctx.trustScore} < ${rule.min_trust_score}`);
+  }
+  if (rule.max_trust_score !== null && ctx.trustScore > rule.max_trust_score) {
+    reasons.push(`trust ${ctx.trustScore} > ${rule.max_trust_score}`);
+  }
+  if (rule.starts_at && ctx.now < new Date(rule.starts_at)) {
+    reasons.push(`starts ${rule.starts_at}`);
+  }
+  if (rule.ends_at && ctx.now >= new Date(rule.ends_at)) {
+    reasons.push(`ended ${rule.ends_at}`);
+  }
+
+  return reasons;
+}
+
+/**
+ * Apply matching rules in priority order. Later rules override the effects they set;
+ * multipliers compound. Every rule is recorded in the trace whether it matched or not.
+ */
+export function evaluateRewardRules(rules: RewardRule[], ctx: RuleContext): RuleEvaluation {
+  const sorted = [...rules].sort((a, b) => a.priority - b.priority);
+  const trace: RuleTraceEntry[] = [];
+
+  let coinType: CoinType | null = null;
+  let amountMin: number | null = null;
+  let amountMax: number | null = null;
+  let multiplier = 1;
+  const limits: { icoin: number | null; vicoin: number | null; promo_views: number | null } = {
+    icoin: null,
+    vicoin: null,
+    promo_views: null,
+  };
+
+  for (const rule of sorted) {
+    const reasons = failedConditions(rule, ctx);
+    const applied: Record<string, unknown> = {};
+
+    if (reasons.length === 0) {
+      if (rule.coin_type) coinType = applied.coinType = rule.coin_type;
+      if (rule.amount_min !== null) amountMin = applied.amountMin = rule.amount_min;
+      if (rule.amount_max !== null) amountMax = applied.amountMax = rule.amount_max;
+      if (Number(rule.multiplier) !== 1) {
+        multiplier *= Number(rule.multiplier);
+        applied.multiplier = Number(rule.multiplier);
+      }
+      if (rule.daily_limit_icoin !== null) limits.icoin = applied.dailyLimitIcoin = rule.daily_limit_icoin;
+      if (rule.daily_limit_vicoin !== null) limits.vicoin = applied.dailyLimitVicoin = rule.daily_limit_vicoin;
+      if (rule.daily_limit_promo_views !== null) limits.promo_views = applied.dailyLimitPromoViews = rule.daily_limit_promo_views;
+    }
+
+    trace.push({
+      ruleId: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      matched: reasons.length === 0,
+      reasons,
+      applied,
+    });
+  }
+
+  const missing: string[] = [];
+  if (!coinType) missing.push('coin_type');
+  if (amountMin === null) missing.push('amount_min');
+  if (amountMax === null) missing.push('amount_max');
+  if (limits.icoin === null) missing.push('daily_limit_icoin');
+  if (limits.vicoin === null) missing.push('daily_limit_vicoin');
+  if (limits.promo_views === null) missing.push('daily_limit_promo_views');
+
+  if (missing.length > 0) {
+    return { resolved: null, missing, trace };
+  }
+
+  return {
+    resolved: {
+      coinType: coinType!,
+      // Overrides from different rules can cross; keep the range well-formed
+      amountMin: Math.min(amountMin!, amountMax!),
+      amountMax: Math.max(amountMin!, amountMax!),
+      multiplier,
+      dailyLimits: { icoin: limits.icoin!, vicoin: limits.vicoin!, promo_views: limits.promo_views! },
+    },
+    missing,
+    trace,
+  };
+}
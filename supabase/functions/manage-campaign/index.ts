@@ -0,0 +1,265 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Fields a business can change after launch. Reward type and required action are
+// fixed once created so spend stays comparable across the campaign's life.
+const EditableFields = z.object({
+  title: z.string().trim().min(1).max(120),
+  description: z.string().max(2000),
+  rewardAmount: z.number().int().min(1).max(10000),
+  targetViews: z.number().int().min(0).max(10000000),
+  budget: z.number().int().min(1).max(100000000),
+  pacing: z.enum(['even', 'asap']),
+  endDate: z.string().datetime({ offset: true }),
+  latitude: z.number().min(-90).max(90).nullable(),
+  longitude: z.number().min(-180).max(180).nullable(),
+  address: z.string().max(255).nullable(),
+});
+
+const ManageCampaignSchema = z.discriminatedUnion('action', [
+  EditableFields.extend({
+    action: z.literal('create'),
+    description: EditableFields.shape.description.default(''),
+    targetViews: EditableFields.shape.targetViews.default(0),
+    pacing: EditableFields.shape.pacing.default('even'),
+    latitude: EditableFields.shape.latitude.optional(),
+    longitude: EditableFields.shape.longitude.optional(),
+    address: EditableFields.shape.address.optional(),
+    rewardType: z.enum(['vicoin', 'icoin', 'discount', 'product']),
+    requiredAction: z.enum(['view', 'like', 'share', 'visit', 'purchase']),
+    startDate: z.string().datetime({ offset: true }).optional(),
+    promotionId: z.string().uuid('Invalid promotion ID').optional(),
+  }),
+  EditableFields.partial().extend({
+    action: z.literal('update'),
+    campaignId: z.string().uuid('Invalid campaign ID'),
+  }),
+  z.object({ action: z.literal('pause'), campaignId: z.string().uuid('Invalid campaign ID') }),
+  z.object({ action: z.literal('resume'), campaignId: z.string().uuid('Invalid campaign ID') }),
+  z.object({ action: z.literal('delete'), campaignId: z.string().uuid('Invalid campaign ID') }),
+]);
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// Coin budgets are paid into the campaign from the business's wallet as the row is
+// written (see fund_campaign_budget), so creating, raising or resuming can come up short
+function insufficientBalance(error: { message?: string } | null, rewardType: string) {
+  if (!error?.message?.includes('INSUFFICIENT_BALANCE')) return null;
+  return json({ error: `Insufficient ${rewardType} balance for this budget`, code: 'insufficient_balance', success: false }, 400);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Unauthorized', success: false }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error('[ManageCampaign] Auth error:', authError);
+      return json({ error: 'Unauthorized', success: false }, 401);
+    }
+
+    const parseResult = ManageCampaignSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      console.warn('[ManageCampaign] Validation failed:', parseResult.error.flatten());
+      return json({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors, success: false }, 400);
+    }
+
+    const input = parseResult.data;
+    console.log('[ManageCampaign] Request:', { userId: user.id, action: input.action });
+
+    if (input.action === 'create') {
+      const { data: isBusiness } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'business' });
+      if (!isBusiness) {
+        return json({ error: 'Campaigns need a business account', code: 'not_business', success: false }, 403);
+      }
+
+      const startDate = input.startDate ?? new Date().toISOString();
+      if (new Date(input.endDate) <= new Date(startDate)) {
+        return json({ error: 'End date must be after start date', success: false }, 400);
+      }
+      if ((input.latitude == null) !== (input.longitude == null)) {
+        return json({ error: 'Latitude and longitude must be set together', success: false }, 400);
+      }
+
+      // A campaign can only be attached to one of the business's own promotions
+      if (input.promotionId) {
+        const { data: promotion, error: promoError } = await supabase
+          .from('promotions')
+          .select('id, business_id')
+          .eq('id', input.promotionId)
+          .maybeSingle();
+
+        if (promoError) throw promoError;
+        if (!promotion || promotion.business_id !== user.id) {
+          return json({ error: 'Promotion not found', success: false }, 404);
+        }
+      }
+
+      const { data: campaign, error: insertError } = await supabase
+        .from('campaigns')
+        .insert({
+          business_id: user.id,
+          promotion_id: input.promotionId ?? null,
+          title: input.title,
+          description: input.description,
+          reward_type: input.rewardType,
+          reward_amount: input.rewardAmount,
+          required_action: input.requiredAction,
+          target_views: input.targetViews,
+          budget: input.budget,
+          pacing: input.pacing,
+          start_date: startDate,
+          end_date: input.endDate,
+          latitude: input.latitude ?? null,
+          longitude: input.longitude ?? null,
+          address: input.address ?? null,
+        })
+        .select()
+        .single();
+
+      const shortfall = insufficientBalance(insertError, input.rewardType);
+      if (shortfall) return shortfall;
+      if (insertError) throw insertError;
+
+      console.log('[ManageCampaign] Created:', { userId: user.id, campaignId: campaign.id, budget: campaign.budget });
+      return json({ success: true, campaign });
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('id', input.campaignId)
+      .eq('business_id', user.id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+    if (!existing) {
+      return json({ error: 'Campaign not found', code: 'campaign_not_found', success: false }, 404);
+    }
+
+    if (input.action === 'update') {
+      const updates: Record<string, unknown> = {};
+      if (input.title !== undefined) updates.title = input.title;
+      if (input.description !== undefined) updates.description = input.description;
+      if (input.rewardAmount !== undefined) updates.reward_amount = input.rewardAmount;
+      if (input.targetViews !== undefined) updates.target_views = input.targetViews;
+      if (input.budget !== undefined) updates.budget = input.budget;
+      if (input.pacing !== undefined) updates.pacing = input.pacing;
+      if (input.endDate !== undefined) updates.end_date = input.endDate;
+      if (input.latitude !== undefined) updates.latitude = input.latitude;
+      if (input.longitude !== undefined) updates.longitude = input.longitude;
+      if (input.address !== undefined) updates.address = input.address;
+
+      if (input.endDate !== undefined && new Date(input.endDate) <= new Date(existing.start_date)) {
+        return json({ error: 'End date must be after start date', success: false }, 400);
+      }
+
+      const { data: campaign, error: updateError } = await supabase
+        .from('campaigns')
+        .update(updates)
+        .eq('id', existing.id)
+        .select()
+        .single();
+
+      // spent <= budget is enforced by the table so a concurrent payout can't slip under a cut
+      if (updateError?.code === '23514') {
+        return json({ error: 'Budget cannot be lower than the amount already spent', code: 'budget_below_spent', success: false }, 409);
+      }
+      const shortfall = insufficientBalance(updateError, existing.reward_type);
+      if (shortfall) return shortfall;
+      if (updateError) throw updateError;
+
+      return json({ success: true, campaign });
+    }
+
+    if (input.action === 'pause') {
+      if (existing.status !== 'active') {
+        return json({ error: `Campaign is ${existing.status}`, code: 'invalid_status', success: false }, 409);
+      }
+
+      const { data: campaign, error: updateError } = await supabase
+        .from('campaigns')
+        .update({ status: 'paused', pause_reason: 'manual' })
+        .eq('id', existing.id)
+        .eq('status', 'active')
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+      return json({ success: true, campaign });
+    }
+
+    if (input.action === 'resume') {
+      if (existing.status !== 'paused') {
+        return json({ error: `Campaign is ${existing.status}`, code: 'invalid_status', success: false }, 409);
+      }
+      if (existing.spent >= existing.budget) {
+        return json({ error: 'Raise the budget before resuming', code: 'budget_exhausted', success: false }, 409);
+      }
+      if (new Date(existing.end_date) <= new Date()) {
+        return json({ error: 'Campaign has ended', code: 'campaign_ended', success: false }, 409);
+      }
+
+      const { data: campaign, error: updateError } = await supabase
+        .from('campaigns')
+        .update({ status: 'active', pause_reason: null })
+        .eq('id', existing.id)
+        .eq('status', 'paused')
+        .select()
+        .single();
+
+      const shortfall = insufficientBalance(updateError, existing.reward_type);
+      if (shortfall) return shortfall;
+      if (updateError) throw updateError;
+      return json({ success: true, campaign });
+    }
+
+    // delete: campaigns that have paid anyone out stay for the ledger trail
+    if (existing.spent > 0) {
+      return json({ error: 'Campaigns with spend cannot be deleted; pause it instead', code: 'campaign_has_spend', success: false }, 409);
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('campaigns')
+      .delete()
+      .eq('id', existing.id)
+      .eq('spent', 0)
+      .select('id');
+
+    if (deleteError) throw deleteError;
+    if (!deleted || deleted.length === 0) {
+      return json({ error: 'Campaign started spending', code: 'campaign_has_spend', success: false }, 409);
+    }
+
+    console.log('[ManageCampaign] Deleted:', { userId: user.id, campaignId: existing.id });
+    return json({ success: true, campaignId: existing.id });
+  } catch (error: unknown) {
+    console.error('[ManageCampaign] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return json({ error: message, success: false }, 500);
+  }
+});
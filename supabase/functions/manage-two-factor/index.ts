@@ -0,0 +1,408 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
+import QRCode from "https://esm.sh/qrcode@1.5.3";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const ISSUER = 'iView';
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Steps accepted either side of now, to allow for clock drift
+const TOTP_DRIFT_STEPS = 1;
+
+const BACKUP_CODE_COUNT = 10;
+const BACKUP_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+// Wrong codes in a row before verification locks, and for how long
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 15;
+
+const STEP_UP_TTL_MINUTES = 5;
+// Scopes whose grant is used up by the single action it authorises
+const SINGLE_USE_SCOPES = ['payout', 'transfer'];
+
+const TotpCode = z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code from your app');
+// A TOTP code or a backup code
+const AnyCode = z.string().trim().min(6).max(16);
+
+const ManageTwoFactorSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('status') }),
+  z.object({ action: z.literal('enroll') }),
+  z.object({ action: z.literal('activate'), code: TotpCode }),
+  z.object({ action: z.literal('disable'), code: AnyCode }),
+  z.object({ action: z.literal('regenerate_backup_codes'), code: TotpCode }),
+  z.object({
+    action: z.literal('challenge'),
+    code: AnyCode,
+    scope: z.enum(['payout', 'transfer', 'payment_methods']),
+  }),
+]);
+
+interface TwoFactorRow {
+  user_id: string;
+  secret: string;
+  enabled_at: string | null;
+  last_used_step: number | null;
+  failed_attempts: number;
+  locked_until: string | null;
+}
+
+type VerifyResult = 'ok' | 'invalid' | 'locked';
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Uint8Array {
+  const clean = input.replace(/=+$/, '').toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// RFC 4226 HOTP with HMAC-SHA1 and dynamic truncation
+async function hotp(key: CryptoKey, counter: number): Promise<string> {
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message.buffer));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24)
+    | (mac[offset + 1] << 16)
+    | (mac[offset + 2] << 8)
+    | mac[offset + 3];
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+// Returns the time step the code belongs to, or null. Steps at or before the
+// last accepted one are skipped so a code cannot be replayed.
+async function matchTotp(secret: string, code: string, lastUsedStep: number | null): Promise<number | null> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    base32Decode(secret),
+    { name: 'HMAC', hash: 'SHA-1' },
+    false,
+    ['sign'],
+  );
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(await hotp(key, step), code)) return step;
+  }
+  return null;
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+const normalizeBackupCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function generateBackupCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  const chars = [...bytes].map(b => BACKUP_CODE_ALPHABET[b % BACKUP_CODE_ALPHABET.length]).join('');
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+// Replaces the user's backup codes and returns the new plaintext codes, which are
+// shown once and never stored
+async function issueBackupCodes(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, generateBackupCode);
+  const rows = await Promise.all(codes.map(async code => ({
+    user_id: userId,
+    code_hash: await sha256Hex(normalizeBackupCode(code)),
+  })));
+
+  const { error: deleteError } = await supabase.from('user_backup_codes').delete().eq('user_id', userId);
+  if (deleteError) throw deleteError;
+
+  const { error: insertError } = await supabase.from('user_backup_codes').insert(rows);
+  if (insertError) throw insertError;
+
+  return codes;
+}
+
+async function verifyCode(
+  supabase: SupabaseClient,
+  factor: TwoFactorRow,
+  code: string,
+  allowBackup: boolean,
+): Promise<VerifyResult> {
+  if (factor.locked_until && new Date(factor.locked_until) > new Date()) {
+    return 'locked';
+  }
+
+  let verified = false;
+
+  if (/^\d{6}$/.test(code)) {
+    const step = await matchTotp(factor.secret, code, factor.last_used_step);
+    if (step !== null) {
+      // Conditional on the stored step so two concurrent requests cannot both use the code
+      let stepQuery = supabase
+        .from('user_two_factor')
+        .update({ last_used_step: step, failed_attempts: 0, locked_until: null })
+        .eq('user_id', factor.user_id);
+      stepQuery = factor.last_used_step === null
+        ? stepQuery.is('last_used_step', null)
+        : stepQuery.eq('last_used_step', factor.last_used_step);
+
+      const { data: updated, error } = await stepQuery.select('user_id');
+      if (error) throw error;
+      verified = (updated || []).length > 0;
+    }
+  } else if (allowBackup) {
+    const codeHash = await sha256Hex(normalizeBackupCode(code));
+    const { data: used, error } = await supabase
+      .from('user_backup_codes')
+      .update({ used_at: new Date().toISOString() })
+      .eq('user_id', factor.user_id)
+      .eq('code_hash', codeHash)
+      .is('used_at', null)
+      .select('id');
+
+    if (error) throw error;
+    verified = (used || []).length > 0;
+
+    if (verified) {
+      const { error: resetError } = await supabase
+        .from('user_two_factor')
+        .update({ failed_attempts: 0, locked_until: null })
+        .eq('user_id', factor.user_id);
+      if (resetError) throw resetError;
+    }
+  }
+
+  if (verified) return 'ok';
+
+  const failedAttempts = factor.failed_attempts + 1;
+  const locked = failedAttempts >= MAX_FAILED_ATTEMPTS;
+  const { error: failError } = await supabase
+    .from('user_two_factor')
+    .update({
+      failed_attempts: locked ? 0 : failedAttempts,
+      locked_until: locked ? new Date(Date.now() + LOCKOUT_MINUTES * 60_000).toISOString() : null,
+    })
+    .eq('user_id', factor.user_id);
+  if (failError) throw failError;
+
+  return locked ? 'locked' : 'invalid';
+}
+
+function verifyFailure(result: Exclude<VerifyResult, 'ok'>) {
+  return result === 'locked'
+    ? json({ error: 'Too many incorrect codes. Try again later.', code: 'locked', success: false }, 429)
+    : json({ error: 'Incorrect code', code: 'invalid_code', success: false }, 400);
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Unauthorized', success: false }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      console.error('[ManageTwoFactor] Auth error:', authError);
+      return json({ error: 'Unauthorized', success: false }, 401);
+    }
+
+    const parseResult = ManageTwoFactorSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      console.warn('[ManageTwoFactor] Validation failed:', parseResult.error.flatten());
+      return json({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors, success: false }, 400);
+    }
+
+    const input = parseResult.data;
+    console.log('[ManageTwoFactor] Request:', { userId: user.id, action: input.action });
+
+    const { data: factor, error: factorError } = await supabase
+      .from('user_two_factor')
+      .select('user_id, secret, enabled_at, last_used_step, failed_attempts, locked_until')
+      .eq('user_id', user.id)
+      .maybeSingle<TwoFactorRow>();
+
+    if (factorError) throw factorError;
+    const enabled = !!factor?.enabled_at;
+
+    if (input.action === 'status') {
+      let backupCodesRemaining = 0;
+      if (enabled) {
+        const { count, error: countError } = await supabase
+          .from('user_backup_codes')
+          .select('id', { count: 'exact', head: true })
+          .eq('user_id', user.id)
+          .is('used_at', null);
+        if (countError) throw countError;
+        backupCodesRemaining = count ?? 0;
+      }
+
+      return json({
+        success: true,
+        enabled,
+        pending: !!factor && !enabled,
+        backupCodesRemaining,
+      });
+    }
+
+    if (input.action === 'enroll') {
+      if (enabled) {
+        return json({ error: 'Two-factor authentication is already on', code: 'already_enabled', success: false }, 409);
+      }
+
+      // 160-bit secret, the size RFC 4226 recommends for HMAC-SHA1
+      const secret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+      const { error: upsertError } = await supabase
+        .from('user_two_factor')
+        .upsert({
+          user_id: user.id,
+          secret,
+          enabled_at: null,
+          last_used_step: null,
+          failed_attempts: 0,
+          locked_until: null,
+        });
+
+      if (upsertError) throw upsertError;
+
+      const label = encodeURIComponent(`${ISSUER}:${user.email ?? user.id}`);
+      const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(ISSUER)}` +
+        `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+      const qrSvg = await QRCode.toString(otpauthUrl, { type: 'svg', margin: 1 });
+
+      return json({ success: true, secret, otpauthUrl, qrSvg });
+    }
+
+    if (!factor) {
+      return json({ error: 'Two-factor authentication is not set up', code: 'not_enrolled', success: false }, 404);
+    }
+
+    if (input.action === 'activate') {
+      if (enabled) {
+        return json({ error: 'Two-factor authentication is already on', code: 'already_enabled', success: false }, 409);
+      }
+
+      const result = await verifyCode(supabase, factor, input.code, false);
+      if (result !== 'ok') return verifyFailure(result);
+
+      const { error: enableError } = await supabase
+        .from('user_two_factor')
+        .update({ enabled_at: new Date().toISOString() })
+        .eq('user_id', user.id);
+      if (enableError) throw enableError;
+
+      const backupCodes = await issueBackupCodes(supabase, user.id);
+      console.log('[ManageTwoFactor] Enabled:', { userId: user.id });
+      return json({ success: true, backupCodes });
+    }
+
+    if (!enabled) {
+      return json({ error: 'Two-factor authentication is not on', code: 'not_enabled', success: false }, 409);
+    }
+
+    if (input.action === 'disable') {
+      const result = await verifyCode(supabase, factor, input.code, true);
+      if (result !== 'ok') return verifyFailure(result);
+
+      // Backup codes and step-up grants cascade
+      const { error: deleteError } = await supabase.from('user_two_factor').delete().eq('user_id', user.id);
+      if (deleteError) throw deleteError;
+
+      console.log('[ManageTwoFactor] Disabled:', { userId: user.id });
+      return json({ success: true });
+    }
+
+    if (input.action === 'regenerate_backup_codes') {
+      const result = await verifyCode(supabase, factor, input.code, false);
+      if (result !== 'ok') return verifyFailure(result);
+
+      const backupCodes = await issueBackupCodes(supabase, user.id);
+      return json({ success: true, backupCodes });
+    }
+
+    // challenge
+    const result = await verifyCode(supabase, factor, input.code, true);
+    if (result !== 'ok') return verifyFailure(result);
+
+    const expiresAt = new Date(Date.now() + STEP_UP_TTL_MINUTES * 60_000).toISOString();
+    const { error: grantError } = await supabase
+      .from('two_factor_step_ups')
+      .insert({ user_id: user.id, scope: input.scope, expires_at: expiresAt });
+    if (grantError) throw grantError;
+
+    return json({
+      success: true,
+      scope: input.scope,
+      expiresAt,
+      singleUse: SINGLE_USE_SCOPES.includes(input.scope),
+    });
+  } catch (error: unknown) {
+    console.error('[ManageTwoFactor] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return json({ error: message, success: false }, 500);
+  }
+});
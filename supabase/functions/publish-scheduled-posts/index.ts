@@ -0,0 +1,248 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Delay before each retry, indexed by attempts already made; the post fails
+// for good once every retry is used
+const RETRY_BACKOFF_MINUTES = [1, 5, 15, 60];
+const MAX_ATTEMPTS = RETRY_BACKOFF_MINUTES.length + 1;
+
+const PublishSchema = z.object({
+  limit: z.number().int().min(1).max(100).default(25),
+});
+
+interface ScheduledMedia {
+  id: string;
+  user_id: string;
+  title: string | null;
+  description: string | null;
+  media_type: string;
+  thumbnail_url: string | null;
+  local_media_url: string | null;
+  edited_media_url: string | null;
+  published_content_id: string | null;
+  scheduled_at: string;
+  publish_attempts: number;
+  metadata: Record<string, unknown> | null;
+}
+
+// Errors that retrying cannot fix
+class PermanentPublishError extends Error {}
+
+type Outcome = 'published' | 'retrying' | 'failed';
+
+async function notify(
+  supabase: SupabaseClient,
+  userId: string,
+  title: string,
+  body: string,
+  data: Record<string, unknown>,
+) {
+  // send-notification-email applies the user's preferences and writes the notification row
+  const { error } = await supabase.functions.invoke('send-notification-email', {
+    body: { userId, type: 'system', title, body, data },
+  });
+  if (error) {
+    console.error('[PublishScheduled] Notification error:', error);
+  }
+}
+
+async function publishPost(supabase: SupabaseClient, post: ScheduledMedia): Promise<string> {
+  // A previous attempt may have created the content before failing to mark the post
+  if (post.published_content_id) {
+    return post.published_content_id;
+  }
+
+  const mediaUrl = post.edited_media_url || post.local_media_url;
+  if (!mediaUrl) {
+    throw new PermanentPublishError('Media has not finished processing');
+  }
+
+  const tags = Array.isArray(post.metadata?.tags)
+    ? (post.metadata.tags as unknown[]).filter((tag): tag is string => typeof tag === 'string')
+    : [];
+  const contentType = post.media_type === 'image' ? 'image' : 'video';
+
+  const { data: content, error: contentError } = await supabase
+    .from('user_content')
+    .insert({
+      user_id: post.user_id,
+      content_type: contentType,
+      media_type: contentType,
+      title: post.title || 'Untitled',
+      caption: post.description,
+      media_url: mediaUrl,
+      thumbnail_url: post.thumbnail_url,
+      tags,
+      status: 'published',
+      is_public: true,
+      is_draft: false,
+      scheduled_at: post.scheduled_at,
+      published_at: new Date().toISOString(),
+      reward_type: 'both',
+    })
+    .select('id')
+    .single();
+
+  if (contentError) throw contentError;
+
+  // Record the content straight away so a failure below does not publish twice
+  const { error: linkError } = await supabase
+    .from('imported_media')
+    .update({ published_content_id: content.id })
+    .eq('id', post.id);
+
+  if (linkError) throw linkError;
+
+  return content.id;
+}
+
+async function processPost(supabase: SupabaseClient, post: ScheduledMedia): Promise<Outcome> {
+  const title = post.title || 'Untitled';
+
+  try {
+    const contentId = await publishPost(supabase, post);
+
+    const { error: updateError } = await supabase
+      .from('imported_media')
+      .update({
+        status: 'published',
+        published_content_id: contentId,
+        published_at: new Date().toISOString(),
+        publish_error: null,
+        next_attempt_at: null,
+        publishing_started_at: null,
+      })
+      .eq('id', post.id);
+
+    if (updateError) throw updateError;
+
+    console.log('[PublishScheduled] Published:', { importedMediaId: post.id, contentId });
+    await notify(supabase, post.user_id, 'Your scheduled post is live', `"${title}" was published to your feed.`, {
+      importedMediaId: post.id,
+      contentId,
+    });
+    return 'published';
+  } catch (error: unknown) {
+    const reason = error instanceof Error
+      ? error.message
+      : (error as { message?: string })?.message || 'Unknown error';
+    const permanent = error instanceof PermanentPublishError;
+    const giveUp = permanent || post.publish_attempts >= MAX_ATTEMPTS;
+
+    console.error('[PublishScheduled] Publish failed:', { importedMediaId: post.id, attempt: post.publish_attempts, reason });
+
+    const nextAttemptAt = giveUp
+      ? null
+      : new Date(Date.now() + RETRY_BACKOFF_MINUTES[post.publish_attempts - 1] * 60_000).toISOString();
+
+    const { error: updateError } = await supabase
+      .from('imported_media')
+      .update({
+        status: giveUp ? 'failed' : 'scheduled',
+        publish_error: reason,
+        next_attempt_at: nextAttemptAt,
+        publishing_started_at: null,
+      })
+      .eq('id', post.id);
+
+    if (updateError) {
+      // The claim goes stale and the post is picked up again
+      console.error('[PublishScheduled] Status update error:', updateError);
+    }
+
+    if (!giveUp) return 'retrying';
+
+    await notify(supabase, post.user_id, 'Scheduled post failed', `"${title}" could not be published: ${reason}`, {
+      importedMediaId: post.id,
+      error: reason,
+    });
+    return 'failed';
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  try {
+    // The scheduler calls with the service role key; admins can also trigger a run
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized', success: false }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized', success: false }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Forbidden', success: false }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const parseResult = PublishSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parseResult.success) {
+      console.warn('[PublishScheduled] Validation failed:', parseResult.error.flatten());
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors, success: false }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_due_scheduled_posts', {
+      p_limit: parseResult.data.limit,
+    });
+
+    if (claimError) {
+      console.error('[PublishScheduled] Claim error:', claimError);
+      throw claimError;
+    }
+
+    const posts = (claimed || []) as ScheduledMedia[];
+    const counts: Record<Outcome, number> = { published: 0, retrying: 0, failed: 0 };
+
+    for (const post of posts) {
+      counts[await processPost(supabase, post)] += 1;
+    }
+
+    if (posts.length > 0) {
+      console.log('[PublishScheduled] Run complete:', { claimed: posts.length, ...counts });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, claimed: posts.length, ...counts }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('[PublishScheduled] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return new Response(
+      JSON.stringify({ error: message, success: false }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,266 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Page size matches the API max_rows setting
+const PAGE_SIZE = 1000;
+
+// Absolute drift (in coins) at or below which each severity applies; above the last is critical
+const SEVERITY_THRESHOLDS = {
+  low: 10,
+  medium: 100,
+  high: 1000,
+};
+
+const SEVERITY_ORDER = ['low', 'medium', 'high', 'critical'] as const;
+type Severity = typeof SEVERITY_ORDER[number];
+
+const ReconcileSchema = z.object({
+  autoCorrect: z.boolean().default(false),
+  autoCorrectThreshold: z.number().int().min(0).max(SEVERITY_THRESHOLDS.low).default(5),
+});
+
+interface ExpectedBalanceRow {
+  user_id: string;
+  coin_type: 'vicoin' | 'icoin';
+  profile_balance: number;
+  expected_balance: number;
+  ledger_balance: number | null;
+  breakdown: Record<string, number>;
+}
+
+// A user holding more than their history supports is the fraud direction, so
+// positive drift is bumped one severity level.
+function classifyDrift(drift: number): Severity {
+  const magnitude = Math.abs(drift);
+  let index = 3;
+  if (magnitude <= SEVERITY_THRESHOLDS.low) index = 0;
+  else if (magnitude <= SEVERITY_THRESHOLDS.medium) index = 1;
+  else if (magnitude <= SEVERITY_THRESHOLDS.high) index = 2;
+
+  if (drift > 0 && index < 3 && magnitude > SEVERITY_THRESHOLDS.low) {
+    index += 1;
+  }
+  return SEVERITY_ORDER[index];
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  let runId: string | null = null;
+
+  try {
+    // The scheduler calls with the service role key; admins can also trigger a run
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized', success: false }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    let triggeredBy: string | null = null;
+
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return new Response(
+          JSON.stringify({ error: 'Unauthorized', success: false }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data: isAdmin } = await supabase.rpc('has_role', { _user_id: user.id, _role: 'admin' });
+      if (!isAdmin) {
+        return new Response(
+          JSON.stringify({ error: 'Forbidden', success: false }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      triggeredBy = user.id;
+    }
+
+    const parseResult = ReconcileSchema.safeParse(await req.json().catch(() => ({})));
+    if (!parseResult.success) {
+      console.warn('[ReconcileBalances] Validation failed:', parseResult.error.flatten());
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors, success: false }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { autoCorrect, autoCorrectThreshold } = parseResult.data;
+    console.log('[ReconcileBalances] Starting run:', { triggeredBy, autoCorrect, autoCorrectThreshold });
+
+    const { data: run, error: runError } = await supabase
+      .from('balance_reconciliation_runs')
+      .insert({
+        triggered_by: triggeredBy,
+        auto_correct: autoCorrect,
+        auto_correct_threshold: autoCorrectThreshold,
+      })
+      .select()
+      .single();
+
+    if (runError) {
+      console.error('[ReconcileBalances] Run insert error:', runError);
+      throw runError;
+    }
+    runId = run.id;
+
+    // Open findings from earlier runs are updated in place instead of duplicated
+    const { data: openRows, error: openError } = await supabase
+      .from('balance_reconciliations')
+      .select('id, user_id, coin_type')
+      .eq('status', 'open');
+
+    if (openError) {
+      console.error('[ReconcileBalances] Open rows error:', openError);
+      throw openError;
+    }
+
+    const openByKey = new Map<string, string>();
+    for (const row of openRows || []) {
+      openByKey.set(`${row.user_id}:${row.coin_type}`, row.id);
+    }
+
+    let balancesChecked = 0;
+    let mismatchesFound = 0;
+    let autoCorrected = 0;
+    const cleared: string[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: page, error: pageError } = await supabase
+        .rpc('reconciliation_expected_balances')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (pageError) {
+        console.error('[ReconcileBalances] Expected balances error:', pageError);
+        throw pageError;
+      }
+
+      const rows = (page || []) as ExpectedBalanceRow[];
+      balancesChecked += rows.length;
+
+      for (const row of rows) {
+        const key = `${row.user_id}:${row.coin_type}`;
+        const existingId = openByKey.get(key);
+        const drift = row.profile_balance - row.expected_balance;
+
+        if (drift === 0) {
+          if (existingId) cleared.push(existingId);
+          continue;
+        }
+
+        mismatchesFound++;
+        const severity = classifyDrift(drift);
+        let status: 'open' | 'auto_corrected' = 'open';
+
+        if (autoCorrect && severity === 'low' && Math.abs(drift) <= autoCorrectThreshold) {
+          const { error: adjustError } = await supabase.rpc('ledger_adjust_balance', {
+            p_user_id: row.user_id,
+            p_coin_type: row.coin_type,
+            p_target_balance: row.expected_balance,
+            p_description: 'Automatic correction after nightly reconciliation',
+            p_metadata: { run_id: runId, drift },
+          });
+
+          if (adjustError) {
+            console.error('[ReconcileBalances] Auto-correct error:', { key, adjustError });
+          } else {
+            status = 'auto_corrected';
+            autoCorrected++;
+          }
+        }
+
+        const finding = {
+          run_id: runId,
+          profile_balance: row.profile_balance,
+          expected_balance: row.expected_balance,
+          ledger_balance: row.ledger_balance,
+          drift,
+          severity,
+          status,
+          breakdown: row.breakdown,
+          ...(status === 'auto_corrected' ? { resolved_at: new Date().toISOString() } : {}),
+        };
+
+        const { error: writeError } = existingId
+          ? await supabase.from('balance_reconciliations').update(finding).eq('id', existingId)
+          : await supabase.from('balance_reconciliations').insert({
+              ...finding,
+              user_id: row.user_id,
+              coin_type: row.coin_type,
+            });
+
+        if (writeError) {
+          console.error('[ReconcileBalances] Finding write error:', { key, writeError });
+        }
+      }
+
+      if (rows.length < PAGE_SIZE) break;
+    }
+
+    if (cleared.length > 0) {
+      const { error: clearError } = await supabase
+        .from('balance_reconciliations')
+        .update({ status: 'cleared', resolved_at: new Date().toISOString(), resolution_note: 'Drift no longer present' })
+        .in('id', cleared);
+
+      if (clearError) {
+        console.error('[ReconcileBalances] Clear error:', clearError);
+      }
+    }
+
+    await supabase
+      .from('balance_reconciliation_runs')
+      .update({
+        status: 'completed',
+        balances_checked: balancesChecked,
+        mismatches_found: mismatchesFound,
+        auto_corrected: autoCorrected,
+        finished_at: new Date().toISOString(),
+      })
+      .eq('id', runId);
+
+    console.log('[ReconcileBalances] Completed:', { runId, balancesChecked, mismatchesFound, autoCorrected, cleared: cleared.length });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        runId,
+        balancesChecked,
+        mismatchesFound,
+        autoCorrected,
+        cleared: cleared.length,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('[ReconcileBalances] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+
+    if (runId) {
+      await supabase
+        .from('balance_reconciliation_runs')
+        .update({ status: 'failed', error_message: message, finished_at: new Date().toISOString() })
+        .eq('id', runId);
+    }
+
+    return new Response(
+      JSON.stringify({ error: message, success: false }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
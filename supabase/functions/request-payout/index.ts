@@ -79,8 +79,9 @@ serve(async (req) => {
       );
     }
 
-    // Call atomic stored procedure — handles locking, KYC check, balance deduction, and transaction logging
-    const { data, error: rpcError } = await supabase.rpc('atomic_request_payout', {
+    // Call atomic stored procedure — uses up the 2FA step-up (manage-two-factor) only if the
+    // request succeeds, and handles locking, KYC check, the ledger entry, and transaction logging
+    const { data, error: rpcError } = await supabase.rpc('request_payout_with_step_up', {
       p_user_id: user.id,
       p_amount: amount,
       p_coin_type: coinType,
@@ -91,6 +92,12 @@ serve(async (req) => {
       console.error('[RequestPayout] RPC error:', rpcError);
       const msg = rpcError.message || '';
 
+      if (msg.includes('STEP_UP_REQUIRED')) {
+        return new Response(
+          JSON.stringify({ error: 'Two-factor verification required', code: 'step_up_required', success: false }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
       if (msg.includes('KYC_REQUIRED')) {
         return new Response(
           JSON.stringify({ error: 'KYC verification required before payout' }),
@@ -124,6 +131,7 @@ serve(async (req) => {
         status: 'processing',
         estimated_arrival: '3-5 business days',
         new_balance: data.new_balance,
+        journal_entry_id: data.journal_entry_id,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,231 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Offline earnings older than this are too stale to verify
+const MAX_OFFLINE_AGE_DAYS = 7;
+// Allowance for device clocks running ahead
+const CLOCK_SKEW_MINUTES = 5;
+
+// The client only reports what was watched and how; amounts and coin types are decided
+// here by issue-reward, never taken from the queued payload
+const OfflineEarningSchema = z.object({
+  rewardType: z.enum(['promo_view', 'task_complete']),
+  contentId: z.string().uuid('Invalid content ID'),
+  promoId: z.string().uuid('Invalid promo ID').optional(),
+  earnedAt: z.string().datetime(),
+  attention: z.object({
+    attentionScore: z.number().min(0).max(100),
+    watchDuration: z.number().min(0).max(86400),
+    totalDuration: z.number().min(0.01).max(86400),
+    framesDetected: z.number().int().min(0).max(100000),
+    totalFrames: z.number().int().min(0).max(100000),
+    deviceFingerprint: z.string().max(255).optional(),
+    trace: z.string().max(500000).optional(),
+  }),
+});
+
+const SyncActionSchema = z.object({
+  idempotencyKey: z.string().uuid('Invalid idempotency key'),
+  type: z.literal('transaction'),
+  payload: OfflineEarningSchema,
+});
+
+type SyncStatus = 'applied' | 'rejected';
+
+interface SyncResult {
+  status: SyncStatus;
+  reason: string | null;
+  result: Record<string, unknown> | null;
+}
+
+// Calls a sibling function as the user so it applies its own auth and checks. Server
+// errors throw, so the action is retried instead of rejected.
+async function callFunction(
+  supabaseUrl: string,
+  name: string,
+  authHeader: string,
+  body: Record<string, unknown>
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: { 'Authorization': authHeader, 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const parsed = await response.json().catch(() => ({}));
+
+  if (response.status >= 500) {
+    throw new Error(`${name} failed: ${parsed.error ?? response.status}`);
+  }
+  return { status: response.status, body: parsed };
+}
+
+const rejected = (reason: string): SyncResult => ({ status: 'rejected', reason, result: null });
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Get user from auth header
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+
+    if (authError || !user) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Validate input with zod
+    const parseResult = SyncActionSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      console.warn('[SyncOfflineActions] Validation failed:', parseResult.error.flatten());
+      return new Response(
+        JSON.stringify({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { idempotencyKey, type, payload } = parseResult.data;
+    console.log('[SyncOfflineActions] Request:', { userId: user.id, idempotencyKey, type, contentId: payload.contentId });
+
+    // A replay of an action already decided gets the original answer
+    const { data: receipt, error: receiptError } = await supabase
+      .from('offline_action_receipts')
+      .select('status, reason, result')
+      .eq('user_id', user.id)
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle();
+
+    if (receiptError) throw receiptError;
+
+    if (receipt) {
+      return new Response(
+        JSON.stringify({ success: true, duplicate: true, ...receipt }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const outcome = await (async (): Promise<SyncResult> => {
+      const earnedAt = new Date(payload.earnedAt).getTime();
+      if (earnedAt > Date.now() + CLOCK_SKEW_MINUTES * 60_000) {
+        return rejected('The device clock was ahead when this was earned');
+      }
+      if (earnedAt < Date.now() - MAX_OFFLINE_AGE_DAYS * 86_400_000) {
+        return rejected(`Offline earnings must be synced within ${MAX_OFFLINE_AGE_DAYS} days`);
+      }
+
+      // Cheap check before running attention validation; issue-reward repeats it atomically
+      const [{ data: existingReward, error: rewardError }, { data: parkedReward, error: parkedError }] = await Promise.all([
+        supabase
+          .from('reward_logs')
+          .select('id')
+          .eq('user_id', user.id)
+          .eq('content_id', payload.contentId)
+          .eq('reward_type', payload.rewardType)
+          .maybeSingle(),
+        supabase
+          .from('pending_rewards')
+          .select('id')
+          .eq('user_id', user.id)
+          .eq('reference_id', payload.contentId)
+          .eq('source', payload.rewardType)
+          .neq('status', 'expired')
+          .maybeSingle(),
+      ]);
+
+      if (rewardError || parkedError) throw rewardError || parkedError;
+      if (existingReward || parkedReward) {
+        return rejected('You were already rewarded for this');
+      }
+
+      // Same replay and validators an online view goes through
+      const validation = await callFunction(supabaseUrl, 'validate-attention', authHeader, {
+        userId: user.id,
+        contentId: payload.contentId,
+        promoId: payload.promoId,
+        ...payload.attention,
+      });
+
+      if (validation.status !== 200) {
+        return rejected('The recorded attention data is invalid');
+      }
+
+      const rewardMultiplier = Number(validation.body.rewardMultiplier ?? 0);
+      if (!validation.body.validated || rewardMultiplier <= 0) {
+        return rejected('Your attention during this view could not be verified');
+      }
+
+      // issue-reward applies reward_rules, daily_reward_caps and trust holds
+      const attentionScore = Math.min(100, Number(validation.body.attentionScore) * rewardMultiplier);
+      const reward = await callFunction(supabaseUrl, 'issue-reward', authHeader, {
+        rewardType: payload.rewardType,
+        contentId: payload.contentId,
+        attentionScore,
+      });
+
+      if (reward.body.success) {
+        return {
+          status: 'applied',
+          reason: reward.body.held ? 'Held for review before it reaches your balance' : null,
+          result: {
+            amount: reward.body.amount,
+            coinType: reward.body.coinType,
+            held: !!reward.body.held,
+          },
+        };
+      }
+
+      // Daily limit, already claimed, or withheld by reward rules
+      return rejected(String(reward.body.error ?? 'Not eligible for this reward'));
+    })();
+
+    // Concurrent replays of the same key: the first receipt wins
+    const { error: saveError } = await supabase
+      .from('offline_action_receipts')
+      .upsert({
+        user_id: user.id,
+        idempotency_key: idempotencyKey,
+        action_type: type,
+        status: outcome.status,
+        reason: outcome.reason,
+        result: outcome.result,
+      }, { onConflict: 'user_id,idempotency_key', ignoreDuplicates: true });
+
+    if (saveError) throw saveError;
+
+    console.log('[SyncOfflineActions] Result:', { userId: user.id, idempotencyKey, status: outcome.status, reason: outcome.reason });
+
+    return new Response(
+      JSON.stringify({ success: true, duplicate: false, ...outcome }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    console.error('[SyncOfflineActions] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return new Response(
+      JSON.stringify({ error: message, success: false }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -7,11 +7,17 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// A tip is for a piece of content, or a gift to the host of a live stream
 const TipCreatorSchema = z.object({
-  contentId: z.string().uuid('Invalid content ID'),
+  contentId: z.string().uuid('Invalid content ID').optional(),
+  streamId: z.string().uuid('Invalid stream ID').optional(),
   creatorId: z.string().uuid('Invalid creator ID'),
   amount: z.number().int().min(1).max(10000),
   coinType: z.enum(['vicoin', 'icoin']),
+  message: z.string().trim().max(150).optional(),
+}).refine(data => (data.contentId ? 1 : 0) + (data.streamId ? 1 : 0) === 1, {
+  message: 'Provide either a content ID or a stream ID',
+  path: ['contentId'],
 });
 
 serve(async (req) => {
@@ -53,8 +59,8 @@ serve(async (req) => {
       );
     }
 
-    const { contentId, creatorId, amount, coinType } = parseResult.data;
-    console.log('[TipCreator] Request:', { userId: user.id, contentId, creatorId, amount, coinType });
+    const { contentId, streamId, creatorId, amount, coinType, message } = parseResult.data;
+    console.log('[TipCreator] Request:', { userId: user.id, contentId, streamId, creatorId, amount, coinType });
 
     if (user.id === creatorId) {
       return new Response(
@@ -63,14 +69,24 @@ serve(async (req) => {
       );
     }
 
-    // Call atomic stored procedure — handles locking both users, balance transfer, transactions, and notification
-    const { data, error: rpcError } = await supabase.rpc('atomic_tip_creator', {
-      p_tipper_id: user.id,
-      p_creator_id: creatorId,
-      p_amount: amount,
-      p_coin_type: coinType,
-      p_content_id: contentId,
-    });
+    // Call atomic stored procedure — handles locking both users, the ledger entry, transactions, and notification.
+    // Live gifts go through a wrapper that also checks the stream and posts the gift to its comments.
+    const { data, error: rpcError } = streamId
+      ? await supabase.rpc('atomic_live_gift', {
+        p_tipper_id: user.id,
+        p_stream_id: streamId,
+        p_creator_id: creatorId,
+        p_amount: amount,
+        p_coin_type: coinType,
+        p_message: message ?? null,
+      })
+      : await supabase.rpc('atomic_tip_creator', {
+        p_tipper_id: user.id,
+        p_creator_id: creatorId,
+        p_amount: amount,
+        p_coin_type: coinType,
+        p_content_id: contentId,
+      });
 
     if (rpcError) {
       console.error('[TipCreator] RPC error:', rpcError);
@@ -94,6 +110,30 @@ serve(async (req) => {
           { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+      if (msg.includes('STREAM_NOT_FOUND')) {
+        return new Response(
+          JSON.stringify({ error: 'Stream not found', success: false }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (msg.includes('STREAM_HOST_MISMATCH')) {
+        return new Response(
+          JSON.stringify({ error: 'Creator is not hosting this stream', success: false }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (msg.includes('STREAM_NOT_LIVE')) {
+        return new Response(
+          JSON.stringify({ error: 'Stream is not live', success: false }),
+          { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      if (msg.includes('GIFTS_DISABLED')) {
+        return new Response(
+          JSON.stringify({ error: 'Gifts are turned off for this stream', success: false }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
       throw new Error('Failed to process tip');
     }
 
@@ -106,6 +146,8 @@ serve(async (req) => {
         amount: data.amount,
         coin_type: data.coin_type,
         new_balance: data.new_balance,
+        journal_entry_id: data.journal_entry_id,
+        comment_id: data.comment_id ?? null,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -62,8 +62,9 @@ serve(async (req) => {
     const { icoinAmount } = parseResult.data;
     console.log('[TransferCoins] Request:', { userId: user.id, icoinAmount });
 
-    // Call atomic stored procedure — handles locking, balance check, update, and transaction logging
-    const { data, error: rpcError } = await supabase.rpc('atomic_convert_coins', {
+    // Call atomic stored procedure — uses up the 2FA step-up (manage-two-factor) only if the
+    // request succeeds, and handles locking, balance check, the ledger entry, and transaction logging
+    const { data, error: rpcError } = await supabase.rpc('convert_coins_with_step_up', {
       p_user_id: user.id,
       p_icoin_amount: icoinAmount,
       p_exchange_rate: EXCHANGE_RATE,
@@ -73,6 +74,12 @@ serve(async (req) => {
       console.error('[TransferCoins] RPC error:', rpcError);
       const msg = rpcError.message || '';
 
+      if (msg.includes('STEP_UP_REQUIRED')) {
+        return new Response(
+          JSON.stringify({ error: 'Two-factor verification required', code: 'step_up_required', success: false }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
       if (msg.includes('INSUFFICIENT_BALANCE')) {
         return new Response(
           JSON.stringify({ error: 'Insufficient Icoin balance', success: false }),
@@ -98,6 +105,7 @@ serve(async (req) => {
         new_icoin_balance: data.new_icoin_balance,
         new_vicoin_balance: data.new_vicoin_balance,
         exchange_rate: EXCHANGE_RATE,
+        journal_entry_id: data.journal_entry_id,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
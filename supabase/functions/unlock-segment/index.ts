@@ -0,0 +1,198 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.23.8";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Long enough to watch the segment, short enough that a shared link soon stops working.
+// Players ask again (without being charged again) once it runs out.
+const SIGNED_URL_SECONDS = 600;
+
+const UnlockSegmentSchema = z.object({
+  segmentId: z.string().uuid('Invalid segment ID'),
+});
+
+interface LockedSegment {
+  id: string;
+  content_id: string;
+  creator_id: string;
+  action_type: string;
+  amount: number | null;
+  coin_type: string;
+  storage_path: string;
+}
+
+type Verification = { ok: true } | { ok: false; status: number; error: string };
+
+const json = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Actions the server can see for itself; anything else can't be enforced
+async function verifyAction(
+  supabase: SupabaseClient,
+  segment: LockedSegment,
+  userId: string
+): Promise<Verification> {
+  let query;
+  switch (segment.action_type) {
+    case 'follow':
+      query = supabase
+        .from('user_follows')
+        .select('id', { count: 'exact', head: true })
+        .eq('follower_id', userId)
+        .eq('following_id', segment.creator_id);
+      break;
+    case 'like':
+      query = supabase
+        .from('content_likes')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('content_id', segment.content_id);
+      break;
+    case 'comment':
+      query = supabase
+        .from('comments')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('content_id', segment.content_id);
+      break;
+    default:
+      return { ok: false, status: 422, error: 'This action cannot be verified' };
+  }
+
+  const { count, error } = await query;
+  if (error) throw error;
+  if (!count) {
+    const needed = segment.action_type === 'follow' ? 'Follow the creator' : segment.action_type === 'like' ? 'Like this video' : 'Comment on this video';
+    return { ok: false, status: 403, error: `${needed} to unlock` };
+  }
+  return { ok: true };
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return json({ error: 'Unauthorized', success: false }, 401);
+    }
+
+    const token = authHeader.replace('Bearer ', '');
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !user) {
+      return json({ error: 'Unauthorized', success: false }, 401);
+    }
+
+    const parseResult = UnlockSegmentSchema.safeParse(await req.json());
+    if (!parseResult.success) {
+      console.warn('[UnlockSegment] Validation failed:', parseResult.error.flatten());
+      return json({ error: 'Invalid input', details: parseResult.error.flatten().fieldErrors, success: false }, 400);
+    }
+
+    const { segmentId } = parseResult.data;
+
+    const { data: segment, error: segmentError } = await supabase
+      .from('content_locked_segments')
+      .select('id, content_id, creator_id, action_type, amount, coin_type, storage_path')
+      .eq('id', segmentId)
+      .maybeSingle();
+
+    if (segmentError) throw segmentError;
+    if (!segment) {
+      return json({ error: 'Segment not found', success: false }, 404);
+    }
+
+    console.log('[UnlockSegment] Request:', { userId: user.id, segmentId, action: segment.action_type });
+
+    let alreadyUnlocked = user.id === segment.creator_id;
+    let newBalance: number | null = null;
+
+    if (!alreadyUnlocked) {
+      const { data: existing, error: existingError } = await supabase
+        .from('content_segment_unlocks')
+        .select('id')
+        .eq('segment_id', segmentId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (existingError) throw existingError;
+      alreadyUnlocked = !!existing;
+    }
+
+    if (!alreadyUnlocked && segment.action_type === 'payment') {
+      // Charges and records the unlock together; a retry after a lost response is free
+      const { data, error: rpcError } = await supabase.rpc('unlock_segment_with_payment', {
+        p_segment_id: segmentId,
+        p_user_id: user.id,
+      });
+
+      if (rpcError) {
+        console.error('[UnlockSegment] Payment error:', rpcError);
+        const msg = rpcError.message || '';
+        if (msg.includes('INSUFFICIENT_BALANCE')) {
+          return json({ error: `Insufficient ${segment.coin_type} balance`, success: false }, 402);
+        }
+        if (msg.includes('TIPPER_NOT_FOUND')) {
+          return json({ error: 'User profile not found', success: false }, 404);
+        }
+        if (msg.includes('CREATOR_NOT_FOUND')) {
+          return json({ error: 'Creator not found', success: false }, 404);
+        }
+        throw new Error('Failed to process payment');
+      }
+      newBalance = data?.new_balance ?? null;
+    } else if (!alreadyUnlocked) {
+      const verification = await verifyAction(supabase, segment, user.id);
+      if (!verification.ok) {
+        console.warn('[UnlockSegment] Not verified:', { userId: user.id, segmentId, error: verification.error });
+        return json({ error: verification.error, success: false }, verification.status);
+      }
+
+      const { error: insertError } = await supabase
+        .from('content_segment_unlocks')
+        .upsert({
+          segment_id: segmentId,
+          content_id: segment.content_id,
+          creator_id: segment.creator_id,
+          user_id: user.id,
+          action_type: segment.action_type,
+        }, { onConflict: 'segment_id,user_id', ignoreDuplicates: true });
+      if (insertError) throw insertError;
+    }
+
+    const { data: signed, error: signError } = await supabase.storage
+      .from('locked-media')
+      .createSignedUrl(segment.storage_path, SIGNED_URL_SECONDS);
+    if (signError || !signed) {
+      console.error('[UnlockSegment] Signing failed:', signError);
+      throw new Error('Unlocked media is unavailable');
+    }
+
+    console.log('[UnlockSegment] Unlocked:', { userId: user.id, segmentId, alreadyUnlocked });
+
+    return json({
+      success: true,
+      segment_id: segmentId,
+      url: signed.signedUrl,
+      expires_at: new Date(Date.now() + SIGNED_URL_SECONDS * 1000).toISOString(),
+      already_unlocked: alreadyUnlocked,
+      new_balance: newBalance,
+    });
+  } catch (error: unknown) {
+    console.error('[UnlockSegment] Error:', error);
+    const message = error instanceof Error ? error.message : 'Internal server error';
+    return json({ error: message, success: false }, 500);
+  }
+});
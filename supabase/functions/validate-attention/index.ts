@@ -1,6 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://esm.sh/zod@3.23.8";
+import {
+  DEFAULT_VALIDATION_CONFIG,
+  mergeValidationConfig,
+  runValidators,
+  type AttentionValidationConfig,
+} from "./validators.ts";
+import { decodeTrace, replayTrace, IMPOSSIBLE_ANOMALIES, type ReplayResult } from "./replay.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,14 +24,79 @@ const AttentionValidationSchema = z.object({
   framesDetected: z.number().int().min(0).max(100000),
   totalFrames: z.number().int().min(0).max(100000),
   deviceFingerprint: z.string().max(255).optional(),
+  // Base64 gzip per-frame trace, see replay.ts
+  trace: z.string().max(500000).optional(),
 });
 
-interface ValidationCheck {
-  name: string;
-  passed: boolean;
-  value: number;
-  threshold: number;
-  weight: number;
+// Without a trace nothing the client reported can be checked, so the view earns at most this
+const UNVERIFIED_MAX_MULTIPLIER = 0.5;
+
+// feature_flags row whose metadata.config overrides the default validator weights for users in its rollout
+const VALIDATION_FLAG = 'attention_validation';
+
+// Same bucketing as featureFlagsService.hashUserId so client and server agree on rollout
+function rolloutBucket(userId: string): number {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = ((hash << 5) - hash) + userId.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash % 100);
+}
+
+interface ContentPromotion {
+  id: string;
+  attention_validation: unknown;
+}
+
+// Promo content is served under its promotion's id, so the content being validated is
+// what binds a view to a campaign (never a promo id the client names alongside it)
+async function fetchContentPromotion(
+  supabase: ReturnType<typeof createClient>,
+  contentId: string
+): Promise<ContentPromotion | null> {
+  const { data, error } = await supabase
+    .from('promotions')
+    .select('id, attention_validation')
+    .eq('id', contentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[ValidateAttention] Campaign lookup error:', error);
+    return null;
+  }
+  return data as ContentPromotion | null;
+}
+
+async function resolveValidationConfig(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  promotion: ContentPromotion | null
+): Promise<{ config: AttentionValidationConfig; sources: string[] }> {
+  let config = DEFAULT_VALIDATION_CONFIG;
+  const sources = ['default'];
+
+  const { data: flag, error: flagError } = await supabase
+    .from('feature_flags')
+    .select('is_enabled, rollout_percentage, metadata')
+    .eq('name', VALIDATION_FLAG)
+    .maybeSingle();
+
+  if (flagError) {
+    console.error('[ValidateAttention] Flag lookup error:', flagError);
+  } else if (flag?.is_enabled && rolloutBucket(userId) < (flag.rollout_percentage ?? 100)) {
+    const metadata = (flag.metadata ?? {}) as Record<string, unknown>;
+    config = mergeValidationConfig(config, metadata.config);
+    sources.push(`flag:${metadata.variant ?? VALIDATION_FLAG}`);
+  }
+
+  // Campaign settings win over the rollout so advertisers get the rules they signed up for
+  if (promotion?.attention_validation) {
+    config = mergeValidationConfig(config, promotion.attention_validation);
+    sources.push(`campaign:${promotion.id}`);
+  }
+
+  return { config, sources };
 }
 
 serve(async (req) => {
@@ -84,98 +156,56 @@ serve(async (req) => {
       );
     }
 
-    const checks: ValidationCheck[] = [];
-    let totalScore = 0;
-    let totalWeight = 0;
-
-    // 1. Attention Score Check (weight: 30)
-    const attentionWeight = 30;
-    const attentionThreshold = 60;
-    const attentionPassed = body.attentionScore >= attentionThreshold;
-    checks.push({
-      name: 'attention_score',
-      passed: attentionPassed,
-      value: body.attentionScore,
-      threshold: attentionThreshold,
-      weight: attentionWeight,
-    });
-    if (attentionPassed) totalScore += attentionWeight;
-    totalWeight += attentionWeight;
-
-    // 2. Watch Duration Check (weight: 25)
-    const durationWeight = 25;
-    const requiredWatchPercent = 70;
-    const watchPercent = (body.watchDuration / body.totalDuration) * 100;
-    const durationPassed = watchPercent >= requiredWatchPercent;
-    checks.push({
-      name: 'watch_duration',
-      passed: durationPassed,
-      value: watchPercent,
-      threshold: requiredWatchPercent,
-      weight: durationWeight,
-    });
-    if (durationPassed) totalScore += durationWeight;
-    totalWeight += durationWeight;
-
-    // 3. Face Detection Consistency (weight: 25)
-    const faceWeight = 25;
-    const minFacePercent = 50;
-    const facePercent = body.totalFrames > 0 ? (body.framesDetected / body.totalFrames) * 100 : 0;
-    const facePassed = facePercent >= minFacePercent;
-    checks.push({
-      name: 'face_detection',
-      passed: facePassed,
-      value: facePercent,
-      threshold: minFacePercent,
-      weight: faceWeight,
-    });
-    if (facePassed) totalScore += faceWeight;
-    totalWeight += faceWeight;
-
-    // 4. Minimum Frames Check (weight: 10)
-    const framesWeight = 10;
-    const minFrames = 30;
-    const framesPassed = body.totalFrames >= minFrames;
-    checks.push({
-      name: 'minimum_frames',
-      passed: framesPassed,
-      value: body.totalFrames,
-      threshold: minFrames,
-      weight: framesWeight,
-    });
-    if (framesPassed) totalScore += framesWeight;
-    totalWeight += framesWeight;
-
-    // 5. Timing Consistency (weight: 10)
-    const timingWeight = 10;
-    const maxWatchRatio = 1.5;
-    const watchRatio = body.watchDuration / body.totalDuration;
-    const timingPassed = watchRatio <= maxWatchRatio && watchRatio >= 0.5;
-    checks.push({
-      name: 'timing_consistency',
-      passed: timingPassed,
-      value: watchRatio,
-      threshold: maxWatchRatio,
-      weight: timingWeight,
-    });
-    if (timingPassed) totalScore += timingWeight;
-    totalWeight += timingWeight;
+    // Replay the per-frame trace so scoring uses server-computed totals, not the client's
+    let replay: ReplayResult | null = null;
+    if (body.trace) {
+      const trace = await decodeTrace(body.trace);
+      if (!trace) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid attention trace' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      replay = replayTrace(trace, body);
+    }
 
-    // Calculate final validation score
-    const validationScore = (totalScore / totalWeight) * 100;
-    const isValid = validationScore >= 70;
+    const scored = replay
+      ? { ...body, attentionScore: replay.attentionScore, framesDetected: replay.framesDetected, totalFrames: replay.totalFrames }
+      : body;
+
+    const promotion = await fetchContentPromotion(supabase, body.contentId);
+    if (body.promoId && body.promoId !== promotion?.id) {
+      return new Response(
+        JSON.stringify({ error: 'promoId does not match the content being validated' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { config, sources } = await resolveValidationConfig(supabase, user.id, promotion);
+    const { checks, validationScore } = runValidators(scored, config);
+    const impossibleAnomalies = replay?.anomalies.filter(a => IMPOSSIBLE_ANOMALIES.includes(a)) ?? [];
+    const isValid = validationScore >= config.passThreshold && impossibleAnomalies.length === 0;
+
+    const watchPercent = (scored.watchDuration / scored.totalDuration) * 100;
+    const facePercent = scored.totalFrames > 0 ? (scored.framesDetected / scored.totalFrames) * 100 : 0;
 
     // Check for suspicious patterns
     const suspiciousPatterns: string[] = [];
     
-    if (body.attentionScore > 95 && watchPercent < 80) {
+    if (scored.attentionScore > 95 && watchPercent < 80) {
       suspiciousPatterns.push('high_attention_low_watch');
     }
     
-    if (facePercent === 100 && body.totalFrames > 100) {
+    if (facePercent === 100 && scored.totalFrames > 100) {
       suspiciousPatterns.push('perfect_face_detection');
     }
 
+    if (replay) {
+      suspiciousPatterns.push(...replay.anomalies);
+    } else {
+      suspiciousPatterns.push('missing_trace');
+    }
+
     // Log abuse if suspicious
     if (suspiciousPatterns.length > 0 || !isValid) {
       console.warn('[ValidateAttention] Suspicious activity:', {
@@ -188,11 +218,24 @@ serve(async (req) => {
         await supabase.from('abuse_logs').insert({
           user_id: user.id,
           abuse_type: 'attention_fraud',
-          severity: validationScore < 50 ? 'high' : 'medium',
+          severity: impossibleAnomalies.length > 0 || validationScore < 50 ? 'high' : 'medium',
           details: {
             validationScore,
             suspiciousPatterns,
             contentId: body.contentId,
+            configSources: sources,
+            failedChecks: checks.filter(c => !c.passed).map(c => c.name),
+            replay: replay
+              ? {
+                  verdict: impossibleAnomalies.length > 0 ? 'rejected' : 'consistent',
+                  ...replay,
+                  claimed: {
+                    attentionScore: body.attentionScore,
+                    framesDetected: body.framesDetected,
+                    totalFrames: body.totalFrames,
+                  },
+                }
+              : null,
           },
           device_fingerprint: body.deviceFingerprint || null,
           user_agent: req.headers.get('user-agent') || null,
@@ -200,18 +243,39 @@ serve(async (req) => {
       }
     }
 
+    // Verified attention on a promotion feeds the business burn dashboard. Only replayed
+    // traces count, measured by the trace itself rather than the reported watch time;
+    // the server keeps one session per viewer and promotion.
+    if (isValid && promotion && replay) {
+      const { error: activityError } = await supabase.rpc('record_promotion_activity', {
+        p_promotion_id: promotion.id,
+        p_kind: 'attention',
+        p_user_id: user.id,
+        p_attention_seconds: Math.min(replay.traceSeconds, body.totalDuration) * (replay.attentionScore / 100),
+      });
+
+      if (activityError) {
+        console.error('[ValidateAttention] Promotion activity error:', activityError);
+      }
+    }
+
     // Calculate reward multiplier
     let rewardMultiplier = 1.0;
     if (validationScore >= 90) rewardMultiplier = 1.0;
     else if (validationScore >= 80) rewardMultiplier = 0.9;
     else if (validationScore >= 70) rewardMultiplier = 0.75;
     else rewardMultiplier = 0.5;
+    // A replay that can't have come from a camera earns nothing
+    if (impossibleAnomalies.length > 0) rewardMultiplier = 0;
+    // Browsers without CompressionStream can't send a trace; their views still count, at a reduced rate
+    if (!replay) rewardMultiplier = Math.min(rewardMultiplier, UNVERIFIED_MAX_MULTIPLIER);
 
     console.log('[ValidateAttention] Result:', { 
       userId: user.id,
       isValid, 
       validationScore,
       rewardMultiplier,
+      configSources: sources,
     });
 
     return new Response(
@@ -220,7 +284,7 @@ serve(async (req) => {
         validated: isValid,
         validationScore,
         rewardMultiplier,
-        attentionScore: body.attentionScore,
+        attentionScore: scored.attentionScore,
         watchPercentage: Math.round(watchPercent),
         checks: checks.map(c => ({
           name: c.name,
@@ -229,9 +293,12 @@ serve(async (req) => {
         message: isValid 
           ? 'Attention validated! Reward eligible.' 
           : 'Validation failed - reward reduced.',
-        reasons: !isValid ? checks
-          .filter(c => !c.passed)
-          .map(c => `${c.name.replace('_', ' ')} below threshold`) : [],
+        reasons: !isValid ? [
+          ...checks
+            .filter(c => !c.passed)
+            .map(c => `${c.name.replace('_', ' ')} below threshold`),
+          ...impossibleAnomalies.map(a => `attention trace rejected: ${a.replace(/_/g, ' ')}`),
+        ] : [],
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,190 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+
+// Mirrors src/lib/attentionTrace.ts
+const TRACE_VERSION = 1;
+const MAX_TRACE_FRAMES = 100000;
+// A full-length trace inflates to roughly 2MB; stop reading well before a gzip bomb does damage
+const MAX_DECOMPRESSED_BYTES = 4 * 1024 * 1024;
+
+// The client samples every 200ms; anything much faster didn't come from the tracker
+const MIN_FRAME_INTERVAL_MS = 50;
+// Browser timers always jitter by more than this
+const PERIODIC_JITTER_MS = 0.1;
+// Sessions shorter than this don't carry enough frames to judge patterns
+const MIN_PATTERN_FRAMES = 30;
+// People blink roughly every 3-6 seconds
+const MAX_BLINKLESS_SECONDS = 30;
+// Allowed difference between the client's score and the replayed one
+const SCORE_TOLERANCE = 2;
+
+const TraceSchema = z.object({
+  v: z.literal(TRACE_VERSION),
+  dt: z.array(z.number().int().min(0)).max(MAX_TRACE_FRAMES),
+  f: z.array(z.union([z.literal(0), z.literal(1)])),
+  gx: z.array(z.number().int().min(-100).max(100)),
+  gy: z.array(z.number().int().min(-100).max(100)),
+  b: z.array(z.union([z.literal(0), z.literal(1)])),
+}).refine(
+  t => [t.f, t.gx, t.gy, t.b].every(column => column.length === t.dt.length),
+  'Trace columns must have the same length'
+);
+
+export type AttentionTrace = z.infer<typeof TraceSchema>;
+
+export type ReplayAnomaly =
+  | 'client_score_mismatch'
+  | 'frame_rate_exceeded'
+  | 'periodic_frames'
+  | 'zero_gaze_variance'
+  | 'trace_duration_mismatch'
+  | 'no_blinks';
+
+// Anomalies a real camera session cannot produce; any of these fails validation
+export const IMPOSSIBLE_ANOMALIES: ReplayAnomaly[] = [
+  'client_score_mismatch',
+  'frame_rate_exceeded',
+  'periodic_frames',
+  'zero_gaze_variance',
+];
+
+export interface ReplayResult {
+  attentionScore: number;
+  framesDetected: number;
+  totalFrames: number;
+  traceSeconds: number;
+  meanIntervalMs: number;
+  intervalJitterMs: number;
+  gazeVariance: number;
+  blinks: number;
+  anomalies: ReplayAnomaly[];
+}
+
+/**
+ * Inflate a gzip payload, giving up once it grows past MAX_DECOMPRESSED_BYTES.
+ */
+async function gunzipCapped(bytes: Uint8Array): Promise<string | null> {
+  const reader = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip')).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_DECOMPRESSED_BYTES) {
+      await reader.cancel();
+      console.warn('[ValidateAttention] Trace exceeds decompressed size limit');
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const joined = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(joined);
+}
+
+/**
+ * Decode a base64 gzip trace. Returns null if it can't be decompressed or parsed.
+ */
+export async function decodeTrace(encoded: string): Promise<AttentionTrace | null> {
+  try {
+    const bytes = Uint8Array.from(atob(encoded), c => c.charCodeAt(0));
+    const text = await gunzipCapped(bytes);
+    if (text === null) return null;
+    const json = JSON.parse(text);
+    const parsed = TraceSchema.safeParse(json);
+    if (!parsed.success) {
+      console.warn('[ValidateAttention] Trace failed schema:', parsed.error.flatten());
+      return null;
+    }
+    return parsed.data;
+  } catch (error) {
+    console.warn('[ValidateAttention] Trace decode error:', error);
+    return null;
+  }
+}
+
+function variance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  return values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+}
+
+/**
+ * Recompute the session score from raw frames and flag patterns a real viewer can't produce.
+ */
+export function replayTrace(
+  trace: AttentionTrace,
+  claimed: { attentionScore: number; framesDetected: number; totalFrames: number; watchDuration: number }
+): ReplayResult {
+  const totalFrames = trace.dt.length;
+  const framesDetected = trace.f.reduce<number>((sum, f) => sum + f, 0);
+  const attentionScore = totalFrames > 0 ? Math.round((framesDetected / totalFrames) * 100) : 0;
+
+  // The first delta is always zero, so intervals start at the second frame
+  const intervalsMs = trace.dt.slice(1).map(dt => dt / 10);
+  const traceSeconds = intervalsMs.reduce((a, b) => a + b, 0) / 1000;
+  const meanIntervalMs = intervalsMs.length > 0 ? (traceSeconds * 1000) / intervalsMs.length : 0;
+  const intervalJitterMs = Math.sqrt(variance(intervalsMs));
+
+  const gazeX: number[] = [];
+  const gazeY: number[] = [];
+  let blinks = 0;
+  let faceSeconds = 0;
+  for (let i = 0; i < totalFrames; i++) {
+    if (trace.f[i] !== 1) continue;
+    gazeX.push(trace.gx[i]);
+    gazeY.push(trace.gy[i]);
+    blinks += trace.b[i];
+    faceSeconds += (i > 0 ? trace.dt[i] : 0) / 10000;
+  }
+  const gazeVariance = variance(gazeX) + variance(gazeY);
+
+  const anomalies: ReplayAnomaly[] = [];
+
+  if (
+    Math.abs(claimed.attentionScore - attentionScore) > SCORE_TOLERANCE ||
+    claimed.framesDetected !== framesDetected ||
+    claimed.totalFrames !== totalFrames
+  ) {
+    anomalies.push('client_score_mismatch');
+  }
+
+  if (intervalsMs.length > 0 && meanIntervalMs < MIN_FRAME_INTERVAL_MS) {
+    anomalies.push('frame_rate_exceeded');
+  }
+
+  if (intervalsMs.length >= MIN_PATTERN_FRAMES && intervalJitterMs < PERIODIC_JITTER_MS) {
+    anomalies.push('periodic_frames');
+  }
+
+  if (gazeX.length >= MIN_PATTERN_FRAMES && gazeVariance === 0) {
+    anomalies.push('zero_gaze_variance');
+  }
+
+  // The client clamps watchDuration for long sessions, so this is suspicious rather than impossible
+  if (traceSeconds > claimed.watchDuration + 1) {
+    anomalies.push('trace_duration_mismatch');
+  }
+
+  if (faceSeconds > MAX_BLINKLESS_SECONDS && blinks === 0) {
+    anomalies.push('no_blinks');
+  }
+
+  return {
+    attentionScore,
+    framesDetected,
+    totalFrames,
+    traceSeconds,
+    meanIntervalMs,
+    intervalJitterMs,
+    gazeVariance,
+    blinks,
+    anomalies,
+  };
+}
@@ -0,0 +1,107 @@
+// Run with: deno test supabase/functions/validate-attention/validators.test.ts
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import {
+  DEFAULT_VALIDATION_CONFIG,
+  getValidator,
+  mergeValidationConfig,
+  runValidators,
+  type AttentionPayload,
+} from "./validators.ts";
+
+// A full, attentive 30s view
+const ATTENTIVE: AttentionPayload = {
+  attentionScore: 85,
+  watchDuration: 28,
+  totalDuration: 30,
+  framesDetected: 270,
+  totalFrames: 300,
+};
+
+// Skipped two thirds of the way out
+const SKIPPED: AttentionPayload = { ...ATTENTIVE, watchDuration: 10 };
+
+// Played through with nobody in front of the camera
+const NO_FACE: AttentionPayload = { ...ATTENTIVE, attentionScore: 40, framesDetected: 0 };
+
+// Camera never produced a frame
+const NO_FRAMES: AttentionPayload = { ...ATTENTIVE, framesDetected: 0, totalFrames: 0 };
+
+// Reported more watch time than the runtime allows
+const OVERLONG: AttentionPayload = { ...ATTENTIVE, watchDuration: 50 };
+
+function failedChecks(payload: AttentionPayload, config = DEFAULT_VALIDATION_CONFIG) {
+  return runValidators(payload, config).checks.filter(c => !c.passed).map(c => c.name);
+}
+
+Deno.test("attention_score compares against its threshold", () => {
+  const validator = getValidator('attention_score')!;
+  const config = { enabled: true, weight: 30, threshold: 60 };
+  assert(validator(ATTENTIVE, config).passed);
+  assert(!validator(NO_FACE, config).passed);
+});
+
+Deno.test("watch_duration reports the watched percentage", () => {
+  const check = getValidator('watch_duration')!(SKIPPED, { enabled: true, weight: 25, threshold: 70 });
+  assertEquals(Math.round(check.value), 33);
+  assert(!check.passed);
+});
+
+Deno.test("face_detection treats a frameless session as 0%", () => {
+  const check = getValidator('face_detection')!(NO_FRAMES, { enabled: true, weight: 25, threshold: 50 });
+  assertEquals(check.value, 0);
+  assert(!check.passed);
+});
+
+Deno.test("timing_consistency bounds the watch ratio on both sides", () => {
+  const validator = getValidator('timing_consistency')!;
+  const config = { enabled: true, weight: 10, threshold: 1.5 };
+  assert(validator(ATTENTIVE, config).passed);
+  assert(!validator(SKIPPED, config).passed);
+  assert(!validator(OVERLONG, config).passed);
+});
+
+Deno.test("default config scores the fixtures", () => {
+  assertEquals(runValidators(ATTENTIVE, DEFAULT_VALIDATION_CONFIG).validationScore, 100);
+  assertEquals(runValidators(SKIPPED, DEFAULT_VALIDATION_CONFIG).validationScore, 65);
+  assertEquals(runValidators(NO_FACE, DEFAULT_VALIDATION_CONFIG).validationScore, 45);
+  assertEquals(runValidators(NO_FRAMES, DEFAULT_VALIDATION_CONFIG).validationScore, 65);
+
+  assertEquals(failedChecks(SKIPPED), ['watch_duration', 'timing_consistency']);
+  assertEquals(failedChecks(NO_FACE), ['attention_score', 'face_detection']);
+  assertEquals(failedChecks(NO_FRAMES), ['face_detection', 'minimum_frames']);
+});
+
+Deno.test("disabled validators drop out of the weighting", () => {
+  const config = mergeValidationConfig(DEFAULT_VALIDATION_CONFIG, {
+    validators: { face_detection: { enabled: false }, attention_score: { enabled: false } },
+  });
+  const { checks, validationScore } = runValidators(NO_FACE, config);
+  assertEquals(checks.map(c => c.name), ['watch_duration', 'minimum_frames', 'timing_consistency']);
+  assertEquals(validationScore, 100);
+});
+
+Deno.test("overrides patch weights and thresholds on top of the base", () => {
+  const config = mergeValidationConfig(DEFAULT_VALIDATION_CONFIG, {
+    passThreshold: 50,
+    validators: { watch_duration: { threshold: 30 } },
+  });
+  assertEquals(config.passThreshold, 50);
+  assertEquals(config.validators.watch_duration, { enabled: true, weight: 25, threshold: 30 });
+  assertEquals(config.validators.attention_score, DEFAULT_VALIDATION_CONFIG.validators.attention_score);
+  assertEquals(failedChecks(SKIPPED, config), ['timing_consistency']);
+});
+
+Deno.test("malformed or unknown overrides leave the base alone", () => {
+  assertEquals(mergeValidationConfig(DEFAULT_VALIDATION_CONFIG, { passThreshold: 'high' }), DEFAULT_VALIDATION_CONFIG);
+  assertEquals(mergeValidationConfig(DEFAULT_VALIDATION_CONFIG, null), DEFAULT_VALIDATION_CONFIG);
+
+  const config = mergeValidationConfig(DEFAULT_VALIDATION_CONFIG, {
+    validators: { lip_reading: { weight: 100 } },
+  });
+  assertEquals(Object.keys(config.validators), Object.keys(DEFAULT_VALIDATION_CONFIG.validators));
+});
+
+Deno.test("no enabled validators scores zero", () => {
+  const config = { passThreshold: 70, validators: {} };
+  assertEquals(runValidators(ATTENTIVE, config), { checks: [], validationScore: 0 });
+});
@@ -0,0 +1,170 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+
+export interface AttentionPayload {
+  attentionScore: number;
+  watchDuration: number;
+  totalDuration: number;
+  framesDetected: number;
+  totalFrames: number;
+}
+
+export interface ValidationCheck {
+  name: string;
+  passed: boolean;
+  value: number;
+  threshold: number;
+  weight: number;
+}
+
+export interface ValidatorConfig {
+  enabled: boolean;
+  weight: number;
+  threshold: number;
+}
+
+export interface AttentionValidationConfig {
+  // Minimum weighted score (0-100) for the view to count as validated
+  passThreshold: number;
+  validators: Record<string, ValidatorConfig>;
+}
+
+export type Validator = (payload: AttentionPayload, config: ValidatorConfig) => ValidationCheck;
+
+// Watching less than half the runtime can't be a consistent session
+const MIN_WATCH_RATIO = 0.5;
+
+const validatorRegistry = new Map<string, Validator>();
+
+export function registerValidator(name: string, validator: Validator) {
+  validatorRegistry.set(name, validator);
+}
+
+export function getValidator(name: string): Validator | undefined {
+  return validatorRegistry.get(name);
+}
+
+registerValidator('attention_score', (payload, config) => ({
+  name: 'attention_score',
+  passed: payload.attentionScore >= config.threshold,
+  value: payload.attentionScore,
+  threshold: config.threshold,
+  weight: config.weight,
+}));
+
+registerValidator('watch_duration', (payload, config) => {
+  const watchPercent = (payload.watchDuration / payload.totalDuration) * 100;
+  return {
+    name: 'watch_duration',
+    passed: watchPercent >= config.threshold,
+    value: watchPercent,
+    threshold: config.threshold,
+    weight: config.weight,
+  };
+});
+
+registerValidator('face_detection', (payload, config) => {
+  const facePercent = payload.totalFrames > 0 ? (payload.framesDetected / payload.totalFrames) * 100 : 0;
+  return {
+    name: 'face_detection',
+    passed: facePercent >= config.threshold,
+    value: facePercent,
+    threshold: config.threshold,
+    weight: config.weight,
+  };
+});
+
+registerValidator('minimum_frames', (payload, config) => ({
+  name: 'minimum_frames',
+  passed: payload.totalFrames >= config.threshold,
+  value: payload.totalFrames,
+  threshold: config.threshold,
+  weight: config.weight,
+}));
+
+registerValidator('timing_consistency', (payload, config) => {
+  const watchRatio = payload.watchDuration / payload.totalDuration;
+  return {
+    name: 'timing_consistency',
+    passed: watchRatio <= config.threshold && watchRatio >= MIN_WATCH_RATIO,
+    value: watchRatio,
+    threshold: config.threshold,
+    weight: config.weight,
+  };
+});
+
+export const DEFAULT_VALIDATION_CONFIG: AttentionValidationConfig = {
+  passThreshold: 70,
+  validators: {
+    attention_score: { enabled: true, weight: 30, threshold: 60 },
+    watch_duration: { enabled: true, weight: 25, threshold: 70 },
+    face_detection: { enabled: true, weight: 25, threshold: 50 },
+    minimum_frames: { enabled: true, weight: 10, threshold: 30 },
+    timing_consistency: { enabled: true, weight: 10, threshold: 1.5 },
+  },
+};
+
+const ValidatorOverrideSchema = z.object({
+  enabled: z.boolean().optional(),
+  weight: z.number().min(0).max(1000).optional(),
+  threshold: z.number().optional(),
+});
+
+const ConfigOverrideSchema = z.object({
+  passThreshold: z.number().min(0).max(100).optional(),
+  validators: z.record(ValidatorOverrideSchema).optional(),
+});
+
+/**
+ * Layer a partial override (from a feature flag or campaign) on top of a base config.
+ * Malformed overrides are ignored so a bad admin edit can't take validation down.
+ */
+export function mergeValidationConfig(
+  base: AttentionValidationConfig,
+  override: unknown
+): AttentionValidationConfig {
+  const parsed = ConfigOverrideSchema.safeParse(override ?? {});
+  if (!parsed.success) {
+    console.warn('[ValidateAttention] Ignoring invalid config override:', parsed.error.flatten());
+    return base;
+  }
+
+  const validators = { ...base.validators };
+  for (const [name, patch] of Object.entries(parsed.data.validators ?? {})) {
+    if (!validatorRegistry.has(name)) {
+      console.warn('[ValidateAttention] Ignoring unknown validator in config:', name);
+      continue;
+    }
+    const current = validators[name] ?? { enabled: true, weight: 0, threshold: 0 };
+    validators[name] = { ...current, ...patch };
+  }
+
+  return {
+    passThreshold: parsed.data.passThreshold ?? base.passThreshold,
+    validators,
+  };
+}
+
+/**
+ * Run every enabled validator and compute the weighted score (0-100).
+ */
+export function runValidators(
+  payload: AttentionPayload,
+  config: AttentionValidationConfig
+): { checks: ValidationCheck[]; validationScore: number } {
+  const checks: ValidationCheck[] = [];
+  let totalScore = 0;
+  let totalWeight = 0;
+
+  for (const [name, validatorConfig] of Object.entries(config.validators)) {
+    const validator = validatorRegistry.get(name);
+    if (!validator || !validatorConfig.enabled) continue;
+
+    const check = validator(payload, validatorConfig);
+    checks.push(check);
+    if (check.passed) totalScore += check.weight;
+    totalWeight += check.weight;
+  }
+
+  const validationScore = totalWeight > 0 ? (totalScore / totalWeight) * 100 : 0;
+  return { checks, validationScore };
+}
@@ -1,5 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { z } from "https://esm.sh/zod@3.23.8";
 
 const corsHeaders = {
@@ -40,16 +40,146 @@ function getStreakBonus(streakDays: number): number {
   return bonus;
 }
 
+// Location claims scoring this much or more are stored as flagged and earn nothing;
+// anything from LOG_RISK_SCORE up is written to abuse_logs
+const FLAG_RISK_SCORE = 60;
+const LOG_RISK_SCORE = 20;
+
+// Between two check-ins: faster than driving is suspicious, faster than flying is not possible
+const SUSPICIOUS_SPEED_KMH = 300;
+const IMPOSSIBLE_SPEED_KMH = 1000;
+// Below this the two check-ins are effectively the same place and GPS noise dominates
+const MIN_TRAVEL_METERS = 2000;
+// Reported accuracy worse than this can't place someone at a storefront
+const MAX_ACCURACY_METERS = 150;
+// Mock location providers tend to report perfect fixes
+const MIN_PLAUSIBLE_ACCURACY_METERS = 1;
+const REPEATED_COORDINATES_DAYS = 30;
+// Queued check-ins are sent when the device is back online, but not this much later
+const MAX_CLAIM_AGE_HOURS = 24;
+const CLOCK_SKEW_MINUTES = 5;
+
+interface RiskSignal {
+  name: string;
+  weight: number;
+  detail?: Record<string, unknown>;
+}
+
+interface LocationClaim {
+  userId: string;
+  userLat: number;
+  userLng: number;
+  promotionLat: number;
+  promotionLng: number;
+  maxDistanceMeters: number;
+  accuracy?: number;
+  claimedAt: Date;
+  recordedAt?: string;
+  deviceFingerprint?: string;
+}
+
+// Plausibility checks on a client-reported position. Each failed check adds weight to
+// the risk score rather than rejecting outright, since any one of them can misfire on
+// a real device.
+async function assessLocationClaim(supabase: SupabaseClient, claim: LocationClaim): Promise<{ score: number; signals: RiskSignal[] }> {
+  const signals: RiskSignal[] = [];
+
+  if (claim.recordedAt) {
+    const recorded = new Date(claim.recordedAt).getTime();
+    if (recorded > Date.now() + CLOCK_SKEW_MINUTES * 60_000) {
+      signals.push({ name: 'clock_ahead', weight: 15, detail: { recordedAt: claim.recordedAt } });
+    } else if (recorded < Date.now() - MAX_CLAIM_AGE_HOURS * 3_600_000) {
+      signals.push({ name: 'stale_claim', weight: 40, detail: { recordedAt: claim.recordedAt } });
+    }
+  }
+
+  if (claim.accuracy === undefined) {
+    signals.push({ name: 'accuracy_missing', weight: 10 });
+  } else if (claim.accuracy > Math.max(MAX_ACCURACY_METERS, claim.maxDistanceMeters)) {
+    signals.push({ name: 'poor_accuracy', weight: 25, detail: { accuracy: claim.accuracy } });
+  } else if (claim.accuracy < MIN_PLAUSIBLE_ACCURACY_METERS) {
+    signals.push({ name: 'suspiciously_precise', weight: 20, detail: { accuracy: claim.accuracy } });
+  }
+
+  // Real fixes land somewhere around the storefront, not on the map pin itself
+  if (calculateDistance(claim.userLat, claim.userLng, claim.promotionLat, claim.promotionLng) < 0.5) {
+    signals.push({ name: 'pin_coordinates', weight: 30 });
+  }
+
+  const repeatedSince = new Date(Date.now() - REPEATED_COORDINATES_DAYS * 86_400_000).toISOString();
+  const [previousResult, repeatedResult, deviceResult] = await Promise.all([
+    supabase
+      .from('promotion_checkins')
+      .select('user_latitude, user_longitude, checked_in_at')
+      .eq('user_id', claim.userId)
+      .lt('checked_in_at', claim.claimedAt.toISOString())
+      .order('checked_in_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from('promotion_checkins')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', claim.userId)
+      .eq('user_latitude', claim.userLat)
+      .eq('user_longitude', claim.userLng)
+      .gte('checked_in_at', repeatedSince),
+    claim.deviceFingerprint
+      ? supabase
+          .from('device_fingerprints')
+          .select('user_id, flagged')
+          .eq('fingerprint_hash', claim.deviceFingerprint)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  if (previousResult.error) console.error('[verify-checkin] Previous check-in lookup error:', previousResult.error);
+  if (repeatedResult.error) console.error('[verify-checkin] Repeated coordinates lookup error:', repeatedResult.error);
+  if (deviceResult.error) console.error('[verify-checkin] Device lookup error:', deviceResult.error);
+
+  const previous = previousResult.data;
+  if (previous) {
+    const meters = calculateDistance(previous.user_latitude, previous.user_longitude, claim.userLat, claim.userLng);
+    const hours = Math.max((claim.claimedAt.getTime() - new Date(previous.checked_in_at).getTime()) / 3_600_000, 1 / 3600);
+    const speedKmh = meters / 1000 / hours;
+
+    if (meters >= MIN_TRAVEL_METERS && speedKmh > SUSPICIOUS_SPEED_KMH) {
+      signals.push({
+        name: speedKmh > IMPOSSIBLE_SPEED_KMH ? 'impossible_travel' : 'implausible_travel',
+        weight: speedKmh > IMPOSSIBLE_SPEED_KMH ? 60 : 25,
+        detail: { speedKmh: Math.round(speedKmh), meters: Math.round(meters), since: previous.checked_in_at },
+      });
+    }
+  }
+
+  // GPS noise makes exact repeats of a position vanishingly rare
+  const repeats = repeatedResult.count ?? 0;
+  if (repeats > 0) {
+    signals.push({ name: 'repeated_coordinates', weight: repeats >= 3 ? 40 : 25, detail: { repeats } });
+  }
+
+  const devices: { user_id: string; flagged: boolean | null }[] = deviceResult.data || [];
+  const otherUsers = new Set(devices.filter(d => d.user_id !== claim.userId).map(d => d.user_id));
+  if (otherUsers.size > 0) {
+    signals.push({ name: 'shared_device', weight: otherUsers.size >= 3 ? 40 : 20, detail: { otherAccounts: otherUsers.size } });
+  }
+  if (devices.some(d => d.flagged)) {
+    signals.push({ name: 'flagged_device', weight: 20 });
+  }
+
+  return { score: Math.min(100, signals.reduce((sum, signal) => sum + signal.weight, 0)), signals };
+}
+
+// Where the promotion is and what it pays come from its row; the client only reports
+// where the user is
 const VerifyCheckinSchema = z.object({
-  promotionId: z.string().uuid('Invalid promotion ID').optional(),
-  businessName: z.string().max(255).optional(),
-  promotionLat: z.number().min(-90).max(90),
-  promotionLng: z.number().min(-180).max(180),
+  promotionId: z.string().uuid('Invalid promotion ID'),
   userLat: z.number().min(-90).max(90),
   userLng: z.number().min(-180).max(180),
-  rewardAmount: z.number().int().min(0).max(10000).optional(),
-  rewardType: z.enum(['vicoin', 'icoin']).optional(),
   maxDistanceMeters: z.number().int().min(10).max(5000).default(100),
+  accuracy: z.number().min(0).max(100000).optional(),
+  recordedAt: z.string().datetime().optional(),
+  deviceFingerprint: z.string().max(255).optional(),
+  // Sent by the offline queue so a check-in replayed after a lost response isn't judged twice
+  idempotencyKey: z.string().uuid('Invalid idempotency key').optional(),
 });
 
 serve(async (req) => {
@@ -58,6 +188,9 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Travel speed is measured against when the claim reached us, which the client can't move
+  const receivedAt = new Date();
+
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
@@ -95,24 +228,67 @@ serve(async (req) => {
       );
     }
 
-    const { 
-      promotionId, businessName, promotionLat, promotionLng,
-      userLat, userLng, rewardAmount, rewardType, maxDistanceMeters 
+    const {
+      promotionId, userLat, userLng, accuracy, recordedAt, deviceFingerprint, idempotencyKey,
     } = parseResult.data;
 
     console.log('[verify-checkin] Request:', { 
-      userId: user.id, promotionId, businessName,
-      promotionLat, promotionLng, userLat, userLng 
+      userId: user.id, promotionId, userLat, userLng, accuracy, recordedAt,
     });
 
+    // A replay of a check-in already decided gets the original answer
+    if (idempotencyKey) {
+      const { data: receipt, error: receiptError } = await supabase
+        .from('offline_action_receipts')
+        .select('status, reason, result')
+        .eq('user_id', user.id)
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle();
+
+      if (receiptError) throw receiptError;
+
+      if (receipt) {
+        const original = (receipt.result ?? { success: receipt.status === 'applied', message: receipt.reason }) as Record<string, unknown>;
+        return new Response(
+          JSON.stringify({ ...original, duplicate: true }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
+    const { data: promotion, error: promotionError } = await supabase
+      .from('promotions')
+      .select('business_name, latitude, longitude, geofence_radius_meters, reward_amount, reward_type, is_active, expires_at')
+      .eq('id', promotionId)
+      .maybeSingle();
+
+    if (promotionError) throw promotionError;
+    if (!promotion) {
+      return new Response(
+        JSON.stringify({ error: 'Promotion not found', success: false }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (!promotion.is_active || (promotion.expires_at && new Date(promotion.expires_at) <= receivedAt)) {
+      return new Response(
+        JSON.stringify({ error: 'This promotion has ended', success: false }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const businessName = promotion.business_name;
+    const promotionLat = promotion.latitude;
+    const promotionLng = promotion.longitude;
+    // The client may ask for a tighter radius, never a wider one than the geofence
+    const maxDistanceMeters = Math.min(parseResult.data.maxDistanceMeters, promotion.geofence_radius_meters);
+    // 'both' promotions pay out in Vicoins, as the check-in screens show
+    const rewardType = promotion.reward_type === 'icoin' ? 'icoin' : 'vicoin';
+
     // Calculate distance between user and promotion
     const distance = calculateDistance(userLat, userLng, promotionLat, promotionLng);
     console.log('[verify-checkin] Distance calculated:', distance, 'meters');
 
-    // Check if user is within geofence
-    const isWithinRange = distance <= maxDistanceMeters;
-    const status = isWithinRange ? 'verified' : 'failed';
-
     // Check for existing check-in in last 24 hours at this location
     const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
     const { data: existingCheckin } = await supabase
@@ -135,6 +311,46 @@ serve(async (req) => {
       );
     }
 
+    const risk = await assessLocationClaim(supabase, {
+      userId: user.id,
+      userLat,
+      userLng,
+      promotionLat,
+      promotionLng,
+      maxDistanceMeters,
+      accuracy,
+      claimedAt: receivedAt,
+      recordedAt,
+      deviceFingerprint,
+    });
+    const isFlagged = risk.score >= FLAG_RISK_SCORE;
+
+    if (risk.score >= LOG_RISK_SCORE) {
+      console.warn('[verify-checkin] Suspicious location claim:', { userId: user.id, promotionId, ...risk });
+
+      const { error: abuseError } = await supabase.from('abuse_logs').insert({
+        user_id: user.id,
+        abuse_type: 'location_spoofing',
+        severity: risk.score >= FLAG_RISK_SCORE ? 'high' : risk.score >= 40 ? 'medium' : 'low',
+        details: {
+          riskScore: risk.score,
+          signals: risk.signals,
+          promotionId,
+          claimed: { userLat, userLng, accuracy, recordedAt },
+          distance: Math.round(distance),
+          flagged: isFlagged,
+        },
+        device_fingerprint: deviceFingerprint || null,
+        user_agent: req.headers.get('user-agent') || null,
+      });
+
+      if (abuseError) console.error('[verify-checkin] Abuse log error:', abuseError);
+    }
+
+    // Check if user is within geofence and the claim is believable
+    const isWithinRange = distance <= maxDistanceMeters && !isFlagged;
+    const status = isFlagged ? 'flagged' : distance <= maxDistanceMeters ? 'verified' : 'failed';
+
     // Get or create user_levels for streak tracking
     let { data: userLevel } = await supabase
       .from('user_levels')
@@ -173,10 +389,29 @@ serve(async (req) => {
       newLongestStreak = newStreakDays;
     }
 
+    // A visit campaign on this promotion sets the reward and pays it out of its budget
+    const { data: campaign, error: campaignError } = await supabase
+      .from('campaigns')
+      .select('id, reward_type, reward_amount')
+      .eq('promotion_id', promotionId)
+      .eq('required_action', 'visit')
+      .eq('status', 'active')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (campaignError) {
+      console.error('[verify-checkin] Campaign lookup error:', campaignError);
+    }
+
+    const baseAmount = campaign ? campaign.reward_amount : promotion.reward_amount;
+    const payoutType = campaign ? campaign.reward_type : rewardType;
+    const isCoinPayout = payoutType === 'vicoin' || payoutType === 'icoin';
+
     // Calculate streak bonus
     const streakBonus = getStreakBonus(newStreakDays);
-    const bonusAmount = Math.floor((rewardAmount || 0) * streakBonus / 100);
-    const totalReward = (rewardAmount || 0) + bonusAmount;
+    const bonusAmount = isCoinPayout ? Math.floor(baseAmount * streakBonus / 100) : 0;
+    const totalReward = baseAmount + bonusAmount;
 
     console.log('[verify-checkin] Streak info:', { 
       newStreakDays, newLongestStreak, streakBonus, bonusAmount, totalReward 
@@ -188,17 +423,22 @@ serve(async (req) => {
       .insert({
         user_id: user.id,
         promotion_id: promotionId,
-        business_name: businessName || 'Unknown Business',
+        business_name: businessName,
         latitude: promotionLat,
         longitude: promotionLng,
         user_latitude: userLat,
         user_longitude: userLng,
         distance_meters: distance,
         status,
+        accuracy_meters: accuracy ?? null,
+        device_fingerprint: deviceFingerprint || null,
+        risk_score: risk.score,
+        risk_signals: risk.signals.map(signal => signal.name),
         reward_amount: isWithinRange ? totalReward : null,
-        reward_type: isWithinRange ? rewardType : null,
+        reward_type: isWithinRange ? payoutType : null,
         streak_bonus: isWithinRange ? bonusAmount : 0,
         streak_day: newStreakDays,
+        campaign_id: campaign?.id ?? null,
       })
       .select()
       .single();
@@ -211,22 +451,76 @@ serve(async (req) => {
       );
     }
 
-    // If verified, update user's coin balance atomically and streak
-    if (isWithinRange && totalReward && rewardType) {
+    // If verified, post the reward to the ledger atomically and update streak
+    let journalEntryId: string | null = null;
+    let paidBase = isWithinRange ? baseAmount : 0;
+    let campaignSpend: { id: string; spent: number; remaining: number; status: string } | null = null;
+
+    // The advertiser pays the base reward; the streak bonus stays with the platform pool
+    if (isWithinRange && campaign) {
+      const { data: campaignResult, error: campaignError } = await supabase.rpc('atomic_campaign_reward', {
+        p_campaign_id: campaign.id,
+        p_user_id: user.id,
+        p_amount: baseAmount,
+        p_description: `Check-in reward at ${businessName}`,
+        p_reference_id: checkin.id,
+        p_entry_type: 'checkin',
+      });
+
+      if (campaignError) {
+        console.warn('[verify-checkin] Campaign could not pay:', campaignError.message);
+        paidBase = 0;
+      } else {
+        console.log('[verify-checkin] Campaign debited:', campaignResult);
+        paidBase = campaignResult.amount;
+        journalEntryId = campaignResult.journal_entry_id ?? null;
+        campaignSpend = {
+          id: campaign.id,
+          spent: campaignResult.spent,
+          remaining: campaignResult.remaining,
+          status: campaignResult.status,
+        };
+      }
+    }
+
+    let paidBonus = paidBase > 0 ? bonusAmount : 0;
+    let paidReward = paidBase + paidBonus;
+    const ledgerAmount = campaign ? paidBonus : paidReward;
+
+    if (isWithinRange && ledgerAmount && isCoinPayout) {
       // Use atomic balance update to prevent race conditions
       const { data: balanceResult, error: balanceError } = await supabase.rpc('atomic_update_balance', {
         p_user_id: user.id,
-        p_amount: totalReward,
-        p_coin_type: rewardType,
-        p_description: `Check-in reward at ${businessName || 'location'}`,
+        p_amount: ledgerAmount,
+        p_coin_type: payoutType,
+        p_description: campaign
+          ? `Check-in streak bonus at ${businessName}`
+          : `Check-in reward at ${businessName}`,
         p_reference_id: checkin.id,
+        p_entry_type: 'checkin',
       });
 
-      if (balanceError) {
+      if (balanceError && !campaignSpend) {
+        // Nothing was paid: drop the check-in so it can be retried rather than left
+        // claiming a reward the ledger never made
         console.error('[verify-checkin] Atomic balance update error:', balanceError);
+        await supabase.from('promotion_checkins').delete().eq('id', checkin.id);
+        return new Response(
+          JSON.stringify({ error: 'Failed to credit check-in reward', success: false }),
+          { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } else if (balanceError) {
+        // The campaign already paid the base reward; only the streak bonus is lost
+        console.error('[verify-checkin] Streak bonus balance update error:', balanceError);
+        paidBonus = 0;
+        paidReward = paidBase;
       } else {
         console.log('[verify-checkin] Updated balance atomically:', balanceResult);
+        journalEntryId = journalEntryId ?? balanceResult?.journal_entry_id ?? null;
       }
+    }
+
+    if (isWithinRange && paidReward && payoutType) {
 
       // Update streak in user_levels
       await supabase
@@ -238,10 +532,10 @@ serve(async (req) => {
         })
         .eq('user_id', user.id);
 
-      // Mark reward as claimed
+      // Mark reward as claimed with what was actually paid
       await supabase
         .from('promotion_checkins')
-        .update({ reward_claimed: true, reward_claimed_at: new Date().toISOString() })
+        .update({ reward_claimed: true, reward_claimed_at: new Date().toISOString(), reward_amount: paidReward, streak_bonus: paidBonus })
         .eq('id', checkin.id);
 
       // Add XP for check-in
@@ -256,34 +550,59 @@ serve(async (req) => {
     }
 
     console.log('[verify-checkin] Success:', { 
-      status, distance: Math.round(distance), isWithinRange,
-      streak: newStreakDays, bonusAmount,
+      status, distance: Math.round(distance), isWithinRange, riskScore: risk.score,
+      streak: newStreakDays, bonusAmount, campaignId: campaign?.id,
     });
 
+    const result = {
+      success: isWithinRange,
+      verified: isWithinRange,
+      flagged: isFlagged,
+      status,
+      distance: Math.round(distance),
+      maxDistance: maxDistanceMeters,
+      streak: {
+        current: newStreakDays,
+        longest: newLongestStreak,
+        bonus: streakBonus,
+        bonusAmount,
+      },
+      reward: {
+        base: campaign ? paidBase : baseAmount,
+        bonus: paidBonus,
+        total: paidReward,
+        type: payoutType,
+      },
+      campaign: campaignSpend,
+      journalEntryId,
+      message: isFlagged
+        ? "We couldn't confirm your location for this check-in"
+        : !isWithinRange
+          ? `Too far from location. You are ${Math.round(distance)}m away (max ${maxDistanceMeters}m)`
+          : campaign && !campaignSpend
+            ? 'Check-in successful! This promotion has no rewards left right now.'
+            : `Check-in successful! You earned ${paidReward} ${payoutType}${paidBonus > 0 ? ` (+${paidBonus} streak bonus!)` : ''}!`,
+      checkin,
+    };
+
+    // Queued check-ins keep a receipt so their replays are answered from it
+    if (idempotencyKey) {
+      const { error: saveError } = await supabase
+        .from('offline_action_receipts')
+        .upsert({
+          user_id: user.id,
+          idempotency_key: idempotencyKey,
+          action_type: 'checkin',
+          status: isWithinRange ? 'applied' : 'rejected',
+          reason: isWithinRange ? null : result.message,
+          result,
+        }, { onConflict: 'user_id,idempotency_key', ignoreDuplicates: true });
+
+      if (saveError) console.error('[verify-checkin] Receipt save error:', saveError);
+    }
+
     return new Response(
-      JSON.stringify({
-        success: isWithinRange,
-        verified: isWithinRange,
-        status,
-        distance: Math.round(distance),
-        maxDistance: maxDistanceMeters,
-        streak: {
-          current: newStreakDays,
-          longest: newLongestStreak,
-          bonus: streakBonus,
-          bonusAmount,
-        },
-        reward: {
-          base: rewardAmount,
-          bonus: bonusAmount,
-          total: totalReward,
-          type: rewardType,
-        },
-        message: isWithinRange 
-          ? `Check-in successful! You earned ${totalReward} ${rewardType}${bonusAmount > 0 ? ` (+${bonusAmount} streak bonus!)` : ''}!` 
-          : `Too far from location. You are ${Math.round(distance)}m away (max ${maxDistanceMeters}m)`,
-        checkin,
-      }),
+      JSON.stringify({ ...result, duplicate: false }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
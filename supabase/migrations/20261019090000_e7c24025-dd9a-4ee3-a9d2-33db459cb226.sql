@@ -0,0 +1,615 @@
+-- Double-entry coin ledger
+-- Every coin movement is recorded as a journal entry whose postings (legs) balance
+-- per coin type. Account balances follow the credit-normal convention
+-- (balance = credits - debits): user wallets stay >= 0, system accounts that fund
+-- rewards carry a negative balance equal to everything they have issued.
+-- profiles.vicoin_balance / icoin_balance become a cache written from the ledger.
+
+CREATE TABLE public.ledger_accounts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID,
+  system_code TEXT,
+  account_type TEXT NOT NULL CHECK (account_type IN ('user_wallet', 'system')),
+  coin_type TEXT NOT NULL CHECK (coin_type IN ('vicoin', 'icoin')),
+  balance INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (account_type = 'user_wallet' AND user_id IS NOT NULL AND system_code IS NULL) OR
+    (account_type = 'system' AND user_id IS NULL AND system_code IS NOT NULL)
+  ),
+  CHECK (account_type = 'system' OR balance >= 0)
+);
+
+CREATE UNIQUE INDEX idx_ledger_accounts_user_coin ON public.ledger_accounts (user_id, coin_type) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_ledger_accounts_system_coin ON public.ledger_accounts (system_code, coin_type) WHERE system_code IS NOT NULL;
+
+CREATE TABLE public.ledger_journal_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('opening_balance', 'reward', 'checkin', 'tip', 'conversion', 'payout', 'adjustment')),
+  description TEXT NOT NULL,
+  reference_id TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ledger_journal_entries_reference ON public.ledger_journal_entries (reference_id);
+
+CREATE TABLE public.ledger_postings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  journal_entry_id UUID NOT NULL REFERENCES public.ledger_journal_entries(id) ON DELETE RESTRICT,
+  account_id UUID NOT NULL REFERENCES public.ledger_accounts(id) ON DELETE RESTRICT,
+  user_id UUID, -- denormalized from the account for wallet history queries and RLS
+  coin_type TEXT NOT NULL CHECK (coin_type IN ('vicoin', 'icoin')),
+  direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  balance_after INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ledger_postings_entry ON public.ledger_postings (journal_entry_id);
+CREATE INDEX idx_ledger_postings_account ON public.ledger_postings (account_id, created_at);
+CREATE INDEX idx_ledger_postings_user ON public.ledger_postings (user_id, created_at DESC) WHERE user_id IS NOT NULL;
+
+-- Enable RLS
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_journal_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_postings ENABLE ROW LEVEL SECURITY;
+
+-- Writes only happen through the SECURITY DEFINER functions below
+CREATE POLICY "Users can view their own ledger accounts"
+ON public.ledger_accounts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all ledger accounts"
+ON public.ledger_accounts FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view their own ledger postings"
+ON public.ledger_postings FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all ledger postings"
+ON public.ledger_postings FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view journal entries touching their accounts"
+ON public.ledger_journal_entries FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.ledger_postings p
+  WHERE p.journal_entry_id = ledger_journal_entries.id AND p.user_id = auth.uid()
+));
+
+CREATE POLICY "Admins can view all journal entries"
+ON public.ledger_journal_entries FOR SELECT
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- Postings and journal entries are append-only; corrections are new 'adjustment' entries
+CREATE OR REPLACE FUNCTION public.prevent_ledger_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'LEDGER_IMMUTABLE: % rows cannot be updated or deleted', TG_TABLE_NAME;
+END;
+$$;
+
+CREATE TRIGGER prevent_ledger_postings_mutation
+  BEFORE UPDATE OR DELETE ON public.ledger_postings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+CREATE TRIGGER prevent_ledger_journal_entries_mutation
+  BEFORE UPDATE OR DELETE ON public.ledger_journal_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_ledger_mutation();
+
+-- Safety net: every journal entry must balance per coin type at commit time
+CREATE OR REPLACE FUNCTION public.check_journal_entry_balanced()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.ledger_postings
+    WHERE journal_entry_id = NEW.journal_entry_id
+    GROUP BY coin_type
+    HAVING SUM(CASE WHEN direction = 'debit' THEN amount ELSE -amount END) <> 0
+  ) THEN
+    RAISE EXCEPTION 'UNBALANCED_ENTRY: Journal entry % does not balance', NEW.journal_entry_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER ensure_journal_entry_balanced
+  AFTER INSERT ON public.ledger_postings
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_journal_entry_balanced();
+
+-- Get or create a system account (rewards pool, payouts clearing, ...)
+CREATE OR REPLACE FUNCTION public.ledger_system_account(p_code TEXT, p_coin_type TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_account_id UUID;
+BEGIN
+  SELECT id INTO v_account_id FROM public.ledger_accounts
+  WHERE system_code = p_code AND coin_type = p_coin_type;
+
+  IF v_account_id IS NULL THEN
+    INSERT INTO public.ledger_accounts (system_code, account_type, coin_type)
+    VALUES (p_code, 'system', p_coin_type)
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_account_id;
+
+    IF v_account_id IS NULL THEN
+      SELECT id INTO v_account_id FROM public.ledger_accounts
+      WHERE system_code = p_code AND coin_type = p_coin_type;
+    END IF;
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Core posting routine. p_legs is a JSON array of
+-- { "account_id": uuid, "direction": "debit" | "credit", "amount": int }.
+-- Callers are expected to hold the balance advisory lock for every user involved.
+CREATE OR REPLACE FUNCTION public.post_journal_entry(
+  p_entry_type TEXT,
+  p_description TEXT,
+  p_reference_id TEXT,
+  p_legs JSONB,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_entry_id UUID;
+  v_leg JSONB;
+  v_account public.ledger_accounts%ROWTYPE;
+  v_amount INTEGER;
+  v_direction TEXT;
+  v_new_balance INTEGER;
+BEGIN
+  IF jsonb_array_length(p_legs) < 2 THEN
+    RAISE EXCEPTION 'UNBALANCED_ENTRY: A journal entry needs at least two legs';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(p_legs) AS leg
+    JOIN public.ledger_accounts a ON a.id = (leg ->> 'account_id')::uuid
+    GROUP BY a.coin_type
+    HAVING SUM(CASE WHEN leg ->> 'direction' = 'debit' THEN (leg ->> 'amount')::int ELSE -(leg ->> 'amount')::int END) <> 0
+  ) THEN
+    RAISE EXCEPTION 'UNBALANCED_ENTRY: Debits and credits do not match';
+  END IF;
+
+  INSERT INTO public.ledger_journal_entries (entry_type, description, reference_id, metadata)
+  VALUES (p_entry_type, p_description, p_reference_id, COALESCE(p_metadata, '{}'::jsonb))
+  RETURNING id INTO v_entry_id;
+
+  FOR v_leg IN SELECT * FROM jsonb_array_elements(p_legs) LOOP
+    v_amount := (v_leg ->> 'amount')::int;
+    v_direction := v_leg ->> 'direction';
+
+    IF v_amount IS NULL OR v_amount <= 0 THEN
+      RAISE EXCEPTION 'INVALID_AMOUNT: Leg amounts must be positive';
+    END IF;
+
+    SELECT * INTO v_account FROM public.ledger_accounts
+    WHERE id = (v_leg ->> 'account_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'ACCOUNT_NOT_FOUND: Ledger account % not found', v_leg ->> 'account_id';
+    END IF;
+
+    v_new_balance := v_account.balance + CASE WHEN v_direction = 'credit' THEN v_amount ELSE -v_amount END;
+
+    IF v_account.account_type = 'user_wallet' AND v_new_balance < 0 THEN
+      RAISE EXCEPTION 'INSUFFICIENT_BALANCE: Insufficient % balance. Current: %, Requested: %', v_account.coin_type, v_account.balance, v_amount;
+    END IF;
+
+    INSERT INTO public.ledger_postings (journal_entry_id, account_id, user_id, coin_type, direction, amount, balance_after)
+    VALUES (v_entry_id, v_account.id, v_account.user_id, v_account.coin_type, v_direction, v_amount, v_new_balance);
+
+    UPDATE public.ledger_accounts SET balance = v_new_balance, updated_at = now() WHERE id = v_account.id;
+
+    -- Keep the profile balance cache in step with the ledger
+    IF v_account.account_type = 'user_wallet' THEN
+      IF v_account.coin_type = 'vicoin' THEN
+        UPDATE public.profiles SET vicoin_balance = v_new_balance, updated_at = now() WHERE user_id = v_account.user_id;
+      ELSE
+        UPDATE public.profiles SET icoin_balance = v_new_balance, updated_at = now() WHERE user_id = v_account.user_id;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Get or create a user's wallet account. A new account is opened with whatever
+-- balance the profile already holds so existing coins are carried into the ledger.
+CREATE OR REPLACE FUNCTION public.ledger_user_account(p_user_id UUID, p_coin_type TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_account_id UUID;
+  v_profile_balance INTEGER;
+BEGIN
+  SELECT id INTO v_account_id FROM public.ledger_accounts
+  WHERE user_id = p_user_id AND coin_type = p_coin_type;
+
+  IF v_account_id IS NOT NULL THEN
+    RETURN v_account_id;
+  END IF;
+
+  IF p_coin_type = 'vicoin' THEN
+    SELECT COALESCE(vicoin_balance, 0) INTO v_profile_balance FROM public.profiles WHERE user_id = p_user_id;
+  ELSE
+    SELECT COALESCE(icoin_balance, 0) INTO v_profile_balance FROM public.profiles WHERE user_id = p_user_id;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND: User profile not found';
+  END IF;
+
+  INSERT INTO public.ledger_accounts (user_id, account_type, coin_type)
+  VALUES (p_user_id, 'user_wallet', p_coin_type)
+  RETURNING id INTO v_account_id;
+
+  IF v_profile_balance > 0 THEN
+    PERFORM public.post_journal_entry(
+      'opening_balance',
+      'Opening balance carried over from profile',
+      NULL,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('opening_balance', p_coin_type), 'direction', 'debit', 'amount', v_profile_balance),
+        jsonb_build_object('account_id', v_account_id, 'direction', 'credit', 'amount', v_profile_balance)
+      )
+    );
+  END IF;
+
+  RETURN v_account_id;
+END;
+$$;
+
+-- Audit helper for support: compares the profile cache, the account balance and
+-- the balance replayed from postings for one user.
+CREATE OR REPLACE FUNCTION public.ledger_verify_user_balance(p_user_id UUID)
+RETURNS TABLE (
+  coin_type TEXT,
+  profile_balance INTEGER,
+  account_balance INTEGER,
+  replayed_balance INTEGER,
+  is_consistent BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    c.coin_type,
+    CASE WHEN c.coin_type = 'vicoin' THEN COALESCE(pr.vicoin_balance, 0) ELSE COALESCE(pr.icoin_balance, 0) END,
+    COALESCE(a.balance, 0),
+    COALESCE((
+      SELECT SUM(CASE WHEN lp.direction = 'credit' THEN lp.amount ELSE -lp.amount END)
+      FROM public.ledger_postings lp WHERE lp.account_id = a.id
+    ), 0)::int,
+    (CASE WHEN c.coin_type = 'vicoin' THEN COALESCE(pr.vicoin_balance, 0) ELSE COALESCE(pr.icoin_balance, 0) END) = COALESCE(a.balance, 0)
+      AND COALESCE(a.balance, 0) = COALESCE((
+        SELECT SUM(CASE WHEN lp.direction = 'credit' THEN lp.amount ELSE -lp.amount END)
+        FROM public.ledger_postings lp WHERE lp.account_id = a.id
+      ), 0)
+  FROM (VALUES ('vicoin'), ('icoin')) AS c(coin_type)
+  JOIN public.profiles pr ON pr.user_id = p_user_id
+  LEFT JOIN public.ledger_accounts a ON a.user_id = p_user_id AND a.coin_type = c.coin_type;
+$$;
+
+-- Ledger internals are only reachable through the service role (edge functions)
+REVOKE EXECUTE ON FUNCTION public.ledger_system_account(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_journal_entry(TEXT, TEXT, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_user_account(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_verify_user_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Rewire the balance RPCs onto the ledger. Locks, validation and the legacy
+-- transactions rows stay as they were; balance writes go through post_journal_entry.
+
+DROP FUNCTION IF EXISTS public.atomic_update_balance(UUID, INTEGER, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.atomic_update_balance(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_coin_type TEXT,
+  p_description TEXT,
+  p_reference_id TEXT,
+  p_entry_type TEXT DEFAULT 'reward'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_wallet_id UUID;
+  v_entry_id UUID;
+  v_new_balance INTEGER;
+BEGIN
+  -- Acquire advisory lock
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || p_user_id::text));
+
+  v_wallet_id := public.ledger_user_account(p_user_id, p_coin_type);
+
+  -- Rewards and check-ins are funded from the matching system pool
+  v_entry_id := public.post_journal_entry(
+    p_entry_type,
+    p_description,
+    p_reference_id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.ledger_system_account(p_entry_type || '_pool', p_coin_type), 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', v_wallet_id, 'direction', 'credit', 'amount', p_amount)
+    )
+  );
+
+  SELECT balance INTO v_new_balance FROM public.ledger_accounts WHERE id = v_wallet_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'new_balance', v_new_balance,
+    'amount_added', p_amount,
+    'coin_type', p_coin_type,
+    'journal_entry_id', v_entry_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.atomic_convert_coins(
+  p_user_id UUID,
+  p_icoin_amount INTEGER,
+  p_exchange_rate INTEGER DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_vicoin_amount INTEGER;
+  v_icoin_wallet UUID;
+  v_vicoin_wallet UUID;
+  v_new_icoin INTEGER;
+  v_new_vicoin INTEGER;
+  v_transfer_id TEXT;
+  v_entry_id UUID;
+BEGIN
+  -- Acquire advisory lock for this user's balance
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || p_user_id::text));
+
+  v_icoin_wallet := public.ledger_user_account(p_user_id, 'icoin');
+  v_vicoin_wallet := public.ledger_user_account(p_user_id, 'vicoin');
+
+  v_vicoin_amount := p_icoin_amount / p_exchange_rate;
+  v_transfer_id := 'transfer_' || extract(epoch from now())::bigint::text;
+
+  -- Each coin type balances on its own through the conversion desk account
+  v_entry_id := public.post_journal_entry(
+    'conversion',
+    'Converted ' || p_icoin_amount || ' Icoins to ' || v_vicoin_amount || ' Vicoins',
+    v_transfer_id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', v_icoin_wallet, 'direction', 'debit', 'amount', p_icoin_amount),
+      jsonb_build_object('account_id', public.ledger_system_account('conversion', 'icoin'), 'direction', 'credit', 'amount', p_icoin_amount),
+      jsonb_build_object('account_id', public.ledger_system_account('conversion', 'vicoin'), 'direction', 'debit', 'amount', v_vicoin_amount),
+      jsonb_build_object('account_id', v_vicoin_wallet, 'direction', 'credit', 'amount', v_vicoin_amount)
+    ),
+    jsonb_build_object('exchange_rate', p_exchange_rate)
+  );
+
+  SELECT balance INTO v_new_icoin FROM public.ledger_accounts WHERE id = v_icoin_wallet;
+  SELECT balance INTO v_new_vicoin FROM public.ledger_accounts WHERE id = v_vicoin_wallet;
+
+  -- Insert both transaction records
+  INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+  VALUES
+    (p_user_id, 'spent', 'icoin', p_icoin_amount, 'Converted to ' || v_vicoin_amount || ' Vicoins', v_transfer_id),
+    (p_user_id, 'earned', 'vicoin', v_vicoin_amount, 'Converted from ' || p_icoin_amount || ' Icoins', v_transfer_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'icoin_spent', p_icoin_amount,
+    'vicoin_received', v_vicoin_amount,
+    'new_icoin_balance', v_new_icoin,
+    'new_vicoin_balance', v_new_vicoin,
+    'transfer_id', v_transfer_id,
+    'journal_entry_id', v_entry_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.atomic_tip_creator(
+  p_tipper_id UUID,
+  p_creator_id UUID,
+  p_amount INTEGER,
+  p_coin_type TEXT,
+  p_content_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_tipper_wallet UUID;
+  v_creator_wallet UUID;
+  v_tip_id TEXT;
+  v_entry_id UUID;
+  v_new_balance INTEGER;
+  v_lock_first UUID;
+  v_lock_second UUID;
+BEGIN
+  -- Acquire locks in deterministic order to prevent deadlocks
+  IF p_tipper_id < p_creator_id THEN
+    v_lock_first := p_tipper_id;
+    v_lock_second := p_creator_id;
+  ELSE
+    v_lock_first := p_creator_id;
+    v_lock_second := p_tipper_id;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || v_lock_first::text));
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || v_lock_second::text));
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = p_tipper_id) THEN
+    RAISE EXCEPTION 'TIPPER_NOT_FOUND: Tipper profile not found';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = p_creator_id) THEN
+    RAISE EXCEPTION 'CREATOR_NOT_FOUND: Creator profile not found';
+  END IF;
+
+  v_tipper_wallet := public.ledger_user_account(p_tipper_id, p_coin_type);
+  v_creator_wallet := public.ledger_user_account(p_creator_id, p_coin_type);
+  v_tip_id := 'tip_' || extract(epoch from now())::bigint::text;
+
+  -- post_journal_entry raises INSUFFICIENT_BALANCE if the tipper cannot cover it
+  v_entry_id := public.post_journal_entry(
+    'tip',
+    'Tip to creator for content',
+    v_tip_id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', v_tipper_wallet, 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', v_creator_wallet, 'direction', 'credit', 'amount', p_amount)
+    ),
+    jsonb_build_object('content_id', p_content_id, 'tipper_id', p_tipper_id, 'creator_id', p_creator_id)
+  );
+
+  SELECT balance INTO v_new_balance FROM public.ledger_accounts WHERE id = v_tipper_wallet;
+
+  -- Insert transaction records
+  INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+  VALUES
+    (p_tipper_id, 'spent', p_coin_type, p_amount, 'Tip to creator for content', v_tip_id),
+    (p_creator_id, 'earned', p_coin_type, p_amount, 'Tip received from viewer', v_tip_id);
+
+  -- Create notification for creator
+  INSERT INTO public.notifications (user_id, type, title, body, data)
+  VALUES (
+    p_creator_id,
+    'earnings',
+    'You received a tip!',
+    'Someone tipped you ' || p_amount || ' ' || CASE WHEN p_coin_type = 'vicoin' THEN 'Vicoins' ELSE 'Icoins' END,
+    jsonb_build_object('tipId', v_tip_id, 'amount', p_amount, 'coinType', p_coin_type, 'contentId', p_content_id)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'tip_id', v_tip_id,
+    'amount', p_amount,
+    'coin_type', p_coin_type,
+    'new_balance', v_new_balance,
+    'journal_entry_id', v_entry_id
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.atomic_request_payout(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_coin_type TEXT,
+  p_method TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_kyc_status TEXT;
+  v_wallet_id UUID;
+  v_new_balance INTEGER;
+  v_tx_id UUID;
+  v_entry_id UUID;
+  v_reference_id TEXT;
+BEGIN
+  -- Acquire advisory lock
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || p_user_id::text));
+
+  SELECT kyc_status INTO v_kyc_status FROM public.profiles WHERE user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'PROFILE_NOT_FOUND: User profile not found';
+  END IF;
+
+  -- Check KYC
+  IF v_kyc_status IS NULL OR v_kyc_status != 'verified' THEN
+    RAISE EXCEPTION 'KYC_REQUIRED: KYC verification required before payout. Status: %', COALESCE(v_kyc_status, 'none');
+  END IF;
+
+  v_wallet_id := public.ledger_user_account(p_user_id, p_coin_type);
+  v_reference_id := 'payout_' || extract(epoch from now())::bigint::text;
+
+  -- Funds move into the payouts clearing account until the provider settles them
+  v_entry_id := public.post_journal_entry(
+    'payout',
+    'Payout via ' || p_method,
+    v_reference_id,
+    jsonb_build_array(
+      jsonb_build_object('account_id', v_wallet_id, 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', public.ledger_system_account('payouts_clearing', p_coin_type), 'direction', 'credit', 'amount', p_amount)
+    ),
+    jsonb_build_object('method', p_method)
+  );
+
+  SELECT balance INTO v_new_balance FROM public.ledger_accounts WHERE id = v_wallet_id;
+
+  -- Create transaction record
+  INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+  VALUES (p_user_id, 'withdrawn', p_coin_type, p_amount, 'Payout via ' || p_method, v_reference_id)
+  RETURNING id INTO v_tx_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transaction_id', v_tx_id,
+    'amount', p_amount,
+    'coin_type', p_coin_type,
+    'method', p_method,
+    'new_balance', v_new_balance,
+    'reference_id', v_reference_id,
+    'journal_entry_id', v_entry_id
+  );
+END;
+$$;
+
+-- Backfill: open ledger wallets for every existing profile so the ledger starts
+-- out matching current balances.
+DO $$
+DECLARE
+  v_profile RECORD;
+BEGIN
+  FOR v_profile IN SELECT user_id FROM public.profiles LOOP
+    PERFORM public.ledger_user_account(v_profile.user_id, 'vicoin');
+    PERFORM public.ledger_user_account(v_profile.user_id, 'icoin');
+  END LOOP;
+END;
+$$;
+
+-- Enable realtime so the wallet history updates live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ledger_postings;
@@ -0,0 +1,99 @@
+-- Route coin gifts through the ledger. Gifts used to move balances with direct
+-- profile updates from the client, which the ledger-backed profile cache would
+-- overwrite on the next posting.
+
+ALTER TABLE public.ledger_journal_entries DROP CONSTRAINT IF EXISTS ledger_journal_entries_entry_type_check;
+ALTER TABLE public.ledger_journal_entries ADD CONSTRAINT ledger_journal_entries_entry_type_check
+  CHECK (entry_type IN ('opening_balance', 'reward', 'checkin', 'tip', 'gift', 'conversion', 'payout', 'adjustment'));
+
+-- Called directly by the signed-in sender; the sender is always auth.uid()
+CREATE OR REPLACE FUNCTION public.atomic_send_gift(
+  p_recipient_id UUID,
+  p_amount INTEGER,
+  p_coin_type TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_sender_id UUID := auth.uid();
+  v_sender_wallet UUID;
+  v_recipient_wallet UUID;
+  v_gift_id UUID;
+  v_entry_id UUID;
+  v_new_balance INTEGER;
+  v_lock_first UUID;
+  v_lock_second UUID;
+BEGIN
+  IF v_sender_id IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to send gifts';
+  END IF;
+
+  IF v_sender_id = p_recipient_id THEN
+    RAISE EXCEPTION 'INVALID_RECIPIENT: Cannot gift yourself';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR p_coin_type NOT IN ('vicoin', 'icoin') THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT: Gift amount must be positive';
+  END IF;
+
+  -- Acquire locks in deterministic order to prevent deadlocks
+  IF v_sender_id < p_recipient_id THEN
+    v_lock_first := v_sender_id;
+    v_lock_second := p_recipient_id;
+  ELSE
+    v_lock_first := p_recipient_id;
+    v_lock_second := v_sender_id;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || v_lock_first::text));
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || v_lock_second::text));
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = p_recipient_id) THEN
+    RAISE EXCEPTION 'RECIPIENT_NOT_FOUND: Recipient profile not found';
+  END IF;
+
+  v_sender_wallet := public.ledger_user_account(v_sender_id, p_coin_type);
+  v_recipient_wallet := public.ledger_user_account(p_recipient_id, p_coin_type);
+
+  INSERT INTO public.coin_gifts (sender_id, recipient_id, amount, coin_type, message)
+  VALUES (v_sender_id, p_recipient_id, p_amount, p_coin_type, p_message)
+  RETURNING id INTO v_gift_id;
+
+  v_entry_id := public.post_journal_entry(
+    'gift',
+    'Coin gift',
+    v_gift_id::text,
+    jsonb_build_array(
+      jsonb_build_object('account_id', v_sender_wallet, 'direction', 'debit', 'amount', p_amount),
+      jsonb_build_object('account_id', v_recipient_wallet, 'direction', 'credit', 'amount', p_amount)
+    ),
+    jsonb_build_object('sender_id', v_sender_id, 'recipient_id', p_recipient_id)
+  );
+
+  SELECT balance INTO v_new_balance FROM public.ledger_accounts WHERE id = v_sender_wallet;
+
+  INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+  VALUES
+    (v_sender_id, 'gift_sent', p_coin_type, -p_amount, 'Gift sent', v_gift_id::text),
+    (p_recipient_id, 'gift_received', p_coin_type, p_amount, 'Gift received', v_gift_id::text);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'gift_id', v_gift_id,
+    'amount', p_amount,
+    'coin_type', p_coin_type,
+    'new_balance', v_new_balance,
+    'journal_entry_id', v_entry_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.atomic_send_gift(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.atomic_send_gift(UUID, INTEGER, TEXT, TEXT) TO authenticated;
+
+-- Gifts are now only created by atomic_send_gift
+DROP POLICY IF EXISTS "Users can send gifts" ON public.coin_gifts;
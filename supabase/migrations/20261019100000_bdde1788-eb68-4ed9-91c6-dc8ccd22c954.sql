@@ -0,0 +1,296 @@
+-- Nightly balance reconciliation
+-- Recomputes each user's balances from the activity tables and records any
+-- mismatch against profiles for admin review.
+
+CREATE TABLE public.balance_reconciliation_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  triggered_by UUID, -- NULL when started by the scheduler
+  auto_correct BOOLEAN NOT NULL DEFAULT false,
+  auto_correct_threshold INTEGER NOT NULL DEFAULT 0,
+  balances_checked INTEGER NOT NULL DEFAULT 0,
+  mismatches_found INTEGER NOT NULL DEFAULT 0,
+  auto_corrected INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE public.balance_reconciliations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.balance_reconciliation_runs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  coin_type TEXT NOT NULL CHECK (coin_type IN ('vicoin', 'icoin')),
+  profile_balance INTEGER NOT NULL,
+  expected_balance INTEGER NOT NULL,
+  ledger_balance INTEGER,
+  drift INTEGER NOT NULL, -- profile_balance - expected_balance
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'auto_corrected', 'corrected', 'frozen', 'cleared', 'dismissed')),
+  breakdown JSONB NOT NULL DEFAULT '{}'::jsonb,
+  resolved_by UUID,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_balance_reconciliations_status ON public.balance_reconciliations (status, severity, created_at DESC);
+CREATE INDEX idx_balance_reconciliations_user ON public.balance_reconciliations (user_id, coin_type);
+
+-- Enable RLS
+ALTER TABLE public.balance_reconciliation_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.balance_reconciliations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reconciliation runs" ON public.balance_reconciliation_runs
+  FOR SELECT USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'moderator'));
+
+CREATE POLICY "Admins can view balance reconciliations" ON public.balance_reconciliations
+  FOR SELECT USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'moderator'));
+
+CREATE POLICY "Admins can update balance reconciliations" ON public.balance_reconciliations
+  FOR UPDATE USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_balance_reconciliations_updated_at
+  BEFORE UPDATE ON public.balance_reconciliations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Expected balance per user and coin type, rebuilt from history:
+--   transactions      earned/received minus spent/sent/withdrawn (gift rows are skipped, see coin_gifts)
+--   reward_logs       rewards that never got an 'earned' transaction row
+--   coin_gifts        completed gifts received minus sent
+--   payout_requests   open or settled payouts that never got a 'withdrawn' transaction row
+--   promotion_checkins claimed check-in rewards (credited without a transaction row)
+CREATE OR REPLACE FUNCTION public.reconciliation_expected_balances()
+RETURNS TABLE (
+  user_id UUID,
+  coin_type TEXT,
+  profile_balance INTEGER,
+  expected_balance INTEGER,
+  ledger_balance INTEGER,
+  breakdown JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH deltas AS (
+    SELECT t.user_id, t.coin_type, 'transactions' AS source,
+      SUM(CASE
+        WHEN t.type IN ('earned', 'received') THEN t.amount
+        WHEN t.type IN ('spent', 'sent', 'withdrawn') THEN -t.amount
+        ELSE 0
+      END) AS delta
+    FROM public.transactions t
+    GROUP BY t.user_id, t.coin_type
+
+    UNION ALL
+
+    SELECT rl.user_id, rl.coin_type, 'reward_logs', SUM(rl.amount)
+    FROM public.reward_logs rl
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.transactions t
+      WHERE t.user_id = rl.user_id AND t.type = 'earned'
+        AND t.coin_type = rl.coin_type AND t.reference_id = rl.content_id
+    )
+    GROUP BY rl.user_id, rl.coin_type
+
+    UNION ALL
+
+    SELECT g.recipient_id, g.coin_type, 'coin_gifts', SUM(g.amount)
+    FROM public.coin_gifts g WHERE g.status = 'completed'
+    GROUP BY g.recipient_id, g.coin_type
+
+    UNION ALL
+
+    SELECT g.sender_id, g.coin_type, 'coin_gifts', -SUM(g.amount)
+    FROM public.coin_gifts g WHERE g.status = 'completed'
+    GROUP BY g.sender_id, g.coin_type
+
+    UNION ALL
+
+    SELECT pr.user_id, pr.coin_type, 'payout_requests', -SUM(pr.amount)
+    FROM public.payout_requests pr
+    WHERE pr.status NOT IN ('failed', 'cancelled')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.transactions t
+        WHERE t.user_id = pr.user_id AND t.type = 'withdrawn' AND t.reference_id = pr.reference_id
+      )
+    GROUP BY pr.user_id, pr.coin_type
+
+    UNION ALL
+
+    SELECT pc.user_id, pc.reward_type, 'promotion_checkins', SUM(pc.reward_amount)
+    FROM public.promotion_checkins pc
+    WHERE pc.reward_claimed = true AND pc.reward_type IS NOT NULL AND pc.reward_amount > 0
+    GROUP BY pc.user_id, pc.reward_type
+  ),
+  by_source AS (
+    SELECT d.user_id, d.coin_type, d.source, SUM(d.delta)::int AS delta
+    FROM deltas d
+    GROUP BY d.user_id, d.coin_type, d.source
+  )
+  SELECT
+    p.user_id,
+    c.coin_type,
+    (CASE WHEN c.coin_type = 'vicoin' THEN COALESCE(p.vicoin_balance, 0) ELSE COALESCE(p.icoin_balance, 0) END)::int,
+    COALESCE(SUM(s.delta), 0)::int,
+    a.balance,
+    COALESCE(jsonb_object_agg(s.source, s.delta) FILTER (WHERE s.source IS NOT NULL), '{}'::jsonb)
+  FROM public.profiles p
+  CROSS JOIN (VALUES ('vicoin'), ('icoin')) AS c(coin_type)
+  LEFT JOIN by_source s ON s.user_id = p.user_id AND s.coin_type = c.coin_type
+  LEFT JOIN public.ledger_accounts a ON a.user_id = p.user_id AND a.coin_type = c.coin_type
+  GROUP BY p.user_id, c.coin_type, p.vicoin_balance, p.icoin_balance, a.balance
+  ORDER BY p.user_id, c.coin_type;
+$$;
+
+-- Move a user's wallet to a target balance with an 'adjustment' journal entry
+CREATE OR REPLACE FUNCTION public.ledger_adjust_balance(
+  p_user_id UUID,
+  p_coin_type TEXT,
+  p_target_balance INTEGER,
+  p_description TEXT,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_wallet_id UUID;
+  v_current INTEGER;
+  v_delta INTEGER;
+  v_adjustments UUID;
+  v_entry_id UUID;
+BEGIN
+  IF p_target_balance < 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT: Target balance cannot be negative';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('balance_' || p_user_id::text));
+
+  v_wallet_id := public.ledger_user_account(p_user_id, p_coin_type);
+  SELECT balance INTO v_current FROM public.ledger_accounts WHERE id = v_wallet_id;
+  v_delta := p_target_balance - v_current;
+
+  IF v_delta <> 0 THEN
+    v_adjustments := public.ledger_system_account('adjustments', p_coin_type);
+    v_entry_id := public.post_journal_entry(
+      'adjustment',
+      p_description,
+      NULL,
+      jsonb_build_array(
+        jsonb_build_object('account_id', CASE WHEN v_delta > 0 THEN v_adjustments ELSE v_wallet_id END, 'direction', 'debit', 'amount', abs(v_delta)),
+        jsonb_build_object('account_id', CASE WHEN v_delta > 0 THEN v_wallet_id ELSE v_adjustments END, 'direction', 'credit', 'amount', abs(v_delta))
+      ),
+      p_metadata
+    );
+  ELSE
+    -- Ledger already agrees; make sure the profile cache does too
+    IF p_coin_type = 'vicoin' THEN
+      UPDATE public.profiles SET vicoin_balance = v_current, updated_at = now() WHERE user_id = p_user_id;
+    ELSE
+      UPDATE public.profiles SET icoin_balance = v_current, updated_at = now() WHERE user_id = p_user_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'previous_balance', v_current,
+    'new_balance', p_target_balance,
+    'journal_entry_id', v_entry_id
+  );
+END;
+$$;
+
+-- One-click correction from the admin dashboard: set the wallet to the expected
+-- balance recorded on the reconciliation row and log it in admin_actions.
+CREATE OR REPLACE FUNCTION public.admin_correct_balance_drift(
+  p_reconciliation_id UUID,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_admin_id UUID := auth.uid();
+  v_row public.balance_reconciliations%ROWTYPE;
+  v_result JSONB;
+BEGIN
+  IF v_admin_id IS NULL OR NOT public.has_role(v_admin_id, 'admin') THEN
+    RAISE EXCEPTION 'FORBIDDEN: Only admins can correct balances';
+  END IF;
+
+  SELECT * INTO v_row FROM public.balance_reconciliations WHERE id = p_reconciliation_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'NOT_FOUND: Reconciliation % not found', p_reconciliation_id;
+  END IF;
+
+  IF v_row.status NOT IN ('open', 'frozen') THEN
+    RAISE EXCEPTION 'ALREADY_RESOLVED: Reconciliation is %', v_row.status;
+  END IF;
+
+  v_result := public.ledger_adjust_balance(
+    v_row.user_id,
+    v_row.coin_type,
+    v_row.expected_balance,
+    'Balance correction after reconciliation',
+    jsonb_build_object('reconciliation_id', v_row.id, 'admin_id', v_admin_id, 'drift', v_row.drift)
+  );
+
+  UPDATE public.balance_reconciliations
+  SET status = 'corrected', resolved_by = v_admin_id, resolved_at = now(), resolution_note = p_note
+  WHERE id = v_row.id;
+
+  INSERT INTO public.admin_actions (admin_id, action_type, target_type, target_id, details)
+  VALUES (
+    v_admin_id,
+    'correct_balance',
+    'user',
+    v_row.user_id,
+    jsonb_build_object(
+      'reconciliation_id', v_row.id,
+      'coin_type', v_row.coin_type,
+      'drift', v_row.drift,
+      'previous_balance', v_result -> 'previous_balance',
+      'new_balance', v_row.expected_balance,
+      'journal_entry_id', v_result -> 'journal_entry_id',
+      'note', p_note
+    )
+  );
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconciliation_expected_balances() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_adjust_balance(UUID, TEXT, INTEGER, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.admin_correct_balance_drift(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.admin_correct_balance_drift(UUID, TEXT) TO authenticated;
+
+-- Schedule the reconcile-balances function nightly at 03:00 UTC.
+-- The service role key is read from Vault (secret name: service_role_key).
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'reconcile-balances-nightly',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tjykxqhliywnmelyuscn.supabase.co/functions/v1/reconcile-balances',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"autoCorrect": true, "autoCorrectThreshold": 5}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,11 @@
+-- Per-campaign overrides for the validate-attention scoring pipeline.
+-- Shape: { "passThreshold": 70, "validators": { "<name>": { "enabled", "weight", "threshold" } } }
+-- Any key left out falls back to the rollout flag, then to the function defaults.
+ALTER TABLE public.promotions
+ADD COLUMN attention_validation JSONB;
+
+-- Rollout flag for A/B testing validator weights; metadata.config uses the same shape as above
+INSERT INTO public.feature_flags (name, description, is_enabled, rollout_percentage, metadata) VALUES
+('attention_validation', 'Override attention validator weights and thresholds for the rollout cohort', false, 0,
+ '{"variant": "baseline", "config": {"passThreshold": 70, "validators": {"attention_score": {"weight": 30, "threshold": 60}, "watch_duration": {"weight": 25, "threshold": 70}, "face_detection": {"weight": 25, "threshold": 50}, "minimum_frames": {"weight": 10, "threshold": 30}, "timing_consistency": {"weight": 10, "threshold": 1.5}}}}'::jsonb)
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,62 @@
+-- Reward rules evaluated by issue-reward in place of hardcoded amounts and daily limits.
+-- Matching rules are applied in priority order (lowest first); later rules override
+-- any effect they set, and multipliers compound. NULL conditions match everything.
+CREATE TABLE public.reward_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  priority INTEGER NOT NULL DEFAULT 0,
+  -- Conditions
+  reward_type TEXT CHECK (reward_type IN ('promo_view', 'task_complete', 'referral', 'milestone', 'daily_bonus')),
+  subscription_tiers TEXT[], -- 'free' matches users without an active subscription
+  min_level INTEGER,
+  max_level INTEGER,
+  min_trust_score INTEGER CHECK (min_trust_score BETWEEN 0 AND 100),
+  max_trust_score INTEGER CHECK (max_trust_score BETWEEN 0 AND 100),
+  starts_at TIMESTAMP WITH TIME ZONE,
+  ends_at TIMESTAMP WITH TIME ZONE,
+  -- Effects
+  coin_type TEXT CHECK (coin_type IN ('vicoin', 'icoin')),
+  amount_min INTEGER CHECK (amount_min > 0),
+  amount_max INTEGER CHECK (amount_max > 0),
+  multiplier NUMERIC NOT NULL DEFAULT 1 CHECK (multiplier >= 0),
+  daily_limit_icoin INTEGER CHECK (daily_limit_icoin >= 0),
+  daily_limit_vicoin INTEGER CHECK (daily_limit_vicoin >= 0),
+  daily_limit_promo_views INTEGER CHECK (daily_limit_promo_views >= 0),
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (amount_min IS NULL OR amount_max IS NULL OR amount_min <= amount_max),
+  CHECK (min_level IS NULL OR max_level IS NULL OR min_level <= max_level),
+  CHECK (min_trust_score IS NULL OR max_trust_score IS NULL OR min_trust_score <= max_trust_score),
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR starts_at < ends_at)
+);
+
+CREATE INDEX idx_reward_rules_active ON public.reward_rules(priority) WHERE is_active;
+
+ALTER TABLE public.reward_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view reward rules" ON public.reward_rules
+  FOR SELECT USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'moderator'));
+
+CREATE POLICY "Admins can manage reward rules" ON public.reward_rules
+  FOR ALL USING (has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_reward_rules_updated_at
+  BEFORE UPDATE ON public.reward_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Explain trace of the rules evaluated for each reward
+ALTER TABLE public.reward_logs
+ADD COLUMN rule_trace JSONB;
+
+-- Seed with the values previously hardcoded in issue-reward
+INSERT INTO public.reward_rules (name, description, priority, reward_type, coin_type, amount_min, amount_max, daily_limit_icoin, daily_limit_vicoin, daily_limit_promo_views) VALUES
+('Default daily limits', 'Baseline daily earning caps for every user', 0, NULL, NULL, NULL, NULL, 100, 50, 20),
+('Promo view', 'Base reward for a validated promo view', 0, 'promo_view', 'icoin', 1, 10, NULL, NULL, NULL),
+('Task complete', 'Base reward for completing a task', 0, 'task_complete', 'icoin', 3, 20, NULL, NULL, NULL),
+('Referral', 'Reward for a successful referral', 0, 'referral', 'vicoin', 10, 10, NULL, NULL, NULL),
+('Milestone', 'Reward for reaching a milestone', 0, 'milestone', 'vicoin', 20, 20, NULL, NULL, NULL),
+('Daily bonus', 'Daily login bonus', 0, 'daily_bonus', 'icoin', 1, 5, NULL, NULL, NULL);
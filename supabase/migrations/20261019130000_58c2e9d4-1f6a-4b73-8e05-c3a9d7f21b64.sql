@@ -0,0 +1,190 @@
+-- Pending rewards: earned but not yet paid. Rewards can be parked on a delay
+-- (claimable_at in the future) or held for fraud review (claimable_at NULL)
+-- and are paid out through claim-reward once released.
+CREATE TABLE public.pending_rewards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  campaign_id UUID,
+  type TEXT NOT NULL CHECK (type IN ('vicoin', 'icoin', 'discount', 'product')),
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'expired')),
+  source TEXT NOT NULL, -- reward_type or subsystem that parked the reward
+  reference_id TEXT, -- content or promotion the reward was earned on
+  hold_reason TEXT, -- 'fraud_hold', 'delayed', ...
+  claimable_at TIMESTAMP WITH TIME ZONE DEFAULT now(), -- NULL while held
+  journal_entry_id UUID REFERENCES public.ledger_journal_entries(id),
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  earned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  claimed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '30 days'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_pending_rewards_user_status ON public.pending_rewards(user_id, status);
+CREATE INDEX idx_pending_rewards_expiry ON public.pending_rewards(expires_at) WHERE status = 'pending';
+-- One live parked reward per earning event
+CREATE UNIQUE INDEX idx_pending_rewards_reference
+  ON public.pending_rewards(user_id, source, reference_id)
+  WHERE reference_id IS NOT NULL AND status <> 'expired';
+
+ALTER TABLE public.pending_rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own pending rewards" ON public.pending_rewards
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all pending rewards" ON public.pending_rewards
+  FOR SELECT USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'moderator'));
+
+CREATE TRIGGER update_pending_rewards_updated_at
+  BEFORE UPDATE ON public.pending_rewards
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pending_rewards;
+
+-- Mark overdue pending rewards as expired. Scoped to one user when given.
+CREATE OR REPLACE FUNCTION public.expire_pending_rewards(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.pending_rewards
+  SET status = 'expired'
+  WHERE status = 'pending'
+    AND expires_at <= now()
+    AND (p_user_id IS NULL OR user_id = p_user_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Pay out a pending reward. Claiming an already-claimed reward returns the
+-- original result instead of paying twice.
+CREATE OR REPLACE FUNCTION public.claim_pending_reward(p_reward_id UUID, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_reward public.pending_rewards%ROWTYPE;
+  v_result JSONB;
+  v_entry_id UUID;
+  v_new_balance INTEGER;
+  v_description TEXT;
+BEGIN
+  SELECT * INTO v_reward
+  FROM public.pending_rewards
+  WHERE id = p_reward_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REWARD_NOT_FOUND: Reward % not found', p_reward_id;
+  END IF;
+
+  IF v_reward.status = 'claimed' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_claimed', true,
+      'type', v_reward.type,
+      'amount', v_reward.amount,
+      'journal_entry_id', v_reward.journal_entry_id,
+      'claimed_at', v_reward.claimed_at
+    );
+  END IF;
+
+  IF v_reward.status = 'expired' OR v_reward.expires_at <= now() THEN
+    UPDATE public.pending_rewards SET status = 'expired' WHERE id = p_reward_id AND status = 'pending';
+    RAISE EXCEPTION 'REWARD_EXPIRED: Reward expired at %', v_reward.expires_at;
+  END IF;
+
+  IF v_reward.claimable_at IS NULL OR v_reward.claimable_at > now() THEN
+    RAISE EXCEPTION 'REWARD_ON_HOLD: Reward is not claimable yet';
+  END IF;
+
+  -- Coin rewards go through the ledger; discounts and products are fulfilled elsewhere
+  IF v_reward.type IN ('vicoin', 'icoin') THEN
+    v_description := 'Claimed ' || replace(v_reward.source, '_', ' ') || ' reward';
+
+    v_result := public.atomic_update_balance(
+      p_user_id,
+      v_reward.amount,
+      v_reward.type,
+      v_description,
+      COALESCE(v_reward.reference_id, v_reward.id::text),
+      'reward'
+    );
+    v_entry_id := (v_result->>'journal_entry_id')::UUID;
+    v_new_balance := (v_result->>'new_balance')::INTEGER;
+
+    INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+    VALUES (p_user_id, 'earned', v_reward.type, v_reward.amount, v_description, COALESCE(v_reward.reference_id, v_reward.id::text));
+  END IF;
+
+  UPDATE public.pending_rewards
+  SET status = 'claimed', claimed_at = now(), journal_entry_id = v_entry_id
+  WHERE id = p_reward_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_claimed', false,
+    'type', v_reward.type,
+    'amount', v_reward.amount,
+    'new_balance', v_new_balance,
+    'journal_entry_id', v_entry_id,
+    'claimed_at', now()
+  );
+END;
+$$;
+
+-- Release a held reward so the user can claim it
+CREATE OR REPLACE FUNCTION public.release_pending_reward(p_reward_id UUID, p_note TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_reward public.pending_rewards%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'FORBIDDEN: Only admins can release rewards';
+  END IF;
+
+  UPDATE public.pending_rewards
+  SET claimable_at = now(),
+      metadata = metadata || jsonb_build_object('released_by', auth.uid(), 'release_note', p_note)
+  WHERE id = p_reward_id AND status = 'pending'
+  RETURNING * INTO v_reward;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REWARD_NOT_FOUND: No pending reward %', p_reward_id;
+  END IF;
+
+  INSERT INTO public.admin_actions (admin_id, action_type, target_type, target_id, details)
+  VALUES (auth.uid(), 'release_reward', 'user', v_reward.user_id::text, jsonb_build_object(
+    'reward_id', v_reward.id,
+    'type', v_reward.type,
+    'amount', v_reward.amount,
+    'hold_reason', v_reward.hold_reason,
+    'note', p_note
+  ));
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_pending_rewards(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_pending_reward(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.release_pending_reward(UUID, TEXT) TO authenticated;
+
+-- Sweep expired rewards every hour
+SELECT cron.schedule(
+  'expire-pending-rewards-hourly',
+  '0 * * * *',
+  $$ SELECT public.expire_pending_rewards(); $$
+);
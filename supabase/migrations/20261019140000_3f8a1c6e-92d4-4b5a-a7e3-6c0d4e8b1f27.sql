@@ -0,0 +1,302 @@
+-- Advertiser campaigns. A campaign holds a budget that issue-reward and verify-checkin
+-- draw down through atomic_campaign_reward; it pauses itself once spent reaches budget.
+-- business_id is the owning account (same convention as promotions.business_id).
+CREATE TABLE public.campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  business_id UUID NOT NULL,
+  promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  reward_type TEXT NOT NULL CHECK (reward_type IN ('vicoin', 'icoin', 'discount', 'product')),
+  reward_amount INTEGER NOT NULL CHECK (reward_amount > 0),
+  required_action TEXT NOT NULL CHECK (required_action IN ('view', 'like', 'share', 'visit', 'purchase')),
+  target_views INTEGER NOT NULL DEFAULT 0 CHECK (target_views >= 0), -- 0 = no target
+  current_views INTEGER NOT NULL DEFAULT 0,
+  budget INTEGER NOT NULL CHECK (budget > 0),
+  spent INTEGER NOT NULL DEFAULT 0 CHECK (spent >= 0),
+  pacing TEXT NOT NULL DEFAULT 'even' CHECK (pacing IN ('even', 'asap')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'expired')),
+  pause_reason TEXT, -- 'manual', 'budget_exhausted'
+  start_date TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  end_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (spent <= budget),
+  CHECK (start_date < end_date),
+  CHECK ((latitude IS NULL) = (longitude IS NULL))
+);
+
+CREATE INDEX idx_campaigns_business ON public.campaigns(business_id, created_at DESC);
+CREATE INDEX idx_campaigns_promotion ON public.campaigns(promotion_id) WHERE status = 'active';
+CREATE INDEX idx_campaigns_active ON public.campaigns(end_date) WHERE status = 'active';
+
+ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through manage-campaign so budget and status rules are enforced server-side
+CREATE POLICY "Businesses can view their own campaigns" ON public.campaigns
+  FOR SELECT USING (auth.uid() = business_id);
+
+CREATE POLICY "Anyone can view active campaigns" ON public.campaigns
+  FOR SELECT USING (status = 'active' AND now() BETWEEN start_date AND end_date);
+
+CREATE POLICY "Admins can view all campaigns" ON public.campaigns
+  FOR SELECT USING (has_role(auth.uid(), 'admin') OR has_role(auth.uid(), 'moderator'));
+
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON public.campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Advertisers watch spend against budget live
+ALTER TABLE public.campaigns REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.campaigns;
+
+-- Attribute rewards to the campaign that paid for them
+ALTER TABLE public.pending_rewards
+  ADD CONSTRAINT pending_rewards_campaign_id_fkey
+  FOREIGN KEY (campaign_id) REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+ALTER TABLE public.reward_logs
+ADD COLUMN campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+ALTER TABLE public.promotion_checkins
+ADD COLUMN campaign_id UUID REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_reward_logs_campaign ON public.reward_logs(campaign_id, created_at) WHERE campaign_id IS NOT NULL;
+CREATE INDEX idx_promotion_checkins_campaign ON public.promotion_checkins(campaign_id, checked_in_at) WHERE campaign_id IS NOT NULL;
+
+-- Pay a user out of a campaign's budget. The campaign row lock serialises spend, so
+-- concurrent rewards can never take spent past budget. The last reward is trimmed to
+-- whatever budget remains, and the campaign pauses itself once nothing is left.
+-- Coin rewards are funded from the campaign's own system account ('campaign:<id>'),
+-- whose negative balance is the campaign's lifetime coin spend.
+CREATE OR REPLACE FUNCTION public.atomic_campaign_reward(
+  p_campaign_id UUID,
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_description TEXT,
+  p_reference_id TEXT,
+  p_entry_type TEXT DEFAULT 'reward'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_campaign public.campaigns%ROWTYPE;
+  v_amount INTEGER;
+  v_allowed INTEGER;
+  v_elapsed NUMERIC;
+  v_wallet_id UUID;
+  v_entry_id UUID;
+  v_new_balance INTEGER;
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'INVALID_AMOUNT: Amount must be positive';
+  END IF;
+
+  SELECT * INTO v_campaign
+  FROM public.campaigns
+  WHERE id = p_campaign_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'CAMPAIGN_NOT_FOUND: Campaign % not found', p_campaign_id;
+  END IF;
+
+  -- Raising rolls back the transaction, so status changes are left to expire_campaigns
+  -- and to the spend update below rather than written here
+  IF v_campaign.status <> 'active' OR v_campaign.start_date > now() OR v_campaign.end_date <= now() THEN
+    RAISE EXCEPTION 'CAMPAIGN_INACTIVE: Campaign is % (% to %)', v_campaign.status, v_campaign.start_date, v_campaign.end_date;
+  END IF;
+
+  IF v_campaign.spent >= v_campaign.budget THEN
+    RAISE EXCEPTION 'CAMPAIGN_BUDGET_EXHAUSTED: Campaign budget is spent';
+  END IF;
+
+  v_amount := LEAST(p_amount, v_campaign.budget - v_campaign.spent);
+
+  -- Even pacing releases budget day by day across the flight
+  IF v_campaign.pacing = 'even' THEN
+    v_elapsed := EXTRACT(EPOCH FROM (date_trunc('day', now()) + interval '1 day' - v_campaign.start_date))
+      / EXTRACT(EPOCH FROM (v_campaign.end_date - v_campaign.start_date));
+    v_allowed := CEIL(v_campaign.budget * LEAST(1, GREATEST(0, v_elapsed)));
+
+    IF v_campaign.spent + v_amount > v_allowed THEN
+      RAISE EXCEPTION 'CAMPAIGN_PACING_LIMIT: Daily budget reached (% of % released)', v_allowed, v_campaign.budget;
+    END IF;
+  END IF;
+
+  IF v_campaign.reward_type IN ('vicoin', 'icoin') THEN
+    PERFORM pg_advisory_xact_lock(hashtext('balance_' || p_user_id::text));
+
+    v_wallet_id := public.ledger_user_account(p_user_id, v_campaign.reward_type);
+
+    v_entry_id := public.post_journal_entry(
+      p_entry_type,
+      p_description,
+      p_reference_id,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.ledger_system_account('campaign:' || p_campaign_id::text, v_campaign.reward_type), 'direction', 'debit', 'amount', v_amount),
+        jsonb_build_object('account_id', v_wallet_id, 'direction', 'credit', 'amount', v_amount)
+      ),
+      jsonb_build_object('campaign_id', p_campaign_id)
+    );
+
+    SELECT balance INTO v_new_balance FROM public.ledger_accounts WHERE id = v_wallet_id;
+  END IF;
+
+  UPDATE public.campaigns
+  SET spent = spent + v_amount,
+      current_views = current_views + 1,
+      status = CASE
+        WHEN spent + v_amount >= budget THEN 'paused'
+        WHEN target_views > 0 AND current_views + 1 >= target_views THEN 'completed'
+        ELSE status
+      END,
+      pause_reason = CASE WHEN spent + v_amount >= budget THEN 'budget_exhausted' ELSE pause_reason END
+  WHERE id = p_campaign_id
+  RETURNING * INTO v_campaign;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'campaign_id', p_campaign_id,
+    'amount', v_amount,
+    'trimmed', v_amount < p_amount,
+    'reward_type', v_campaign.reward_type,
+    'new_balance', v_new_balance,
+    'journal_entry_id', v_entry_id,
+    'spent', v_campaign.spent,
+    'remaining', v_campaign.budget - v_campaign.spent,
+    'status', v_campaign.status
+  );
+END;
+$$;
+
+-- Close out campaigns whose flight has ended
+CREATE OR REPLACE FUNCTION public.expire_campaigns()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.campaigns
+  SET status = 'expired'
+  WHERE status IN ('active', 'paused')
+    AND end_date <= now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Held rewards earned on a campaign are charged to its budget when claimed
+CREATE OR REPLACE FUNCTION public.claim_pending_reward(p_reward_id UUID, p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_reward public.pending_rewards%ROWTYPE;
+  v_result JSONB;
+  v_entry_id UUID;
+  v_new_balance INTEGER;
+  v_amount INTEGER;
+  v_description TEXT;
+BEGIN
+  SELECT * INTO v_reward
+  FROM public.pending_rewards
+  WHERE id = p_reward_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'REWARD_NOT_FOUND: Reward % not found', p_reward_id;
+  END IF;
+
+  IF v_reward.status = 'claimed' THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'already_claimed', true,
+      'type', v_reward.type,
+      'amount', v_reward.amount,
+      'journal_entry_id', v_reward.journal_entry_id,
+      'claimed_at', v_reward.claimed_at
+    );
+  END IF;
+
+  IF v_reward.status = 'expired' OR v_reward.expires_at <= now() THEN
+    UPDATE public.pending_rewards SET status = 'expired' WHERE id = p_reward_id AND status = 'pending';
+    RAISE EXCEPTION 'REWARD_EXPIRED: Reward expired at %', v_reward.expires_at;
+  END IF;
+
+  IF v_reward.claimable_at IS NULL OR v_reward.claimable_at > now() THEN
+    RAISE EXCEPTION 'REWARD_ON_HOLD: Reward is not claimable yet';
+  END IF;
+
+  v_amount := v_reward.amount;
+  v_description := 'Claimed ' || replace(v_reward.source, '_', ' ') || ' reward';
+
+  IF v_reward.campaign_id IS NOT NULL THEN
+    -- The campaign may trim the payout to its remaining budget
+    v_result := public.atomic_campaign_reward(
+      v_reward.campaign_id,
+      p_user_id,
+      v_reward.amount,
+      v_description,
+      COALESCE(v_reward.reference_id, v_reward.id::text),
+      'reward'
+    );
+    v_amount := (v_result->>'amount')::INTEGER;
+    v_entry_id := (v_result->>'journal_entry_id')::UUID;
+    v_new_balance := (v_result->>'new_balance')::INTEGER;
+  ELSIF v_reward.type IN ('vicoin', 'icoin') THEN
+    -- Coin rewards go through the ledger; discounts and products are fulfilled elsewhere
+    v_result := public.atomic_update_balance(
+      p_user_id,
+      v_reward.amount,
+      v_reward.type,
+      v_description,
+      COALESCE(v_reward.reference_id, v_reward.id::text),
+      'reward'
+    );
+    v_entry_id := (v_result->>'journal_entry_id')::UUID;
+    v_new_balance := (v_result->>'new_balance')::INTEGER;
+  END IF;
+
+  IF v_reward.type IN ('vicoin', 'icoin') THEN
+    INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+    VALUES (p_user_id, 'earned', v_reward.type, v_amount, v_description, COALESCE(v_reward.reference_id, v_reward.id::text));
+  END IF;
+
+  UPDATE public.pending_rewards
+  SET status = 'claimed', claimed_at = now(), journal_entry_id = v_entry_id, amount = v_amount
+  WHERE id = p_reward_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'already_claimed', false,
+    'type', v_reward.type,
+    'amount', v_amount,
+    'new_balance', v_new_balance,
+    'journal_entry_id', v_entry_id,
+    'claimed_at', now()
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.atomic_campaign_reward(UUID, UUID, INTEGER, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_campaigns() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-campaigns-hourly',
+  '5 * * * *',
+  $$ SELECT public.expire_campaigns(); $$
+);
@@ -0,0 +1,213 @@
+-- Per-promotion activity feed for the business burn dashboard. Check-ins, paid promo
+-- views and verified attention sessions are copied here by trigger (attention comes
+-- from validate-attention) so businesses can read and stream their own promotions'
+-- activity without access to the underlying user tables.
+CREATE TABLE public.promotion_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  promotion_id UUID NOT NULL REFERENCES public.promotions(id) ON DELETE CASCADE,
+  business_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('checkin', 'promo_view', 'attention')),
+  source_id UUID, -- promotion_checkins.id / reward_logs.id; NULL for attention sessions
+  viewer_hash TEXT NOT NULL, -- stable per business, so unique users can be counted without exposing user ids
+  coins INTEGER NOT NULL DEFAULT 0,
+  attention_seconds NUMERIC NOT NULL DEFAULT 0,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_promotion_activity_source ON public.promotion_activity(kind, source_id);
+CREATE INDEX idx_promotion_activity_business ON public.promotion_activity(business_id, occurred_at);
+
+ALTER TABLE public.promotion_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Businesses can view their promotions' activity" ON public.promotion_activity
+  FOR SELECT USING (auth.uid() = business_id);
+
+CREATE POLICY "Admins can view all promotion activity" ON public.promotion_activity
+  FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.promotion_activity;
+
+-- Upsert one activity row. Promotions without an owning business are skipped.
+CREATE OR REPLACE FUNCTION public.record_promotion_activity(
+  p_promotion_id UUID,
+  p_kind TEXT,
+  p_user_id UUID,
+  p_source_id UUID DEFAULT NULL,
+  p_coins INTEGER DEFAULT 0,
+  p_attention_seconds NUMERIC DEFAULT 0,
+  p_occurred_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_business_id UUID;
+BEGIN
+  SELECT business_id INTO v_business_id FROM public.promotions WHERE id = p_promotion_id;
+
+  IF v_business_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.promotion_activity (promotion_id, business_id, kind, source_id, viewer_hash, coins, attention_seconds, occurred_at)
+  VALUES (
+    p_promotion_id,
+    v_business_id,
+    p_kind,
+    p_source_id,
+    md5(v_business_id::text || ':' || p_user_id::text),
+    COALESCE(p_coins, 0),
+    COALESCE(p_attention_seconds, 0),
+    p_occurred_at
+  )
+  ON CONFLICT (kind, source_id) DO UPDATE
+  SET coins = EXCLUDED.coins,
+      attention_seconds = EXCLUDED.attention_seconds;
+END;
+$$;
+
+-- Verified check-ins; coins are filled in once the reward is marked claimed
+CREATE OR REPLACE FUNCTION public.track_checkin_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.status = 'verified' AND NEW.promotion_id IS NOT NULL THEN
+    PERFORM public.record_promotion_activity(
+      NEW.promotion_id,
+      'checkin',
+      NEW.user_id,
+      NEW.id,
+      CASE WHEN NEW.reward_claimed AND NEW.reward_type IN ('vicoin', 'icoin') THEN COALESCE(NEW.reward_amount, 0) ELSE 0 END,
+      0,
+      NEW.checked_in_at
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_promotion_checkin_activity
+  AFTER INSERT OR UPDATE OF status, reward_claimed, reward_amount ON public.promotion_checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_checkin_activity();
+
+-- Paid promo views. content_id is the promotion id for promo content.
+CREATE OR REPLACE FUNCTION public.track_promo_view_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    -- issue-reward removes the log when a campaign declines to pay
+    DELETE FROM public.promotion_activity WHERE kind = 'promo_view' AND source_id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.reward_type = 'promo_view'
+     AND NEW.content_id ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    PERFORM public.record_promotion_activity(
+      NEW.content_id::uuid,
+      'promo_view',
+      NEW.user_id,
+      NEW.id,
+      NEW.amount,
+      0,
+      NEW.created_at
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_promotion_view_activity
+  AFTER INSERT OR UPDATE OF amount OR DELETE ON public.reward_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.track_promo_view_activity();
+
+-- Burn stats for the caller's promotions. Grouping sets return, in one pass:
+-- per promotion per bucket, per promotion (bucket NULL), per bucket across all
+-- promotions (promotion_id NULL) and the overall total (both NULL), so unique
+-- users are counted correctly at every level.
+CREATE OR REPLACE FUNCTION public.promotion_burn_stats(
+  p_from TIMESTAMP WITH TIME ZONE,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  p_bucket TEXT DEFAULT 'day'
+)
+RETURNS TABLE (
+  promotion_id UUID,
+  business_name TEXT,
+  bucket TIMESTAMP WITH TIME ZONE,
+  checkins INTEGER,
+  promo_views INTEGER,
+  coins_disbursed INTEGER,
+  unique_users INTEGER,
+  attention_seconds NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to view promotion stats';
+  END IF;
+
+  IF p_bucket NOT IN ('hour', 'day', 'week') THEN
+    RAISE EXCEPTION 'INVALID_BUCKET: Bucket must be hour, day or week';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.promotion_id,
+    MAX(p.business_name),
+    date_trunc(p_bucket, a.occurred_at) AS bucket,
+    COUNT(*) FILTER (WHERE a.kind = 'checkin')::INTEGER,
+    COUNT(*) FILTER (WHERE a.kind = 'promo_view')::INTEGER,
+    COALESCE(SUM(a.coins), 0)::INTEGER,
+    COUNT(DISTINCT a.viewer_hash) FILTER (WHERE a.kind <> 'attention')::INTEGER,
+    COALESCE(SUM(a.attention_seconds), 0)
+  FROM public.promotion_activity a
+  JOIN public.promotions p ON p.id = a.promotion_id
+  WHERE a.business_id = auth.uid()
+    AND a.occurred_at >= p_from
+    AND a.occurred_at < p_to
+  GROUP BY GROUPING SETS (
+    (a.promotion_id, date_trunc(p_bucket, a.occurred_at)),
+    (a.promotion_id),
+    (date_trunc(p_bucket, a.occurred_at)),
+    ()
+  )
+  ORDER BY 3 NULLS LAST, 1 NULLS FIRST;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_promotion_activity(UUID, TEXT, UUID, UUID, INTEGER, NUMERIC, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.promotion_burn_stats(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+
+-- Backfill from existing check-ins and promo views
+INSERT INTO public.promotion_activity (promotion_id, business_id, kind, source_id, viewer_hash, coins, occurred_at)
+SELECT c.promotion_id, p.business_id, 'checkin', c.id,
+  md5(p.business_id::text || ':' || c.user_id::text),
+  CASE WHEN c.reward_claimed AND c.reward_type IN ('vicoin', 'icoin') THEN COALESCE(c.reward_amount, 0) ELSE 0 END,
+  c.checked_in_at
+FROM public.promotion_checkins c
+JOIN public.promotions p ON p.id = c.promotion_id
+WHERE c.status = 'verified' AND p.business_id IS NOT NULL;
+
+INSERT INTO public.promotion_activity (promotion_id, business_id, kind, source_id, viewer_hash, coins, occurred_at)
+SELECT p.id, p.business_id, 'promo_view', r.id,
+  md5(p.business_id::text || ':' || r.user_id::text),
+  r.amount,
+  r.created_at
+FROM public.reward_logs r
+JOIN public.promotions p ON p.id::text = r.content_id
+WHERE r.reward_type = 'promo_view' AND p.business_id IS NOT NULL;
@@ -0,0 +1,65 @@
+-- Server-side publishing of scheduled imported media. publish-scheduled-posts claims
+-- due rows every minute, publishes them into user_content and retries failures
+-- with backoff until the attempt limit is reached.
+ALTER TABLE public.imported_media
+  ADD COLUMN publish_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN publish_error TEXT,
+  ADD COLUMN publishing_started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN published_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_imported_media_due ON public.imported_media(scheduled_at)
+  WHERE status IN ('scheduled', 'publishing');
+
+-- Claim up to p_limit due posts. Claimed rows move to 'publishing' with the attempt
+-- counted, so overlapping runs never pick up the same post. A run that dies
+-- mid-publish leaves its rows in 'publishing'; they are reclaimed after p_stale_after.
+CREATE OR REPLACE FUNCTION public.claim_due_scheduled_posts(
+  p_limit INTEGER DEFAULT 25,
+  p_stale_after INTERVAL DEFAULT INTERVAL '10 minutes'
+)
+RETURNS SETOF public.imported_media
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.imported_media m
+  SET status = 'publishing',
+      publish_attempts = m.publish_attempts + 1,
+      publishing_started_at = now()
+  WHERE m.id IN (
+    SELECT d.id
+    FROM public.imported_media d
+    WHERE d.scheduled_at <= now()
+      AND (
+        (d.status = 'scheduled' AND (d.next_attempt_at IS NULL OR d.next_attempt_at <= now()))
+        OR (d.status = 'publishing' AND d.publishing_started_at < now() - p_stale_after)
+      )
+    ORDER BY d.scheduled_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_scheduled_posts(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Run the publisher every minute.
+-- The service role key is read from Vault (secret name: service_role_key).
+SELECT cron.schedule(
+  'publish-scheduled-posts',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tjykxqhliywnmelyuscn.supabase.co/functions/v1/publish-scheduled-posts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
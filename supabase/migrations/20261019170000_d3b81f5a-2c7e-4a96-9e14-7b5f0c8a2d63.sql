@@ -0,0 +1,131 @@
+-- TOTP two-factor authentication. Secrets, backup code hashes and step-up grants are
+-- only ever read and written by the manage-two-factor function, so none of these
+-- tables have client policies.
+CREATE TABLE public.user_two_factor (
+  user_id UUID NOT NULL PRIMARY KEY,
+  secret TEXT NOT NULL, -- base32, as shown to the authenticator app
+  enabled_at TIMESTAMP WITH TIME ZONE, -- NULL while enrollment is pending
+  last_used_step BIGINT, -- last accepted TOTP time step; codes are never accepted twice
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_two_factor ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_two_factor_updated_at
+  BEFORE UPDATE ON public.user_two_factor
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.user_backup_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.user_two_factor(user_id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL, -- SHA-256 hex of the normalised code
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_user_backup_codes_user ON public.user_backup_codes(user_id);
+
+ALTER TABLE public.user_backup_codes ENABLE ROW LEVEL SECURITY;
+
+-- A short-lived grant issued after the user re-enters a code. Payout and transfer
+-- grants are consumed by the action they authorise; payment method grants stay
+-- valid until they expire so several edits can follow one challenge.
+CREATE TABLE public.two_factor_step_ups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.user_two_factor(user_id) ON DELETE CASCADE,
+  scope TEXT NOT NULL CHECK (scope IN ('payout', 'transfer', 'payment_methods')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  consumed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_two_factor_step_ups_user ON public.two_factor_step_ups(user_id, scope, expires_at);
+
+ALTER TABLE public.two_factor_step_ups ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.two_factor_enabled(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_two_factor
+    WHERE user_id = p_user_id AND enabled_at IS NOT NULL
+  );
+$$;
+
+-- True when the user has no 2FA or holds an unexpired grant for the scope
+CREATE OR REPLACE FUNCTION public.has_step_up(p_user_id UUID, p_scope TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT NOT public.two_factor_enabled(p_user_id)
+    OR EXISTS (
+      SELECT 1 FROM public.two_factor_step_ups
+      WHERE user_id = p_user_id
+        AND scope = p_scope
+        AND consumed_at IS NULL
+        AND expires_at > now()
+    );
+$$;
+
+-- Like has_step_up, but uses the grant up so it cannot authorise a second action
+CREATE OR REPLACE FUNCTION public.consume_step_up(p_user_id UUID, p_scope TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_grant_id UUID;
+BEGIN
+  IF NOT public.two_factor_enabled(p_user_id) THEN
+    RETURN true;
+  END IF;
+
+  SELECT id INTO v_grant_id
+  FROM public.two_factor_step_ups
+  WHERE user_id = p_user_id
+    AND scope = p_scope
+    AND consumed_at IS NULL
+    AND expires_at > now()
+  ORDER BY expires_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_grant_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.two_factor_step_ups SET consumed_at = now() WHERE id = v_grant_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.consume_step_up(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Payment method changes need a recent step-up once 2FA is on
+DROP POLICY "Users can create their own payment methods" ON public.payment_methods;
+DROP POLICY "Users can update their own payment methods" ON public.payment_methods;
+DROP POLICY "Users can delete their own payment methods" ON public.payment_methods;
+
+CREATE POLICY "Users can create their own payment methods"
+ON public.payment_methods FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.has_step_up(auth.uid(), 'payment_methods'));
+
+CREATE POLICY "Users can update their own payment methods"
+ON public.payment_methods FOR UPDATE
+USING (auth.uid() = user_id AND public.has_step_up(auth.uid(), 'payment_methods'));
+
+CREATE POLICY "Users can delete their own payment methods"
+ON public.payment_methods FOR DELETE
+USING (auth.uid() = user_id AND public.has_step_up(auth.uid(), 'payment_methods'));
@@ -0,0 +1,16 @@
+-- Ranked personalized feeds, cached per user so cursor pages read one consistent
+-- ranking. Written and read only by get-personalized-feed.
+CREATE TABLE public.personalized_feed_cache (
+  user_id UUID NOT NULL PRIMARY KEY,
+  feed_id UUID NOT NULL DEFAULT gen_random_uuid(), -- changes on every re-rank; cursors carry it
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  meta JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE public.personalized_feed_cache ENABLE ROW LEVEL SECURITY;
+
+-- Candidate lookup for published content; active promotions already use idx_promotions_active
+CREATE INDEX idx_user_content_feed_candidates ON public.user_content(published_at DESC)
+  WHERE status = 'published' AND is_public = true;
@@ -0,0 +1,125 @@
+-- Item-to-item collaborative filtering. rebuild_content_similarity() turns
+-- content_interactions into an implicit rating per (user, content) and stores each
+-- item's nearest neighbours by cosine similarity over the users who engaged with
+-- both. get-personalized-feed blends these neighbours into its ranking.
+CREATE TABLE public.content_similarity (
+  content_id TEXT NOT NULL,
+  similar_content_id TEXT NOT NULL,
+  score NUMERIC NOT NULL, -- shrunk cosine similarity, 0..1
+  co_users INTEGER NOT NULL, -- users who engaged with both items
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (content_id, similar_content_id),
+  CHECK (content_id <> similar_content_id)
+);
+
+CREATE INDEX idx_content_similarity_neighbours ON public.content_similarity(content_id, score DESC);
+
+ALTER TABLE public.content_similarity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view content similarity" ON public.content_similarity
+  FOR SELECT USING (has_role(auth.uid(), 'admin'));
+
+-- Implicit rating for one interaction, 0..1. Completion and attention carry most of
+-- the weight; likes and shares are strong positive signals and a skip cancels most
+-- of what a partial watch would otherwise earn.
+CREATE OR REPLACE FUNCTION public.interaction_rating(
+  p_completion NUMERIC,
+  p_attention NUMERIC,
+  p_liked BOOLEAN,
+  p_shared BOOLEAN,
+  p_skipped BOOLEAN
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO 'public'
+AS $$
+  SELECT GREATEST(0, LEAST(1,
+    0.4 * LEAST(GREATEST(COALESCE(p_completion, 0), 0), 100) / 100
+    + 0.3 * LEAST(GREATEST(COALESCE(p_attention, 0), 0), 100) / 100
+    + CASE WHEN COALESCE(p_liked, false) THEN 0.2 ELSE 0 END
+    + CASE WHEN COALESCE(p_shared, false) THEN 0.3 ELSE 0 END
+    - CASE WHEN COALESCE(p_skipped, false) THEN 0.5 ELSE 0 END
+  ))::NUMERIC;
+$$;
+
+-- Rebuilds the whole table in one transaction. Ties are broken by id so the same
+-- interactions always produce the same neighbours.
+--   p_window        only interactions newer than this count
+--   p_min_co_users  pairs seen together by fewer users are dropped as noise
+--   p_shrinkage     pulls similarity toward 0 for pairs with little overlap: sim * n / (n + k)
+--   p_neighbours    neighbours kept per item
+--   p_max_per_user  most recent items per user that take part, bounding the pair count
+CREATE OR REPLACE FUNCTION public.rebuild_content_similarity(
+  p_window INTERVAL DEFAULT INTERVAL '90 days',
+  p_min_co_users INTEGER DEFAULT 2,
+  p_shrinkage NUMERIC DEFAULT 5,
+  p_neighbours INTEGER DEFAULT 20,
+  p_max_per_user INTEGER DEFAULT 200
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  DELETE FROM public.content_similarity;
+
+  WITH ratings AS (
+    SELECT user_id, content_id, rating
+    FROM (
+      SELECT
+        ci.user_id,
+        ci.content_id,
+        public.interaction_rating(ci.watch_completion_rate, ci.attention_score, ci.liked, ci.shared, ci.skipped) AS rating,
+        row_number() OVER (PARTITION BY ci.user_id ORDER BY ci.created_at DESC, ci.content_id) AS recency
+      FROM public.content_interactions ci
+      WHERE ci.created_at >= now() - p_window
+    ) r
+    WHERE recency <= p_max_per_user AND rating > 0
+  ),
+  norms AS (
+    SELECT content_id, sqrt(SUM(rating * rating)) AS norm
+    FROM ratings
+    GROUP BY content_id
+  ),
+  pairs AS (
+    SELECT a.content_id, b.content_id AS similar_content_id,
+      SUM(a.rating * b.rating) AS dot,
+      COUNT(*)::INTEGER AS co_users
+    FROM ratings a
+    JOIN ratings b ON b.user_id = a.user_id AND b.content_id <> a.content_id
+    GROUP BY a.content_id, b.content_id
+    HAVING COUNT(*) >= p_min_co_users
+  ),
+  scored AS (
+    SELECT p.content_id, p.similar_content_id, p.co_users,
+      round(p.dot / (na.norm * nb.norm) * p.co_users / (p.co_users + p_shrinkage), 6) AS score
+    FROM pairs p
+    JOIN norms na ON na.content_id = p.content_id
+    JOIN norms nb ON nb.content_id = p.similar_content_id
+  ),
+  ranked AS (
+    SELECT *, row_number() OVER (PARTITION BY content_id ORDER BY score DESC, similar_content_id) AS rank
+    FROM scored
+  )
+  INSERT INTO public.content_similarity (content_id, similar_content_id, score, co_users)
+  SELECT content_id, similar_content_id, score, co_users
+  FROM ranked
+  WHERE rank <= p_neighbours;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rebuild_content_similarity(INTERVAL, INTEGER, NUMERIC, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Rebuild nightly at 02:30 UTC
+SELECT cron.schedule(
+  'rebuild-content-similarity-nightly',
+  '30 2 * * *',
+  $$ SELECT public.rebuild_content_similarity(); $$
+);
@@ -0,0 +1,176 @@
+-- Offline action replay: each queued action carries a client-generated idempotency key,
+-- and the receipt is written in the same transaction as the action itself, so a replay
+-- after a dropped response returns the original outcome instead of applying twice.
+CREATE TABLE public.offline_action_receipts (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  idempotency_key UUID NOT NULL,
+  action_type TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('applied', 'conflict')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, idempotency_key)
+);
+
+ALTER TABLE public.offline_action_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own offline action receipts"
+ON public.offline_action_receipts FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_offline_action_receipts_created ON public.offline_action_receipts(created_at);
+
+-- Applies one queued action as the calling user. Conflicts (the target is gone or no
+-- longer reachable) are recorded and reported rather than raised, so the client can
+-- show why the action was dropped; unexpected errors raise and the client retries.
+CREATE OR REPLACE FUNCTION public.apply_offline_action(
+  p_idempotency_key UUID,
+  p_action_type TEXT,
+  p_payload JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_receipt offline_action_receipts%ROWTYPE;
+  v_status TEXT := 'applied';
+  v_reason TEXT;
+  v_target TEXT;
+  v_interaction_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt
+  FROM offline_action_receipts
+  WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', v_receipt.status, 'reason', v_receipt.reason, 'duplicate', true);
+  END IF;
+
+  CASE p_action_type
+    WHEN 'like' THEN
+      v_target := p_payload->>'contentId';
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'contentId is required';
+      END IF;
+
+      -- Catalogue items use non-uuid ids and have no row to check
+      IF v_target ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        AND NOT EXISTS (
+          SELECT 1 FROM user_content
+          WHERE id = v_target::uuid AND status = 'published'
+        )
+      THEN
+        v_status := 'conflict';
+        v_reason := 'This post was removed before your like could be saved';
+      ELSE
+        SELECT id INTO v_interaction_id
+        FROM content_interactions
+        WHERE user_id = v_user_id AND content_id = v_target
+        ORDER BY created_at DESC
+        LIMIT 1;
+
+        IF v_interaction_id IS NULL THEN
+          INSERT INTO content_interactions (user_id, content_id, liked)
+          VALUES (v_user_id, v_target, true);
+        ELSE
+          UPDATE content_interactions SET liked = true WHERE id = v_interaction_id;
+        END IF;
+      END IF;
+
+    WHEN 'follow' THEN
+      v_target := p_payload->>'userId';
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'userId is required';
+      END IF;
+
+      IF v_target::uuid = v_user_id THEN
+        v_status := 'conflict';
+        v_reason := 'You can''t follow yourself';
+      ELSIF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = v_target::uuid) THEN
+        v_status := 'conflict';
+        v_reason := 'This account no longer exists';
+      ELSIF EXISTS (
+        SELECT 1 FROM blocked_users
+        WHERE (user_id = v_target::uuid AND blocked_user_id = v_user_id)
+           OR (user_id = v_user_id AND blocked_user_id = v_target::uuid)
+      ) THEN
+        v_status := 'conflict';
+        v_reason := 'You can''t follow this account';
+      ELSIF NOT EXISTS (
+        SELECT 1 FROM user_follows
+        WHERE follower_id = v_user_id AND following_id = v_target::uuid
+      ) THEN
+        INSERT INTO user_follows (follower_id, following_id)
+        VALUES (v_user_id, v_target::uuid);
+      END IF;
+
+    WHEN 'message' THEN
+      v_target := p_payload->>'conversationId';
+      IF v_target IS NULL OR coalesce(p_payload->>'content', '') = '' THEN
+        RAISE EXCEPTION 'conversationId and content are required';
+      END IF;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM conversation_participants
+        WHERE conversation_id = v_target::uuid AND user_id = v_user_id
+      ) THEN
+        v_status := 'conflict';
+        v_reason := 'You''re no longer part of this conversation';
+      ELSE
+        INSERT INTO messages (conversation_id, sender_id, content, type, reply_to_id)
+        VALUES (
+          v_target::uuid,
+          v_user_id,
+          p_payload->>'content',
+          coalesce(p_payload->>'type', 'text'),
+          (p_payload->>'replyToId')::uuid
+        );
+      END IF;
+
+    WHEN 'task_complete' THEN
+      v_target := p_payload->>'taskId';
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'taskId is required';
+      END IF;
+
+      -- Progress only moves forward, so an older queued update can't undo a newer one
+      UPDATE user_tasks
+      SET progress = GREATEST(progress, LEAST(goal, (p_payload->>'progress')::int)),
+          completed = completed OR GREATEST(progress, (p_payload->>'progress')::int) >= goal,
+          completed_at = CASE
+            WHEN NOT completed AND GREATEST(progress, (p_payload->>'progress')::int) >= goal THEN now()
+            ELSE completed_at
+          END
+      WHERE id = v_target::uuid AND user_id = v_user_id;
+
+      IF NOT FOUND THEN
+        v_status := 'conflict';
+        v_reason := 'This task has expired';
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported offline action type: %', p_action_type;
+  END CASE;
+
+  INSERT INTO offline_action_receipts (user_id, idempotency_key, action_type, status, reason)
+  VALUES (v_user_id, p_idempotency_key, p_action_type, v_status, v_reason);
+
+  RETURN jsonb_build_object('status', v_status, 'reason', v_reason, 'duplicate', false);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_offline_action(UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.apply_offline_action(UUID, TEXT, JSONB) TO authenticated;
+
+-- Receipts only need to outlive the longest a client might hold an action offline
+SELECT cron.schedule(
+  'prune-offline-action-receipts',
+  '15 3 * * *',
+  $$ DELETE FROM public.offline_action_receipts WHERE created_at < now() - INTERVAL '30 days'; $$
+);
@@ -0,0 +1,7 @@
+-- Offline earnings are replayed through sync-offline-actions, which re-validates them
+-- and can reject them outright; the receipt keeps the reward it paid so a replay
+-- returns the same answer.
+ALTER TABLE public.offline_action_receipts
+  DROP CONSTRAINT offline_action_receipts_status_check,
+  ADD CONSTRAINT offline_action_receipts_status_check CHECK (status IN ('applied', 'conflict', 'rejected')),
+  ADD COLUMN result JSONB;
@@ -0,0 +1,112 @@
+-- Spatial search for promotions: a geography point kept in step with latitude/longitude,
+-- a GiST index over it, and the two queries get-nearby-promotions runs (a paged list
+-- by distance, and grid clusters for a map viewport).
+CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+
+ALTER TABLE public.promotions
+  ADD COLUMN location extensions.geography(Point, 4326)
+  GENERATED ALWAYS AS (
+    extensions.ST_SetSRID(extensions.ST_MakePoint(longitude, latitude), 4326)::extensions.geography
+  ) STORED;
+
+CREATE INDEX idx_promotions_location_gist ON public.promotions USING GIST (location);
+
+-- Active promotions within p_radius_m of a point, nearest first. Pages are keyed on
+-- (distance, id) so rows don't shift between pages as they would with OFFSET.
+CREATE OR REPLACE FUNCTION public.nearby_promotions(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_radius_m DOUBLE PRECISION,
+  p_category TEXT DEFAULT NULL,
+  p_reward_type TEXT DEFAULT NULL,
+  p_after_distance DOUBLE PRECISION DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (promotion JSONB, distance_m DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $$
+  WITH origin AS (
+    SELECT ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography AS point
+  ),
+  candidates AS (
+    SELECT p.*, ST_Distance(p.location, origin.point) AS distance
+    FROM promotions p, origin
+    WHERE p.is_active
+      AND (p.expires_at IS NULL OR p.expires_at > now())
+      AND ST_DWithin(p.location, origin.point, p_radius_m)
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (p_reward_type IS NULL OR p.reward_type IN (p_reward_type, 'both'))
+  )
+  SELECT to_jsonb(c) - 'location' - 'distance', c.distance
+  FROM candidates c
+  WHERE p_after_distance IS NULL
+     OR (c.distance, c.id) > (p_after_distance, p_after_id)
+  ORDER BY c.distance, c.id
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+-- Active promotions inside a viewport, grouped into square cells p_cell_deg wide.
+-- A null cell size returns every promotion on its own. Single-promotion cells carry
+-- the promotion so the map can draw a normal pin. A viewport crossing the
+-- antimeridian has p_west > p_east.
+CREATE OR REPLACE FUNCTION public.promotion_clusters(
+  p_west DOUBLE PRECISION,
+  p_south DOUBLE PRECISION,
+  p_east DOUBLE PRECISION,
+  p_north DOUBLE PRECISION,
+  p_cell_deg DOUBLE PRECISION DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_reward_type TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  promotion_count INTEGER,
+  reward_total BIGINT,
+  max_reward INTEGER,
+  promotion JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $$
+  WITH visible AS (
+    SELECT p.*
+    FROM promotions p
+    WHERE p.is_active
+      AND (p.expires_at IS NULL OR p.expires_at > now())
+      AND (
+        CASE WHEN p_west <= p_east THEN
+          p.location && ST_MakeEnvelope(p_west, p_south, p_east, p_north, 4326)::geography
+        ELSE
+          p.location && ST_MakeEnvelope(p_west, p_south, 180, p_north, 4326)::geography
+          OR p.location && ST_MakeEnvelope(-180, p_south, p_east, p_north, 4326)::geography
+        END
+      )
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (p_reward_type IS NULL OR p.reward_type IN (p_reward_type, 'both'))
+  ),
+  cells AS (
+    SELECT
+      CASE WHEN p_cell_deg IS NULL THEN v.id::text
+           ELSE floor(v.latitude / p_cell_deg)::text || ':' || floor(v.longitude / p_cell_deg)::text
+      END AS cell,
+      v.*
+    FROM visible v
+  )
+  SELECT
+    avg(c.latitude),
+    avg(c.longitude),
+    count(*)::integer,
+    sum(c.reward_amount)::bigint,
+    max(c.reward_amount)::integer,
+    CASE WHEN count(*) = 1 THEN (array_agg(to_jsonb(c) - 'location' - 'cell'))[1] END
+  FROM cells c
+  GROUP BY c.cell
+  ORDER BY sum(c.reward_amount) DESC, c.cell
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$$;
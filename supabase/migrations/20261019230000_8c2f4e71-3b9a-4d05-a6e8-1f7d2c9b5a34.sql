@@ -0,0 +1,7 @@
+-- Geofence settings per promotion: how close counts as arriving, and how long a visitor
+-- must stay before the app prompts (or queues) a check-in
+ALTER TABLE public.promotions
+  ADD COLUMN geofence_radius_meters INTEGER NOT NULL DEFAULT 100
+    CHECK (geofence_radius_meters BETWEEN 25 AND 1000),
+  ADD COLUMN min_dwell_seconds INTEGER NOT NULL DEFAULT 60
+    CHECK (min_dwell_seconds BETWEEN 0 AND 3600);
@@ -0,0 +1,21 @@
+-- Location plausibility for check-ins. verify-checkin scores each claim (travel speed
+-- since the previous check-in, GPS accuracy, repeated coordinates, shared devices) and
+-- keeps the score and the signals that contributed to it on the row. Claims scoring too
+-- high are stored as 'flagged' and earn nothing.
+ALTER TABLE public.promotion_checkins
+  ADD COLUMN accuracy_meters DOUBLE PRECISION,
+  ADD COLUMN device_fingerprint TEXT,
+  ADD COLUMN risk_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN risk_signals TEXT[] NOT NULL DEFAULT '{}';
+
+-- Previous check-in for the travel-speed check
+CREATE INDEX idx_promotion_checkins_user_time
+  ON public.promotion_checkins (user_id, checked_in_at DESC);
+
+-- Earlier check-ins from the exact same coordinates
+CREATE INDEX idx_promotion_checkins_user_coords
+  ON public.promotion_checkins (user_id, user_latitude, user_longitude);
+
+-- The travel check trusts earlier rows, so only verify-checkin (service role) writes them
+DROP POLICY IF EXISTS "Users can create check-ins" ON public.promotion_checkins;
+DROP POLICY IF EXISTS "Users can update their own check-ins" ON public.promotion_checkins;
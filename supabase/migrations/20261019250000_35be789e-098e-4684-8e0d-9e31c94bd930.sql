@@ -0,0 +1,7 @@
+-- Opening hours per promotion, for planning routes that arrive while the business is open.
+-- Keys are weekdays (mon..sun) mapping to ["HH:mm", "HH:mm"] windows in local time; a
+-- close before the open runs past midnight, and a missing day is closed. NULL or {}
+-- means the promotion can be visited at any time.
+ALTER TABLE public.promotions
+  ADD COLUMN opening_hours JSONB
+    CHECK (opening_hours IS NULL OR jsonb_typeof(opening_hours) = 'object');
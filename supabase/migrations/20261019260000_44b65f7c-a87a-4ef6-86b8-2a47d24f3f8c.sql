@@ -0,0 +1,36 @@
+-- Studio projects: the editor's versioned project document, synced from the device so an
+-- edit can be reopened on another one. The document is written whole by the client and
+-- migrated there; schema_version is kept alongside it so older clients can tell a
+-- project they can't open yet from one that's broken. updated_at is the document's own
+-- edit time, used to pick the newer copy when the device and the server disagree.
+CREATE TABLE public.studio_projects (
+  id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  schema_version INTEGER NOT NULL CHECK (schema_version > 0),
+  document JSONB NOT NULL CHECK (jsonb_typeof(document) = 'object'),
+  media_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.studio_projects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own studio projects"
+ON public.studio_projects FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own studio projects"
+ON public.studio_projects FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own studio projects"
+ON public.studio_projects FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own studio projects"
+ON public.studio_projects FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_studio_projects_user_updated ON public.studio_projects(user_id, updated_at DESC);
@@ -0,0 +1,205 @@
+-- Locked segments: ranges of a published Studio video that stay blurred until the viewer
+-- completes the creator's call to action. The published file has them blurred in; each
+-- segment's clean cut sits in the private locked-media bucket and is only handed out as
+-- a short-lived signed URL by unlock-segment, after it has checked the action.
+CREATE TABLE public.content_locked_segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  content_id UUID NOT NULL REFERENCES public.user_content(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- The Studio's id for the blur segment, unique within the content
+  segment_key TEXT NOT NULL,
+  action_type TEXT NOT NULL
+    CHECK (action_type IN ('payment', 'follow', 'comment', 'share', 'like', 'subscribe', 'custom')),
+  amount INTEGER CHECK (amount IS NULL OR amount > 0),
+  coin_type TEXT NOT NULL DEFAULT 'vicoin' CHECK (coin_type IN ('vicoin', 'icoin')),
+  button_text TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  custom_action TEXT,
+  -- [{start, end, offset}]: output seconds in the published video, and where each piece
+  -- starts in the clean cut
+  windows JSONB NOT NULL CHECK (jsonb_typeof(windows) = 'array'),
+  -- The published video is silent here, so the clean cut's audio should be played
+  mutes_audio BOOLEAN NOT NULL DEFAULT false,
+  storage_path TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (content_id, segment_key),
+  CHECK (action_type <> 'payment' OR amount IS NOT NULL)
+);
+
+ALTER TABLE public.content_locked_segments ENABLE ROW LEVEL SECURITY;
+
+-- The manifest is public so players can show the prompts; the clean cuts are not
+CREATE POLICY "Anyone can view locked segments"
+ON public.content_locked_segments FOR SELECT
+USING (true);
+
+CREATE POLICY "Creators can lock segments of their own content"
+ON public.content_locked_segments FOR INSERT
+WITH CHECK (
+  auth.uid() = creator_id
+  AND EXISTS (SELECT 1 FROM public.user_content c WHERE c.id = content_id AND c.user_id = auth.uid())
+);
+
+CREATE POLICY "Creators can remove their locked segments"
+ON public.content_locked_segments FOR DELETE
+USING (auth.uid() = creator_id);
+
+CREATE INDEX idx_content_locked_segments_content ON public.content_locked_segments(content_id);
+CREATE INDEX idx_content_locked_segments_creator ON public.content_locked_segments(creator_id);
+
+-- One row per viewer per segment, written only by unlock-segment (service role)
+CREATE TABLE public.content_segment_unlocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  segment_id UUID NOT NULL REFERENCES public.content_locked_segments(id) ON DELETE CASCADE,
+  content_id UUID NOT NULL REFERENCES public.user_content(id) ON DELETE CASCADE,
+  creator_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action_type TEXT NOT NULL,
+  amount INTEGER NOT NULL DEFAULT 0,
+  coin_type TEXT,
+  tip_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (segment_id, user_id)
+);
+
+ALTER TABLE public.content_segment_unlocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own unlocks"
+ON public.content_segment_unlocks FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Creators can view unlocks of their segments"
+ON public.content_segment_unlocks FOR SELECT
+USING (auth.uid() = creator_id);
+
+CREATE INDEX idx_content_segment_unlocks_creator ON public.content_segment_unlocks(creator_id, created_at DESC);
+CREATE INDEX idx_content_segment_unlocks_user_content ON public.content_segment_unlocks(user_id, content_id);
+
+-- Clean cuts of locked segments, under <creator id>/<content id>/
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'locked-media',
+  'locked-media',
+  false,
+  104857600, -- 100MB limit
+  ARRAY['video/mp4', 'video/webm']
+);
+
+CREATE POLICY "Creators can upload their locked media"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'locked-media'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Creators can view their locked media"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'locked-media'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+CREATE POLICY "Creators can delete their locked media"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'locked-media'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
+
+-- Pays the creator and records the unlock in one transaction, so a viewer is never
+-- charged without the unlock or charged twice for a double tap. Called by
+-- unlock-segment with the authenticated viewer's id.
+CREATE OR REPLACE FUNCTION public.unlock_segment_with_payment(
+  p_segment_id UUID,
+  p_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_segment content_locked_segments%ROWTYPE;
+  v_tip JSONB;
+BEGIN
+  SELECT * INTO v_segment FROM content_locked_segments WHERE id = p_segment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SEGMENT_NOT_FOUND: Locked segment not found';
+  END IF;
+
+  IF v_segment.action_type <> 'payment' THEN
+    RAISE EXCEPTION 'NOT_PAYMENT: Segment is not unlocked by payment';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('segment_unlock_' || p_segment_id::text || '_' || p_user_id::text));
+
+  IF EXISTS (SELECT 1 FROM content_segment_unlocks WHERE segment_id = p_segment_id AND user_id = p_user_id) THEN
+    RETURN jsonb_build_object('unlocked', true, 'already_unlocked', true);
+  END IF;
+
+  -- Raises INSUFFICIENT_BALANCE, rolling everything back, if the viewer can't cover it
+  v_tip := public.atomic_tip_creator(p_user_id, v_segment.creator_id, v_segment.amount, v_segment.coin_type, v_segment.content_id);
+
+  INSERT INTO content_segment_unlocks (segment_id, content_id, creator_id, user_id, action_type, amount, coin_type, tip_id)
+  VALUES (p_segment_id, v_segment.content_id, v_segment.creator_id, p_user_id, 'payment', v_segment.amount, v_segment.coin_type, v_tip->>'tip_id');
+
+  RETURN jsonb_build_object(
+    'unlocked', true,
+    'already_unlocked', false,
+    'tip_id', v_tip->>'tip_id',
+    'new_balance', v_tip->'new_balance'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unlock_segment_with_payment(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Unlock analytics for the calling creator, one row per locked segment
+CREATE OR REPLACE FUNCTION public.locked_segment_stats(
+  p_content_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  segment_id UUID,
+  content_id UUID,
+  content_title TEXT,
+  action_type TEXT,
+  amount INTEGER,
+  unlocks INTEGER,
+  coins_earned INTEGER,
+  last_unlocked_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to view unlock stats';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.content_id,
+    c.title,
+    s.action_type,
+    s.amount,
+    COUNT(u.id)::INTEGER,
+    COALESCE(SUM(u.amount), 0)::INTEGER,
+    MAX(u.created_at)
+  FROM content_locked_segments s
+  JOIN user_content c ON c.id = s.content_id
+  LEFT JOIN content_segment_unlocks u ON u.segment_id = s.id
+  WHERE s.creator_id = auth.uid()
+    AND (p_content_id IS NULL OR s.content_id = p_content_id)
+  GROUP BY s.id, s.content_id, c.title, s.action_type, s.amount
+  ORDER BY MAX(u.created_at) DESC NULLS LAST, s.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.locked_segment_stats(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.locked_segment_stats(UUID) TO authenticated;
@@ -0,0 +1,226 @@
+-- Live streams. A stream is scheduled (announced for later) or goes straight to live,
+-- and ends once; the lifecycle trigger below keeps it moving forward only. Video goes
+-- over WebRTC through the SFU named in sfu_provider, in the room sfu_room; the host's
+-- client keeps viewer_count current from the realtime presence channel.
+CREATE TABLE public.live_streams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  host_id UUID NOT NULL,
+  title TEXT NOT NULL CHECK (char_length(title) BETWEEN 1 AND 120),
+  status TEXT NOT NULL DEFAULT 'live' CHECK (status IN ('scheduled', 'live', 'ended')),
+  scheduled_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE,
+  ended_at TIMESTAMP WITH TIME ZONE,
+  thumbnail_url TEXT,
+  allow_comments BOOLEAN NOT NULL DEFAULT true,
+  allow_gifts BOOLEAN NOT NULL DEFAULT true,
+  sfu_provider TEXT NOT NULL DEFAULT 'local',
+  sfu_room TEXT NOT NULL DEFAULT gen_random_uuid()::text,
+  viewer_count INTEGER NOT NULL DEFAULT 0 CHECK (viewer_count >= 0),
+  peak_viewers INTEGER NOT NULL DEFAULT 0 CHECK (peak_viewers >= 0),
+  heartbeat_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (status <> 'scheduled' OR scheduled_at IS NOT NULL)
+);
+
+-- One broadcast at a time per host
+CREATE UNIQUE INDEX idx_live_streams_host_live ON public.live_streams(host_id) WHERE status = 'live';
+CREATE INDEX idx_live_streams_live ON public.live_streams(viewer_count DESC) WHERE status = 'live';
+CREATE INDEX idx_live_streams_scheduled ON public.live_streams(scheduled_at) WHERE status = 'scheduled';
+CREATE INDEX idx_live_streams_host ON public.live_streams(host_id, created_at DESC);
+
+ALTER TABLE public.live_streams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view live streams" ON public.live_streams
+  FOR SELECT USING (true);
+
+CREATE POLICY "Hosts can create their own streams" ON public.live_streams
+  FOR INSERT WITH CHECK (auth.uid() = host_id AND status IN ('scheduled', 'live'));
+
+CREATE POLICY "Hosts can update their own streams" ON public.live_streams
+  FOR UPDATE USING (auth.uid() = host_id);
+
+CREATE POLICY "Hosts can cancel their scheduled streams" ON public.live_streams
+  FOR DELETE USING (auth.uid() = host_id AND status = 'scheduled');
+
+-- Stamps the lifecycle times and refuses to move a stream backwards. The room, host
+-- and peak can't be rewritten by the host's client; every update counts as a heartbeat.
+CREATE OR REPLACE FUNCTION public.enforce_live_stream_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.started_at := CASE WHEN NEW.status = 'live' THEN now() ELSE NULL END;
+    NEW.ended_at := NULL;
+    NEW.viewer_count := 0;
+    NEW.peak_viewers := 0;
+    NEW.heartbeat_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'ended' AND NEW.status <> 'ended' THEN
+    RAISE EXCEPTION 'STREAM_ENDED: Stream % has already ended', OLD.id;
+  END IF;
+  IF OLD.status = 'live' AND NEW.status = 'scheduled' THEN
+    RAISE EXCEPTION 'STREAM_ALREADY_LIVE: Stream % is already live', OLD.id;
+  END IF;
+
+  NEW.host_id := OLD.host_id;
+  NEW.sfu_room := OLD.sfu_room;
+  NEW.created_at := OLD.created_at;
+  NEW.started_at := CASE
+    WHEN OLD.status = 'scheduled' AND NEW.status = 'live' THEN now()
+    ELSE OLD.started_at
+  END;
+  NEW.ended_at := CASE
+    WHEN OLD.status <> 'ended' AND NEW.status = 'ended' THEN now()
+    ELSE OLD.ended_at
+  END;
+  NEW.viewer_count := CASE WHEN NEW.status = 'live' THEN NEW.viewer_count ELSE 0 END;
+  NEW.peak_viewers := GREATEST(OLD.peak_viewers, NEW.viewer_count);
+  NEW.heartbeat_at := now();
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_live_stream_lifecycle
+  BEFORE INSERT OR UPDATE ON public.live_streams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_live_stream_lifecycle();
+
+-- Comments and gifts on a stream. Gift rows are written by atomic_live_gift alongside
+-- the tip itself, so clients can only post plain comments.
+CREATE TABLE public.live_stream_comments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  stream_id UUID NOT NULL REFERENCES public.live_streams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  message TEXT NOT NULL CHECK (char_length(message) BETWEEN 1 AND 300),
+  is_gift BOOLEAN NOT NULL DEFAULT false,
+  gift_amount INTEGER CHECK (gift_amount > 0),
+  coin_type TEXT CHECK (coin_type IN ('vicoin', 'icoin')),
+  tip_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (is_gift = (gift_amount IS NOT NULL AND coin_type IS NOT NULL))
+);
+
+CREATE INDEX idx_live_stream_comments_stream ON public.live_stream_comments(stream_id, created_at DESC);
+CREATE INDEX idx_live_stream_comments_gifts ON public.live_stream_comments(stream_id) WHERE is_gift;
+
+ALTER TABLE public.live_stream_comments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view live comments" ON public.live_stream_comments
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can comment on live streams that allow it" ON public.live_stream_comments
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND NOT is_gift
+    AND EXISTS (
+      SELECT 1 FROM public.live_streams s
+      WHERE s.id = stream_id AND s.status = 'live' AND s.allow_comments
+    )
+  );
+
+CREATE POLICY "Users and hosts can delete live comments" ON public.live_stream_comments
+  FOR DELETE USING (
+    auth.uid() = user_id
+    OR EXISTS (SELECT 1 FROM public.live_streams s WHERE s.id = stream_id AND s.host_id = auth.uid())
+  );
+
+-- Viewers follow the stream's status and the comment feed live
+ALTER TABLE public.live_streams REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.live_streams;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.live_stream_comments;
+
+-- A coin gift during a stream: the tip itself goes through atomic_tip_creator and the
+-- gift shows up in the stream's comments, both in one transaction. The stream row is
+-- share-locked so it can't end between the check and the payment.
+CREATE OR REPLACE FUNCTION public.atomic_live_gift(
+  p_tipper_id UUID,
+  p_stream_id UUID,
+  p_creator_id UUID,
+  p_amount INTEGER,
+  p_coin_type TEXT,
+  p_message TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_stream public.live_streams%ROWTYPE;
+  v_result JSONB;
+  v_comment_id UUID;
+BEGIN
+  SELECT * INTO v_stream
+  FROM public.live_streams
+  WHERE id = p_stream_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'STREAM_NOT_FOUND: Stream % not found', p_stream_id;
+  END IF;
+
+  IF v_stream.host_id <> p_creator_id THEN
+    RAISE EXCEPTION 'STREAM_HOST_MISMATCH: Stream % is not hosted by %', p_stream_id, p_creator_id;
+  END IF;
+
+  IF v_stream.status <> 'live' THEN
+    RAISE EXCEPTION 'STREAM_NOT_LIVE: Stream is %', v_stream.status;
+  END IF;
+
+  IF NOT v_stream.allow_gifts THEN
+    RAISE EXCEPTION 'GIFTS_DISABLED: The host has turned gifts off';
+  END IF;
+
+  v_result := public.atomic_tip_creator(p_tipper_id, p_creator_id, p_amount, p_coin_type, NULL);
+
+  INSERT INTO public.live_stream_comments (stream_id, user_id, message, is_gift, gift_amount, coin_type, tip_id)
+  VALUES (
+    p_stream_id,
+    p_tipper_id,
+    COALESCE(NULLIF(btrim(p_message), ''), 'Sent a gift'),
+    true,
+    p_amount,
+    p_coin_type,
+    v_result->>'tip_id'
+  )
+  RETURNING id INTO v_comment_id;
+
+  RETURN v_result || jsonb_build_object('stream_id', p_stream_id, 'comment_id', v_comment_id);
+END;
+$$;
+
+-- Ends streams whose host has gone quiet (closed the tab, lost connection) so they
+-- drop out of the feed
+CREATE OR REPLACE FUNCTION public.end_abandoned_live_streams()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  UPDATE public.live_streams
+  SET status = 'ended'
+  WHERE status = 'live'
+    AND heartbeat_at < now() - interval '2 minutes';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.atomic_live_gift(UUID, UUID, UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.end_abandoned_live_streams() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'end-abandoned-live-streams',
+  '* * * * *',
+  $$ SELECT public.end_abandoned_live_streams(); $$
+);
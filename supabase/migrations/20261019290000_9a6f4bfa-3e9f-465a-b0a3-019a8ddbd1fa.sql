@@ -0,0 +1,188 @@
+-- Route spin-wheel and task rewards through the ledger. Both used to add to the
+-- profile balance columns from the client, which the ledger-backed cache overwrites on
+-- the user's next posting. Clients lose write access to those columns altogether.
+
+-- atomic_send_gift records gifts as gift_sent/gift_received, which the original check
+-- on transaction types rejected (rolling the gift back with it)
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('earned', 'spent', 'received', 'sent', 'withdrawn', 'gift_sent', 'gift_received'));
+
+-- One spin per user per (UTC) day
+CREATE TABLE public.daily_spins (
+  user_id UUID NOT NULL,
+  spin_date DATE NOT NULL DEFAULT (now() AT TIME ZONE 'utc')::date,
+  segment INTEGER NOT NULL,
+  amount INTEGER NOT NULL CHECK (amount > 0),
+  coin_type TEXT NOT NULL CHECK (coin_type IN ('vicoin', 'icoin')),
+  journal_entry_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, spin_date)
+);
+
+ALTER TABLE public.daily_spins ENABLE ROW LEVEL SECURITY;
+
+-- Written only by claim_daily_spin
+CREATE POLICY "Users can view their own spins" ON public.daily_spins
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Spins the wheel for the signed-in user. The outcome is drawn here rather than on the
+-- client; segments and weights match WHEEL_SEGMENTS in DailySpinWheel.tsx, and the
+-- returned index is the one the wheel animates to.
+CREATE OR REPLACE FUNCTION public.claim_daily_spin()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_today DATE := (now() AT TIME ZONE 'utc')::date;
+  v_amounts INTEGER[] := ARRAY[5, 10, 15, 25, 50, 100, 200];
+  v_coin_types TEXT[] := ARRAY['vicoin', 'icoin', 'vicoin', 'icoin', 'vicoin', 'icoin', 'vicoin'];
+  v_weights INTEGER[] := ARRAY[25, 20, 18, 15, 12, 7, 3];
+  v_roll NUMERIC;
+  v_segment INTEGER := 1;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to spin';
+  END IF;
+
+  v_roll := random() * (SELECT sum(w) FROM unnest(v_weights) AS w);
+  FOR i IN 1..array_length(v_weights, 1) LOOP
+    v_segment := i;
+    v_roll := v_roll - v_weights[i];
+    EXIT WHEN v_roll <= 0;
+  END LOOP;
+
+  INSERT INTO public.daily_spins (user_id, spin_date, segment, amount, coin_type)
+  VALUES (v_user_id, v_today, v_segment - 1, v_amounts[v_segment], v_coin_types[v_segment])
+  ON CONFLICT (user_id, spin_date) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ALREADY_SPUN: Come back tomorrow';
+  END IF;
+
+  v_result := public.atomic_update_balance(
+    v_user_id,
+    v_amounts[v_segment],
+    v_coin_types[v_segment],
+    'Daily spin wheel reward',
+    'spin_' || v_user_id::text || '_' || v_today::text,
+    'reward'
+  );
+
+  UPDATE public.daily_spins
+  SET journal_entry_id = (v_result->>'journal_entry_id')::UUID
+  WHERE user_id = v_user_id AND spin_date = v_today;
+
+  INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+  VALUES (v_user_id, 'earned', v_coin_types[v_segment], v_amounts[v_segment], 'Daily spin wheel reward', 'spin_' || v_today::text);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'segment', v_segment - 1,
+    'amount', v_amounts[v_segment],
+    'coin_type', v_coin_types[v_segment],
+    'new_balance', v_result->'new_balance'
+  );
+END;
+$$;
+
+-- Pays out a completed task's coin reward once. XP is still tracked client-side in
+-- user_levels; only coins need to go through the ledger.
+CREATE OR REPLACE FUNCTION public.claim_task_reward(p_task_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_task public.user_tasks%ROWTYPE;
+  v_template public.task_templates%ROWTYPE;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to claim rewards';
+  END IF;
+
+  SELECT * INTO v_task
+  FROM public.user_tasks
+  WHERE id = p_task_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TASK_NOT_FOUND: Task % not found', p_task_id;
+  END IF;
+
+  IF v_task.reward_claimed THEN
+    RAISE EXCEPTION 'ALREADY_CLAIMED: Reward already claimed';
+  END IF;
+
+  IF NOT v_task.completed OR v_task.progress < v_task.goal THEN
+    RAISE EXCEPTION 'TASK_INCOMPLETE: Task is not complete yet';
+  END IF;
+
+  SELECT * INTO v_template FROM public.task_templates WHERE id = v_task.template_id;
+
+  UPDATE public.user_tasks SET reward_claimed = true WHERE id = p_task_id;
+
+  IF v_template.reward_type IN ('vicoin', 'icoin') AND v_template.reward_value > 0 THEN
+    v_result := public.atomic_update_balance(
+      v_user_id,
+      v_template.reward_value,
+      v_template.reward_type,
+      'Task reward: ' || v_template.title,
+      'task_' || p_task_id::text,
+      'reward'
+    );
+
+    INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+    VALUES (v_user_id, 'earned', v_template.reward_type, v_template.reward_value, 'Task reward: ' || v_template.title, 'task_' || p_task_id::text);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'reward_type', v_template.reward_type,
+    'amount', CASE WHEN v_template.reward_type IN ('vicoin', 'icoin') THEN v_template.reward_value ELSE 0 END,
+    'xp_reward', v_template.xp_reward,
+    'new_balance', v_result->'new_balance'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_daily_spin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_daily_spin() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_task_reward(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.claim_task_reward(UUID) TO authenticated;
+
+-- The balance RPCs take the user id as an argument, so only server code may call them
+REVOKE EXECUTE ON FUNCTION public.atomic_update_balance(UUID, INTEGER, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.atomic_tip_creator(UUID, UUID, INTEGER, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.atomic_convert_coins(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Balances are a cache of the ledger: clients may update every profile column but those
+-- two. A table-wide UPDATE grant would cover them, so it is replaced by a column list.
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (
+  avatar_url,
+  bio,
+  cover_photo_url,
+  display_name,
+  followers_count,
+  following_count,
+  is_verified,
+  kyc_status,
+  phone_number,
+  phone_verified,
+  referred_by,
+  show_contributor_badges,
+  show_timed_interactions,
+  social_links,
+  total_likes,
+  total_views,
+  updated_at,
+  username
+) ON public.profiles TO authenticated;
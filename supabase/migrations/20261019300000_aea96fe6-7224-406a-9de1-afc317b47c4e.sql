@@ -0,0 +1,76 @@
+-- rebuild_content_similarity() rated every interaction row on its own, so a user with
+-- several rows for one item was counted once per row: inflating co_users and the dot
+-- product, and using up the per-user recency budget. Ratings are now collapsed to one
+-- per (user, content) before the recency cut.
+CREATE OR REPLACE FUNCTION public.rebuild_content_similarity(
+  p_window INTERVAL DEFAULT INTERVAL '90 days',
+  p_min_co_users INTEGER DEFAULT 2,
+  p_shrinkage NUMERIC DEFAULT 5,
+  p_neighbours INTEGER DEFAULT 20,
+  p_max_per_user INTEGER DEFAULT 200
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_rows INTEGER;
+BEGIN
+  DELETE FROM public.content_similarity;
+
+  WITH user_items AS (
+    -- One rating per (user, content): repeat interactions keep the strongest, so a
+    -- rewatch can't count the same user twice towards a pair
+    SELECT
+      ci.user_id,
+      ci.content_id,
+      MAX(public.interaction_rating(ci.watch_completion_rate, ci.attention_score, ci.liked, ci.shared, ci.skipped)) AS rating,
+      MAX(ci.created_at) AS last_seen
+    FROM public.content_interactions ci
+    WHERE ci.created_at >= now() - p_window
+    GROUP BY ci.user_id, ci.content_id
+  ),
+  ratings AS (
+    SELECT user_id, content_id, rating
+    FROM (
+      SELECT ui.*,
+        row_number() OVER (PARTITION BY ui.user_id ORDER BY ui.last_seen DESC, ui.content_id) AS recency
+      FROM user_items ui
+    ) r
+    WHERE recency <= p_max_per_user AND rating > 0
+  ),
+  norms AS (
+    SELECT content_id, sqrt(SUM(rating * rating)) AS norm
+    FROM ratings
+    GROUP BY content_id
+  ),
+  pairs AS (
+    SELECT a.content_id, b.content_id AS similar_content_id,
+      SUM(a.rating * b.rating) AS dot,
+      COUNT(*)::INTEGER AS co_users
+    FROM ratings a
+    JOIN ratings b ON b.user_id = a.user_id AND b.content_id <> a.content_id
+    GROUP BY a.content_id, b.content_id
+    HAVING COUNT(*) >= p_min_co_users
+  ),
+  scored AS (
+    SELECT p.content_id, p.similar_content_id, p.co_users,
+      round(p.dot / (na.norm * nb.norm) * p.co_users / (p.co_users + p_shrinkage), 6) AS score
+    FROM pairs p
+    JOIN norms na ON na.content_id = p.content_id
+    JOIN norms nb ON nb.content_id = p.similar_content_id
+  ),
+  ranked AS (
+    SELECT *, row_number() OVER (PARTITION BY content_id ORDER BY score DESC, similar_content_id) AS rank
+    FROM scored
+  )
+  INSERT INTO public.content_similarity (content_id, similar_content_id, score, co_users)
+  SELECT content_id, similar_content_id, score, co_users
+  FROM ranked
+  WHERE rank <= p_neighbours;
+
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  RETURN v_rows;
+END;
+$$;
@@ -0,0 +1,61 @@
+-- promotion_clusters() matched the viewport with a geography envelope, but geography
+-- edges are great circles: a world-wide box (-180..180) collapses and a box wider than
+-- 180 degrees selects the opposite side of the globe. A map viewport is a plain
+-- latitude/longitude rectangle, so it is matched with range predicates instead, which
+-- idx_promotions_location (latitude, longitude) serves.
+CREATE OR REPLACE FUNCTION public.promotion_clusters(
+  p_west DOUBLE PRECISION,
+  p_south DOUBLE PRECISION,
+  p_east DOUBLE PRECISION,
+  p_north DOUBLE PRECISION,
+  p_cell_deg DOUBLE PRECISION DEFAULT NULL,
+  p_category TEXT DEFAULT NULL,
+  p_reward_type TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  promotion_count INTEGER,
+  reward_total BIGINT,
+  max_reward INTEGER,
+  promotion JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public', 'extensions'
+AS $$
+  WITH visible AS (
+    SELECT p.*
+    FROM promotions p
+    WHERE p.is_active
+      AND (p.expires_at IS NULL OR p.expires_at > now())
+      AND p.latitude BETWEEN p_south AND p_north
+      AND (
+        CASE WHEN p_west <= p_east THEN p.longitude BETWEEN p_west AND p_east
+        ELSE p.longitude >= p_west OR p.longitude <= p_east
+        END
+      )
+      AND (p_category IS NULL OR p.category = p_category)
+      AND (p_reward_type IS NULL OR p.reward_type IN (p_reward_type, 'both'))
+  ),
+  cells AS (
+    SELECT
+      CASE WHEN p_cell_deg IS NULL THEN v.id::text
+           ELSE floor(v.latitude / p_cell_deg)::text || ':' || floor(v.longitude / p_cell_deg)::text
+      END AS cell,
+      v.*
+    FROM visible v
+  )
+  SELECT
+    avg(c.latitude),
+    avg(c.longitude),
+    count(*)::integer,
+    sum(c.reward_amount)::bigint,
+    max(c.reward_amount)::integer,
+    CASE WHEN count(*) = 1 THEN (array_agg(to_jsonb(c) - 'location' - 'cell'))[1] END
+  FROM cells c
+  GROUP BY c.cell
+  ORDER BY sum(c.reward_amount) DESC, c.cell
+  LIMIT LEAST(GREATEST(p_limit, 1), 1000);
+$$;
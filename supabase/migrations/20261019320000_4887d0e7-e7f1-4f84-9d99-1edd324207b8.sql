@@ -0,0 +1,17 @@
+-- A locked segment's storage_path is signed by unlock-segment with the service role, so
+-- it must point inside the creator's own folder for that content. Otherwise a creator
+-- could publish a "segment" whose unlock hands out someone else's clean cut.
+DROP POLICY "Creators can lock segments of their own content" ON public.content_locked_segments;
+
+CREATE POLICY "Creators can lock segments of their own content"
+ON public.content_locked_segments FOR INSERT
+WITH CHECK (
+  auth.uid() = creator_id
+  AND EXISTS (SELECT 1 FROM public.user_content c WHERE c.id = content_id AND c.user_id = auth.uid())
+  AND storage_path LIKE creator_id::text || '/' || content_id::text || '/%'
+  AND position('..' IN storage_path) = 0
+);
+
+-- Segments are never edited in place (there is no UPDATE policy); take the grant away too
+-- so the path can't be repointed once written
+REVOKE UPDATE ON public.content_locked_segments FROM anon, authenticated;
@@ -0,0 +1,7 @@
+-- studio-media holds the Studio's unedited uploads, including the clean footage behind
+-- a published video's locked segments. It was public, so anyone with the object URL
+-- could skip the unlock. Only the owner reads it now; the editor uses signed URLs.
+-- Published videos are rendered into the media bucket and are unaffected.
+UPDATE storage.buckets SET public = false WHERE id = 'studio-media';
+
+DROP POLICY IF EXISTS "Public can view studio media" ON storage.objects;
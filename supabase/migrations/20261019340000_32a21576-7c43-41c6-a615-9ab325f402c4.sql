@@ -0,0 +1,103 @@
+-- The feed ranks live streams by viewer_count, which the host's client used to write
+-- from its presence channel, so a host could report any audience it liked. Viewers now
+-- check in themselves and the count is taken from those check-ins whenever the stream
+-- row is touched (the host's heartbeat, every 15s). Signed-out viewers still show up in
+-- the in-stream presence count but not in the stored one.
+CREATE TABLE public.live_stream_viewers (
+  stream_id UUID NOT NULL REFERENCES public.live_streams(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (stream_id, user_id)
+);
+
+CREATE INDEX idx_live_stream_viewers_seen ON public.live_stream_viewers(stream_id, last_seen_at DESC);
+
+-- Written only by touch_live_viewer and read only by the lifecycle trigger
+ALTER TABLE public.live_stream_viewers ENABLE ROW LEVEL SECURITY;
+
+-- A signed-in viewer's check-in, sent every 15s while watching. Hosts don't count
+-- towards their own audience.
+CREATE OR REPLACE FUNCTION public.touch_live_viewer(p_stream_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to be counted';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.live_streams
+    WHERE id = p_stream_id AND status = 'live' AND host_id <> v_user_id
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.live_stream_viewers (stream_id, user_id, last_seen_at)
+  VALUES (p_stream_id, v_user_id, now())
+  ON CONFLICT (stream_id, user_id) DO UPDATE SET last_seen_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.touch_live_viewer(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.touch_live_viewer(UUID) TO authenticated;
+
+-- Same lifecycle rules as before, except that viewer_count is whatever the check-ins
+-- say: viewers seen in the last 45s (three missed check-ins) while the stream is live.
+-- Runs as definer so the host's update can read the check-ins it can't see itself.
+CREATE OR REPLACE FUNCTION public.enforce_live_stream_lifecycle()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.started_at := CASE WHEN NEW.status = 'live' THEN now() ELSE NULL END;
+    NEW.ended_at := NULL;
+    NEW.viewer_count := 0;
+    NEW.peak_viewers := 0;
+    NEW.heartbeat_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'ended' AND NEW.status <> 'ended' THEN
+    RAISE EXCEPTION 'STREAM_ENDED: Stream % has already ended', OLD.id;
+  END IF;
+  IF OLD.status = 'live' AND NEW.status = 'scheduled' THEN
+    RAISE EXCEPTION 'STREAM_ALREADY_LIVE: Stream % is already live', OLD.id;
+  END IF;
+
+  NEW.host_id := OLD.host_id;
+  NEW.sfu_room := OLD.sfu_room;
+  NEW.created_at := OLD.created_at;
+  NEW.started_at := CASE
+    WHEN OLD.status = 'scheduled' AND NEW.status = 'live' THEN now()
+    ELSE OLD.started_at
+  END;
+  NEW.ended_at := CASE
+    WHEN OLD.status <> 'ended' AND NEW.status = 'ended' THEN now()
+    ELSE OLD.ended_at
+  END;
+  NEW.viewer_count := CASE
+    WHEN NEW.status = 'live' THEN (
+      SELECT count(*)::INTEGER FROM public.live_stream_viewers
+      WHERE stream_id = OLD.id AND last_seen_at > now() - interval '45 seconds'
+    )
+    ELSE 0
+  END;
+  NEW.peak_viewers := GREATEST(OLD.peak_viewers, NEW.viewer_count);
+  NEW.heartbeat_at := now();
+  NEW.updated_at := now();
+
+  -- The check-ins are only needed while the stream is live
+  IF NEW.status = 'ended' THEN
+    DELETE FROM public.live_stream_viewers WHERE stream_id = OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- atomic_request_payout takes the user id as an argument like the other balance RPCs,
+-- so it is only for request-payout (which checks KYC and the 2FA step-up first)
+REVOKE EXECUTE ON FUNCTION public.atomic_request_payout(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
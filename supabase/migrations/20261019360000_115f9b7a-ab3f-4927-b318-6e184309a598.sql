@@ -0,0 +1,53 @@
+-- Payouts check profiles.kyc_status, so users can't be allowed to set it (or the
+-- verified badge) themselves. The column grant from 20261019290000 is reissued without
+-- kyc_status and is_verified.
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (
+  avatar_url,
+  bio,
+  cover_photo_url,
+  display_name,
+  followers_count,
+  following_count,
+  phone_number,
+  phone_verified,
+  referred_by,
+  show_contributor_badges,
+  show_timed_interactions,
+  social_links,
+  total_likes,
+  total_views,
+  updated_at,
+  username
+) ON public.profiles TO authenticated;
+
+-- The profile's KYC status follows the user's submission instead. Sending documents can
+-- only move it to 'submitted'; anything further has to come from an admin's review.
+CREATE OR REPLACE FUNCTION public.sync_profile_kyc_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF public.has_role(auth.uid(), 'admin') THEN
+    UPDATE public.profiles
+    SET kyc_status = CASE NEW.status
+      WHEN 'approved' THEN 'verified'
+      WHEN 'under_review' THEN 'submitted'
+      ELSE NEW.status
+    END
+    WHERE user_id = NEW.user_id;
+  ELSIF NEW.status = 'submitted' THEN
+    UPDATE public.profiles
+    SET kyc_status = 'submitted'
+    WHERE user_id = NEW.user_id AND COALESCE(kyc_status, 'pending') IN ('pending', 'rejected');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_profile_kyc_status
+  AFTER INSERT OR UPDATE OF status ON public.kyc_submissions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_profile_kyc_status();
@@ -0,0 +1,342 @@
+-- Task rewards pay coins through the ledger, so the rows they are paid from can't be
+-- client-written any more. Clients used to insert their own user_tasks (any template,
+-- goal and period) and update progress and completion directly; rows are now created
+-- by ensure_user_tasks for the current period only, progress moves through
+-- record_task_progress, and claim_task_reward checks the row against its template.
+DROP POLICY "Users can insert their own tasks" ON public.user_tasks;
+DROP POLICY "Users can update their own tasks" ON public.user_tasks;
+REVOKE INSERT, UPDATE ON public.user_tasks FROM anon, authenticated;
+
+-- One paid claim per template per period, however many rows a period ends up with
+CREATE TABLE public.task_reward_claims (
+  user_id UUID NOT NULL,
+  template_id UUID NOT NULL REFERENCES public.task_templates(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  task_id UUID NOT NULL REFERENCES public.user_tasks(id) ON DELETE CASCADE,
+  journal_entry_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, template_id, period_start)
+);
+
+ALTER TABLE public.task_reward_claims ENABLE ROW LEVEL SECURITY;
+
+-- Written only by claim_task_reward
+CREATE POLICY "Users can view their own task claims" ON public.task_reward_claims
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The (UTC) day a template's current period started: this week's Monday for weekly
+-- tasks, today for everything else
+CREATE OR REPLACE FUNCTION public.task_period_start(p_type TEXT)
+RETURNS DATE
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT CASE
+    WHEN p_type = 'weekly' THEN date_trunc('week', now() AT TIME ZONE 'utc')::date
+    ELSE (now() AT TIME ZONE 'utc')::date
+  END;
+$$;
+
+-- Creates the signed-in user's tasks for the current period of every active template
+-- (goal taken from the template) and returns them
+CREATE OR REPLACE FUNCTION public.ensure_user_tasks()
+RETURNS SETOF public.user_tasks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to see your tasks';
+  END IF;
+
+  INSERT INTO public.user_tasks (user_id, template_id, goal, period_start)
+  SELECT v_user_id, t.id, t.goal, public.task_period_start(t.type)
+  FROM public.task_templates t
+  WHERE t.is_active
+  ON CONFLICT (user_id, template_id, period_start) DO NOTHING;
+
+  RETURN QUERY
+  SELECT ut.*
+  FROM public.user_tasks ut
+  JOIN public.task_templates t ON t.id = ut.template_id
+  WHERE ut.user_id = v_user_id
+    AND t.is_active
+    AND ut.period_start = public.task_period_start(t.type)
+  ORDER BY ut.created_at;
+END;
+$$;
+
+-- Moves one of the signed-in user's current-period tasks forward to p_progress. Progress
+-- never goes back, so an older queued update can't undo a newer one, and is capped at the
+-- template's goal. Returns false when the task isn't the user's or its period is over.
+CREATE OR REPLACE FUNCTION public.record_task_progress(p_task_id UUID, p_progress INTEGER)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_goal INTEGER;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to track tasks';
+  END IF;
+
+  SELECT t.goal INTO v_goal
+  FROM public.user_tasks ut
+  JOIN public.task_templates t ON t.id = ut.template_id
+  WHERE ut.id = p_task_id
+    AND ut.user_id = v_user_id
+    AND ut.period_start = public.task_period_start(t.type);
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.user_tasks
+  SET progress = GREATEST(progress, LEAST(v_goal, COALESCE(p_progress, 0))),
+      goal = v_goal,
+      completed = completed OR COALESCE(p_progress, 0) >= v_goal,
+      completed_at = CASE
+        WHEN NOT completed AND COALESCE(p_progress, 0) >= v_goal THEN now()
+        ELSE completed_at
+      END
+  WHERE id = p_task_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Pays out a completed task's coin reward once per template and period. Completion is
+-- checked against the template rather than the row, and only for the current period.
+-- XP is still tracked client-side in user_levels.
+CREATE OR REPLACE FUNCTION public.claim_task_reward(p_task_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_task public.user_tasks%ROWTYPE;
+  v_template public.task_templates%ROWTYPE;
+  v_reference TEXT;
+  v_result JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'UNAUTHORIZED: Sign in to claim rewards';
+  END IF;
+
+  SELECT * INTO v_task
+  FROM public.user_tasks
+  WHERE id = p_task_id AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TASK_NOT_FOUND: Task % not found', p_task_id;
+  END IF;
+
+  SELECT * INTO v_template
+  FROM public.task_templates
+  WHERE id = v_task.template_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'TASK_NOT_FOUND: Task % is no longer offered', p_task_id;
+  END IF;
+
+  IF v_task.period_start <> public.task_period_start(v_template.type) THEN
+    RAISE EXCEPTION 'TASK_EXPIRED: This task''s period is over';
+  END IF;
+
+  IF v_task.reward_claimed THEN
+    RAISE EXCEPTION 'ALREADY_CLAIMED: Reward already claimed';
+  END IF;
+
+  IF v_task.progress < v_template.goal THEN
+    RAISE EXCEPTION 'TASK_INCOMPLETE: Task is not complete yet';
+  END IF;
+
+  INSERT INTO public.task_reward_claims (user_id, template_id, period_start, task_id)
+  VALUES (v_user_id, v_template.id, v_task.period_start, p_task_id)
+  ON CONFLICT (user_id, template_id, period_start) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'ALREADY_CLAIMED: Reward already claimed';
+  END IF;
+
+  UPDATE public.user_tasks SET reward_claimed = true WHERE id = p_task_id;
+
+  IF v_template.reward_type IN ('vicoin', 'icoin') AND v_template.reward_value > 0 THEN
+    v_reference := 'task_' || p_task_id::text;
+
+    v_result := public.atomic_update_balance(
+      v_user_id,
+      v_template.reward_value,
+      v_template.reward_type,
+      'Task reward: ' || v_template.title,
+      v_reference,
+      'reward'
+    );
+
+    UPDATE public.task_reward_claims
+    SET journal_entry_id = (v_result->>'journal_entry_id')::UUID
+    WHERE user_id = v_user_id AND template_id = v_template.id AND period_start = v_task.period_start;
+
+    INSERT INTO public.transactions (user_id, type, coin_type, amount, description, reference_id)
+    VALUES (v_user_id, 'earned', v_template.reward_type, v_template.reward_value, 'Task reward: ' || v_template.title, v_reference);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'reward_type', v_template.reward_type,
+    'amount', CASE WHEN v_template.reward_type IN ('vicoin', 'icoin') THEN v_template.reward_value ELSE 0 END,
+    'xp_reward', v_template.xp_reward,
+    'new_balance', v_result->'new_balance'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_user_tasks() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ensure_user_tasks() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_task_progress(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_task_progress(UUID, INTEGER) TO authenticated;
+
+-- The offline task_complete action goes through record_task_progress like a live update
+CREATE OR REPLACE FUNCTION public.apply_offline_action(
+  p_idempotency_key UUID,
+  p_action_type TEXT,
+  p_payload JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_receipt offline_action_receipts%ROWTYPE;
+  v_status TEXT := 'applied';
+  v_reason TEXT;
+  v_target TEXT;
+  v_interaction_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_receipt
+  FROM offline_action_receipts
+  WHERE user_id = v_user_id AND idempotency_key = p_idempotency_key;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('status', v_receipt.status, 'reason', v_receipt.reason, 'duplicate', true);
+  END IF;
+
+  CASE p_action_type
+    WHEN 'like' THEN
+      v_target := p_payload->>'contentId';
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'contentId is required';
+      END IF;
+
+      -- Catalogue items use non-uuid ids and have no row to check
+      IF v_target ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        AND NOT EXISTS (
+          SELECT 1 FROM user_content
+          WHERE id = v_target::uuid AND status = 'published'
+        )
+      THEN
+        v_status := 'conflict';
+        v_reason := 'This post was removed before your like could be saved';
+      ELSE
+        SELECT id INTO v_interaction_id
+        FROM content_interactions
+        WHERE user_id = v_user_id AND content_id = v_target
+        ORDER BY created_at DESC
+        LIMIT 1;
+
+        IF v_interaction_id IS NULL THEN
+          INSERT INTO content_interactions (user_id, content_id, liked)
+          VALUES (v_user_id, v_target, true);
+        ELSE
+          UPDATE content_interactions SET liked = true WHERE id = v_interaction_id;
+        END IF;
+      END IF;
+
+    WHEN 'follow' THEN
+      v_target := p_payload->>'userId';
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'userId is required';
+      END IF;
+
+      IF v_target::uuid = v_user_id THEN
+        v_status := 'conflict';
+        v_reason := 'You can''t follow yourself';
+      ELSIF NOT EXISTS (SELECT 1 FROM profiles WHERE user_id = v_target::uuid) THEN
+        v_status := 'conflict';
+        v_reason := 'This account no longer exists';
+      ELSIF EXISTS (
+        SELECT 1 FROM blocked_users
+        WHERE (user_id = v_target::uuid AND blocked_user_id = v_user_id)
+           OR (user_id = v_user_id AND blocked_user_id = v_target::uuid)
+      ) THEN
+        v_status := 'conflict';
+        v_reason := 'You can''t follow this account';
+      ELSIF NOT EXISTS (
+        SELECT 1 FROM user_follows
+        WHERE follower_id = v_user_id AND following_id = v_target::uuid
+      ) THEN
+        INSERT INTO user_follows (follower_id, following_id)
+        VALUES (v_user_id, v_target::uuid);
+      END IF;
+
+    WHEN 'message' THEN
+      v_target := p_payload->>'conversationId';
+      IF v_target IS NULL OR coalesce(p_payload->>'content', '') = '' THEN
+        RAISE EXCEPTION 'conversationId and content are required';
+      END IF;
+
+      IF NOT EXISTS (
+        SELECT 1 FROM conversation_participants
+        WHERE conversation_id = v_target::uuid AND user_id = v_user_id
+      ) THEN
+        v_status := 'conflict';
+        v_reason := 'You''re no longer part of this conversation';
+      ELSE
+        INSERT INTO messages (conversation_id, sender_id, content, type, reply_to_id)
+        VALUES (
+          v_target::uuid,
+          v_user_id,
+          p_payload->>'content',
+          coalesce(p_payload->>'type', 'text'),
+          (p_payload->>'replyToId')::uuid
+        );
+      END IF;
+
+    WHEN 'task_complete' THEN
+      v_target := p_payload->>'taskId';
+      IF v_target IS NULL THEN
+        RAISE EXCEPTION 'taskId is required';
+      END IF;
+
+      IF NOT public.record_task_progress(v_target::uuid, (p_payload->>'progress')::int) THEN
+        v_status := 'conflict';
+        v_reason := 'This task has expired';
+      END IF;
+
+    ELSE
+      RAISE EXCEPTION 'Unsupported offline action type: %', p_action_type;
+  END CASE;
+
+  INSERT INTO offline_action_receipts (user_id, idempotency_key, action_type, status, reason)
+  VALUES (v_user_id, p_idempotency_key, p_action_type, v_status, v_reason);
+
+  RETURN jsonb_build_object('status', v_status, 'reason', v_reason, 'duplicate', false);
+END;
+$$;
+
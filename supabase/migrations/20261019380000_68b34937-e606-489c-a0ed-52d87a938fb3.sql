@@ -0,0 +1,60 @@
+-- Reconciliation rebuilt the expected balance from the activity tables, which miss
+-- ledger entries with no activity row behind them (opening balances, adjustments, task
+-- and spin rewards), so it reported, and nightly auto-corrected, drift that wasn't
+-- there. The expected balance is now what the user's wallet postings add up to, broken
+-- down by journal entry type.
+CREATE OR REPLACE FUNCTION public.reconciliation_expected_balances()
+RETURNS TABLE (
+  user_id UUID,
+  coin_type TEXT,
+  profile_balance INTEGER,
+  expected_balance INTEGER,
+  ledger_balance INTEGER,
+  breakdown JSONB
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  WITH by_source AS (
+    SELECT a.user_id, a.coin_type, je.entry_type AS source,
+      SUM(CASE WHEN lp.direction = 'credit' THEN lp.amount ELSE -lp.amount END)::int AS delta
+    FROM public.ledger_postings lp
+    JOIN public.ledger_accounts a ON a.id = lp.account_id AND a.account_type = 'user_wallet'
+    JOIN public.ledger_journal_entries je ON je.id = lp.journal_entry_id
+    GROUP BY a.user_id, a.coin_type, je.entry_type
+  )
+  SELECT
+    p.user_id,
+    c.coin_type,
+    (CASE WHEN c.coin_type = 'vicoin' THEN COALESCE(p.vicoin_balance, 0) ELSE COALESCE(p.icoin_balance, 0) END)::int,
+    COALESCE(SUM(s.delta), 0)::int,
+    a.balance,
+    COALESCE(jsonb_object_agg(s.source, s.delta) FILTER (WHERE s.source IS NOT NULL), '{}'::jsonb)
+  FROM public.profiles p
+  CROSS JOIN (VALUES ('vicoin'), ('icoin')) AS c(coin_type)
+  LEFT JOIN by_source s ON s.user_id = p.user_id AND s.coin_type = c.coin_type
+  LEFT JOIN public.ledger_accounts a ON a.user_id = p.user_id AND a.coin_type = c.coin_type
+  GROUP BY p.user_id, c.coin_type, p.vicoin_balance, p.icoin_balance, a.balance
+  ORDER BY p.user_id, c.coin_type;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconciliation_expected_balances() FROM PUBLIC, anon, authenticated;
+
+-- The nightly run only reports; corrections go through admin_correct_balance_drift.
+-- Scheduling under the same name replaces the existing job.
+SELECT cron.schedule(
+  'reconcile-balances-nightly',
+  '0 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://tjykxqhliywnmelyuscn.supabase.co/functions/v1/reconcile-balances',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"autoCorrect": false}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,89 @@
+-- Campaign budgets were never paid for: any signed-in user could open a campaign and
+-- every coin reward was issued out of its own 'campaign:<id>' account. Campaigns are
+-- now for business accounts only, and a coin campaign's budget is held in that account
+-- out of the business's wallet. funded is what the business has paid in, net of
+-- refunds: the budget while the campaign can still pay out, what it actually spent once
+-- it has expired or completed (or is deleted).
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'business';
+
+ALTER TABLE public.ledger_journal_entries DROP CONSTRAINT IF EXISTS ledger_journal_entries_entry_type_check;
+ALTER TABLE public.ledger_journal_entries ADD CONSTRAINT ledger_journal_entries_entry_type_check
+  CHECK (entry_type IN ('opening_balance', 'reward', 'checkin', 'tip', 'gift', 'conversion', 'payout', 'adjustment', 'campaign_funding'));
+
+ALTER TABLE public.campaigns
+ADD COLUMN funded INTEGER NOT NULL DEFAULT 0 CHECK (funded >= 0);
+
+-- Coin campaigns that are still running were never funded. They stop paying out until
+-- the business resumes them, which charges the full budget.
+UPDATE public.campaigns
+SET status = 'paused', pause_reason = 'unfunded'
+WHERE status = 'active' AND reward_type IN ('vicoin', 'icoin');
+
+-- Moves the difference between what a campaign should hold and what it has been funded
+-- with between the business's wallet and the campaign account. Runs inside the write
+-- itself, so a business without the coins can't create or raise the campaign.
+CREATE OR REPLACE FUNCTION public.fund_campaign_budget()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_campaign public.campaigns%ROWTYPE;
+  v_target INTEGER;
+  v_delta INTEGER;
+  v_wallet_id UUID;
+  v_escrow_id UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_campaign := OLD;
+    v_target := OLD.spent;
+  ELSE
+    v_campaign := NEW;
+    v_target := CASE WHEN NEW.status IN ('expired', 'completed') THEN NEW.spent ELSE NEW.budget END;
+  END IF;
+
+  IF v_campaign.reward_type NOT IN ('vicoin', 'icoin') THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    NEW.funded := 0;
+    RETURN NEW;
+  END IF;
+
+  v_delta := v_target - CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.funded END;
+
+  IF v_delta <> 0 THEN
+    PERFORM pg_advisory_xact_lock(hashtext('balance_' || v_campaign.business_id::text));
+
+    v_wallet_id := public.ledger_user_account(v_campaign.business_id, v_campaign.reward_type);
+    v_escrow_id := public.ledger_system_account('campaign:' || v_campaign.id::text, v_campaign.reward_type);
+
+    PERFORM public.post_journal_entry(
+      'campaign_funding',
+      CASE WHEN v_delta > 0 THEN 'Campaign budget: ' ELSE 'Campaign budget returned: ' END || v_campaign.title,
+      'campaign_' || v_campaign.id::text,
+      jsonb_build_array(
+        jsonb_build_object('account_id', CASE WHEN v_delta > 0 THEN v_wallet_id ELSE v_escrow_id END, 'direction', 'debit', 'amount', abs(v_delta)),
+        jsonb_build_object('account_id', CASE WHEN v_delta > 0 THEN v_escrow_id ELSE v_wallet_id END, 'direction', 'credit', 'amount', abs(v_delta))
+      ),
+      jsonb_build_object('campaign_id', v_campaign.id)
+    );
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  NEW.funded := v_target;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER fund_campaign_budget
+  BEFORE INSERT OR UPDATE OR DELETE ON public.campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.fund_campaign_budget();
+
+-- Budgets and spend are the business's own figures; nothing client-side lists other
+-- businesses' campaigns (rewards are matched to campaigns server-side)
+DROP POLICY "Anyone can view active campaigns" ON public.campaigns;
@@ -0,0 +1,63 @@
+-- Attention sessions were recorded with a NULL source_id, which the (kind, source_id)
+-- index never treats as a conflict, so every call to validate-attention added another
+-- row to a promotion's attention minutes. A viewer is paid for a promotion once
+-- (reward_logs is unique per user and content), so attention is now kept once per
+-- viewer and promotion too: the source_id is derived from the two, and a repeat session
+-- can only raise the recorded seconds, never add to them.
+CREATE OR REPLACE FUNCTION public.record_promotion_activity(
+  p_promotion_id UUID,
+  p_kind TEXT,
+  p_user_id UUID,
+  p_source_id UUID DEFAULT NULL,
+  p_coins INTEGER DEFAULT 0,
+  p_attention_seconds NUMERIC DEFAULT 0,
+  p_occurred_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_business_id UUID;
+  v_viewer_hash TEXT;
+BEGIN
+  SELECT business_id INTO v_business_id FROM public.promotions WHERE id = p_promotion_id;
+
+  IF v_business_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_viewer_hash := md5(v_business_id::text || ':' || p_user_id::text);
+
+  INSERT INTO public.promotion_activity (promotion_id, business_id, kind, source_id, viewer_hash, coins, attention_seconds, occurred_at)
+  VALUES (
+    p_promotion_id,
+    v_business_id,
+    p_kind,
+    CASE
+      WHEN p_kind = 'attention' THEN md5('attention:' || p_promotion_id::text || ':' || v_viewer_hash)::uuid
+      ELSE p_source_id
+    END,
+    v_viewer_hash,
+    COALESCE(p_coins, 0),
+    COALESCE(p_attention_seconds, 0),
+    p_occurred_at
+  )
+  ON CONFLICT (kind, source_id) DO UPDATE
+  SET coins = EXCLUDED.coins,
+      attention_seconds = GREATEST(promotion_activity.attention_seconds, EXCLUDED.attention_seconds);
+END;
+$$;
+
+-- Collapse the sessions already recorded to the longest one per viewer and promotion
+DELETE FROM public.promotion_activity a
+USING public.promotion_activity b
+WHERE a.kind = 'attention' AND b.kind = 'attention'
+  AND a.source_id IS NULL AND b.source_id IS NULL
+  AND a.promotion_id = b.promotion_id AND a.viewer_hash = b.viewer_hash
+  AND (a.attention_seconds, a.id) < (b.attention_seconds, b.id);
+
+UPDATE public.promotion_activity
+SET source_id = md5('attention:' || promotion_id::text || ':' || viewer_hash)::uuid
+WHERE kind = 'attention' AND source_id IS NULL;
@@ -0,0 +1,46 @@
+-- request-payout and transfer-coins used to consume the 2FA step-up in its own call
+-- before running the payout or conversion, so a request that then failed (balance,
+-- KYC, limits) still used the grant up and the user had to verify again. These run
+-- both in one transaction: the grant is only spent if the action goes through.
+CREATE OR REPLACE FUNCTION public.request_payout_with_step_up(
+  p_user_id UUID,
+  p_amount INTEGER,
+  p_coin_type TEXT,
+  p_method TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT public.consume_step_up(p_user_id, 'payout') THEN
+    RAISE EXCEPTION 'STEP_UP_REQUIRED: Two-factor verification required';
+  END IF;
+
+  RETURN public.atomic_request_payout(p_user_id, p_amount, p_coin_type, p_method);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.convert_coins_with_step_up(
+  p_user_id UUID,
+  p_icoin_amount INTEGER,
+  p_exchange_rate INTEGER DEFAULT 10
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NOT public.consume_step_up(p_user_id, 'transfer') THEN
+    RAISE EXCEPTION 'STEP_UP_REQUIRED: Two-factor verification required';
+  END IF;
+
+  RETURN public.atomic_convert_coins(p_user_id, p_icoin_amount, p_exchange_rate);
+END;
+$$;
+
+-- Service role only, like the functions they wrap
+REVOKE EXECUTE ON FUNCTION public.request_payout_with_step_up(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.convert_coins_with_step_up(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
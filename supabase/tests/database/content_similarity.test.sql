@@ -0,0 +1,80 @@
+-- Deterministic checks for rebuild_content_similarity() on a seeded fixture.
+-- Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(9);
+
+-- Start from an empty interaction log; everything below is rolled back
+DELETE FROM public.content_interactions;
+
+-- The fixture includes a repeat interaction, which the unique key would reject
+ALTER TABLE public.content_interactions DROP CONSTRAINT content_interactions_user_id_content_id_key;
+
+-- Ratings: full watch with full attention = 0.7, plus a like = 0.9, half watch = 0.35,
+-- mostly skipped = 0 (dropped)
+INSERT INTO public.content_interactions
+  (user_id, content_id, watch_completion_rate, attention_score, liked, skipped, created_at)
+VALUES
+  -- u1 watched A twice; only the stronger rating may count
+  ('00000000-0000-0000-0000-000000000001', 'item-a', 50, 50, false, false, now() - INTERVAL '10 hours'),
+  ('00000000-0000-0000-0000-000000000001', 'item-a', 100, 100, false, false, now() - INTERVAL '9 hours'),
+  ('00000000-0000-0000-0000-000000000001', 'item-b', 100, 100, true, false, now() - INTERVAL '8 hours'),
+  ('00000000-0000-0000-0000-000000000002', 'item-a', 100, 100, false, false, now() - INTERVAL '7 hours'),
+  ('00000000-0000-0000-0000-000000000002', 'item-b', 100, 100, false, false, now() - INTERVAL '6 hours'),
+  ('00000000-0000-0000-0000-000000000003', 'item-a', 100, 100, false, false, now() - INTERVAL '5 hours'),
+  ('00000000-0000-0000-0000-000000000003', 'item-b', 100, 100, false, false, now() - INTERVAL '4 hours'),
+  ('00000000-0000-0000-0000-000000000003', 'item-c', 100, 100, false, false, now() - INTERVAL '3 hours'),
+  ('00000000-0000-0000-0000-000000000004', 'item-c', 100, 100, false, false, now() - INTERVAL '2 hours'),
+  ('00000000-0000-0000-0000-000000000004', 'item-d', 20, 0, false, true, now() - INTERVAL '1 hour'),
+  ('00000000-0000-0000-0000-000000000005', 'item-b', 100, 100, false, false, now() - INTERVAL '2 hours'),
+  ('00000000-0000-0000-0000-000000000005', 'item-c', 100, 100, false, false, now() - INTERVAL '1 hour'),
+  -- Outside the default 90-day window: would otherwise pair D with A and B
+  ('00000000-0000-0000-0000-000000000002', 'item-d', 100, 100, false, false, now() - INTERVAL '200 days'),
+  ('00000000-0000-0000-0000-000000000003', 'item-d', 100, 100, false, false, now() - INTERVAL '200 days');
+
+SELECT is(public.rebuild_content_similarity(), 4, 'rebuild stores both directions of the two qualifying pairs');
+
+SELECT results_eq(
+  $$ SELECT content_id, similar_content_id, co_users FROM public.content_similarity ORDER BY 1, 2 $$,
+  $$ VALUES ('item-a', 'item-b', 3), ('item-b', 'item-a', 3), ('item-b', 'item-c', 2), ('item-c', 'item-b', 2) $$,
+  'repeat views count once, A-C has too little overlap and stale or skipped views are ignored'
+);
+
+-- cos(A, B) = 1.61 / sqrt(1.47 * 2.28), shrunk by 3 / (3 + 5)
+SELECT ok(
+  abs(score - 0.329785) < 0.000002,
+  'A-B score is the shrunk cosine of the per-user ratings'
+) FROM public.content_similarity WHERE content_id = 'item-a' AND similar_content_id = 'item-b';
+
+-- cos(B, C) = 0.98 / sqrt(2.28 * 1.47), shrunk by 2 / (2 + 5)
+SELECT ok(
+  abs(score - 0.152944) < 0.000002,
+  'B-C score is the shrunk cosine of the per-user ratings'
+) FROM public.content_similarity WHERE content_id = 'item-b' AND similar_content_id = 'item-c';
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.content_similarity a
+     JOIN public.content_similarity b ON b.content_id = a.similar_content_id AND b.similar_content_id = a.content_id
+     WHERE a.score <> b.score $$,
+  'similarity is symmetric'
+);
+
+-- Same input, same output
+CREATE TEMP TABLE first_run AS SELECT content_id, similar_content_id, score, co_users FROM public.content_similarity;
+SELECT public.rebuild_content_similarity();
+SELECT set_eq(
+  $$ SELECT content_id, similar_content_id, score, co_users FROM public.content_similarity $$,
+  $$ SELECT * FROM first_run $$,
+  'rebuilding the same interactions gives the same table'
+);
+
+SELECT is(public.rebuild_content_similarity(p_min_co_users => 3), 2, 'a higher co-user minimum keeps only A-B');
+
+SELECT is(public.rebuild_content_similarity(p_neighbours => 1), 3, 'B keeps only its strongest neighbour');
+
+-- Each user's single most recent item can't form a pair
+SELECT is(public.rebuild_content_similarity(p_max_per_user => 1), 0, 'keeping one item per user leaves no pairs');
+
+SELECT * FROM finish();
+ROLLBACK;
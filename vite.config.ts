@@ -48,7 +48,21 @@ export default defineConfig(({ mode }) => ({
       workbox: {
         maximumFileSizeToCacheInBytes: 5 * 1024 * 1024, // 5 MB limit
         globPatterns: ["**/*.{js,css,html,ico,png,svg,woff2}"],
+        // Serves videos downloaded for offline viewing, with Range support
+        importScripts: ["offline-video-sw.js"],
         runtimeCaching: [
+          {
+            // Thumbnails and images on feed pages restored from cacheUtils while offline
+            urlPattern: /^https:\/\/[a-z0-9]+\.supabase\.co\/storage\/v1\/object\/public\/.*\.(?:png|jpe?g|webp|gif)$/i,
+            handler: "CacheFirst",
+            options: {
+              cacheName: "storage-images",
+              expiration: {
+                maxEntries: 200,
+                maxAgeSeconds: 60 * 60 * 24 * 7, // 7 days
+              },
+            },
+          },
           {
             urlPattern: /^https:\/\/images\.unsplash\.com\/.*/i,
             handler: "CacheFirst",